@@ -5,7 +5,7 @@ import { auth } from './services/auth';
 import { db } from './services/database';
 import { storage } from './services/storage';
 import { ICONS, COLORS } from './constants';
-import { EditionType, User, SavedClip, GroundingLink, ChatMessage } from './types';
+import { EditionType, User, SavedClip, GroundingLink, SourcingQuality, Citation, ChatMessage, GenerationStage, AudioQuality, AUDIO_SAMPLE_RATES, Chapter, TranscriptTurn, Story, EpisodeFormat, EPISODE_FORMAT_OPTIONS, DEFAULT_EPISODE_FORMAT, LANGUAGE_OPTIONS, REGION_OPTIONS } from './types';
 import AudioVisualizer from './components/AudioVisualizer';
 import { translations } from './translations';
 import LoginScreen from './components/auth/LoginScreen';
@@ -13,18 +13,39 @@ import SignupScreen from './components/auth/SignupScreen';
 import type { User as SupabaseUser } from '@supabase/supabase-js';
 import { backend } from './services/backend';
 import QuotaDisplay from './components/QuotaDisplay';
+import PodcastFeedCard from './components/PodcastFeedCard';
 import UpgradeModal from './components/UpgradeModal';
 import PricingPage from './components/PricingPage';
 import VoiceSelector from './components/VoiceSelector';
 import BroadcastTuner from './components/BroadcastTuner';
+import TranscriptPanel from './components/TranscriptPanel';
+import TopicChannelEditor from './components/TopicChannelEditor';
+import StoryList from './components/StoryList';
+import StorySearch from './components/StorySearch';
+import { SourceBadges, SourcingScore } from './components/SourceRating';
+import CitedText, { splitCitations } from './components/CitedText';
+import EditionAlerts from './components/EditionAlerts';
+import EmailDigestSelect from './components/EmailDigestSelect';
+import { push } from './services/push';
+import type { DigestSubscription, EditionFollow, TopicChannel } from './services/supabase';
+import { currentEdition, normalizeLanguage, normalizeRegion } from './supabase/functions/shared/locales.ts';
 
 interface DailyData {
   text: string;
+  stories?: Story[]; // Structured briefing; older editions only have text
   script: string;
   audio: string | null;
+  audioDuration?: number | null; // Seconds, from the encoded episode
+  audioQuality?: AudioQuality | null;
+  audioSampleRate?: number | null; // Hz of the stored episode (48000 for Pro)
+  chapters?: Chapter[]; // Story start times within the audio
+  transcript?: TranscriptTurn[]; // Spoken turns with their times in the audio
   links: GroundingLink[];
+  sourcingQuality?: SourcingQuality | null; // Credibility score of the grounding links
+  citations?: Citation[]; // Briefing sentences and the links that back them
   imageUrl: string | null;
   flashSummary?: string;
+  breakingTopic?: string | null; // The spiking topic, on Breaking bulletins
   chatHistory?: ChatMessage[];
   date?: string; // Added date for daily reset check
   // Phase 3: Voice Variants
@@ -32,6 +53,8 @@ interface DailyData {
   scriptReady?: boolean;
   voiceVariantsAvailable?: string[];
   voiceVariantsGeneratedCount?: number;
+  // True while artifacts are still arriving over the edition stream
+  streaming?: boolean;
 }
 
 // Convert base64 audio to blob URL for playback
@@ -71,9 +94,27 @@ const createAudioBlobUrl = (base64Audio: string): string => {
 
 const VOX_EDITIONS_KEY = 'vox_daily_editions_v3'; // Incremented for new structure
 
-// Helper function to create unique edition keys
-const getEditionKey = (type: EditionType, region: string, language: string) =>
-  `${type}-${region}-${language}`;
+// Helper function to create unique edition keys (topic channels get one edition per channel).
+// Other formats get a suffix so default (classic) keys stay the same as before formats existed.
+const getEditionKey = (type: EditionType, region: string, language: string, channelId?: string | null, format: EpisodeFormat = DEFAULT_EPISODE_FORMAT) =>
+  (channelId ? `${EditionType.CHANNEL}:${channelId}-${region}-${language}` : `${type}-${region}-${language}`) +
+  (format === DEFAULT_EPISODE_FORMAT ? '' : `-${format}`);
+
+// Edition alerts open /?edition=...&region=...&language=... (editionDeepLink in shared/push.ts)
+const readEditionDeepLink = () => {
+  const params = new URLSearchParams(window.location.search);
+  const edition = params.get('edition') as EditionType | null;
+  if (!edition || ![EditionType.MORNING, EditionType.MIDDAY, EditionType.EVENING].includes(edition)) return null;
+  return { edition, region: normalizeRegion(params.get('region')), language: normalizeLanguage(params.get('language')) };
+};
+
+// The PDF export writes into a same-origin window, so web-sourced text must not become markup
+const escapeHtml = (value: string) => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&#39;');
 
 const STORIES = {
   broadcast: [
@@ -100,9 +141,23 @@ const STORIES = {
   ]
 };
 
+// Real progress for async edition jobs: where the bar sits and what it says at each stage
+const GENERATION_STAGES: Record<GenerationStage, { progress: number; label: string }> = {
+  queued: { progress: 5, label: "Synchronizing Satellite Uplink..." },
+  researching: { progress: 15, label: "Scanning Global News Feeds..." },
+  scripting: { progress: 45, label: "Synthesizing Narrative Script..." },
+  art: { progress: 65, label: "Rendering Cover Transmission..." },
+  summary: { progress: 80, label: "Distilling Flash Briefing..." },
+  audio: { progress: 90, label: "Generating Audio Stream..." },
+  complete: { progress: 100, label: "Establishing Secure Transmission..." },
+};
+
 // ==================== HELPER COMPONENTS ====================
 
-const RichText: React.FC<{ text: string; language: string }> = ({ text, language }) => {
+// Citations add [n] markers after the sentences they back, linking to the nth source
+type CitationProps = { citations?: Citation[]; links?: GroundingLink[] };
+
+const RichText: React.FC<{ text: string; language: string } & CitationProps> = ({ text, language, citations, links }) => {
   const lines = text.split('\n');
 
   return (
@@ -136,7 +191,7 @@ const RichText: React.FC<{ text: string; language: string }> = ({ text, language
                 {parts.map((part, index) =>
                   part.startsWith('**') && part.endsWith('**')
                     ? <strong key={index} className="font-bold text-white drop-shadow-sm">{part.slice(2, -2)}</strong>
-                    : part
+                    : <CitedText key={index} text={part} citations={citations} links={links} />
                 )}
               </p>
             </div>
@@ -150,7 +205,7 @@ const RichText: React.FC<{ text: string; language: string }> = ({ text, language
             {parts.map((part, index) =>
               part.startsWith('**') && part.endsWith('**')
                 ? <strong key={index} className="font-bold text-white drop-shadow-sm">{part.slice(2, -2)}</strong>
-                : part
+                : <CitedText key={index} text={part} citations={citations} links={links} />
             )}
           </p>
         );
@@ -288,6 +343,10 @@ const BroadcastStage: React.FC<{
         className="absolute inset-0 w-full h-full object-cover transition-transform duration-[20s] ease-linear scale-100 group-hover:scale-110"
         alt="Broadcast Cover"
       />
+      {/* Cover art is still rendering while the edition streams in */}
+      {daily.streaming && !daily.imageUrl && (
+        <div className="absolute inset-0 bg-zinc-900/70 animate-pulse" />
+      )}
 
       {/* Cinematic Gradient Overlays */}
       <div className="absolute inset-0 bg-gradient-to-t from-black via-black/40 to-transparent opacity-90" />
@@ -299,8 +358,10 @@ const BroadcastStage: React.FC<{
         {/* Top Badge */}
         <div className="absolute top-8 left-8 md:top-12 md:left-12 flex items-center gap-3">
           <div className="px-4 py-2 bg-black/50 backdrop-blur-xl border border-white/10 rounded-full flex items-center gap-2">
-            <div className="w-2 h-2 bg-red-500 rounded-full animate-pulse" />
-            <span className="text-[10px] font-black uppercase tracking-widest text-white">Live Intelligence</span>
+            <div className={`w-2 h-2 rounded-full animate-pulse ${daily.streaming ? 'bg-amber-400' : 'bg-red-500'}`} />
+            <span className="text-[10px] font-black uppercase tracking-widest text-white">
+              {daily.streaming ? 'Receiving Broadcast' : 'Live Intelligence'}
+            </span>
           </div>
         </div>
 
@@ -311,6 +372,10 @@ const BroadcastStage: React.FC<{
             <span className="text-xs font-mono uppercase tracking-[0.2em]">{activeTab} // {region}</span>
           </div>
 
+          {daily.breakingTopic && (
+            <p className="text-sm font-black uppercase tracking-widest text-red-400">🚨 {daily.breakingTopic}</p>
+          )}
+
           <h1 className="text-4xl md:text-6xl lg:text-7xl font-serif font-bold text-white leading-[0.9] tracking-tight text-shadow-lg">
             The Daily<br />Briefing
           </h1>
@@ -352,7 +417,8 @@ const BroadcastStage: React.FC<{
 
             <button
               onClick={onSave}
-              className="group flex items-center gap-3 pl-2"
+              disabled={daily.streaming}
+              className="group flex items-center gap-3 pl-2 disabled:opacity-40"
             >
               <div className="w-10 h-10 rounded-full bg-white/10 border border-white/20 flex items-center justify-center group-hover:bg-violet-600 group-hover:border-violet-600 transition-all">
                 <span className="text-base">💾</span>
@@ -442,18 +508,23 @@ const Toast: React.FC<{ message: string; visible: boolean; onHide: () => void }>
 // Enhanced Audio Player Component - Handles both URLs and base64
 const AudioPlayer: React.FC<{
   audioData: string | null;
+  durationHint?: number | null; // Known length, shown before the file's metadata loads
+  chapters?: Chapter[];
   clipId: string;
   isPlaying: boolean;
   onPlayPause: () => void;
   onEnded?: () => void;
-}> = ({ audioData, clipId, isPlaying, onPlayPause, onEnded }) => {
+  onTimeUpdate?: (seconds: number) => void;
+  seekRequest?: { time: number } | null; // A new object seeks, even to the same time
+}> = ({ audioData, durationHint, chapters = [], clipId, isPlaying, onPlayPause, onEnded, onTimeUpdate, seekRequest }) => {
   const audioRef = useRef<HTMLAudioElement>(null);
   const [audioSrc, setAudioSrc] = useState<string | null>(null);
   const [currentTime, setCurrentTime] = useState(0);
-  const [duration, setDuration] = useState(0);
+  const [duration, setDuration] = useState(durationHint || 0);
 
   useEffect(() => {
     if (!audioData) return;
+    onTimeUpdate?.(0);  // New audio: anything following playback starts over
     if (audioData.startsWith('http')) {
       setAudioSrc(audioData);
     } else {
@@ -479,21 +550,52 @@ const AudioPlayer: React.FC<{
     audioRef.current.currentTime = ((e.clientX - rect.left) / rect.width) * duration;
   };
 
+  const seekTo = (seconds: number) => {
+    if (!audioRef.current) return;
+    audioRef.current.currentTime = seconds;
+    setCurrentTime(seconds);
+    onTimeUpdate?.(seconds);
+  };
+
+  // Only requests made after this player mounted; an older one belongs to different audio
+  const handledSeek = useRef(seekRequest);
+  useEffect(() => {
+    if (!seekRequest || seekRequest === handledSeek.current) return;
+    handledSeek.current = seekRequest;
+    seekTo(seekRequest.time);
+  }, [seekRequest]);
+
   const fmt = (s: number) => `${Math.floor(s / 60)}:${String(Math.floor(s % 60)).padStart(2, '0')}`;
 
   if (!audioSrc) return null;
 
   const progress = duration ? (currentTime / duration) * 100 : 0;
+  const chapterIndex = chapters.reduce((current, chapter, i) => (currentTime >= chapter.start ? i : current), 0);
 
-  return (
-    <div className="flex items-center gap-3.5 w-full max-w-xs">
+  // Like a CD player: "previous" restarts the current story unless it only just began
+  const skipBack = () => {
+    const chapter = chapters[chapterIndex];
+    const restart = currentTime - chapter.start > 3 || chapterIndex === 0;
+    seekTo(restart ? chapter.start : chapters[chapterIndex - 1].start);
+  };
+
+  const player = (
+    <div className="flex items-center gap-3.5 w-full">
       <audio
         ref={audioRef}
         src={audioSrc}
         preload="metadata"
         onEnded={onEnded}
-        onTimeUpdate={() => audioRef.current && setCurrentTime(audioRef.current.currentTime)}
-        onLoadedMetadata={() => audioRef.current && setDuration(audioRef.current.duration)}
+        onTimeUpdate={() => {
+          if (!audioRef.current) return;
+          setCurrentTime(audioRef.current.currentTime);
+          onTimeUpdate?.(audioRef.current.currentTime);
+        }}
+        onLoadedMetadata={() => {
+          // Streamed files can report Infinity until fully buffered; keep the known length then
+          const loaded = audioRef.current?.duration;
+          if (loaded && Number.isFinite(loaded)) setDuration(loaded);
+        }}
       />
       <button
         onClick={onPlayPause}
@@ -503,12 +605,19 @@ const AudioPlayer: React.FC<{
       </button>
       <div className="flex-1 space-y-1.5 min-w-0">
         <div
-          className="w-full h-1 bg-zinc-800 rounded-full cursor-pointer group"
+          className="w-full h-1 bg-zinc-800 rounded-full cursor-pointer group relative"
           onClick={handleSeek}
         >
           <div className="h-full bg-violet-600 rounded-full relative" style={{ width: `${progress}%` }}>
             <div className="absolute right-0 top-1/2 -translate-y-1/2 -translate-x-1/2 w-2.5 h-2.5 bg-white rounded-full shadow opacity-0 group-hover:opacity-100 transition-opacity" />
           </div>
+          {duration > 0 && chapters.slice(1).map(chapter => (
+            <div
+              key={chapter.start}
+              className="absolute top-0 w-0.5 h-1 bg-zinc-950"
+              style={{ left: `${(chapter.start / duration) * 100}%` }}
+            />
+          ))}
         </div>
         <div className="flex justify-between text-[10px] text-zinc-600 font-mono">
           <span>{fmt(currentTime)}</span>
@@ -517,6 +626,49 @@ const AudioPlayer: React.FC<{
       </div>
     </div>
   );
+
+  if (chapters.length < 2) return <div className="w-full max-w-xs">{player}</div>;
+
+  return (
+    <div className="w-full max-w-xs space-y-3">
+      {player}
+      <div className="flex items-center gap-2">
+        <button
+          onClick={skipBack}
+          title="Previous story"
+          className="p-1.5 text-zinc-500 hover:text-white transition-colors"
+        >
+          <ICONS.SkipBack className="w-3.5 h-3.5" />
+        </button>
+        <p className="flex-1 text-center text-[10px] font-black uppercase tracking-widest text-violet-400 truncate">
+          {chapters[chapterIndex].title}
+        </p>
+        <button
+          onClick={() => seekTo(chapters[chapterIndex + 1].start)}
+          disabled={chapterIndex >= chapters.length - 1}
+          title="Next story"
+          className="p-1.5 text-zinc-500 hover:text-white transition-colors disabled:opacity-30 disabled:hover:text-zinc-500"
+        >
+          <ICONS.SkipForward className="w-3.5 h-3.5" />
+        </button>
+      </div>
+      <ol className="space-y-1">
+        {chapters.map((chapter, i) => (
+          <li key={chapter.start}>
+            <button
+              onClick={() => seekTo(chapter.start)}
+              className={`w-full flex items-center gap-3 px-2 py-1 rounded-lg text-left text-xs transition-colors ${
+                i === chapterIndex ? 'bg-violet-600/10 text-white' : 'text-zinc-500 hover:text-zinc-300'
+              }`}
+            >
+              <span className="font-mono text-[10px] text-zinc-600">{fmt(chapter.start)}</span>
+              <span className="truncate">{chapter.title}</span>
+            </button>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
 };
 
 // Progress Bar Component
@@ -525,7 +677,8 @@ const ProgressBar: React.FC<{
   status: string;
   story?: string[];
   estimatedDuration?: number;
-}> = ({ loading, status, story, estimatedDuration = 25000 }) => {
+  stage?: GenerationStage | null;
+}> = ({ loading, status, story, estimatedDuration = 25000, stage }) => {
   const [progress, setProgress] = useState(0);
   const [storyIndex, setStoryIndex] = useState(0);
 
@@ -536,6 +689,12 @@ const ProgressBar: React.FC<{
       return;
     }
 
+    // A job reporting its stage drives the bar directly — no timed animation
+    if (stage) {
+      setProgress(GENERATION_STAGES[stage].progress);
+      return;
+    }
+
     const startTime = Date.now();
     const interval = setInterval(() => {
       const elapsed = Date.now() - startTime;
@@ -555,11 +714,13 @@ const ProgressBar: React.FC<{
       clearInterval(interval);
       if (storyInterval) clearInterval(storyInterval);
     };
-  }, [loading, estimatedDuration, story]);
+  }, [loading, estimatedDuration, story, stage]);
 
   if (!loading) return null;
 
-  const currentStatus = story && story.length > 0 ? story[storyIndex] : status;
+  const currentStatus = stage
+    ? GENERATION_STAGES[stage].label
+    : story && story.length > 0 ? story[storyIndex] : status;
 
   return (
     <div className="fixed top-0 left-0 right-0 z-[60] bg-zinc-950/95 backdrop-blur-xl border-b border-violet-600/30">
@@ -585,7 +746,7 @@ const ProgressBar: React.FC<{
 
 // Expandable Research Display
 const ResearchDisplay: React.FC<{
-  result: { text: string; grounding: GroundingLink[] };
+  result: { text: string; grounding: GroundingLink[]; sourcingQuality?: SourcingQuality | null; citations?: Citation[] };
   language: string;
 }> = ({ result, language }) => {
   const [expanded, setExpanded] = useState(false);
@@ -595,7 +756,7 @@ const ResearchDisplay: React.FC<{
       <h4 className="text-2xl font-serif font-bold">Research Dossier</h4>
 
       <div className={`text-sm text-zinc-400 border-l border-zinc-800 pl-4 italic ${expanded ? '' : 'line-clamp-10'}`}>
-        <RichText text={result.text} language={language} />
+        <RichText text={result.text} language={language} citations={result.citations} links={result.grounding} />
       </div>
 
       {result.text.split('\n').length > 10 && (
@@ -609,7 +770,10 @@ const ResearchDisplay: React.FC<{
 
       {result.grounding && result.grounding.length > 0 && (
         <div className="space-y-3">
-          <h5 className="text-sm font-bold text-zinc-500 uppercase tracking-widest">Verified Sources</h5>
+          <div className="flex items-center justify-between gap-3">
+            <h5 className="text-sm font-bold text-zinc-500 uppercase tracking-widest">Verified Sources</h5>
+            <SourcingScore quality={result.sourcingQuality} />
+          </div>
           <div className="space-y-2">
             {result.grounding.map((link, i) => (
               <a
@@ -619,8 +783,11 @@ const ResearchDisplay: React.FC<{
                 rel="noopener noreferrer"
                 className="block p-3 bg-zinc-900/50 border border-zinc-800 rounded-xl hover:border-violet-600/50 transition-all group"
               >
-                <p className="text-xs font-bold text-white group-hover:text-violet-400 truncate">{link.title}</p>
+                <p className="text-xs font-bold text-white group-hover:text-violet-400 truncate">
+                  <span className="font-mono text-violet-500 mr-2">[{i + 1}]</span>{link.title}
+                </p>
                 <p className="text-[10px] text-zinc-600 truncate">{link.uri}</p>
+                {link.credibility && <div className="mt-2"><SourceBadges link={link} /></div>}
               </a>
             ))}
           </div>
@@ -650,7 +817,7 @@ const InterrogationHub = React.forwardRef<
   const chatEndRef = useRef<HTMLDivElement>(null);
   const recognitionRef = useRef<any>(null);
 
-  const speechLang = language === 'Spanish' ? 'es-ES' : 'en-US';
+  const speechLang = LANGUAGE_OPTIONS.find(l => l.id === language)?.speechLocale ?? 'en-US';
 
   const handleAsk = async (explicitQuestion?: string) => {
     const q = explicitQuestion || question;
@@ -806,7 +973,7 @@ const InterrogationHub = React.forwardRef<
                 <span className="text-violet-600 font-mono text-2xl mt-1 select-none">&gt;</span>
                 <textarea
                   rows={1}
-                  placeholder={listening ? (language === 'Spanish' ? 'Interceptando Audio...' : 'Intercepting Audio...') : 'Enter manual interrogation command...'}
+                  placeholder={listening ? t.interceptingAudio : 'Enter manual interrogation command...'}
                   className="w-full bg-transparent py-2 text-lg md:text-xl font-mono text-white focus:outline-none placeholder:text-zinc-700 resize-none min-h-[44px] custom-scrollbar"
                   value={question}
                   onChange={(e) => {
@@ -888,7 +1055,7 @@ const InterrogationHub = React.forwardRef<
 // Share Modal Component
 // Enhanced Share Modal with Beautiful PDF Export
 const ShareModal: React.FC<{
-  clip: { title: string; imageUrl: string | null; audio: string | null; text: string };
+  clip: { title: string; imageUrl: string | null; audio: string | null; text: string; links?: GroundingLink[]; citations?: Citation[] };
   language: string;
   onClose: () => void;
 }> = ({ clip, language, onClose }) => {
@@ -901,6 +1068,12 @@ const ShareModal: React.FC<{
       return;
     }
 
+    // Cited sentences get a numbered marker pointing into the Sources list
+    const cite = (text: string) => splitCitations(text, clip.citations)
+      .map(segment => escapeHtml(segment.text) + segment.sources.map(source => `<sup class="cite">[${source + 1}]</sup>`).join(''))
+      .join('');
+    const links = clip.links || [];
+
     // Create beautiful HTML for PDF
     const htmlContent = `
 <!DOCTYPE html>
@@ -1041,6 +1214,37 @@ const ShareModal: React.FC<{
       font-size: 20px;
     }
     
+    .cite {
+      color: #8B5CF6;
+      font-size: 10px;
+      font-weight: 700;
+      margin-left: 2px;
+    }
+    
+    .sources {
+      margin-top: 60px;
+      padding-top: 30px;
+      border-top: 2px solid #E5E7EB;
+      font-size: 13px;
+      color: #374151;
+    }
+    
+    .sources h2 {
+      font-family: 'Playfair Display', serif;
+      font-size: 22px;
+      color: #111827;
+      margin-bottom: 16px;
+    }
+    
+    .sources li {
+      margin: 0 0 8px 20px;
+    }
+    
+    .sources a {
+      color: #6D28D9;
+      word-break: break-all;
+    }
+    
     .footer {
       margin-top: 80px;
       padding-top: 40px;
@@ -1105,9 +1309,20 @@ const ShareModal: React.FC<{
         const text = para.replace(/^#+\s*/, '');
         return `<h${level}>${text}</h${level}>`;
       }
-      return `<p>${para}</p>`;
+      return `<p>${cite(para)}</p>`;
     }).join('')}
   </div>
+  ${links.length ? `
+  <div class="sources">
+    <h2>Sources</h2>
+    <ol>
+      ${links.map(link => {
+        const label = escapeHtml(link.title || link.uri);
+        const source = link.source ? ` — ${escapeHtml(link.source)}` : '';
+        return /^https?:\/\//i.test(link.uri) ? `<li><a href="${escapeHtml(link.uri)}">${label}</a>${source}</li>` : `<li>${label}${source}</li>`;
+      }).join('')}
+    </ol>
+  </div>` : ''}
   
   <div class="footer">
     <div class="footer-logo">VoxTrends</div>
@@ -1274,18 +1489,32 @@ const App: React.FC = () => {
   const [region, setRegion] = useState('Global');
   const [language, setLanguage] = useState('English');
   const [activeTab, setActiveTab] = useState<EditionType>(EditionType.MORNING);
+  const [topicChannels, setTopicChannels] = useState<TopicChannel[]>([]);
+  const [activeChannelId, setActiveChannelId] = useState<string | null>(null);  // Tuned-in topic channel, if any
+  const [showChannelEditor, setShowChannelEditor] = useState(false);
+  const [showStorySearch, setShowStorySearch] = useState(false);
+  const [episodeFormat, setEpisodeFormat] = useState<EpisodeFormat>(DEFAULT_EPISODE_FORMAT);
+  const [breakingTopic, setBreakingTopic] = useState<string | null>(null);  // Live bulletin for the tuned region/language
+  const [editionFollows, setEditionFollows] = useState<EditionFollow[]>([]);
+  const [emailDigest, setEmailDigest] = useState<DigestSubscription | null>(null);
+  const deepLink = useRef(readEditionDeepLink());  // Cleared once the linked edition is loaded
   const [dailyEditions, setDailyEditions] = useState<Record<string, DailyData>>({});
   const [savedClips, setSavedClips] = useState<SavedClip[]>([]);
   const [playingClipId, setPlayingClipId] = useState<string | null>(null);
+  // Shared between the edition player and its transcript
+  const [playbackTime, setPlaybackTime] = useState(0);
+  const [seekRequest, setSeekRequest] = useState<{ time: number } | null>(null);
   const [toastMessage, setToastMessage] = useState<string | null>(null);
   const [shareClip, setShareClip] = useState<{
     title: string;
     imageUrl: string | null;
     audio: string | null;
     text: string;
+    links?: GroundingLink[];
+    citations?: Citation[];
   } | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
-  const [researchResult, setResearchResult] = useState<{ text: string; grounding: GroundingLink[] } | null>(null);
+  const [researchResult, setResearchResult] = useState<{ text: string; grounding: GroundingLink[]; sourcingQuality?: SourcingQuality | null; citations?: Citation[] } | null>(null);
   const [step, setStep] = useState(0);
   const [showMobileSettings, setShowMobileSettings] = useState(false);
   const [showPricing, setShowPricing] = useState(false);
@@ -1295,10 +1524,12 @@ const App: React.FC = () => {
   const [voiceGenerating, setVoiceGenerating] = useState(false);
   const [voiceError, setVoiceError] = useState<string | null>(null);
   const [loadingStory, setLoadingStory] = useState<string[]>([]);
+  const [generationStage, setGenerationStage] = useState<GenerationStage | null>(null);
 
   const interrogationRef = useRef<{ handleAsk: (q: string) => void }>(null);
 
   const t = translations[language as keyof typeof translations] || translations.English;
+  const activeChannel = topicChannels.find(c => c.id === activeChannelId) ?? null;
 
   // ==================== AUTHENTICATION LOGIC ====================
 
@@ -1321,8 +1552,10 @@ const App: React.FC = () => {
               region: profile.region,
               language: profile.language,
             });
-            setRegion(profile.region);
-            setLanguage(profile.language);
+            // A notification link tunes in to its edition over the saved region/language
+            setRegion(deepLink.current?.region ?? profile.region);
+            setLanguage(deepLink.current?.language ?? profile.language);
+            setEpisodeFormat(profile.preferences?.episodeFormat || DEFAULT_EPISODE_FORMAT);
             setView('broadcast');
 
             // Load user's saved clips
@@ -1337,6 +1570,8 @@ const App: React.FC = () => {
               audioData: clip.audio_url,
               flashSummary: clip.flash_summary || '',
               chatHistory: clip.chat_history || [],
+              links: clip.metadata?.links || [],
+              citations: clip.metadata?.citations || [],
             })));
 
             // Update last login
@@ -1382,29 +1617,147 @@ const App: React.FC = () => {
     return () => subscription.unsubscribe();
   }, []);
 
+  // Topic channels belong to the signed-in user
+  useEffect(() => {
+    if (!authUser) {
+      setTopicChannels([]);
+      setActiveChannelId(null);
+      return;
+    }
+    db.getTopicChannels(authUser.id).then(setTopicChannels);
+  }, [authUser?.id]);
+
   // Load cached editions on mount
   useEffect(() => {
     const init = async () => {
       const dbEditions = await voxDB.get(VOX_EDITIONS_KEY);
       if (dbEditions) setDailyEditions(dbEditions);
-
-      const h = new Date().getHours();
-      if (h < 12) setActiveTab(EditionType.MORNING);
-      else if (h < 18) setActiveTab(EditionType.MIDDAY);
-      else setActiveTab(EditionType.EVENING);
     };
     init();
   }, []);
 
+  // Tune to the edition that is current in the region's own timezone
+  useEffect(() => {
+    setActiveTab(deepLink.current?.edition ?? currentEdition(region) as EditionType);
+  }, [region]);
+
+  // Opened from an edition alert: show the broadcast view tuned to that edition
+  useEffect(() => {
+    const link = deepLink.current;
+    if (!link) return;
+    window.history.replaceState(null, '', window.location.pathname);
+    if (link.region) setRegion(link.region);
+    if (link.language) setLanguage(link.language);
+    setView('broadcast');
+  }, []);
+
+  // ...and load it once signed in and tuned
+  useEffect(() => {
+    const link = deepLink.current;
+    if (!link || !authUser) return;
+    if ((link.region && link.region !== region) || (link.language && link.language !== language) || activeTab !== link.edition) return;
+    deepLink.current = null;
+    setActiveChannelId(null);
+    handleGenerateDaily(link.edition, false, null);
+  }, [authUser, region, language, activeTab]);
+
+  // Editions the user gets push alerts for
+  useEffect(() => {
+    if (!authUser) {
+      setEditionFollows([]);
+      return;
+    }
+    db.getEditionFollows(authUser.id).then(setEditionFollows);
+  }, [authUser?.id]);
+
+  useEffect(() => {
+    if (!authUser) {
+      setEmailDigest(null);
+      return;
+    }
+    db.getDigestSubscription(authUser.id).then(setEmailDigest);
+  }, [authUser?.id]);
+
+  // Show the Breaking tab while a bulletin is live; breaking-monitor scans every 15 minutes
+  useEffect(() => {
+    if (!authUser) return;
+    const checkBreaking = async () => {
+      const edition = await db.getBreakingEdition(region, language);
+      setBreakingTopic(edition?.breaking_topic ?? null);
+    };
+    checkBreaking();
+    const interval = setInterval(checkBreaking, 5 * 60 * 1000);
+    return () => clearInterval(interval);
+  }, [authUser, region, language]);
+
+  // Breaking alerts that arrived since the last visit
+  useEffect(() => {
+    if (!authUser) return;
+    db.getUnreadNotifications(authUser.id).then(async (notifications) => {
+      if (!notifications.length) return;
+      const [latest] = notifications;
+      setToastMessage(`🚨 ${latest.title}: ${latest.body ?? ''}`);
+      await db.markNotificationsRead(notifications.map(n => n.id)).catch(() => {});
+    });
+  }, [authUser]);
+
+  const followedEditions = editionFollows
+    .filter(f => f.region === region && f.language === language)
+    .map(f => f.edition_type as EditionType);
+
+  const toggleEditionFollow = async (edition: EditionType, following: boolean) => {
+    if (!authUser) return;
+    try {
+      // Following needs this browser subscribed; the permission prompt only shows the first time
+      if (following && !(await push.enable(authUser.id))) {
+        setToastMessage('🔕 Notifications are blocked for this site');
+        return;
+      }
+      const follow = { region, language, edition_type: edition as EditionFollow['edition_type'] };
+      await db.setEditionFollow(authUser.id, follow, following);
+      setEditionFollows(prev => [
+        ...prev.filter(f => !(f.region === region && f.language === language && f.edition_type === edition)),
+        ...(following ? [{ ...follow, user_id: authUser.id, created_at: new Date().toISOString() }] : []),
+      ]);
+      setToastMessage(following ? `🔔 ${edition} · ${region} alerts on` : `🔕 ${edition} · ${region} alerts off`);
+    } catch (error: any) {
+      setToastMessage(`❌ ${error.message}`);
+    }
+  };
+
+  // Picking an edition subscribes to it for the tuned region/language; Off keeps the choice but stops sending
+  const changeEmailDigest = async (edition: EditionType | null) => {
+    if (!authUser) return;
+    try {
+      const digest = edition
+        ? { region, language, edition_type: edition as DigestSubscription['edition_type'], enabled: true }
+        : { region: emailDigest?.region ?? region, language: emailDigest?.language ?? language, edition_type: emailDigest?.edition_type ?? 'Morning', enabled: false };
+      setEmailDigest(await db.saveDigestSubscription(authUser.id, digest));
+      setToastMessage(edition ? `✉️ ${edition} · ${region} digest on` : '✉️ Email digest off');
+    } catch (error: any) {
+      setToastMessage(`❌ ${error.message}`);
+    }
+  };
+
+  const breakingAlerts = !!userProfile?.preferences?.breakingAlerts;
+  const toggleBreakingAlerts = (enabled: boolean) => {
+    if (!authUser || !userProfile) return;
+    const preferences = { ...userProfile.preferences, breakingAlerts: enabled };
+    setUserProfile({ ...userProfile, preferences });
+    db.updateUser(authUser.id, { preferences });
+  };
+
   // ==================== MAIN FUNCTIONS ====================
 
-  const handleGenerateDaily = async (ed: EditionType, forceRefresh = false) => {
+  const handleGenerateDaily = async (ed: EditionType, forceRefresh = false, channel: TopicChannel | null = activeChannel) => {
     if (!authUser) {
       setToastMessage('Please log in to generate editions');
       return;
     }
 
-    const editionKey = getEditionKey(ed, region, language);
+    const editionType = channel ? EditionType.CHANNEL : ed;
+    const label = channel ? channel.name : ed;
+    const editionKey = getEditionKey(ed, region, language, channel?.id, episodeFormat);
     const todayStr = new Date().toLocaleDateString(); // Local date string
 
     // Check if edition exists locally AND matches today's date
@@ -1413,7 +1766,7 @@ const App: React.FC = () => {
 
     // If edition exists locally, matches today, and not forcing refresh, just show it
     if (!forceRefresh && cachedEdition && isToday) {
-      setToastMessage(`✨ Already loaded: ${ed} · ${region} · ${language}`);
+      setToastMessage(`✨ Already loaded: ${label} · ${region} · ${language}`);
       return;
     }
 
@@ -1421,9 +1774,37 @@ const App: React.FC = () => {
     setLoadingStory(STORIES.broadcast);
     setStatus(forceRefresh ? 'Refreshing edition...' : 'Checking limits & cache...');
 
+    // Render each artifact as it streams in: the briefing text lands long before script and art
+    let streamStarted = false;
+    const showPartial = (partial: Partial<DailyData>) => {
+      setDailyEditions(prev => {
+        const base: DailyData = streamStarted && prev[editionKey]
+          ? prev[editionKey]
+          : { text: '', script: '', audio: null, links: [], imageUrl: null, chatHistory: [], date: todayStr };
+        streamStarted = true;
+        return { ...prev, [editionKey]: { ...base, ...partial, streaming: true } };
+      });
+    };
+
     try {
       // ✅ NOW USING BACKEND FUNCTION THAT CHECKS LIMITS!
-      const result = await backend.generateEdition(ed, region, language, forceRefresh, selectedVoiceId);
+      let result;
+      try {
+        result = await backend.streamEdition(editionType, region, language, forceRefresh, selectedVoiceId, {
+          onStage: setGenerationStage,
+          onArtifact: showPartial,
+        }, channel?.id, episodeFormat);
+      } catch (streamError: any) {
+        // Streams hold a worker for the whole chain — when that fails, fall back to a polled job.
+        // A dropped stream keeps generating server-side, so poll its job rather than start another;
+        // the force refresh was already recorded by the stream request, so don't ask again.
+        if (!streamError.workerLimit && !streamError.streamInterrupted) throw streamError;
+        console.warn('Edition stream unavailable, falling back to background job:', streamError.message);
+        setStatus('Generating in background...');
+        result = streamError.jobId
+          ? await backend.resumeEditionJob(streamError.jobId, selectedVoiceId, false, setGenerationStage)
+          : await backend.generateEdition(editionType, region, language, false, selectedVoiceId, false, setGenerationStage, channel?.id, episodeFormat);
+      }
 
       if (result.cached) {
         setStatus('Loading cached edition...');
@@ -1433,11 +1814,20 @@ const App: React.FC = () => {
 
       const {
         text,
+        stories,
         script,
         audio,
+        audioDuration,
+        audioQuality,
+        audioSampleRate,
+        chapters,
+        transcript,
         imageUrl,
         links,
+        sourcingQuality,
+        citations,
         flashSummary,
+        breakingTopic: editionBreakingTopic,
         // Phase 3: Voice Variants
         edition_id,
         scriptReady,
@@ -1447,11 +1837,20 @@ const App: React.FC = () => {
 
       const newData: DailyData = {
         text,
+        stories: stories || [],
         script,
         audio: audio || null,
+        audioDuration: audioDuration ?? null,
+        audioQuality: audioQuality ?? null,
+        audioSampleRate: audioSampleRate ?? null,
+        chapters: chapters || [],
+        transcript: transcript || [],
         links: links || [],
+        sourcingQuality: sourcingQuality ?? null,
+        citations: citations || [],
         imageUrl: imageUrl || null,
         flashSummary: flashSummary,
+        breakingTopic: editionBreakingTopic ?? null,
         chatHistory: [],
         date: todayStr, // Save today's date
         // Phase 3: Voice Variants
@@ -1468,16 +1867,26 @@ const App: React.FC = () => {
         return updated;
       });
 
-      setToastMessage(`🎉 ${ed} edition ready!`);
+      setToastMessage(`🎉 ${label} edition ready!`);
       setQuotaRefreshTrigger(prev => prev + 1); // Refresh quota display
 
     } catch (error: any) {
       console.error('Generate edition error:', error);
 
+      // Drop a half-streamed edition and put back whatever was showing before
+      if (streamStarted) {
+        setDailyEditions(prev => {
+          const restored = { ...prev };
+          if (cachedEdition) restored[editionKey] = cachedEdition;
+          else delete restored[editionKey];
+          return restored;
+        });
+      }
+
       // ✅ CHECK IF IT'S A LIMIT ERROR
       if (error.upgrade) {
         setShowPricing(true);
-        setToastMessage(`Daily limit reached! Upgrade for unlimited.`);
+        setToastMessage(error.feature === 'format' ? error.message : `Daily limit reached! Upgrade for unlimited.`);
         return;
       }
 
@@ -1490,6 +1899,7 @@ const App: React.FC = () => {
     } finally {
       setLoading(false);
       setStatus('');
+      setGenerationStage(null);
     }
   };
 
@@ -1561,7 +1971,7 @@ const App: React.FC = () => {
         if (!targetKey || !targetDaily) {
           console.error('[DEBUG] Could not find edition with ID:', editionId);
           // Fallback to current key if ID lookup fails
-          const fallbackKey = getEditionKey(activeTab, region, language);
+          const fallbackKey = getEditionKey(activeTab, region, language, activeChannelId, episodeFormat);
           if (prev[fallbackKey]) {
             console.log('[DEBUG] Falling back to active key:', fallbackKey);
             targetKey = fallbackKey;
@@ -1571,7 +1981,7 @@ const App: React.FC = () => {
           }
         }
 
-        const updatedDaily = { ...targetDaily, audio: audioUrl };
+        const updatedDaily = { ...targetDaily, audio: audioUrl, audioDuration: result.data?.duration ?? null, audioQuality: result.data?.audioQuality ?? null, audioSampleRate: result.data?.audioSampleRate ?? null, chapters: result.data?.chapters || [], transcript: result.data?.transcript || [] };
         console.log('[DEBUG] Updating Daily:', updatedDaily);
 
         const updatedEditions = { ...prev, [targetKey]: updatedDaily };
@@ -1602,7 +2012,7 @@ const App: React.FC = () => {
 
   const saveToVault = async (
     title: string,
-    data: DailyData | { text: string; grounding: GroundingLink[] },
+    data: DailyData | { text: string; grounding: GroundingLink[]; citations?: Citation[] },
     type: 'Daily' | 'Research'
   ) => {
     if (!authUser) {
@@ -1659,6 +2069,11 @@ const App: React.FC = () => {
           audioUrl: audioUrl,
           imageUrl: imageUrl,
           chatHistory: (data as DailyData).chatHistory,
+          // Sources and citations travel with the clip for its PDF export
+          other: {
+            links: 'grounding' in data ? data.grounding : data.links,
+            citations: data.citations || [],
+          },
         }
       );
 
@@ -1672,6 +2087,8 @@ const App: React.FC = () => {
         audioData: clip.audio_url,
         flashSummary: clip.flash_summary || '',
         chatHistory: clip.chat_history || [],
+        links: clip.metadata?.links || [],
+        citations: clip.metadata?.citations || [],
       };
 
       setSavedClips(prev => [newClip, ...prev]);
@@ -1754,16 +2171,17 @@ const App: React.FC = () => {
     return <SignupScreen onSwitchToLogin={() => setAuthView('login')} />;
   }
 
-  const currentEditionKey = getEditionKey(activeTab, region, language);
+  const currentEditionKey = getEditionKey(activeTab, region, language, activeChannelId, episodeFormat);
   const currentDaily = dailyEditions[currentEditionKey];
+  const editionLabel = activeChannel ? activeChannel.name : activeTab;
 
   // Count how many versions of this edition type exist
-  const editionVariants = Object.keys(dailyEditions).filter(k => k.startsWith(activeTab)).length;
+  const editionVariants = Object.keys(dailyEditions).filter(k => k.startsWith(activeChannel ? `${EditionType.CHANNEL}:${activeChannel.id}` : activeTab)).length;
 
   return (
     <div className="h-screen bg-[#050505] text-zinc-100 flex flex-col md:flex-row overflow-hidden font-sans">
       <Toast message={toastMessage || ''} visible={!!toastMessage} onHide={() => setToastMessage(null)} />
-      <ProgressBar loading={loading} status={status} story={loadingStory} />
+      <ProgressBar loading={loading} status={status} story={loadingStory} stage={generationStage} />
 
       {
         shareClip && (
@@ -1785,6 +2203,30 @@ const App: React.FC = () => {
         )
       }
 
+      {/* Topic Channels Modal */}
+      {
+        authUser && (
+          <TopicChannelEditor
+            isOpen={showChannelEditor}
+            userId={authUser.id}
+            channels={topicChannels}
+            onClose={() => setShowChannelEditor(false)}
+            onChannelsChange={(channels) => {
+              setTopicChannels(channels);
+              if (activeChannelId && !channels.some(c => c.id === activeChannelId)) setActiveChannelId(null);
+            }}
+          />
+        )
+      }
+
+      {/* Story Search Modal */}
+      <StorySearch
+        isOpen={showStorySearch}
+        region={region}
+        language={language}
+        onClose={() => setShowStorySearch(false)}
+      />
+
       {/* Mobile Settings Modal */}
       {
         showMobileSettings && (
@@ -1812,12 +2254,9 @@ const App: React.FC = () => {
                     }}
                     className="w-full bg-black border border-zinc-800 rounded-2xl py-4 px-6 text-sm font-bold text-white focus:outline-none appearance-none cursor-pointer"
                   >
-                    <option value="Global">Global 🌎</option>
-                    <option value="USA">USA 🇺🇸</option>
-                    <option value="Europe">Europe 🇪🇺</option>
-                    <option value="Asia">Asia 🌏</option>
-                    <option value="Colombia">Colombia 🇨🇴</option>
-                    <option value="Venezuela">Venezuela 🇻🇪</option>
+                    {REGION_OPTIONS.map(r => (
+                      <option key={r.id} value={r.id}>{r.label}</option>
+                    ))}
                   </select>
                 </div>
                 <div className="space-y-3">
@@ -1833,10 +2272,39 @@ const App: React.FC = () => {
                     }}
                     className="w-full bg-black border border-zinc-800 rounded-2xl py-4 px-6 text-sm font-bold text-white focus:outline-none appearance-none cursor-pointer"
                   >
-                    <option value="English">English 🇬🇧</option>
-                    <option value="Spanish">Spanish 🇪🇸</option>
+                    {LANGUAGE_OPTIONS.map(l => (
+                      <option key={l.id} value={l.id}>{l.label}</option>
+                    ))}
                   </select>
                 </div>
+                {authUser && (
+                  <label className="flex items-center justify-between gap-4 cursor-pointer">
+                    <span className="text-xs font-black text-zinc-600 uppercase tracking-widest">{t.breakingAlerts}</span>
+                    <input
+                      type="checkbox"
+                      checked={breakingAlerts}
+                      onChange={(e) => toggleBreakingAlerts(e.target.checked)}
+                      className="w-5 h-5 accent-red-500 cursor-pointer"
+                    />
+                  </label>
+                )}
+                {authUser && (
+                  <EditionAlerts
+                    label={t.editionAlerts}
+                    region={region}
+                    followed={followedEditions}
+                    supported={push.isSupported()}
+                    onToggle={toggleEditionFollow}
+                  />
+                )}
+                {authUser && (
+                  <EmailDigestSelect
+                    label={t.emailDigest}
+                    offLabel={t.digestOff}
+                    digest={emailDigest}
+                    onChange={changeEmailDigest}
+                  />
+                )}
                 <div className="pt-6 border-t border-zinc-800 space-y-3">
                   <button
                     onClick={() => setShowClearCacheConfirm(true)}
@@ -1966,12 +2434,9 @@ const App: React.FC = () => {
               className="px-4 py-2.5 bg-black border border-zinc-800 rounded-xl text-sm font-bold text-zinc-300 focus:border-violet-600 focus:ring-1 focus:ring-violet-600 outline-none hover:border-zinc-700 transition-all appearance-none cursor-pointer"
               style={{ backgroundImage: 'url("data:image/svg+xml,%3Csvg xmlns=\'http://www.w3.org/2000/svg\' fill=\'none\' viewBox=\'0\' stroke=\'currentColor\'%3E%3Cpath stroke-linecap=\'round\' stroke-linejoin=\'round\' stroke-width=\'2\' d=\'M19 9l-7 7-7-7\'/%3E%3C/svg%3E")', backgroundRepeat: 'no-repeat', backgroundPosition: 'right 0.75rem center', backgroundSize: '1rem' }}
             >
-              <option value="Global">Global 🌎</option>
-              <option value="USA">USA 🇺🇸</option>
-              <option value="Europe">Europe 🇪🇺</option>
-              <option value="Asia">Asia 🌏</option>
-              <option value="Colombia">Colombia 🇨🇴</option>
-              <option value="Venezuela">Venezuela 🇻🇪</option>
+              {REGION_OPTIONS.map(r => (
+                <option key={r.id} value={r.id}>{r.label}</option>
+              ))}
             </select>
           </div>
 
@@ -1988,11 +2453,43 @@ const App: React.FC = () => {
               className="px-4 py-2.5 bg-black border border-zinc-800 rounded-xl text-sm font-bold text-zinc-300 focus:border-violet-600 focus:ring-1 focus:ring-violet-600 outline-none hover:border-zinc-700 transition-all appearance-none cursor-pointer"
               style={{ backgroundImage: 'url("data:image/svg+xml,%3Csvg xmlns=\'http://www.w3.org/2000/svg\' fill=\'none\' viewBox=\'0\' stroke=\'currentColor\'%3E%3Cpath stroke-linecap=\'round\' stroke-linejoin=\'round\' stroke-width=\'2\' d=\'M19 9l-7 7-7-7\'/%3E%3C/svg%3E")', backgroundRepeat: 'no-repeat', backgroundPosition: 'right 0.75rem center', backgroundSize: '1rem' }}
             >
-              <option value="English">English 🇬🇧</option>
-              <option value="Spanish">Spanish 🇪🇸</option>
+              {LANGUAGE_OPTIONS.map(l => (
+                <option key={l.id} value={l.id}>{l.label}</option>
+              ))}
             </select>
           </div>
 
+          {authUser && (
+            <label className="flex items-center justify-between gap-3 cursor-pointer">
+              <span className="text-[9px] font-black text-zinc-600 uppercase tracking-widest">{t.breakingAlerts}</span>
+              <input
+                type="checkbox"
+                checked={breakingAlerts}
+                onChange={(e) => toggleBreakingAlerts(e.target.checked)}
+                className="w-4 h-4 accent-red-500 cursor-pointer"
+              />
+            </label>
+          )}
+
+          {authUser && (
+            <EditionAlerts
+              label={t.editionAlerts}
+              region={region}
+              followed={followedEditions}
+              supported={push.isSupported()}
+              onToggle={toggleEditionFollow}
+            />
+          )}
+
+          {authUser && (
+            <EmailDigestSelect
+              label={t.emailDigest}
+              offLabel={t.digestOff}
+              digest={emailDigest}
+              onChange={changeEmailDigest}
+            />
+          )}
+
           <div className="pt-4 border-t border-zinc-800">
             <button
               onClick={() => setShowClearCacheConfirm(true)}
@@ -2022,6 +2519,13 @@ const App: React.FC = () => {
           </div>
 
           <div className="flex items-center gap-4">
+            <button
+              onClick={() => setShowStorySearch(true)}
+              className="p-3 bg-zinc-900 rounded-xl text-white flex items-center gap-2"
+            >
+              <ICONS.Search className="w-5 h-5" />
+              <span className="hidden md:inline text-sm font-bold">Search</span>
+            </button>
             {/* Desktop profile button only */}
             <button
               onClick={() => setView(view === 'vault' ? 'broadcast' : 'vault')}
@@ -2044,6 +2548,11 @@ const App: React.FC = () => {
                   region={region}
                   language={language}
                   activeEdition={activeTab}
+                  channels={topicChannels}
+                  activeChannelId={activeChannelId}
+                  format={episodeFormat}
+                  isPro={user?.plan === 'Pro'}
+                  breakingTopic={breakingTopic}
                   loading={loading}
                   onRegionChange={(r) => {
                     setRegion(r);
@@ -2057,8 +2566,29 @@ const App: React.FC = () => {
                       db.updateUser(authUser.id, { language: l });
                     }
                   }}
-                  onEditionChange={setActiveTab}
-                  onRefresh={() => handleGenerateDaily(activeTab, true)}
+                  onEditionChange={(ed) => {
+                    setActiveTab(ed);
+                    setActiveChannelId(null);
+                  }}
+                  onChannelChange={setActiveChannelId}
+                  onFormatChange={(f) => {
+                    // Pro-only formats are enforced server-side too; steer Free users to pricing first
+                    if (user?.plan !== 'Pro' && EPISODE_FORMAT_OPTIONS.find(o => o.id === f)?.proOnly) {
+                      setShowPricing(true);
+                      return;
+                    }
+                    setEpisodeFormat(f);
+                    if (authUser && userProfile) {
+                      const preferences = { ...userProfile.preferences, episodeFormat: f };
+                      setUserProfile({ ...userProfile, preferences });
+                      db.updateUser(authUser.id, { preferences });
+                    }
+                  }}
+                  onManageChannels={authUser ? () => setShowChannelEditor(true) : undefined}
+                  onRefresh={() => {
+                    // Bulletins are only produced by breaking-monitor, so there is nothing to refresh
+                    handleGenerateDaily(activeTab, activeTab !== EditionType.BREAKING);
+                  }}
                 />
               </div>
 
@@ -2067,11 +2597,11 @@ const App: React.FC = () => {
                 {currentDaily ? (
                   <>
                     <BroadcastStage
-                      key={`${activeTab}-${region}-${!!currentDaily.audio}`}
+                      key={`${currentEditionKey}-${!!currentDaily.audio}`}
                       daily={currentDaily}
-                      activeTab={activeTab}
+                      activeTab={editionLabel}
                       region={region}
-                      onSave={() => saveToVault(`${activeTab} ${region} Broadcast`, currentDaily, 'Daily')}
+                      onSave={() => saveToVault(`${editionLabel} ${region} Broadcast`, currentDaily, 'Daily')}
                       selectedVoiceId={selectedVoiceId}
                       hasAudio={!!currentDaily.audio}
                       isPlaying={playingClipId === `edition-${activeTab}`}
@@ -2090,7 +2620,7 @@ const App: React.FC = () => {
                         <VoiceSelector
                           editionId={currentDaily.edition_id || ''}
                           isScriptReady={true}
-                          onAudioGenerated={(voiceId, audioUrl) => {
+                          onAudioGenerated={(voiceId, audioUrl, details) => {
                             // Update the dailyEditions state with the generated audio
                             setSelectedVoiceId(voiceId);
                             setDailyEditions(prev => {
@@ -2110,7 +2640,15 @@ const App: React.FC = () => {
                                 targetKey = currentEditionKey;
                               }
 
-                              const updatedDaily = { ...prev[targetKey], audio: audioUrl };
+                              const updatedDaily = {
+                                ...prev[targetKey],
+                                audio: audioUrl,
+                                audioDuration: details.duration,
+                                audioQuality: details.audioQuality,
+                                audioSampleRate: details.sampleRate,
+                                chapters: details.chapters,
+                                transcript: details.transcript,
+                              };
                               const updatedEditions = { ...prev, [targetKey]: updatedDaily };
 
                               // Persist to local DB
@@ -2132,6 +2670,10 @@ const App: React.FC = () => {
                         <section className="bg-zinc-900/10 border border-zinc-900 rounded-2xl p-4 relative overflow-hidden flex justify-center">
                           <AudioPlayer
                             audioData={currentDaily.audio}
+                            durationHint={currentDaily.audioDuration}
+                            chapters={currentDaily.chapters}
+                            onTimeUpdate={setPlaybackTime}
+                            seekRequest={seekRequest}
                             clipId={`edition-${activeTab}`}
                             isPlaying={playingClipId === `edition-${activeTab}`}
                             onPlayPause={() => {
@@ -2143,6 +2685,11 @@ const App: React.FC = () => {
                             }}
                             onEnded={() => setPlayingClipId(null)}
                           />
+                          {!!currentDaily.audioSampleRate && currentDaily.audioSampleRate > AUDIO_SAMPLE_RATES['24khz'] && (
+                            <span className="absolute right-4 top-1/2 -translate-y-1/2 text-[9px] font-black uppercase tracking-widest text-violet-400">
+                              {currentDaily.audioSampleRate / 1000} kHz
+                            </span>
+                          )}
                         </section>
                         <div className="flex justify-center">
                           <button
@@ -2160,9 +2707,26 @@ const App: React.FC = () => {
                       </>
                     )}
 
+                    {/* Transcript */}
+                    {currentDaily.script && !currentDaily.streaming && (
+                      <TranscriptPanel
+                        script={currentDaily.script}
+                        turns={currentDaily.audio ? currentDaily.transcript : undefined}
+                        chapters={currentDaily.chapters}
+                        duration={currentDaily.audio ? currentDaily.audioDuration : null}
+                        currentTime={currentDaily.audio ? playbackTime : 0}
+                        onSeek={currentDaily.audio ? (seconds) => {
+                          setSeekRequest({ time: seconds });
+                          setPlayingClipId(`edition-${activeTab}`);
+                        } : undefined}
+                      />
+                    )}
+
                     {/* Immersive Text Content */}
                     <div className="space-y-10 animate-in fade-in duration-1000">
-                      <BroadcastRichText text={currentDaily.text} language={language} />
+                      {currentDaily.stories?.length
+                        ? <StoryList stories={currentDaily.stories} citations={currentDaily.citations} links={currentDaily.links} />
+                        : <BroadcastRichText text={currentDaily.text} language={language} />}
 
                       {/* Grounding Links */}
                       {currentDaily.links && currentDaily.links.length > 0 && (
@@ -2178,6 +2742,7 @@ const App: React.FC = () => {
                                 <h5 className="text-sm font-bold text-white">Verified Sources</h5>
                                 <p className="text-xs text-zinc-500">{currentDaily.links.length} source{currentDaily.links.length > 1 ? 's' : ''}</p>
                               </div>
+                              <SourcingScore quality={currentDaily.sourcingQuality} />
                             </div>
                             <svg className="w-5 h-5 text-zinc-500 group-open:rotate-180 transition-transform" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
@@ -2193,9 +2758,10 @@ const App: React.FC = () => {
                                 className="block p-4 bg-zinc-950 border border-zinc-800 rounded-xl hover:border-violet-600/50 hover:bg-zinc-900/50 transition-all group"
                               >
                                 <p className="text-xs font-bold text-white group-hover:text-violet-400 truncate">
-                                  {link.title}
+                                  <span className="font-mono text-violet-500 mr-2">[{i + 1}]</span>{link.title}
                                 </p>
                                 <p className="text-[10px] text-zinc-600 truncate">{link.uri}</p>
+                                {link.credibility && <div className="mt-2"><SourceBadges link={link} /></div>}
                               </a>
                             ))}
                           </div>
@@ -2207,10 +2773,10 @@ const App: React.FC = () => {
                   <section className="bg-zinc-900/10 border border-zinc-900 rounded-[3rem] p-8 md:p-12 relative overflow-hidden flex flex-col items-center justify-center gap-6 py-24">
                     <div className="text-center mb-6">
                       <h3 className="text-3xl font-serif font-bold tracking-tight text-zinc-700">Today's Briefing</h3>
-                      <p className="text-zinc-600 text-xs font-mono uppercase tracking-widest mt-2">{activeTab} Edition // Offline</p>
+                      <p className="text-zinc-600 text-xs font-mono uppercase tracking-widest mt-2">{editionLabel} Edition // Offline</p>
                     </div>
 
-                    {Object.keys(dailyEditions).some(k => k.startsWith(activeTab)) && (
+                    {editionVariants > 0 && (
                       <p className="text-sm text-zinc-500 text-center max-w-xs">
                         💡 Changed settings? Generate a new version for {region} in {language}
                       </p>
@@ -2220,7 +2786,7 @@ const App: React.FC = () => {
                       disabled={loading}
                       className="px-10 py-4 bg-white text-black font-black rounded-2xl hover:bg-violet-600 hover:text-white transition-all shadow-xl disabled:opacity-50"
                     >
-                      {loading ? 'SYNCING...' : `${t.sync} ${activeTab.toUpperCase()}`}
+                      {loading ? 'SYNCING...' : `${t.sync} ${editionLabel.toUpperCase()}`}
                     </button>
 
                     {!loading && (
@@ -2250,7 +2816,7 @@ const App: React.FC = () => {
                       </div>
                       <div>
                         <h3 className="text-lg font-serif font-bold text-white">Active Intelligence</h3>
-                        <p className="text-[10px] text-zinc-500 font-mono uppercase tracking-widest">{activeTab} · {region}</p>
+                        <p className="text-[10px] text-zinc-500 font-mono uppercase tracking-widest">{editionLabel} · {region}</p>
                       </div>
                     </div>
 
@@ -2304,7 +2870,7 @@ const App: React.FC = () => {
                         language={language}
                         history={currentDaily.chatHistory || []}
                         setHistory={(h) => {
-                          const editionKey = getEditionKey(activeTab, region, language);
+                          const editionKey = currentEditionKey;
                           setDailyEditions(prev => {
                             const updated = { ...prev };
                             if (updated[editionKey]) {
@@ -2320,7 +2886,7 @@ const App: React.FC = () => {
                           { label: "Economic Pulse", prompt: "Analyze the economic and financial impact described in this report. How does it affect markets or value chains?" },
                           { label: "Social Lens", prompt: "What is the social and cultural impact of this development? How does it affect the general population or public sentiment?" }
                         ]}
-                        targetTitle={`${activeTab} Intelligence // ${region}`}
+                        targetTitle={`${editionLabel} Intelligence // ${region}`}
                       />
                     ) : (
                       <div className="py-24 text-center">
@@ -2371,6 +2937,8 @@ const App: React.FC = () => {
                 </div>
               </section>
 
+              <PodcastFeedCard region={region} language={language} />
+
               <section className="space-y-8">
                 <h4 className="text-2xl font-serif font-bold flex items-center gap-4">
                   Intelligence Vault
@@ -2424,6 +2992,8 @@ const App: React.FC = () => {
                                 audio: clip.audioData || null,
                                 imageUrl: clip.imageUrl || null,
                                 text: clip.text,
+                                links: clip.links,
+                                citations: clip.citations,
                               })
                             }
                             className="px-6 py-3 bg-zinc-950 text-zinc-500 text-[10px] font-black uppercase tracking-widest rounded-xl hover:text-white transition-all"
@@ -1,41 +1,44 @@
 import React from 'react';
 import { ICONS } from '../constants';
-import { EditionType } from '../types';
+import { DEFAULT_EPISODE_FORMAT, EditionType, EPISODE_FORMAT_OPTIONS, EpisodeFormat, LANGUAGE_OPTIONS, REGION_OPTIONS } from '../types';
+import type { TopicChannel } from '../services/supabase';
 
 interface BroadcastTunerProps {
     region: string;
     language: string;
     activeEdition: EditionType;
+    channels?: TopicChannel[];
+    activeChannelId?: string | null;  // Set when a topic channel is tuned in instead of an edition
+    format?: EpisodeFormat;
+    isPro?: boolean;
+    breakingTopic?: string | null;  // Set while a breaking bulletin is live for the region/language
     onRegionChange: (region: string) => void;
     onLanguageChange: (language: string) => void;
     onEditionChange: (edition: EditionType) => void;
+    onChannelChange?: (channelId: string) => void;
+    onFormatChange?: (format: EpisodeFormat) => void;
+    onManageChannels?: () => void;
     onRefresh: () => void;
     loading: boolean;
 }
 
-const REGIONS = [
-    { id: 'Global', label: 'Global 🌎' },
-    { id: 'USA', label: 'USA 🇺🇸' },
-    { id: 'Europe', label: 'Europe 🇪🇺' },
-    { id: 'Asia', label: 'Asia 🌏' },
-    { id: 'Colombia', label: 'Colombia 🇨🇴' },
-    { id: 'Venezuela', label: 'Venezuela 🇻🇪' },
-];
-
-const LANGUAGES = [
-    { id: 'English', label: 'English 🇬🇧' },
-    { id: 'Spanish', label: 'Spanish 🇪🇸' },
-];
-
 const EDITIONS = [EditionType.MORNING, EditionType.MIDDAY, EditionType.EVENING];
 
 const BroadcastTuner: React.FC<BroadcastTunerProps> = ({
     region,
     language,
     activeEdition,
+    channels = [],
+    activeChannelId = null,
+    format = DEFAULT_EPISODE_FORMAT,
+    isPro = false,
+    breakingTopic = null,
     onRegionChange,
     onLanguageChange,
     onEditionChange,
+    onChannelChange,
+    onFormatChange,
+    onManageChannels,
     onRefresh,
     loading
 }) => {
@@ -46,24 +49,76 @@ const BroadcastTuner: React.FC<BroadcastTunerProps> = ({
                 {/* Top Row: Frequency/Edition Selectors */}
                 <div className="flex items-center justify-between gap-4">
                     <div className="flex items-center gap-2 overflow-x-auto no-scrollbar mask-gradient-right">
-                        {EDITIONS.map((ed) => (
+                        {/* Breaking bulletin: only shown while one is live */}
+                        {breakingTopic && (
+                            <button
+                                onClick={() => onEditionChange(EditionType.BREAKING)}
+                                title={breakingTopic}
+                                className={`
+                  relative px-4 py-2 rounded-full text-xs font-black uppercase tracking-widest transition-all whitespace-nowrap
+                  ${!activeChannelId && activeEdition === EditionType.BREAKING
+                                        ? 'bg-red-600 text-white shadow-lg shadow-red-600/25 scale-105'
+                                        : 'bg-red-950/40 border border-red-800 text-red-400 hover:text-red-300 hover:border-red-600'
+                                    }
+                `}
+                            >
+                                <span className="inline-block w-2 h-2 mr-2 bg-red-500 rounded-full animate-pulse" />
+                                Breaking
+                            </button>
+                        )}
+
+                        {EDITIONS.map((ed) => {
+                            const isActive = !activeChannelId && activeEdition === ed;
+                            return (
                             <button
                                 key={ed}
                                 onClick={() => onEditionChange(ed)}
                                 className={`
                   relative px-4 py-2 rounded-full text-xs font-black uppercase tracking-widest transition-all whitespace-nowrap
-                  ${activeEdition === ed
+                  ${isActive
                                         ? 'bg-violet-600 text-white shadow-lg shadow-violet-600/25 scale-105'
                                         : 'bg-zinc-900 border border-zinc-800 text-zinc-500 hover:text-zinc-300 hover:border-zinc-700'
                                     }
                 `}
                             >
                                 {ed}
-                                {activeEdition === ed && (
+                                {isActive && (
+                                    <span className="absolute -top-1 -right-1 w-2.5 h-2.5 bg-red-500 rounded-full animate-pulse border-2 border-zinc-950" />
+                                )}
+                            </button>
+                            );
+                        })}
+
+                        {/* Topic channels: the user's own beats, after the shared editions */}
+                        {channels.map((channel) => (
+                            <button
+                                key={channel.id}
+                                onClick={() => onChannelChange?.(channel.id)}
+                                title={channel.include_keywords.join(', ')}
+                                className={`
+                  relative px-4 py-2 rounded-full text-xs font-black uppercase tracking-widest transition-all whitespace-nowrap
+                  ${activeChannelId === channel.id
+                                        ? 'bg-emerald-600 text-white shadow-lg shadow-emerald-600/25 scale-105'
+                                        : 'bg-zinc-900 border border-zinc-800 text-zinc-500 hover:text-zinc-300 hover:border-zinc-700'
+                                    }
+                `}
+                            >
+                                # {channel.name}
+                                {activeChannelId === channel.id && (
                                     <span className="absolute -top-1 -right-1 w-2.5 h-2.5 bg-red-500 rounded-full animate-pulse border-2 border-zinc-950" />
                                 )}
                             </button>
                         ))}
+
+                        {onManageChannels && (
+                            <button
+                                onClick={onManageChannels}
+                                title="Topic channels"
+                                className="px-3 py-2 rounded-full text-xs font-black uppercase tracking-widest whitespace-nowrap bg-zinc-900 border border-dashed border-zinc-700 text-zinc-500 hover:text-white hover:border-violet-600 transition-all"
+                            >
+                                {channels.length ? 'Edit' : '+ Channel'}
+                            </button>
+                        )}
                     </div>
 
                     <button
@@ -89,8 +144,8 @@ const BroadcastTuner: React.FC<BroadcastTunerProps> = ({
                     </button>
                 </div>
 
-                {/* Bottom Row: Region & Language Tuners */}
-                <div className="grid grid-cols-2 gap-3">
+                {/* Bottom Row: Region, Language & Format Tuners */}
+                <div className={`grid gap-3 ${onFormatChange ? 'grid-cols-2 md:grid-cols-3' : 'grid-cols-2'}`}>
                     <div className="relative group">
                         <span className="absolute left-3 top-1/2 -translate-y-1/2 text-[10px] font-black text-zinc-600 uppercase tracking-widest pointer-events-none group-hover:text-violet-500 transition-colors">
                             Region
@@ -101,7 +156,7 @@ const BroadcastTuner: React.FC<BroadcastTunerProps> = ({
                             className="w-full bg-zinc-900 border border-zinc-800 rounded-xl py-2.5 pl-20 pr-8 text-sm font-bold text-white appearance-none cursor-pointer hover:border-violet-600/50 focus:border-violet-600 focus:ring-1 focus:ring-violet-600 outline-none transition-all"
                             style={{ backgroundImage: 'none' }}
                         >
-                            {REGIONS.map(r => (
+                            {REGION_OPTIONS.map(r => (
                                 <option key={r.id} value={r.id}>{r.label}</option>
                             ))}
                         </select>
@@ -122,7 +177,7 @@ const BroadcastTuner: React.FC<BroadcastTunerProps> = ({
                             className="w-full bg-zinc-900 border border-zinc-800 rounded-xl py-2.5 pl-16 pr-8 text-sm font-bold text-white appearance-none cursor-pointer hover:border-violet-600/50 focus:border-violet-600 focus:ring-1 focus:ring-violet-600 outline-none transition-all"
                             style={{ backgroundImage: 'none' }}
                         >
-                            {LANGUAGES.map(l => (
+                            {LANGUAGE_OPTIONS.map(l => (
                                 <option key={l.id} value={l.id}>{l.label}</option>
                             ))}
                         </select>
@@ -132,6 +187,31 @@ const BroadcastTuner: React.FC<BroadcastTunerProps> = ({
                             </svg>
                         </div>
                     </div>
+
+                    {onFormatChange && (
+                        <div className="relative group col-span-2 md:col-span-1">
+                            <span className="absolute left-3 top-1/2 -translate-y-1/2 text-[10px] font-black text-zinc-600 uppercase tracking-widest pointer-events-none group-hover:text-violet-500 transition-colors">
+                                Format
+                            </span>
+                            <select
+                                value={format}
+                                onChange={(e) => onFormatChange(e.target.value as EpisodeFormat)}
+                                className="w-full bg-zinc-900 border border-zinc-800 rounded-xl py-2.5 pl-20 pr-8 text-sm font-bold text-white appearance-none cursor-pointer hover:border-violet-600/50 focus:border-violet-600 focus:ring-1 focus:ring-violet-600 outline-none transition-all"
+                                style={{ backgroundImage: 'none' }}
+                            >
+                                {EPISODE_FORMAT_OPTIONS.map(f => (
+                                    <option key={f.id} value={f.id}>
+                                        {f.label}{f.proOnly && !isPro ? ' 🔒 Pro' : ''}
+                                    </option>
+                                ))}
+                            </select>
+                            <div className="absolute right-3 top-1/2 -translate-y-1/2 pointer-events-none text-zinc-500">
+                                <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+                                </svg>
+                            </div>
+                        </div>
+                    )}
                 </div>
             </div>
         </div>
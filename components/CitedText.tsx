@@ -0,0 +1,56 @@
+import React from 'react';
+import type { Citation, GroundingLink } from '../types';
+
+export interface CitedSegment {
+  text: string;
+  sources: number[]; // Cited after this segment; empty for uncited text
+}
+
+// Cuts text after each cited sentence it contains. Citations quote sentences
+// verbatim, so a plain substring search finds them.
+export function splitCitations(text: string, citations: Citation[] = []): CitedSegment[] {
+  const found = citations
+    .map(citation => ({ start: text.indexOf(citation.text), citation }))
+    .filter(({ start }) => start >= 0)
+    .sort((a, b) => a.start - b.start);
+
+  const segments: CitedSegment[] = [];
+  let cursor = 0;
+  for (const { start, citation } of found) {
+    if (start < cursor) continue;
+    const end = start + citation.text.length;
+    segments.push({ text: text.slice(cursor, end), sources: citation.sources });
+    cursor = end;
+  }
+  if (cursor < text.length || !segments.length) segments.push({ text: text.slice(cursor), sources: [] });
+  return segments;
+}
+
+// Text with a [n] marker after every sentence that cites the nth link
+const CitedText: React.FC<{ text: string; citations?: Citation[]; links?: GroundingLink[] }> = ({ text, citations, links = [] }) => {
+  if (!citations?.length) return <>{text}</>;
+
+  return (
+    <>
+      {splitCitations(text, citations).map((segment, i) => (
+        <React.Fragment key={i}>
+          {segment.text}
+          {segment.sources.map(source => (
+            <a
+              key={source}
+              href={links[source]?.uri}
+              target="_blank"
+              rel="noopener noreferrer"
+              title={links[source]?.source || links[source]?.title}
+              className="align-super text-[0.6em] font-mono font-bold text-violet-400 hover:text-violet-300 ml-0.5 no-underline"
+            >
+              [{source + 1}]
+            </a>
+          ))}
+        </React.Fragment>
+      ))}
+    </>
+  );
+};
+
+export default CitedText;
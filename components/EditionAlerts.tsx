@@ -0,0 +1,44 @@
+import React from 'react';
+import { EditionType } from '../types';
+
+interface EditionAlertsProps {
+    label: string;
+    region: string;
+    followed: EditionType[];  // Editions followed for the tuned region/language
+    supported: boolean;       // Push needs a service worker and the VAPID key
+    onToggle: (edition: EditionType, following: boolean) => void;
+}
+
+const EDITIONS = [EditionType.MORNING, EditionType.MIDDAY, EditionType.EVENING];
+
+// Push alerts for the tuned region/language, one toggle per edition
+const EditionAlerts: React.FC<EditionAlertsProps> = ({ label, region, followed, supported, onToggle }) => {
+    if (!supported) return null;
+
+    return (
+        <div className="space-y-2">
+            <span className="text-[9px] font-black text-zinc-600 uppercase tracking-widest">
+                🔔 {label} · {region}
+            </span>
+            <div className="flex flex-wrap gap-2">
+                {EDITIONS.map((edition) => {
+                    const isFollowed = followed.includes(edition);
+                    return (
+                        <button
+                            key={edition}
+                            onClick={() => onToggle(edition, !isFollowed)}
+                            className={`px-3 py-1.5 rounded-full text-[10px] font-black uppercase tracking-widest transition-all ${isFollowed
+                                ? 'bg-violet-600 text-white'
+                                : 'bg-zinc-900 border border-zinc-800 text-zinc-500 hover:text-zinc-300 hover:border-zinc-700'
+                                }`}
+                        >
+                            {edition}
+                        </button>
+                    );
+                })}
+            </div>
+        </div>
+    );
+};
+
+export default EditionAlerts;
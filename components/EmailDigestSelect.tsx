@@ -0,0 +1,37 @@
+import React from 'react';
+import { EditionType } from '../types';
+import type { DigestSubscription } from '../services/supabase';
+
+interface EmailDigestSelectProps {
+    label: string;
+    offLabel: string;
+    digest: DigestSubscription | null;
+    onChange: (edition: EditionType | null) => void;  // null turns the digest off
+}
+
+const EDITIONS = [EditionType.MORNING, EditionType.MIDDAY, EditionType.EVENING];
+
+// One edition by email, for the region/language it was chosen in
+const EmailDigestSelect: React.FC<EmailDigestSelectProps> = ({ label, offLabel, digest, onChange }) => {
+    const value = digest?.enabled ? digest.edition_type : '';
+
+    return (
+        <div className="space-y-1">
+            <label className="text-[9px] font-black text-zinc-600 uppercase tracking-widest">
+                ✉️ {label}{digest?.enabled ? ` · ${digest.region} · ${digest.language}` : ''}
+            </label>
+            <select
+                value={value}
+                onChange={(e) => onChange((e.target.value || null) as EditionType | null)}
+                className="w-full px-4 py-2.5 bg-black border border-zinc-800 rounded-xl text-sm font-bold text-zinc-300 focus:border-violet-600 focus:ring-1 focus:ring-violet-600 outline-none hover:border-zinc-700 transition-all appearance-none cursor-pointer"
+            >
+                <option value="">{offLabel}</option>
+                {EDITIONS.map((edition) => (
+                    <option key={edition} value={edition}>{edition}</option>
+                ))}
+            </select>
+        </div>
+    );
+};
+
+export default EmailDigestSelect;
@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import { backend } from '../services/backend';
+
+interface Props {
+  region: string;
+  language: string;
+}
+
+// Private RSS feeds for podcast apps: the user's own episodes, plus a channel feed
+// for the region/language currently tuned in
+const PodcastFeedCard: React.FC<Props> = ({ region, language }) => {
+  const [feedUrl, setFeedUrl] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState<string | null>(null);
+
+  const channelUrl = feedUrl
+    ? `${feedUrl}&region=${encodeURIComponent(region)}&language=${encodeURIComponent(language)}`
+    : null;
+
+  const loadFeed = async (rotate: boolean = false) => {
+    if (rotate && !window.confirm('Podcast apps subscribed to the current feed will stop updating. Continue?')) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      const feed = await backend.getPodcastFeed(rotate);
+      setFeedUrl(feed.feed_url);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load podcast feed');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const revokeFeed = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      await backend.revokePodcastFeed();
+      setFeedUrl(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to turn off podcast feed');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const copy = async (url: string) => {
+    await navigator.clipboard.writeText(url);
+    setCopied(url);
+    setTimeout(() => setCopied(null), 2000);
+  };
+
+  const FeedRow = ({ label, url }: { label: string; url: string }) => (
+    <div className="space-y-2">
+      <p className="text-[10px] text-zinc-500 font-black uppercase tracking-widest">{label}</p>
+      <div className="flex items-center gap-3">
+        <code className="flex-1 truncate px-4 py-3 bg-zinc-950 border border-zinc-800 rounded-xl text-xs text-zinc-400">{url}</code>
+        <button
+          onClick={() => copy(url)}
+          className="px-4 py-3 bg-violet-600 hover:bg-violet-500 rounded-xl text-xs font-bold text-white transition-all"
+        >
+          {copied === url ? 'Copied' : 'Copy'}
+        </button>
+      </div>
+    </div>
+  );
+
+  return (
+    <section className="p-8 md:p-12 bg-zinc-900/20 border border-zinc-900 rounded-[3rem] space-y-6">
+      <div className="space-y-2">
+        <h4 className="text-2xl font-serif font-bold text-white">Listen in Your Podcast App</h4>
+        <p className="text-sm text-zinc-500">
+          Paste a feed URL into Apple Podcasts, Overcast or Pocket Casts. Episodes appear once their audio has been generated.
+        </p>
+      </div>
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+
+      {feedUrl && channelUrl ? (
+        <div className="space-y-5">
+          <FeedRow label="My Briefings" url={feedUrl} />
+          <FeedRow label={`${region} · ${language} Channel`} url={channelUrl} />
+          <div className="flex gap-6 pt-2">
+            <button onClick={() => loadFeed(true)} disabled={loading} className="text-xs text-zinc-500 hover:text-violet-400 transition-colors disabled:opacity-40">
+              Reset feed link
+            </button>
+            <button onClick={revokeFeed} disabled={loading} className="text-xs text-zinc-500 hover:text-red-400 transition-colors disabled:opacity-40">
+              Turn off feeds
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button
+          onClick={() => loadFeed()}
+          disabled={loading}
+          className="px-6 py-3 bg-white text-black rounded-xl text-sm font-bold hover:bg-violet-50 transition-all disabled:opacity-40"
+        >
+          {loading ? 'Preparing feed...' : 'Get My Feed URL'}
+        </button>
+      )}
+    </section>
+  );
+};
+
+export default PodcastFeedCard;
@@ -129,7 +129,7 @@ const PricingPage: React.FC<Props> = ({ onClose, userPlan }) => {
                 <svg className="w-5 h-5 text-emerald-500 shrink-0 mt-0.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
                 </svg>
-                <span className="text-white"><strong>All languages</strong> (English, Spanish)</span>
+                <span className="text-white"><strong>All languages</strong> (English, Spanish, Portuguese, French, German)</span>
               </li>
               <li className="flex items-start gap-2">
                 <svg className="w-5 h-5 text-emerald-500 shrink-0 mt-0.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -1,7 +1,9 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { backend } from '../services/backend';
+import type { Chapter, GroundingLink, SourcingQuality } from '../types';
+import { SourceBadges, SourcingScore } from './SourceRating';
 
 interface Edition {
   id: string;
@@ -9,11 +11,13 @@ interface Edition {
   script: string;
   image_url?: string;
   flash_summary?: string;
-  grounding_links?: any[];
+  grounding_links?: GroundingLink[];
+  sourcing_quality?: SourcingQuality | null;
   voiceVariants?: {
     available: string[];
     count: number;
     audioUrls: Record<string, string>;
+    chapters?: Record<string, Chapter[]>;
   };
 }
 
@@ -48,6 +52,8 @@ export default function SharedEditionPlayer({
   const [selectedVariant, setSelectedVariant] = useState<string | null>(null);
   const [isGenerating, setIsGenerating] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [currentTime, setCurrentTime] = useState(0);
+  const audioRef = useRef<HTMLAudioElement>(null);
 
   // Auto-select first available variant
   useEffect(() => {
@@ -91,6 +97,22 @@ export default function SharedEditionPlayer({
     ? edition.voiceVariants?.audioUrls[selectedVariant]
     : null;
 
+  // Chapter timings belong to the voice that was rendered
+  const chapters = (selectedVariant && edition.voiceVariants?.chapters?.[selectedVariant]) || [];
+  const activeChapter = chapters.reduce(
+    (current, chapter, i) => (currentTime >= chapter.start ? i : current),
+    0
+  );
+
+  const formatTime = (seconds: number) =>
+    `${Math.floor(seconds / 60)}:${String(Math.floor(seconds % 60)).padStart(2, '0')}`;
+
+  const seekTo = (seconds: number) => {
+    if (!audioRef.current) return;
+    audioRef.current.currentTime = seconds;
+    audioRef.current.play().catch(() => {});
+  };
+
   return (
     <div className="w-full max-w-3xl mx-auto space-y-8">
       {/* Header */}
@@ -216,14 +238,43 @@ export default function SharedEditionPlayer({
         <div className="bg-gray-900 rounded-lg p-6">
           <h3 className="text-white font-semibold mb-4">Now Playing</h3>
           <audio
+            ref={audioRef}
             controls
             src={selectedAudio}
             className="w-full"
             autoPlay
+            onTimeUpdate={() => audioRef.current && setCurrentTime(audioRef.current.currentTime)}
             style={{
               filter: 'invert(0.8)',
             }}
           />
+
+          {chapters.length > 1 && (
+            <div className="mt-4">
+              <h4 className="text-gray-400 text-xs font-semibold uppercase tracking-wide mb-2">
+                Stories
+              </h4>
+              <ol className="space-y-1">
+                {chapters.map((chapter, idx) => (
+                  <li key={chapter.start}>
+                    <button
+                      onClick={() => seekTo(chapter.start)}
+                      className={`w-full flex items-center gap-3 px-3 py-2 rounded text-left text-sm transition ${
+                        idx === activeChapter
+                          ? 'bg-indigo-600 text-white'
+                          : 'text-gray-300 hover:bg-gray-800'
+                      }`}
+                    >
+                      <span className="font-mono text-xs text-gray-400">
+                        {formatTime(chapter.start)}
+                      </span>
+                      <span>{chapter.title}</span>
+                    </button>
+                  </li>
+                ))}
+              </ol>
+            </div>
+          )}
         </div>
       )}
 
@@ -244,12 +295,15 @@ export default function SharedEditionPlayer({
         {/* Sources */}
         {edition.grounding_links && edition.grounding_links.length > 0 && (
           <div>
-            <h3 className="text-lg font-semibold text-gray-900 mb-3">
-              Sources
-            </h3>
+            <div className="flex items-center justify-between gap-3 mb-3">
+              <h3 className="text-lg font-semibold text-gray-900">
+                Sources
+              </h3>
+              <SourcingScore quality={edition.sourcing_quality} tone="light" />
+            </div>
             <ul className="space-y-2">
               {edition.grounding_links.map((link, idx) => (
-                <li key={idx}>
+                <li key={idx} className="flex flex-wrap items-center gap-2">
                   <a
                     href={link.uri}
                     target="_blank"
@@ -258,6 +312,7 @@ export default function SharedEditionPlayer({
                   >
                     {link.title || link.uri}
                   </a>
+                  <SourceBadges link={link} tone="light" />
                 </li>
               ))}
             </ul>
@@ -0,0 +1,69 @@
+import React from 'react';
+import type { GroundingLink, SourceBias, SourceCredibility, SourcingQuality } from '../types';
+
+// The research views are dark, the public share page is light
+type Tone = 'dark' | 'light';
+
+const CREDIBILITY_LABELS: Record<SourceCredibility, string> = {
+  high: 'High credibility',
+  medium: 'Mixed credibility',
+  low: 'Low credibility',
+  unrated: 'Unrated source',
+};
+
+const BIAS_LABELS: Record<SourceBias, string> = {
+  left: 'Left',
+  'center-left': 'Center-left',
+  center: 'Center',
+  'center-right': 'Center-right',
+  right: 'Right',
+};
+
+const CREDIBILITY_STYLES: Record<Tone, Record<SourceCredibility, string>> = {
+  dark: {
+    high: 'text-emerald-400 border-emerald-900/60 bg-emerald-950/30',
+    medium: 'text-amber-400 border-amber-900/60 bg-amber-950/30',
+    low: 'text-rose-400 border-rose-900/60 bg-rose-950/30',
+    unrated: 'text-zinc-400 border-zinc-800 bg-zinc-900/50',
+  },
+  light: {
+    high: 'text-emerald-700 border-emerald-200 bg-emerald-50',
+    medium: 'text-amber-700 border-amber-200 bg-amber-50',
+    low: 'text-rose-700 border-rose-200 bg-rose-50',
+    unrated: 'text-gray-600 border-gray-200 bg-gray-50',
+  },
+};
+
+const NEUTRAL_STYLES: Record<Tone, string> = {
+  dark: 'text-zinc-400 border-zinc-800 bg-zinc-900/50',
+  light: 'text-gray-600 border-gray-200 bg-gray-50',
+};
+
+const badge = 'px-2 py-0.5 rounded-md border text-[10px] font-bold uppercase tracking-widest';
+
+// Outlet name, credibility tier and bias label of one grounding link. Links saved
+// before annotations existed render nothing.
+export const SourceBadges: React.FC<{ link: GroundingLink; tone?: Tone }> = ({ link, tone = 'dark' }) => {
+  if (!link.credibility) return null;
+  return (
+    <span className="inline-flex flex-wrap items-center gap-1.5">
+      {link.source && <span className={`${badge} ${NEUTRAL_STYLES[tone]}`}>{link.source}</span>}
+      <span className={`${badge} ${CREDIBILITY_STYLES[tone][link.credibility]}`}>{CREDIBILITY_LABELS[link.credibility]}</span>
+      {link.bias && <span className={`${badge} ${NEUTRAL_STYLES[tone]}`}>{BIAS_LABELS[link.bias]}</span>}
+    </span>
+  );
+};
+
+// Edition-level score: mostly high-credibility outlets from several newsrooms scores high
+export const SourcingScore: React.FC<{ quality?: SourcingQuality | null; tone?: Tone }> = ({ quality, tone = 'dark' }) => {
+  if (!quality || quality.score === null) return null;
+  const tier: SourceCredibility = quality.score >= 75 ? 'high' : quality.score >= 45 ? 'medium' : 'low';
+  return (
+    <span
+      title={`${quality.tiers.high} high, ${quality.tiers.medium} mixed, ${quality.tiers.low} low, ${quality.tiers.unrated} unrated across ${quality.domains} outlet${quality.domains === 1 ? '' : 's'}`}
+      className={`${badge} ${CREDIBILITY_STYLES[tone][tier]}`}
+    >
+      Sourcing {quality.score}/100
+    </span>
+  );
+};
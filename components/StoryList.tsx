@@ -0,0 +1,99 @@
+import React, { useState } from 'react';
+import type { Citation, GroundingLink, Story, StorySentiment } from '../types';
+import CitedText from './CitedText';
+import StoryTimeline from './StoryTimeline';
+
+interface Props {
+  stories: Story[];
+  citations?: Citation[]; // Briefing sentences and the edition links behind them
+  links?: GroundingLink[];
+}
+
+const SENTIMENT_STYLES: Record<StorySentiment, string> = {
+  positive: 'text-emerald-400 border-emerald-900/60 bg-emerald-950/30',
+  negative: 'text-rose-400 border-rose-900/60 bg-rose-950/30',
+  neutral: 'text-zinc-400 border-zinc-800 bg-zinc-900/50',
+  mixed: 'text-amber-400 border-amber-900/60 bg-amber-950/30',
+};
+
+const hostname = (url: string) => {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return url;
+  }
+};
+
+// The edition's briefing as structured stories: headline, summary, full report,
+// the people and places involved, the tone of the news and where it was reported.
+// Stories linked to a thread open its timeline of earlier coverage; cited sentences
+// of the report carry [n] markers for the edition's sources.
+const StoryList: React.FC<Props> = ({ stories, citations, links }) => {
+  const [openThread, setOpenThread] = useState<string | null>(null);
+
+  return (
+    <div className="space-y-16 max-w-3xl mx-auto px-2 md:px-0">
+      {stories.map((story, i) => (
+        <article key={`${i}-${story.headline}`} className="relative">
+          <span className="absolute -left-4 md:-left-12 top-2 text-[10px] font-mono text-zinc-700 -rotate-90 hidden md:block">SEGMENT 0{i + 1}</span>
+
+          <div className="flex items-center gap-3 mb-4">
+            <span className={`px-2 py-0.5 rounded-md border text-[10px] font-bold uppercase tracking-widest ${SENTIMENT_STYLES[story.sentiment] ?? SENTIMENT_STYLES.neutral}`}>
+              {story.sentiment}
+            </span>
+            {story.thread_id && (
+              <button
+                onClick={() => setOpenThread(story.thread_id!)}
+                className="text-[10px] font-bold uppercase tracking-widest text-violet-400 hover:text-violet-300"
+              >
+                Story timeline
+              </button>
+            )}
+          </div>
+
+          <h3 className="text-2xl md:text-4xl font-serif font-bold text-white mb-4 leading-tight border-l-2 border-violet-500 pl-6">
+            {story.headline}
+          </h3>
+          <p className="text-lg md:text-xl text-zinc-200 font-serif italic leading-relaxed pl-6 mb-6">{story.summary}</p>
+
+          <div className="pl-6 border-l border-zinc-900 text-lg md:text-xl text-zinc-300/90 font-serif leading-loose">
+            {story.body.split(/\n+/).filter(p => p.trim()).map((paragraph, pIdx) => (
+              <p key={pIdx} className="mb-4 last:mb-0"><CitedText text={paragraph} citations={citations} links={links} /></p>
+            ))}
+          </div>
+
+          {story.entities.length > 0 && (
+            <div className="flex flex-wrap gap-2 pl-6 mt-6">
+              {story.entities.map(entity => (
+                <span key={entity} className="px-3 py-1 rounded-full bg-zinc-900 border border-zinc-800 text-xs text-zinc-400">
+                  {entity}
+                </span>
+              ))}
+            </div>
+          )}
+
+          {story.sources.length > 0 && (
+            <div className="flex flex-wrap gap-x-4 gap-y-1 pl-6 mt-4">
+              {story.sources.map(source => (
+                <a
+                  key={source.url}
+                  href={source.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  title={source.title}
+                  className="text-xs font-mono text-violet-400 hover:text-violet-300 underline-offset-4 hover:underline"
+                >
+                  {hostname(source.url)}
+                </a>
+              ))}
+            </div>
+          )}
+        </article>
+      ))}
+
+      <StoryTimeline threadId={openThread} onClose={() => setOpenThread(null)} />
+    </div>
+  );
+};
+
+export default StoryList;
@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import { ICONS } from '../constants';
+import { db } from '../services/database';
+import type { StorySearchResult } from '../services/supabase';
+
+interface Props {
+  isOpen: boolean;
+  region: string;
+  language: string;
+  onClose: () => void;
+}
+
+// Full-text search across the stories of past editions (search_stories RPC),
+// optionally narrowed to the region and language the user is tuned to
+const StorySearch: React.FC<Props> = ({ isOpen, region, language, onClose }) => {
+  const [query, setQuery] = useState('');
+  const [tunedOnly, setTunedOnly] = useState(true);
+  const [results, setResults] = useState<StorySearchResult[] | null>(null);
+  const [searching, setSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!isOpen) return null;
+
+  const search = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!query.trim()) return;
+    setSearching(true);
+    setError(null);
+    try {
+      setResults(await db.searchStories(query.trim(), tunedOnly ? { region, language } : {}));
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/90 backdrop-blur-xl flex items-center justify-center z-[300] p-6 animate-in fade-in">
+      <div className="bg-zinc-950 border border-zinc-800 rounded-3xl p-8 max-w-2xl w-full max-h-[90vh] overflow-y-auto relative">
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 p-2 bg-zinc-900 rounded-lg text-zinc-500 hover:text-white transition-colors"
+        >
+          <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+
+        <h3 className="text-2xl font-serif font-bold text-white mb-1">Search Stories</h3>
+        <p className="text-sm text-zinc-500 mb-6">
+          Find stories from past editions by headline, people, places or topic.
+        </p>
+
+        <form onSubmit={search} className="space-y-3 mb-6">
+          <div className="flex gap-2">
+            <input
+              autoFocus
+              value={query}
+              onChange={e => setQuery(e.target.value)}
+              placeholder='e.g. "interest rates" -europe'
+              className="flex-1 bg-zinc-900 border border-zinc-800 rounded-xl px-4 py-3 text-sm text-white placeholder:text-zinc-600 focus:outline-none focus:border-violet-600"
+            />
+            <button
+              type="submit"
+              disabled={searching || !query.trim()}
+              className="px-5 py-3 bg-violet-600 hover:bg-violet-500 disabled:opacity-50 rounded-xl text-white text-sm font-bold flex items-center gap-2"
+            >
+              <ICONS.Search className="w-4 h-4" />
+              {searching ? 'Searching...' : 'Search'}
+            </button>
+          </div>
+          <label className="flex items-center gap-2 text-xs text-zinc-500">
+            <input type="checkbox" checked={tunedOnly} onChange={e => setTunedOnly(e.target.checked)} className="accent-violet-600" />
+            Only {region} in {language}
+          </label>
+        </form>
+
+        {error && <p className="text-sm text-rose-400 mb-4">{error}</p>}
+
+        {results && results.length === 0 && (
+          <p className="text-sm text-zinc-500">No stories match "{query}".</p>
+        )}
+
+        {results && results.length > 0 && (
+          <ul className="space-y-3">
+            {results.map(result => (
+              <li key={result.id} className="px-4 py-4 rounded-xl border border-zinc-800 bg-zinc-900/50">
+                <p className="text-[10px] font-mono uppercase tracking-widest text-zinc-600 mb-1">
+                  {result.date} · {result.edition_type} · {result.region} · {result.language}
+                </p>
+                <p className="text-base font-bold text-white">{result.headline}</p>
+                <p className="text-sm text-zinc-400 mt-1">{result.summary}</p>
+                {result.entities.length > 0 && (
+                  <p className="text-xs text-zinc-600 mt-2 truncate">{result.entities.join(' · ')}</p>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default StorySearch;
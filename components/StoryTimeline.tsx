@@ -0,0 +1,75 @@
+import React, { useEffect, useState } from 'react';
+import { db } from '../services/database';
+import type { StoryThread, ThreadStory } from '../services/supabase';
+
+interface Props {
+  threadId: string | null;
+  onClose: () => void;
+}
+
+// Every edition that covered a story thread, oldest first
+const StoryTimeline: React.FC<Props> = ({ threadId, onClose }) => {
+  const [thread, setThread] = useState<StoryThread | null>(null);
+  const [stories, setStories] = useState<ThreadStory[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!threadId) return;
+    let cancelled = false;
+    setThread(null);
+    setStories([]);
+    setError(null);
+    db.getStoryThread(threadId)
+      .then(result => {
+        if (cancelled) return;
+        setThread(result.thread);
+        setStories(result.stories);
+      })
+      .catch(err => !cancelled && setError(err.message));
+    return () => { cancelled = true; };
+  }, [threadId]);
+
+  if (!threadId) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black/90 backdrop-blur-xl flex items-center justify-center z-[300] p-6 animate-in fade-in">
+      <div className="bg-zinc-950 border border-zinc-800 rounded-3xl p-8 max-w-2xl w-full max-h-[90vh] overflow-y-auto relative">
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 p-2 bg-zinc-900 rounded-lg text-zinc-500 hover:text-white transition-colors"
+        >
+          <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+
+        <h3 className="text-2xl font-serif font-bold text-white mb-1 pr-10">{thread?.title ?? 'Story Timeline'}</h3>
+        {thread && (
+          <p className="text-sm text-zinc-500 mb-6">
+            Followed from {thread.first_seen} to {thread.last_seen} · {thread.region} · {thread.language}
+          </p>
+        )}
+
+        {error && <p className="text-sm text-rose-400 mb-4">{error}</p>}
+        {!thread && !error && <p className="text-sm text-zinc-500">Loading timeline...</p>}
+
+        {stories.length > 0 && (
+          <ol className="relative border-l border-zinc-800 ml-2 space-y-6">
+            {stories.map(story => (
+              <li key={story.id} className="pl-6 relative">
+                <span className="absolute -left-[5px] top-1.5 w-2.5 h-2.5 rounded-full bg-violet-500" />
+                <p className="text-[10px] font-mono uppercase tracking-widest text-zinc-600 mb-1">
+                  {story.date}{story.daily_editions ? ` · ${story.daily_editions.edition_type}` : ''} · {story.sentiment}
+                </p>
+                <p className="text-base font-bold text-white">{story.headline}</p>
+                <p className="text-sm text-zinc-400 mt-1">{story.summary}</p>
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default StoryTimeline;
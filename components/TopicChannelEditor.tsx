@@ -0,0 +1,191 @@
+import React, { useState } from 'react';
+import { ICONS } from '../constants';
+import { db } from '../services/database';
+import type { TopicChannel } from '../services/supabase';
+
+interface Props {
+  isOpen: boolean;
+  userId: string;
+  channels: TopicChannel[];
+  onClose: () => void;
+  onChannelsChange: (channels: TopicChannel[]) => void;
+}
+
+const MAX_CHANNELS = 10;  // Matches the insert policy on topic_channels
+
+interface Draft {
+  name: string;
+  include: string;
+  exclude: string;
+  sources: string;
+}
+
+const EMPTY_DRAFT: Draft = { name: '', include: '', exclude: '', sources: '' };
+
+// Keywords and sources are typed as comma-separated lists
+const toList = (value: string) => [...new Set(value.split(',').map(item => item.trim()).filter(Boolean))];
+
+const toDraft = (channel: TopicChannel): Draft => ({
+  name: channel.name,
+  include: channel.include_keywords.join(', '),
+  exclude: channel.exclude_keywords.join(', '),
+  sources: channel.preferred_sources.join(', '),
+});
+
+// Create, edit and delete the user's topic channels (custom beats shown in the tuner)
+const TopicChannelEditor: React.FC<Props> = ({ isOpen, userId, channels, onClose, onChannelsChange }) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<Draft>(EMPTY_DRAFT);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!isOpen) return null;
+
+  const resetForm = () => {
+    setEditingId(null);
+    setDraft(EMPTY_DRAFT);
+    setError(null);
+  };
+
+  const handleSave = async () => {
+    const fields = {
+      name: draft.name.trim(),
+      include_keywords: toList(draft.include),
+      exclude_keywords: toList(draft.exclude),
+      preferred_sources: toList(draft.sources),
+    };
+
+    if (!fields.name || fields.include_keywords.length === 0) {
+      setError('Give the channel a name and at least one keyword to follow.');
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      if (editingId) {
+        const updated = await db.updateTopicChannel(editingId, fields);
+        onChannelsChange(channels.map(c => (c.id === editingId ? updated : c)));
+      } else {
+        const created = await db.createTopicChannel(userId, fields);
+        onChannelsChange([...channels, created]);
+      }
+      resetForm();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save channel');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (channel: TopicChannel) => {
+    if (!window.confirm(`Delete "${channel.name}" and its briefings?`)) return;
+
+    setSaving(true);
+    setError(null);
+    try {
+      await db.deleteTopicChannel(channel.id);
+      onChannelsChange(channels.filter(c => c.id !== channel.id));
+      if (editingId === channel.id) resetForm();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete channel');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const canCreate = !!editingId || channels.length < MAX_CHANNELS;
+  const inputClass = 'w-full bg-zinc-900 border border-zinc-800 rounded-xl px-4 py-2.5 text-sm text-white placeholder-zinc-600 focus:border-violet-600 outline-none transition-all';
+  const labelClass = 'block text-[10px] font-black text-zinc-500 uppercase tracking-widest mb-1.5';
+
+  return (
+    <div className="fixed inset-0 bg-black/90 backdrop-blur-xl flex items-center justify-center z-[300] p-6 animate-in fade-in">
+      <div className="bg-zinc-950 border border-zinc-800 rounded-3xl p-8 max-w-lg w-full max-h-[90vh] overflow-y-auto relative">
+        <button
+          onClick={() => { resetForm(); onClose(); }}
+          className="absolute top-4 right-4 p-2 bg-zinc-900 rounded-lg text-zinc-500 hover:text-white transition-colors"
+        >
+          <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+
+        <h3 className="text-2xl font-serif font-bold text-white mb-1">Topic Channels</h3>
+        <p className="text-sm text-zinc-500 mb-6">
+          Your own beats, briefed daily for the region and language you're tuned to.
+        </p>
+
+        {channels.length > 0 && (
+          <ul className="space-y-2 mb-6">
+            {channels.map(channel => (
+              <li
+                key={channel.id}
+                className={`flex items-center justify-between gap-3 px-4 py-3 rounded-xl border ${
+                  editingId === channel.id ? 'border-violet-600 bg-violet-600/10' : 'border-zinc-800 bg-zinc-900/50'
+                }`}
+              >
+                <button onClick={() => { setEditingId(channel.id); setDraft(toDraft(channel)); setError(null); }} className="text-left min-w-0">
+                  <p className="text-sm font-bold text-white truncate">{channel.name}</p>
+                  <p className="text-xs text-zinc-500 truncate">{channel.include_keywords.join(' · ')}</p>
+                </button>
+                <button
+                  onClick={() => handleDelete(channel)}
+                  disabled={saving}
+                  title="Delete channel"
+                  className="p-2 text-zinc-600 hover:text-rose-500 transition-colors disabled:opacity-50"
+                >
+                  <ICONS.Trash className="w-4 h-4" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {canCreate ? (
+          <div className="space-y-4">
+            <h4 className="text-xs font-black text-violet-400 uppercase tracking-widest">
+              {editingId ? 'Edit Channel' : 'New Channel'}
+            </h4>
+            <div>
+              <label className={labelClass}>Name</label>
+              <input className={inputClass} maxLength={60} placeholder="AI Policy" value={draft.name} onChange={e => setDraft({ ...draft, name: e.target.value })} />
+            </div>
+            <div>
+              <label className={labelClass}>Follow</label>
+              <input className={inputClass} placeholder="AI regulation, AI Act, model licensing" value={draft.include} onChange={e => setDraft({ ...draft, include: e.target.value })} />
+            </div>
+            <div>
+              <label className={labelClass}>Leave out</label>
+              <input className={inputClass} placeholder="crypto, stock tips" value={draft.exclude} onChange={e => setDraft({ ...draft, exclude: e.target.value })} />
+            </div>
+            <div>
+              <label className={labelClass}>Preferred sources</label>
+              <input className={inputClass} placeholder="reuters.com, Politico" value={draft.sources} onChange={e => setDraft({ ...draft, sources: e.target.value })} />
+            </div>
+
+            {error && <p className="text-sm text-rose-400">{error}</p>}
+
+            <div className="flex gap-3">
+              <button
+                onClick={handleSave}
+                disabled={saving}
+                className="flex-1 py-3 bg-violet-600 text-white font-black rounded-xl hover:bg-violet-500 transition-all disabled:opacity-50"
+              >
+                {saving ? 'Saving...' : editingId ? 'Save Changes' : 'Create Channel'}
+              </button>
+              {editingId && (
+                <button onClick={resetForm} className="px-5 py-3 bg-zinc-900 text-zinc-400 font-bold rounded-xl hover:text-white transition-all">
+                  Cancel
+                </button>
+              )}
+            </div>
+          </div>
+        ) : (
+          <p className="text-sm text-zinc-500">You've reached {MAX_CHANNELS} channels. Delete one to add another.</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TopicChannelEditor;
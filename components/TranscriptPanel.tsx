@@ -0,0 +1,154 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import type { Chapter, TranscriptTurn } from '../types';
+
+interface Props {
+  script: string;
+  turns?: TranscriptTurn[];   // Timed turns from the rendered audio
+  chapters?: Chapter[];
+  duration?: number | null;
+  currentTime: number;
+  onSeek?: (seconds: number) => void;
+}
+
+type Line =
+  | { kind: 'story'; title: string }
+  | { kind: 'turn'; speaker: string; text: string; start: number | null; end: number | null };
+
+// Same "Host: line" and "[STORY: ...]" formats the backend splits TTS chunks on
+const TURN_LABEL = /^\s*([\p{L}][\p{L}\s.'-]{0,40}):\s+/u;
+const STORY_MARKER = /^[\s*_#>-]*\[STORY:\s*(.+?)\s*\][\s*_]*$/i;
+
+// Without timed turns (audio from before transcripts were recorded), spread the known
+// duration over the script by text length — close enough to follow along
+function parseScript(script: string, duration?: number | null): Line[] {
+  const lines: Line[] = [];
+  for (const raw of script.split('\n')) {
+    const line = raw.trim();
+    if (!line) continue;
+
+    const story = line.match(STORY_MARKER);
+    const label = line.match(TURN_LABEL);
+    const last = lines[lines.length - 1];
+
+    if (story) {
+      lines.push({ kind: 'story', title: story[1] });
+    } else if (label) {
+      lines.push({ kind: 'turn', speaker: label[1].trim(), text: line.slice(label[0].length).trim(), start: null, end: null });
+    } else if (last?.kind === 'turn') {
+      last.text += ` ${line}`;
+    } else {
+      lines.push({ kind: 'turn', speaker: '', text: line, start: null, end: null });
+    }
+  }
+
+  if (duration) {
+    const turns = lines.filter((l): l is Extract<Line, { kind: 'turn' }> => l.kind === 'turn');
+    const totalChars = turns.reduce((sum, t) => sum + t.text.length, 0) || 1;
+    let cursor = 0;
+    for (const turn of turns) {
+      turn.start = cursor;
+      cursor += (turn.text.length / totalChars) * duration;
+      turn.end = cursor;
+    }
+  }
+  return lines;
+}
+
+// Timed turns carry no story markers, so chapter titles go in front of the first turn they cover
+function withChapters(turns: TranscriptTurn[], chapters: Chapter[]): Line[] {
+  const lines: Line[] = [];
+  let next = 0;
+  for (const turn of turns) {
+    while (next < chapters.length && chapters[next].start <= turn.start + 0.01) {
+      if (chapters[next].start > 0 || next > 0) lines.push({ kind: 'story', title: chapters[next].title });
+      next++;
+    }
+    lines.push({ kind: 'turn', ...turn });
+  }
+  return lines;
+}
+
+const TranscriptPanel: React.FC<Props> = ({ script, turns, chapters = [], duration, currentTime, onSeek }) => {
+  const lines = useMemo(
+    () => (turns && turns.length > 0 ? withChapters(turns, chapters) : parseScript(script, duration)),
+    [script, turns, chapters, duration]
+  );
+  const containerRef = useRef<HTMLDivElement>(null);
+  const activeRef = useRef<HTMLButtonElement>(null);
+
+  const activeIndex = currentTime > 0
+    ? lines.reduce((active, line, i) => (line.kind === 'turn' && line.start !== null && currentTime >= line.start ? i : active), -1)
+    : -1;
+
+  // Keep the current line in view without scrolling the whole page
+  useEffect(() => {
+    const container = containerRef.current;
+    const active = activeRef.current;
+    if (!container || !active) return;
+    const top = active.offsetTop - container.offsetTop;
+    if (top < container.scrollTop || top + active.offsetHeight > container.scrollTop + container.clientHeight) {
+      container.scrollTo({ top: top - container.clientHeight / 3, behavior: 'smooth' });
+    }
+  }, [activeIndex]);
+
+  if (lines.length === 0) return null;
+
+  const speakers = [...new Set(lines.flatMap(l => (l.kind === 'turn' && l.speaker ? [l.speaker] : [])))];
+
+  return (
+    <section className="p-6 md:p-8 bg-zinc-900/10 border border-zinc-900 rounded-[2rem] space-y-4">
+      <div className="flex items-center justify-between">
+        <h4 className="text-[10px] text-zinc-500 font-black uppercase tracking-widest">Transcript</h4>
+        {onSeek && <p className="text-[10px] text-zinc-600">Click a line to jump to it</p>}
+      </div>
+
+      <div ref={containerRef} className="max-h-96 overflow-y-auto pr-2 space-y-1">
+        {lines.map((line, i) => {
+          if (line.kind === 'story') {
+            return (
+              <p key={i} className="pt-4 pb-1 text-[10px] font-black uppercase tracking-widest text-violet-400">
+                {line.title}
+              </p>
+            );
+          }
+
+          const isActive = i === activeIndex;
+          const canSeek = !!onSeek && line.start !== null;
+
+          // Light up the active turn word by word as playback moves through it
+          const words = line.text.split(/\s+/);
+          const spoken = isActive && line.start !== null && line.end !== null && line.end > line.start
+            ? Math.ceil(((currentTime - line.start) / (line.end - line.start)) * words.length)
+            : 0;
+
+          return (
+            <button
+              key={i}
+              ref={isActive ? activeRef : undefined}
+              onClick={() => canSeek && onSeek!(line.start!)}
+              disabled={!canSeek}
+              className={`w-full text-left px-3 py-2 rounded-xl transition-colors ${
+                isActive ? 'bg-violet-600/10' : canSeek ? 'hover:bg-zinc-900/60' : 'cursor-default'
+              }`}
+            >
+              {line.speaker && (
+                <span className={`mr-2 text-xs font-bold ${speakers.indexOf(line.speaker) === 1 ? 'text-emerald-400' : 'text-violet-400'}`}>
+                  {line.speaker}
+                </span>
+              )}
+              <span className={`text-sm leading-relaxed ${isActive ? 'text-zinc-500' : 'text-zinc-400'}`}>
+                {isActive
+                  ? words.map((word, w) => (
+                      <span key={w} className={w < spoken ? 'text-white' : undefined}>{word} </span>
+                    ))
+                  : line.text}
+              </span>
+            </button>
+          );
+        })}
+      </div>
+    </section>
+  );
+};
+
+export default TranscriptPanel;
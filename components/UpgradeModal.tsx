@@ -35,7 +35,7 @@ const UpgradeModal: React.FC<Props> = ({ isOpen, onClose, feature, onUpgrade })
     language: {
       icon: '🗣️',
       title: 'Language Locked',
-      description: 'Free users can only access English content. Upgrade to Pro to unlock Spanish and all future languages.',
+      description: 'Free users can only access English content. Upgrade to Pro to unlock Spanish, Portuguese, French and German.',
     },
   };
 
@@ -102,7 +102,7 @@ const UpgradeModal: React.FC<Props> = ({ isOpen, onClose, feature, onUpgrade })
               <svg className="w-5 h-5 text-emerald-500 shrink-0 mt-0.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
               </svg>
-              <span><strong className="text-white">Multiple languages</strong> (English, Spanish)</span>
+              <span><strong className="text-white">Multiple languages</strong> (English, Spanish, Portuguese, French, German)</span>
             </li>
             <li className="flex items-start gap-2">
               <svg className="w-5 h-5 text-emerald-500 shrink-0 mt-0.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -2,6 +2,7 @@
 
 import { useState } from 'react';
 import { backend } from '../services/backend';
+import type { AudioQuality, Chapter, TranscriptTurn } from '../types';
 
 interface VoiceProfile {
   id: 'originals' | 'deep-divers' | 'trendspotters';
@@ -16,10 +17,19 @@ const VOICE_PROFILES: VoiceProfile[] = [
   { id: 'trendspotters', label: 'The Trendspotters', emoji: '⚡', vibe: 'Fresh & forward-looking' },
 ];
 
+// What the backend reports about the rendered variant besides its URL
+export interface GeneratedAudioDetails {
+  duration: number | null;
+  audioQuality: AudioQuality | null;
+  sampleRate: number | null;  // Hz of the stored file
+  chapters: Chapter[];
+  transcript: TranscriptTurn[];
+}
+
 interface VoiceSelectorProps {
   editionId: string;
   isScriptReady: boolean;
-  onAudioGenerated?: (voiceId: string, audioUrl: string) => void;
+  onAudioGenerated?: (voiceId: string, audioUrl: string, details: GeneratedAudioDetails) => void;
 }
 
 export default function VoiceSelector({
@@ -41,7 +51,13 @@ export default function VoiceSelector({
       const audioUrl = result.data?.audio;
       if (!audioUrl) throw new Error('No audio returned');
 
-      onAudioGenerated?.(selected, audioUrl);
+      onAudioGenerated?.(selected, audioUrl, {
+        duration: result.data?.duration ?? null,
+        audioQuality: result.data?.audioQuality ?? null,
+        sampleRate: result.data?.audioSampleRate ?? null,
+        chapters: result.data?.chapters || [],
+        transcript: result.data?.transcript || [],
+      });
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to generate audio');
     } finally {
@@ -0,0 +1,41 @@
+// ==================== VOXTRENDS SERVICE WORKER ====================
+// Shows edition alerts sent by scheduled-generation / auto-retry-generation
+// (supabase/functions/shared/push.ts) and opens the broadcast view on click.
+
+self.addEventListener('install', () => self.skipWaiting());
+self.addEventListener('activate', (event) => event.waitUntil(self.clients.claim()));
+
+self.addEventListener('push', (event) => {
+  let message = {};
+  try {
+    message = event.data ? event.data.json() : {};
+  } catch {
+    message = { body: event.data ? event.data.text() : '' };
+  }
+
+  event.waitUntil(
+    self.registration.showNotification(message.title || 'VoxTrends', {
+      body: message.body || '',
+      tag: message.tag,
+      renotify: !!message.tag,
+      icon: '/podcast-cover.png',
+      data: { url: message.url || '/' },
+    })
+  );
+});
+
+// Reuse an open VoxTrends tab when there is one
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const url = event.notification.data?.url || '/';
+
+  event.waitUntil((async () => {
+    const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+    const open = windows.find((client) => new URL(client.url).origin === self.location.origin);
+    if (open) {
+      await open.navigate(url);
+      return open.focus();
+    }
+    return self.clients.openWindow(url);
+  })());
+});
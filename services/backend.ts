@@ -1,12 +1,30 @@
 import { supabase } from './supabase';
+import { DEFAULT_EPISODE_FORMAT, type EpisodeFormat, type GenerationStage } from '../types';
 
 const FUNCTIONS_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1`;
+const JOB_POLL_INTERVAL_MS = 2000;
+const JOB_TIMEOUT_MS = 5 * 60 * 1000;
 
 export class BackendService {
   /**
    * Generic function to call any Supabase Edge Function
    */
   private async callFunction(name: string, body: any) {
+    const response = await this.openFunction(name, body);
+
+    const data = await response.json();
+    console.log('🔍 [Backend] Response data:', data);
+
+    if (!response.ok) throw this.toFunctionError(response.status, data);
+
+    return data;
+  }
+
+  /**
+   * POST to an Edge Function with the session token, refreshing once on 401.
+   * Returns the raw Response so callers can read JSON or a stream.
+   */
+  private async openFunction(name: string, body: any): Promise<Response> {
     console.log('🔍 [Backend] Getting session...');
     const { data: { session } } = await supabase.auth.getSession();
 
@@ -50,52 +68,197 @@ export class BackendService {
     }
 
     console.log('🔍 [Backend] Response status:', response.status);
+    return response;
+  }
 
-    const data = await response.json();
-    console.log('🔍 [Backend] Response data:', data);
-
-    if (!response.ok) {
-      // Handle specific error types
-      if (response.status === 429 && data.upgrade) {
-        // Daily limit reached
-        const error = new Error(data.message || 'Daily limit reached');
-        (error as any).upgrade = true;
-        (error as any).limit = data.limit;
-        (error as any).used = data.used;
-        throw error;
-      }
+  private toFunctionError(status: number, data: any): Error {
+    // Handle specific error types
+    if (status === 429 && data.upgrade) {
+      // Daily limit reached
+      const error = new Error(data.message || 'Daily limit reached');
+      (error as any).upgrade = true;
+      (error as any).limit = data.limit;
+      (error as any).used = data.used;
+      return error;
+    }
 
-      if (response.status === 546 || data.code === 'WORKER_LIMIT') {
-        const error = new Error('The server is currently processing too many requests. Please try again in 30 seconds.');
-        (error as any).workerLimit = true;
-        throw error;
-      }
+    if (status === 403 && data.upgrade) {
+      // Feature outside the plan (e.g. a Pro-only episode format)
+      const error = new Error(data.message || data.error || 'Upgrade required');
+      (error as any).upgrade = true;
+      (error as any).feature = data.format ? 'format' : undefined;
+      return error;
+    }
 
-      throw new Error(data.error || 'Request failed');
+    if (status === 546 || data.code === 'WORKER_LIMIT') {
+      const error = new Error('The server is currently processing too many requests. Please try again in 30 seconds.');
+      (error as any).workerLimit = true;
+      return error;
     }
 
-    return data;
+    return new Error(data.error || 'Request failed');
   }
 
   /**
-   * Generate a daily edition (Morning/Midday/Evening)
+   * Generate a daily edition (Morning/Midday/Evening, or a topic channel's briefing)
+   * Cached editions come straight back; fresh ones run as a server-side job that
+   * is polled until done, reporting each stage through onProgress.
    */
   async generateEdition(
-    editionType: 'Morning' | 'Midday' | 'Evening',
+    editionType: 'Morning' | 'Midday' | 'Evening' | 'Channel' | 'Breaking',
     region: string,
     language: string,
     forceRefresh: boolean = false,
     voiceId: string = 'originals',
-    generateAudio: boolean = false
+    generateAudio: boolean = false,
+    onProgress?: (stage: GenerationStage) => void,
+    channelId: string | null = null,
+    format: EpisodeFormat = DEFAULT_EPISODE_FORMAT
   ) {
-    return this.callFunction('generate-edition', {
+    const result = await this.callFunction('generate-edition', {
       editionType,
       region,
       language,
+      channelId,
+      format,
       forceRefresh,
       voiceId,
       generateAudio,
+      async: true,
+    });
+
+    if (!result.data?.job_id) return result;
+
+    onProgress?.(result.data.stage);
+    const edition = await this.waitForEditionJob(result.data.job_id, voiceId, generateAudio, onProgress);
+    return { data: edition };
+  }
+
+  /**
+   * Generate a daily edition over Server-Sent Events.
+   * onArtifact receives each piece (text and stories, links and sourcingQuality, script,
+   * imageUrl, flashSummary) as soon as the server has it; the promise resolves with
+   * the same { data } shape as generateEdition. Cached editions arrive as plain JSON in one go.
+   * Fresh editions run as a server-side job whose id is the first event: if the stream
+   * drops, the error carries it as jobId so the caller can poll that job (resumeEditionJob).
+   */
+  async streamEdition(
+    editionType: 'Morning' | 'Midday' | 'Evening' | 'Channel' | 'Breaking',
+    region: string,
+    language: string,
+    forceRefresh: boolean = false,
+    voiceId: string = 'originals',
+    handlers: {
+      onArtifact?: (partial: Record<string, any>) => void;
+      onStage?: (stage: GenerationStage) => void;
+    } = {},
+    channelId: string | null = null,
+    format: EpisodeFormat = DEFAULT_EPISODE_FORMAT
+  ) {
+    const response = await this.openFunction('generate-edition', {
+      editionType,
+      region,
+      language,
+      channelId,
+      format,
+      forceRefresh,
+      voiceId,
+      stream: true,
+    });
+
+    const contentType = response.headers.get('Content-Type') || '';
+    if (!contentType.startsWith('text/event-stream') || !response.body) {
+      const data = await response.json();
+      if (!response.ok) throw this.toFunctionError(response.status, data);
+      return data;
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let jobId: string | null = null;
+
+    // Connection drops surface as streamInterrupted so callers can fall back to polling the job
+    const interrupted = () => {
+      const error = new Error('Edition stream ended unexpectedly. Please try again.');
+      (error as any).streamInterrupted = true;
+      (error as any).jobId = jobId;
+      return error;
+    };
+
+    while (true) {
+      let chunk: ReadableStreamReadResult<Uint8Array>;
+      try {
+        chunk = await reader.read();
+      } catch {
+        throw interrupted();
+      }
+      const { value, done } = chunk;
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      // Events are separated by a blank line; keep any trailing partial event buffered
+      const blocks = buffer.split('\n\n');
+      buffer = blocks.pop() || '';
+
+      for (const block of blocks) {
+        const event = block.match(/^event: (.*)$/m)?.[1];
+        const payload = block.match(/^data: (.*)$/m)?.[1];
+        if (!event || !payload) continue;
+        const data = JSON.parse(payload);
+
+        if (event === 'done') return { data };
+        if (event === 'error') throw new Error(data.error || 'Edition generation failed. Please try again.');
+        if (event === 'job') {
+          jobId = data.job_id;
+          handlers.onStage?.(data.stage);
+          // Someone else's request is already generating this edition; follow their job
+          if (data.joined) return this.resumeEditionJob(data.job_id, voiceId, false, handlers.onStage);
+          continue;
+        }
+        if (event === 'stage') handlers.onStage?.(data.stage);
+        else handlers.onArtifact?.(data);
+      }
+    }
+
+    throw interrupted();
+  }
+
+  /**
+   * Get the current status of an async edition job.
+   * The voice is ours, not the job's: a joined job may have been started with another one.
+   */
+  async getEditionJobStatus(jobId: string, voiceId: string = 'originals', generateAudio: boolean = false) {
+    const result = await this.callFunction('generate-edition', {
+      action: 'job-status',
+      job_id: jobId,
+      voiceId,
+      generateAudio,
     });
+    return result.data as { job_id: string; status: string; stage: GenerationStage; error: string | null; edition: any };
+  }
+
+  /**
+   * Poll an edition job that is already running, e.g. the one behind a dropped stream.
+   * Resolves with the same { data } shape as generateEdition.
+   */
+  async resumeEditionJob(jobId: string, voiceId: string = 'originals', generateAudio: boolean = false, onProgress?: (stage: GenerationStage) => void) {
+    return { data: await this.waitForEditionJob(jobId, voiceId, generateAudio, onProgress) };
+  }
+
+  private async waitForEditionJob(jobId: string, voiceId: string, generateAudio: boolean, onProgress?: (stage: GenerationStage) => void) {
+    const deadline = Date.now() + JOB_TIMEOUT_MS;
+
+    while (Date.now() < deadline) {
+      await new Promise(resolve => setTimeout(resolve, JOB_POLL_INTERVAL_MS));
+      const job = await this.getEditionJobStatus(jobId, voiceId, generateAudio);
+      if (job.stage) onProgress?.(job.stage);
+
+      if (job.status === 'success' && job.edition) return job.edition;
+      if (job.status === 'failed') throw new Error(job.error || 'Edition generation failed. Please try again.');
+    }
+
+    throw new Error('Edition generation is taking longer than expected. Please try again in a minute.');
   }
 
   /**
@@ -177,6 +340,35 @@ export class BackendService {
     });
   }
 
+  /**
+   * Get (or create) the user's private podcast feed URL; rotate issues a new token
+   * and breaks every podcast app still subscribed to the old one
+   */
+  async getPodcastFeed(rotate: boolean = false): Promise<{ token: string; feed_url: string }> {
+    const result = await this.callFunction('podcast-feed', { rotate });
+    return result.data;
+  }
+
+  /**
+   * Turn off the user's podcast feeds entirely
+   */
+  async revokePodcastFeed() {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) throw new Error('Not authenticated');
+
+    const response = await fetch(`${FUNCTIONS_URL}/podcast-feed`, {
+      method: 'DELETE',
+      headers: {
+        'Authorization': `Bearer ${session.access_token}`,
+      },
+    });
+
+    if (!response.ok) {
+      const data = await response.json();
+      throw new Error(data.error || 'Failed to revoke podcast feed');
+    }
+  }
+
   /**
    * Revoke a share link (Phase 4)
    */
@@ -1,5 +1,7 @@
 import { supabase } from './supabase';
-import type { User, SavedClip, DailyEdition, UsageAnalytic } from './supabase';
+import { regionDate } from '../supabase/functions/shared/locales.ts';
+import { DEFAULT_EPISODE_FORMAT } from '../types';
+import type { User, SavedClip, DailyEdition, TopicChannel, StorySearchResult, StoryThread, ThreadStory, AppNotification, EditionFollow, DigestSubscription, UsageAnalytic } from './supabase';
 
 export class DatabaseService {
   // ==================== USER MANAGEMENT ====================
@@ -193,7 +195,7 @@ export class DatabaseService {
     language: string
   ): Promise<DailyEdition | null> {
     try {
-      const today = new Date().toISOString().split('T')[0];
+      const today = regionDate(region);  // Editions are filed under the region's local date
       
       const { data, error } = await supabase
         .from('daily_editions')
@@ -202,6 +204,8 @@ export class DatabaseService {
         .eq('region', region)
         .eq('language', language)
         .eq('date', today)
+        .is('channel_id', null)
+        .eq('episode_format', DEFAULT_EPISODE_FORMAT)
         .gt('expires_at', new Date().toISOString())
         .single();
       
@@ -233,7 +237,7 @@ export class DatabaseService {
     }
   ): Promise<DailyEdition> {
     try {
-      const today = new Date().toISOString().split('T')[0];
+      const today = regionDate(region);
       const expiresAt = new Date();
       expiresAt.setHours(expiresAt.getHours() + 6); // Cache for 6 hours
       
@@ -244,6 +248,8 @@ export class DatabaseService {
           region,
           language,
           date: today,
+          channel_id: null,
+          episode_format: DEFAULT_EPISODE_FORMAT,
           content,
           script,
           audio_url: metadata.audioUrl || null,
@@ -252,7 +258,7 @@ export class DatabaseService {
           flash_summary: metadata.flashSummary || null,
           expires_at: expiresAt.toISOString(),
         }, {
-          onConflict: 'edition_type,region,language,date'
+          onConflict: 'edition_type,region,language,date,channel_id,episode_format'
         })
         .select()
         .single();
@@ -265,6 +271,338 @@ export class DatabaseService {
     }
   }
   
+  // ==================== TOPIC CHANNELS ====================
+
+  /**
+   * Get the user's topic channels, oldest first (the order they appear in the tuner)
+   */
+  async getTopicChannels(userId: string): Promise<TopicChannel[]> {
+    try {
+      const { data, error } = await supabase
+        .from('topic_channels')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      console.error('Get topic channels error:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Create a topic channel (RLS caps each user at 10)
+   */
+  async createTopicChannel(
+    userId: string,
+    channel: Pick<TopicChannel, 'name' | 'include_keywords' | 'exclude_keywords' | 'preferred_sources'>
+  ): Promise<TopicChannel> {
+    try {
+      const { data, error } = await supabase
+        .from('topic_channels')
+        .insert({ user_id: userId, ...channel })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    } catch (error: any) {
+      console.error('Create topic channel error:', error);
+      throw new Error('Failed to create topic channel');
+    }
+  }
+
+  /**
+   * Update a topic channel's name, keywords or sources
+   */
+  async updateTopicChannel(
+    channelId: string,
+    updates: Partial<Pick<TopicChannel, 'name' | 'include_keywords' | 'exclude_keywords' | 'preferred_sources'>>
+  ): Promise<TopicChannel> {
+    try {
+      const { data, error } = await supabase
+        .from('topic_channels')
+        .update({ ...updates, updated_at: new Date().toISOString() })
+        .eq('id', channelId)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    } catch (error: any) {
+      console.error('Update topic channel error:', error);
+      throw new Error('Failed to update topic channel');
+    }
+  }
+
+  /**
+   * Delete a topic channel along with its cached briefings
+   */
+  async deleteTopicChannel(channelId: string): Promise<void> {
+    try {
+      const { error } = await supabase
+        .from('topic_channels')
+        .delete()
+        .eq('id', channelId);
+
+      if (error) throw error;
+    } catch (error: any) {
+      console.error('Delete topic channel error:', error);
+      throw new Error('Failed to delete topic channel');
+    }
+  }
+
+  // ==================== STORY SEARCH ====================
+
+  /**
+   * Full-text search over stored edition stories, best match first.
+   * Accepts web-search syntax ("exact phrase", or, -exclude).
+   */
+  async searchStories(
+    query: string,
+    filters: { language?: string; region?: string } = {},
+    limit: number = 20
+  ): Promise<StorySearchResult[]> {
+    try {
+      const { data, error } = await supabase.rpc('search_stories', {
+        p_query: query,
+        p_language: filters.language ?? null,
+        p_region: filters.region ?? null,
+        p_limit: limit,
+      });
+
+      if (error) throw error;
+      return data || [];
+    } catch (error: any) {
+      console.error('Search stories error:', error);
+      throw new Error('Failed to search stories');
+    }
+  }
+
+  /**
+   * Get a story thread with its stories, oldest first
+   */
+  async getStoryThread(threadId: string): Promise<{ thread: StoryThread; stories: ThreadStory[] }> {
+    try {
+      const { data: thread, error: threadError } = await supabase
+        .from('story_threads')
+        .select('*')
+        .eq('id', threadId)
+        .single();
+
+      if (threadError) throw threadError;
+
+      const { data: stories, error } = await supabase
+        .from('stories')
+        .select('id, edition_id, headline, summary, sentiment, date, daily_editions(edition_type)')
+        .eq('thread_id', threadId)
+        .order('date', { ascending: true })
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      return { thread, stories: (stories || []) as unknown as ThreadStory[] };
+    } catch (error: any) {
+      console.error('Get story thread error:', error);
+      throw new Error('Failed to load story timeline');
+    }
+  }
+
+  // ==================== BREAKING NEWS ====================
+
+  /**
+   * Get today's breaking bulletin for a region/language, if one is live
+   */
+  async getBreakingEdition(region: string, language: string): Promise<DailyEdition | null> {
+    try {
+      const { data, error } = await supabase
+        .from('daily_editions')
+        .select('*')
+        .eq('edition_type', 'Breaking')
+        .eq('region', region)
+        .eq('language', language)
+        .eq('date', regionDate(region))
+        .gt('expires_at', new Date().toISOString())
+        .order('generated_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    } catch (error) {
+      console.error('Get breaking edition error:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Get the user's unread notifications, newest first
+   */
+  async getUnreadNotifications(userId: string): Promise<AppNotification[]> {
+    try {
+      const { data, error } = await supabase
+        .from('notifications')
+        .select('*')
+        .eq('user_id', userId)
+        .is('read_at', null)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      console.error('Get notifications error:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Mark notifications as read
+   */
+  async markNotificationsRead(ids: string[]): Promise<void> {
+    try {
+      const { error } = await supabase
+        .from('notifications')
+        .update({ read_at: new Date().toISOString() })
+        .in('id', ids);
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Mark notifications read error:', error);
+      throw new Error('Failed to update notifications');
+    }
+  }
+
+  // ==================== PUSH ALERTS ====================
+
+  /**
+   * Store this browser's push subscription for the user
+   */
+  async savePushSubscription(userId: string, subscription: PushSubscriptionJSON): Promise<void> {
+    try {
+      const { error } = await supabase
+        .from('push_subscriptions')
+        .upsert({
+          user_id: userId,
+          endpoint: subscription.endpoint,
+          p256dh: subscription.keys?.p256dh,
+          auth: subscription.keys?.auth,
+          user_agent: navigator.userAgent,
+        }, { onConflict: 'endpoint' });
+
+      if (error) throw error;
+    } catch (error: any) {
+      console.error('Save push subscription error:', error);
+      throw new Error('Failed to enable notifications');
+    }
+  }
+
+  /**
+   * Forget a browser's push subscription
+   */
+  async deletePushSubscription(endpoint: string): Promise<void> {
+    try {
+      const { error } = await supabase
+        .from('push_subscriptions')
+        .delete()
+        .eq('endpoint', endpoint);
+
+      if (error) throw error;
+    } catch (error: any) {
+      console.error('Delete push subscription error:', error);
+      throw new Error('Failed to disable notifications');
+    }
+  }
+
+  /**
+   * Get the editions a user follows
+   */
+  async getEditionFollows(userId: string): Promise<EditionFollow[]> {
+    try {
+      const { data, error } = await supabase
+        .from('edition_follows')
+        .select('*')
+        .eq('user_id', userId);
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      console.error('Get edition follows error:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Follow or unfollow an edition for push alerts
+   */
+  async setEditionFollow(
+    userId: string,
+    follow: Pick<EditionFollow, 'region' | 'language' | 'edition_type'>,
+    following: boolean
+  ): Promise<void> {
+    try {
+      const { error } = following
+        ? await supabase
+            .from('edition_follows')
+            .upsert({ user_id: userId, ...follow }, { onConflict: 'user_id,region,language,edition_type' })
+        : await supabase
+            .from('edition_follows')
+            .delete()
+            .eq('user_id', userId)
+            .eq('region', follow.region)
+            .eq('language', follow.language)
+            .eq('edition_type', follow.edition_type);
+
+      if (error) throw error;
+    } catch (error: any) {
+      console.error('Set edition follow error:', error);
+      throw new Error('Failed to update edition alerts');
+    }
+  }
+
+  // ==================== EMAIL DIGEST ====================
+
+  /**
+   * Get the user's email digest choice, if they ever made one
+   */
+  async getDigestSubscription(userId: string): Promise<DigestSubscription | null> {
+    try {
+      const { data, error } = await supabase
+        .from('digest_subscriptions')
+        .select('user_id, region, language, edition_type, enabled, last_sent_at, created_at, updated_at')
+        .eq('user_id', userId)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    } catch (error) {
+      console.error('Get digest subscription error:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Choose the edition sent by email, or turn the digest off
+   */
+  async saveDigestSubscription(
+    userId: string,
+    digest: Pick<DigestSubscription, 'region' | 'language' | 'edition_type' | 'enabled'>
+  ): Promise<DigestSubscription> {
+    try {
+      const { data, error } = await supabase
+        .from('digest_subscriptions')
+        .upsert({ user_id: userId, ...digest, updated_at: new Date().toISOString() }, { onConflict: 'user_id' })
+        .select('user_id, region, language, edition_type, enabled, last_sent_at, created_at, updated_at')
+        .single();
+
+      if (error) throw error;
+      return data;
+    } catch (error: any) {
+      console.error('Save digest subscription error:', error);
+      throw new Error('Failed to update email digest');
+    }
+  }
+
   // ==================== ANALYTICS ====================
   
   /**
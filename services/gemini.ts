@@ -1,5 +1,6 @@
 
 import { GoogleGenAI, Modality, Type } from "@google/genai";
+import { AUDIO_SAMPLE_RATES } from "../types";
 
 export class VoxService {
   constructor() {}
@@ -173,7 +174,16 @@ export function decodeBase64(base64: string): Uint8Array {
   return bytes;
 }
 
-export async function decodeAudioData(data: Uint8Array, ctx: AudioContext, sampleRate: number = 24000, numChannels: number = 1): Promise<AudioBuffer> {
+// Decodes 16-bit PCM, or a WAV file whose header supplies the real sample rate and channel
+// count (48kHz for Pro audio). Headerless PCM is read at `sampleRate`: pass the episode's
+// stored audioSampleRate when it is known.
+export async function decodeAudioData(data: Uint8Array, ctx: AudioContext, sampleRate: number = AUDIO_SAMPLE_RATES['24khz'], numChannels: number = 1): Promise<AudioBuffer> {
+  const wav = readWavHeader(data);
+  if (wav) {
+    ({ sampleRate, numChannels } = wav);
+    data = data.subarray(wav.dataOffset, wav.dataOffset + wav.dataLength);
+  }
+
   const numSamples = Math.floor(data.byteLength / 2);
   const frameCount = numSamples / numChannels;
   const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
@@ -190,3 +200,25 @@ export async function decodeAudioData(data: Uint8Array, ctx: AudioContext, sampl
   }
   return buffer;
 }
+
+function readWavHeader(data: Uint8Array): { sampleRate: number; numChannels: number; dataOffset: number; dataLength: number } | null {
+  const tag = (offset: number) => String.fromCharCode(...data.subarray(offset, offset + 4));
+  if (data.byteLength < 44 || tag(0) !== 'RIFF' || tag(8) !== 'WAVE') return null;
+
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  let sampleRate = AUDIO_SAMPLE_RATES['24khz'];
+  let numChannels = 1;
+  let offset = 12;
+
+  while (offset + 8 <= data.byteLength) {
+    const size = view.getUint32(offset + 4, true);
+    if (tag(offset) === 'fmt ') {
+      numChannels = view.getUint16(offset + 10, true);
+      sampleRate = view.getUint32(offset + 12, true);
+    } else if (tag(offset) === 'data') {
+      return { sampleRate, numChannels, dataOffset: offset + 8, dataLength: Math.min(size, data.byteLength - offset - 8) };
+    }
+    offset += 8 + size + (size % 2);
+  }
+  return null;
+}
@@ -0,0 +1,54 @@
+import { db } from './database';
+
+const VAPID_PUBLIC_KEY = import.meta.env.VITE_VAPID_PUBLIC_KEY as string | undefined;
+
+// VAPID keys travel base64url-encoded; PushManager wants the raw bytes
+function urlBase64ToUint8Array(value: string): Uint8Array<ArrayBuffer> {
+  const base64 = (value + '='.repeat((4 - (value.length % 4)) % 4)).replace(/-/g, '+').replace(/_/g, '/');
+  return Uint8Array.from(atob(base64), (c) => c.charCodeAt(0));
+}
+
+export class PushService {
+  /**
+   * Whether this browser can receive edition alerts at all
+   */
+  isSupported(): boolean {
+    return !!VAPID_PUBLIC_KEY && 'serviceWorker' in navigator && 'PushManager' in window && 'Notification' in window;
+  }
+
+  /**
+   * Register the service worker, ask for permission and store the subscription.
+   * Returns false when the listener declines notifications.
+   */
+  async enable(userId: string): Promise<boolean> {
+    if (!this.isSupported()) throw new Error('Notifications are not supported in this browser');
+
+    const permission = await Notification.requestPermission();
+    if (permission !== 'granted') return false;
+
+    const registration = await navigator.serviceWorker.register('/sw.js');
+    await navigator.serviceWorker.ready;
+    const subscription = await registration.pushManager.getSubscription()
+      ?? await registration.pushManager.subscribe({
+        userVisibleOnly: true,
+        applicationServerKey: urlBase64ToUint8Array(VAPID_PUBLIC_KEY!),
+      });
+
+    await db.savePushSubscription(userId, subscription.toJSON());
+    return true;
+  }
+
+  /**
+   * Unsubscribe this browser (other devices keep their alerts)
+   */
+  async disable(): Promise<void> {
+    const registration = await navigator.serviceWorker?.getRegistration('/sw.js');
+    const subscription = await registration?.pushManager.getSubscription();
+    if (!subscription) return;
+    await db.deletePushSubscription(subscription.endpoint);
+    await subscription.unsubscribe();
+  }
+}
+
+// Export singleton instance
+export const push = new PushService();
@@ -56,29 +56,35 @@ export class StorageService {
     try {
       console.log('📤 Starting audio upload...', { userId, filename });
 
-      // Strip data URL prefix if present (data:audio/wav;base64,...)
+      // Strip data URL prefix if present (data:audio/mpeg;base64,...) and keep its MIME type.
+      // The backend uploads MP3 itself; inline audio only shows up when that upload failed
+      // or on editions generated before compressed audio, which are still WAV.
       let rawBase64 = audioBase64;
+      let mimeType = 'audio/wav';
       if (audioBase64.includes(',')) {
-        rawBase64 = audioBase64.split(',')[1];
+        const [prefix, data] = audioBase64.split(',');
+        rawBase64 = data;
+        mimeType = prefix.match(/data:([^;]+)/)?.[1] || mimeType;
         console.log('✅ Stripped data URL prefix');
       }
+      const extension = mimeType === 'audio/mpeg' ? 'mp3' : 'wav';
 
-      // Backend already returns complete WAV file - just decode it
+      // Backend already returns a complete audio file - just decode it
       const binaryString = atob(rawBase64.replace(/[\n\r\t\s]/g, ''));
       const bytes = new Uint8Array(binaryString.length);
       for (let i = 0; i < binaryString.length; i++) {
         bytes[i] = binaryString.charCodeAt(i);
       }
 
-      const wavBlob = new Blob([bytes], { type: 'audio/wav' });
-      console.log('✅ WAV blob created:', { size: wavBlob.size, type: wavBlob.type });
+      const audioBlob = new Blob([bytes], { type: mimeType });
+      console.log('✅ Audio blob created:', { size: audioBlob.size, type: audioBlob.type });
 
-      const filePath = `${userId}/audio/${Date.now()}-${filename}.wav`;
+      const filePath = `${userId}/audio/${Date.now()}-${filename}.${extension}`;
 
       const { data, error } = await supabase.storage
         .from(this.bucketName)
-        .upload(filePath, wavBlob, {
-          contentType: 'audio/wav',
+        .upload(filePath, audioBlob, {
+          contentType: mimeType,
           cacheControl: '3600',
           upsert: false,
         });
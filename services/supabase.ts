@@ -1,4 +1,5 @@
 import { createClient } from '@supabase/supabase-js';
+import type { GroundingLink, SourcingQuality } from '../types';
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
@@ -43,20 +44,116 @@ export interface SavedClip {
 
 export interface DailyEdition {
   id: string;
-  edition_type: 'Morning' | 'Midday' | 'Evening';
+  edition_type: 'Morning' | 'Midday' | 'Evening' | 'Channel' | 'Breaking';
   region: string;
   language: string;
   date: string;
+  channel_id: string | null;
+  breaking_topic: string | null;
+  episode_format: 'flash' | 'classic' | 'standard' | 'deep-dive' | 'monologue' | 'interview';
+  prompt_versions: { news: string; script: string } | null;
+  language_check: Record<'news' | 'script', { detected: string; confidence: number; attempts: number; valid: boolean } | null> | null;
+  story_dedup: {
+    attempts: number;
+    rejected: { headline: string; matched: string; similarity: number }[];
+    merged: { headline: string; matched: string; similarity: number }[];
+  } | null;
   content: string;
   script: string;
   audio_url: string | null;
   image_url: string | null;
-  grounding_links: any[];
+  grounding_links: GroundingLink[];
+  sourcing_quality: SourcingQuality | null;
   flash_summary: string | null;
   generated_at: string;
   expires_at: string | null;
 }
 
+export interface TopicChannel {
+  id: string;
+  user_id: string;
+  name: string;
+  include_keywords: string[];
+  exclude_keywords: string[];
+  preferred_sources: string[];
+  created_at: string;
+  updated_at: string;
+}
+
+// A search_stories hit: one story of an edition the user can see
+export interface StorySearchResult {
+  id: string;
+  edition_id: string;
+  edition_type: DailyEdition['edition_type'];
+  headline: string;
+  summary: string;
+  entities: string[];
+  sentiment: 'positive' | 'negative' | 'neutral' | 'mixed';
+  language: string;
+  region: string;
+  date: string;
+  rank: number;
+}
+
+// A story followed across editions (see the story_threads migration)
+export interface StoryThread {
+  id: string;
+  region: string;
+  language: string;
+  channel_id: string | null;
+  title: string;
+  entities: string[];
+  first_seen: string;
+  last_seen: string;
+  created_at: string;
+}
+
+// One entry of a thread's timeline
+export interface ThreadStory {
+  id: string;
+  edition_id: string;
+  headline: string;
+  summary: string;
+  sentiment: StorySearchResult['sentiment'];
+  date: string;
+  daily_editions: { edition_type: DailyEdition['edition_type'] } | null;
+}
+
+// An in-app alert, e.g. a breaking bulletin for the user's region/language
+export interface AppNotification {
+  id: string;
+  user_id: string;
+  kind: 'breaking';
+  title: string;
+  body: string | null;
+  edition_id: string | null;
+  region: string | null;
+  language: string | null;
+  created_at: string;
+  read_at: string | null;
+}
+
+// A listener following an edition for push alerts (see the web_push migration)
+export interface EditionFollow {
+  user_id: string;
+  region: string;
+  language: string;
+  edition_type: 'Morning' | 'Midday' | 'Evening';
+  created_at: string;
+}
+
+// The one edition a user gets by email (see the email_digest migration)
+export interface DigestSubscription {
+  user_id: string;
+  region: string;
+  language: string;
+  edition_type: 'Morning' | 'Midday' | 'Evening';
+  enabled: boolean;
+  last_sent_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
 export interface UsageAnalytic {
   id: string;
   user_id: string;
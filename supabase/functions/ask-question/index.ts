@@ -1,6 +1,6 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
-import { GoogleGenAI } from 'https://esm.sh/@google/genai@1.38.0';
+import { GeminiService } from '../shared/gemini.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -74,13 +74,8 @@ serve(async (req) => {
     prompt += `User: ${question}\n\nProvide a concise, insightful answer based on the news context above. Be direct and informative.`;
 
     // Call Gemini
-    const ai = new GoogleGenAI({ apiKey: Deno.env.get('GEMINI_API_KEY') ?? '' });
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: prompt,
-    });
-
-    const answer = response.text || 'Unable to generate an answer.';
+    const gemini = new GeminiService();
+    const answer = await gemini.answerQuestion(prompt, language || 'English');
 
     console.log('Question answered successfully');
 
@@ -1,5 +1,6 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { notifyEditionReady, pushSenderFromEnv } from '../shared/push.ts';
 
 // ==================== CORS ====================
 const corsHeaders = {
@@ -16,6 +17,8 @@ function handleCors(req: Request) {
 
 // ==================== CONFIGURATION ====================
 const GENERATE_EDITION_URL = `${Deno.env.get('SUPABASE_URL')}/functions/v1/generate-edition`;
+const EMAIL_DIGEST_URL = `${Deno.env.get('SUPABASE_URL')}/functions/v1/email-digest`;
+const APP_URL = Deno.env.get('APP_URL') ?? 'https://voxtrends.com';
 const MAX_RETRIES = 3;
 const RETRY_BACKOFF_MINUTES = [2, 5, 10]; // Backoff: 2min, 5min, 10min
 
@@ -29,7 +32,7 @@ async function generateEdition(
   region: string,
   language: string,
   serviceRoleKey: string
-): Promise<{ success: boolean; error?: string }> {
+): Promise<{ success: boolean; headline?: string | null; error?: string }> {
   try {
     const response = await fetch(GENERATE_EDITION_URL, {
       method: 'POST',
@@ -51,12 +54,31 @@ async function generateEdition(
       throw new Error(`HTTP ${response.status}: ${error.error || 'Unknown error'}`);
     }
 
-    return { success: true };
+    const result = await response.json().catch(() => ({}));
+    return { success: true, headline: result.data?.stories?.[0]?.headline ?? null };
   } catch (error: any) {
     return { success: false, error: error.message || String(error) };
   }
 }
 
+// Emails the edition to its digest subscribers; a failed send never fails the run
+async function sendDigests(editionType: string, region: string, language: string, serviceRoleKey: string) {
+  try {
+    const response = await fetch(EMAIL_DIGEST_URL, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${serviceRoleKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ editionType, region, language }),
+    });
+    if (!response.ok) console.warn(`⚠️ Email digest for ${region}/${language} answered ${response.status}`);
+    await response.body?.cancel();
+  } catch (error: any) {
+    console.warn(`⚠️ Email digest failed: ${error.message || error}`);
+  }
+}
+
 // ==================== MAIN HANDLER ====================
 async function handleAutoRetry(req: Request): Promise<Response> {
   const startTime = Date.now();
@@ -104,6 +126,7 @@ async function handleAutoRetry(req: Request): Promise<Response> {
     console.log(`📋 Found ${failedGenerations.length} failed generations to retry`);
 
     // Retry each failed generation
+    const pushSender = pushSenderFromEnv();
     let retrySuccessCount = 0;
     let retryFailureCount = 0;
     const retryResults: any[] = [];
@@ -134,6 +157,17 @@ async function handleAutoRetry(req: Request): Promise<Response> {
           })
           .eq('id', failed.id);
 
+        // The scheduled run never alerted followers of this edition, so the retry does
+        if (pushSender) {
+          await notifyEditionReady(supabaseClient, {
+            editionType: failed.edition_type,
+            region: failed.region,
+            language: failed.language,
+            headline: result.headline,
+          }, pushSender, APP_URL).catch((error) => console.warn(`⚠️ Edition alerts failed: ${error.message || error}`));
+        }
+        await sendDigests(failed.edition_type, failed.region, failed.language, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '');
+
         retrySuccessCount++;
         retryResults.push({
           editionType: failed.edition_type,
@@ -0,0 +1,158 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { BREAKING_COOLDOWN_HOURS, BREAKING_EDITION_TYPE, detectSpike, type TrendSpike } from '../shared/breaking.ts';
+import { GeminiService } from '../shared/gemini.ts';
+import { LANGUAGE_IDS, normalizeLanguage, normalizeRegion, REGION_IDS } from '../shared/locales.ts';
+
+// ==================== CORS ====================
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+// ==================== HANDLER DEPS ====================
+export interface MonitorHandlerDeps {
+  createServiceClient: () => any;
+  createGemini: () => GeminiService;
+  // Starts a bulletin through generate-edition, as scheduled-generation does for editions
+  generateEdition: (body: Record<string, unknown>) => Promise<{ editionId: string | null; error?: string }>;
+  now: () => Date;
+}
+
+export const defaultDeps: MonitorHandlerDeps = {
+  createServiceClient: () => createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+  ),
+  createGemini: () => new GeminiService(),
+  generateEdition: async (body) => {
+    const response = await fetch(`${Deno.env.get('SUPABASE_URL')}/functions/v1/generate-edition`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(body),
+    });
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok) return { editionId: null, error: `HTTP ${response.status}: ${result.error || 'Unknown error'}` };
+    return { editionId: result.data?.edition_id ?? null };
+  },
+  now: () => new Date(),
+};
+
+// ==================== SCANS ====================
+// The region's scans within the cooldown window, newest first. The newest is the
+// baseline for velocity; any spike among them means a bulletin just went out.
+async function recentScans(client: any, region: string, since: Date) {
+  const { data } = await client
+    .from('trend_scans')
+    .select('topics, spike, scanned_at')
+    .eq('region', region)
+    .gte('scanned_at', since.toISOString())
+    .order('scanned_at', { ascending: false });
+  return data ?? [];
+}
+
+// Listeners who follow this region/language and switched breaking alerts on
+async function notifySubscribers(client: any, region: string, language: string, spike: TrendSpike, editionId: string | null) {
+  const { data: users } = await client
+    .from('users')
+    .select('id, preferences')
+    .eq('region', region)
+    .eq('language', language);
+  const subscribers = (users ?? []).filter((user: any) => user.preferences?.breakingAlerts);
+  if (!subscribers.length) return 0;
+
+  const { error } = await client.from('notifications').insert(subscribers.map((user: any) => ({
+    user_id: user.id,
+    kind: 'breaking',
+    title: `Breaking · ${region}`,
+    body: spike.topic,
+    edition_id: editionId,
+    region,
+    language,
+  })));
+  if (error) {
+    console.warn(`⚠️ Failed to notify breaking-news subscribers: ${error.message}`);
+    return 0;
+  }
+  return subscribers.length;
+}
+
+async function monitorRegion(deps: MonitorHandlerDeps, client: any, gemini: GeminiService, region: string, languages: string[]) {
+  const now = deps.now();
+  // Scans run every 15 minutes, so an older baseline would overstate the velocity
+  const baselineSince = new Date(now.getTime() - 30 * 60 * 1000);
+  const cooldownSince = new Date(now.getTime() - BREAKING_COOLDOWN_HOURS * 60 * 60 * 1000);
+
+  const topics = await gemini.scanTrends(region);
+  const scans = await recentScans(client, region, cooldownSince);
+  const baseline = scans.find((scan: any) => scan.scanned_at >= baselineSince.toISOString());
+  const coolingDown = scans.some((scan: any) => scan.spike);
+
+  const spike = topics.length ? detectSpike(topics, baseline?.topics ?? null) : null;
+  const interrupts = spike && !coolingDown;
+
+  await client.from('trend_scans').insert({
+    region,
+    topics,
+    spike: interrupts ? spike : null,
+    scanned_at: now.toISOString(),
+  });
+
+  if (!spike) return { region, topics: topics.length, spike: null };
+  if (!interrupts) {
+    console.log(`🕐 ${region}: "${spike.topic}" is spiking, but a bulletin went out in the last ${BREAKING_COOLDOWN_HOURS}h`);
+    return { region, topics: topics.length, spike, cooldown: true };
+  }
+
+  console.log(`🚨 ${region}: "${spike.topic}" spiked (${spike.previousSources} → ${spike.sources} outlets)`);
+  const bulletins = [];
+  for (const language of languages) {
+    const { editionId, error } = await deps.generateEdition({
+      editionType: BREAKING_EDITION_TYPE,
+      region,
+      language,
+      topic: spike.topic,
+      forceRefresh: true,
+      voiceId: 'originals',
+    });
+    if (error) console.error(`❌ Breaking bulletin ${region}/${language} failed: ${error}`);
+    const notified = error ? 0 : await notifySubscribers(client, region, language, spike, editionId);
+    bulletins.push({ language, editionId, notified, error });
+  }
+  return { region, topics: topics.length, spike, bulletins };
+}
+
+// ==================== HANDLER ====================
+// Called by pg_cron every 15 minutes; { regions, languages } narrow a manual run
+export async function handleMonitorRequest(req: Request, deps: MonitorHandlerDeps = defaultDeps): Promise<Response> {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders });
+  if (req.method !== 'POST') return json({ error: 'Method not allowed' }, 405);
+
+  try {
+    const body = await req.json().catch(() => ({}));
+    const regions = (body.regions ?? REGION_IDS).map(normalizeRegion).filter(Boolean) as string[];
+    const languages = (body.languages ?? LANGUAGE_IDS).map(normalizeLanguage).filter(Boolean) as string[];
+
+    const client = deps.createServiceClient();
+    const gemini = deps.createGemini();
+    const results = [];
+    for (const region of regions) {
+      results.push(await monitorRegion(deps, client, gemini, region, languages));
+    }
+
+    return json({ success: true, results });
+  } catch (error: any) {
+    console.error('Breaking monitor error:', error);
+    return json({ success: false, error: error.message || 'Internal server error' }, 500);
+  }
+}
@@ -0,0 +1,7 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { handleMonitorRequest } from './handler.ts';
+
+// ==================== MAIN FUNCTION ====================
+console.log('Breaking Monitor Function Started');
+
+serve((req) => handleMonitorRequest(req));
@@ -2,7 +2,10 @@ import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
 import { corsHeaders, handleCors } from '../shared/cors.ts';
 import { getPlanLimits } from '../shared/limits.ts';
+import { normalizeLanguage, normalizeRegion } from '../shared/locales.ts';
 import { GeminiService } from '../shared/gemini.ts';
+import { citeSentences } from '../shared/citations.ts';
+import { annotateLinks, sourcingQuality } from '../shared/sources.ts';
 
 console.log('Conduct Research Function Started');
 
@@ -13,7 +16,11 @@ serve(async (req) => {
 
   try {
     // Parse request body
-    const { query, region, language } = await req.json();
+    const body = await req.json();
+    const { query } = body;
+    // Research isn't cached, so an unlisted region is passed through as written
+    const region = normalizeRegion(body.region) ?? body.region;
+    const language = normalizeLanguage(body.language) ?? body.language;
     
     console.log('Research request:', { query, region, language });
 
@@ -102,8 +109,10 @@ serve(async (req) => {
     console.log('Conducting research...');
 
     // Conduct research
-    const gemini = new GeminiService(Deno.env.get('GEMINI_API_KEY') ?? '');
-    const { text, grounding } = await gemini.conductResearch(query, region, language);
+    const gemini = new GeminiService();
+    const research = await gemini.conductResearch(query, region, language);
+    const { text } = research;
+    const grounding = annotateLinks(research.grounding);
 
     console.log('Research complete');
 
@@ -130,6 +139,8 @@ serve(async (req) => {
         data: {
           text,
           grounding,
+          sourcingQuality: sourcingQuality(grounding),
+          citations: citeSentences(text, research.supports, grounding.length),
         },
       }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
@@ -0,0 +1,196 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { DEFAULT_EPISODE_FORMAT } from '../shared/formats.ts';
+import { normalizeLanguage, normalizeRegion, regionDate } from '../shared/locales.ts';
+import { createMailTransport, type MailTransport } from '../shared/mail.ts';
+import { editionDeepLink } from '../shared/push.ts';
+import { renderDigest, renderUnsubscribeConfirm, renderUnsubscribed } from './templates.ts';
+
+// ==================== CORS ====================
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+};
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+function html(body: string, status = 200) {
+  return new Response(body, {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'text/html; charset=utf-8' },
+  });
+}
+
+// ==================== CONFIGURATION ====================
+const EDITIONS = ['Morning', 'Midday', 'Evening'];
+const MAX_STORIES = 5;
+
+// ==================== HANDLER DEPS ====================
+export interface DigestHandlerDeps {
+  createServiceClient: () => any;
+  transport: () => MailTransport;
+  appUrl: () => string;
+  functionsUrl: () => string;
+  serviceRoleKey: () => string;  // Only the schedulers may trigger a send
+}
+
+export const defaultDeps: DigestHandlerDeps = {
+  createServiceClient: () => createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+  ),
+  transport: () => createMailTransport(),
+  appUrl: () => Deno.env.get('APP_URL') ?? 'https://voxtrends.com',
+  functionsUrl: () => `${Deno.env.get('SUPABASE_URL') ?? ''}/functions/v1`,
+  serviceRoleKey: () => Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+};
+
+// ==================== UNSUBSCRIBE (?unsubscribe=) ====================
+function unsubscribeUrl(deps: DigestHandlerDeps, token: string): string {
+  return `${deps.functionsUrl()}/email-digest?unsubscribe=${encodeURIComponent(token)}`;
+}
+
+// Mail clients open the link without a session, so the token is the credential.
+// GET only shows the confirmation page; the change happens on POST, from that page's
+// form or a mail client's one-click unsubscribe (RFC 8058).
+async function unsubscribe(client: any, deps: DigestHandlerDeps, req: Request, token: string): Promise<Response> {
+  const { data: subscription } = await client
+    .from('digest_subscriptions')
+    .select('user_id, language')
+    .eq('unsubscribe_token', token)
+    .maybeSingle();
+
+  if (!subscription) return html(renderUnsubscribed('English'), 404);
+  if (req.method === 'GET') return html(renderUnsubscribeConfirm(subscription.language, unsubscribeUrl(deps, token)));
+
+  await client
+    .from('digest_subscriptions')
+    .update({ enabled: false, updated_at: new Date().toISOString() })
+    .eq('user_id', subscription.user_id);
+
+  console.log(`📭 ${subscription.user_id} unsubscribed from the email digest`);
+  return html(renderUnsubscribed(subscription.language));
+}
+
+// ==================== SEND (POST) ====================
+// Sends today's edition to every subscriber who chose it and hasn't had it yet
+async function sendDigests(client: any, deps: DigestHandlerDeps, editionType: string, region: string, language: string): Promise<Response> {
+  const { data: edition } = await client
+    .from('daily_editions')
+    .select('id, date, flash_summary, grounding_links')
+    .eq('edition_type', editionType)
+    .eq('region', region)
+    .eq('language', language)
+    .eq('date', regionDate(region))
+    .is('channel_id', null)
+    .eq('episode_format', DEFAULT_EPISODE_FORMAT)  // What scheduled-generation produces
+    .maybeSingle();
+
+  if (!edition) return json({ error: `No ${editionType} edition for ${region}/${language} today` }, 404);
+
+  const { data: subscriptions } = await client
+    .from('digest_subscriptions')
+    .select('user_id, unsubscribe_token, last_sent_edition_id')
+    .eq('enabled', true)
+    .eq('edition_type', editionType)
+    .eq('region', region)
+    .eq('language', language);
+  const due = (subscriptions ?? []).filter((s: any) => s.last_sent_edition_id !== edition.id);
+  if (!due.length) return json({ success: true, sent: 0, failed: 0 });
+
+  const { data: users } = await client
+    .from('users')
+    .select('id, email')
+    .in('id', due.map((s: any) => s.user_id));
+  const emails = new Map((users ?? []).map((u: any) => [u.id, u.email]));
+
+  const { data: stories } = await client
+    .from('stories')
+    .select('headline, summary')
+    .eq('edition_id', edition.id)
+    .order('position', { ascending: true })
+    .limit(MAX_STORIES);
+
+  const transport = deps.transport();
+  const listenUrl = editionDeepLink(deps.appUrl(), { editionType, region, language });
+  let sent = 0;
+  let failed = 0;
+
+  for (const subscription of due) {
+    const to = emails.get(subscription.user_id);
+    if (!to) continue;
+
+    const unsubscribeLink = unsubscribeUrl(deps, subscription.unsubscribe_token);
+    const { subject, html, text } = renderDigest({
+      editionType,
+      region,
+      language,
+      date: edition.date,
+      flashSummary: edition.flash_summary,
+      stories: stories ?? [],
+      links: edition.grounding_links ?? [],
+      listenUrl,
+      unsubscribeUrl: unsubscribeLink,
+    });
+
+    try {
+      await transport.send({
+        to: String(to),
+        subject,
+        html,
+        text,
+        headers: {
+          'List-Unsubscribe': `<${unsubscribeLink}>`,
+          'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+        },
+      });
+      await client
+        .from('digest_subscriptions')
+        .update({ last_sent_edition_id: edition.id, last_sent_at: new Date().toISOString() })
+        .eq('user_id', subscription.user_id);
+      sent++;
+    } catch (error: any) {
+      console.error(`❌ Digest to ${subscription.user_id} failed: ${error.message || error}`);
+      failed++;
+    }
+  }
+
+  console.log(`📧 [${editionType}] ${region}/${language}: ${sent} digest(s) sent, ${failed} failed`);
+  return json({ success: true, sent, failed });
+}
+
+// ==================== HANDLER ====================
+export async function handleDigestRequest(req: Request, deps: DigestHandlerDeps = defaultDeps): Promise<Response> {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders });
+
+  try {
+    const client = deps.createServiceClient();
+
+    if (req.method !== 'GET' && req.method !== 'POST') return json({ error: 'Method not allowed' }, 405);
+
+    const token = new URL(req.url).searchParams.get('unsubscribe');
+    if (token) return await unsubscribe(client, deps, req, token);
+    if (req.method === 'GET') return json({ error: 'unsubscribe token is required' }, 400);
+
+    if (req.headers.get('Authorization') !== `Bearer ${deps.serviceRoleKey()}`) {
+      return json({ error: 'Unauthorized' }, 401);
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const region = normalizeRegion(body.region);
+    const language = normalizeLanguage(body.language);
+    if (!EDITIONS.includes(body.editionType) || !region || !language) {
+      return json({ error: 'editionType, region and language are required' }, 400);
+    }
+
+    return await sendDigests(client, deps, body.editionType, region, language);
+  } catch (error: any) {
+    console.error('Email digest error:', error);
+    return json({ success: false, error: error.message || 'Internal server error' }, 500);
+  }
+}
@@ -0,0 +1,7 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { handleDigestRequest } from './handler.ts';
+
+// ==================== MAIN FUNCTION ====================
+console.log('Email Digest Function Started');
+
+serve((req) => handleDigestRequest(req));
@@ -0,0 +1,142 @@
+// ==================== DIGEST TEMPLATES ====================
+// The HTML and plain-text bodies of an edition digest, in the edition's language
+// (shared/digest-strings.ts); everything interpolated into HTML is escaped. Inline
+// styles only, since most mail clients drop <style> blocks.
+
+import { digestStrings } from '../shared/digest-strings.ts';
+import { getLanguage } from '../shared/locales.ts';
+import { renderTemplate } from '../shared/prompts.ts';
+
+export interface DigestStory {
+  headline: string;
+  summary: string;
+}
+
+export interface DigestLink {
+  uri: string;
+  title: string;
+  source?: string | null;  // Outlet name from the source registry
+}
+
+export interface DigestContent {
+  editionType: string;
+  region: string;
+  language: string;
+  date: string;               // YYYY-MM-DD, the region's local date
+  flashSummary: string | null;
+  stories: DigestStory[];
+  links: DigestLink[];
+  listenUrl: string;
+  unsubscribeUrl: string;
+}
+
+const MAX_STORIES = 5;
+const MAX_LINKS = 8;
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+// Flash summaries are "- " bullet lines
+function summaryBullets(flashSummary: string | null): string[] {
+  return (flashSummary ?? '')
+    .split('\n')
+    .map((line) => line.replace(/^\s*[-•*]\s*/, '').trim())
+    .filter(Boolean);
+}
+
+function formatDate(date: string, language: string): string {
+  return new Date(`${date}T12:00:00Z`).toLocaleDateString(getLanguage(language)?.locale ?? 'en-US', {
+    weekday: 'long',
+    month: 'long',
+    day: 'numeric',
+    timeZone: 'UTC',
+  });
+}
+
+export function renderDigest(content: DigestContent): { subject: string; html: string; text: string } {
+  const t = digestStrings(content.language);
+  const vars = { edition: content.editionType, region: content.region };
+  const subject = renderTemplate(t.subject, vars);
+  const intro = renderTemplate(t.intro, vars);
+  const date = formatDate(content.date, content.language);
+  const bullets = summaryBullets(content.flashSummary);
+  const stories = content.stories.slice(0, MAX_STORIES);
+  const links = content.links.slice(0, MAX_LINKS);
+
+  const text = [
+    subject,
+    date,
+    '',
+    intro,
+    ...(bullets.length ? ['', ...bullets.map((b) => `- ${b}`)] : []),
+    ...(stories.length ? ['', t.topStories.toUpperCase(), ...stories.flatMap((s) => ['', s.headline, s.summary])] : []),
+    ...(links.length ? ['', t.sources.toUpperCase(), ...links.map((l) => `- ${l.source || l.title}: ${l.uri}`)] : []),
+    '',
+    `${t.listen}: ${content.listenUrl}`,
+    '',
+    '--',
+    `${t.unsubscribe}: ${content.unsubscribeUrl}`,
+    '',
+  ].join('\n');
+
+  const html = `<!DOCTYPE html>
+<html lang="${getLanguage(content.language)?.code ?? 'en'}">
+<head><meta charset="utf-8"><meta name="viewport" content="width=device-width"><title>${escapeHtml(subject)}</title></head>
+<body style="margin:0;padding:0;background:#09090b;font-family:Helvetica,Arial,sans-serif;color:#e4e4e7;">
+<div style="max-width:600px;margin:0 auto;padding:32px 24px;">
+  <p style="margin:0;font-size:11px;font-weight:bold;letter-spacing:2px;text-transform:uppercase;color:#a78bfa;">VoxTrends · ${escapeHtml(date)}</p>
+  <h1 style="margin:8px 0 16px;font-family:Georgia,serif;font-size:28px;color:#ffffff;">${escapeHtml(subject)}</h1>
+  <p style="margin:0 0 16px;font-size:15px;line-height:1.5;">${escapeHtml(intro)}</p>
+${bullets.length ? `  <ul style="margin:0 0 24px;padding-left:20px;font-size:15px;line-height:1.6;">
+${bullets.map((b) => `    <li>${escapeHtml(b)}</li>`).join('\n')}
+  </ul>
+` : ''}  <p style="margin:0 0 32px;"><a href="${escapeHtml(content.listenUrl)}" style="display:inline-block;padding:12px 24px;border-radius:999px;background:#7c3aed;color:#ffffff;font-weight:bold;text-decoration:none;">▶ ${escapeHtml(t.listen)}</a></p>
+${stories.length ? `  <h2 style="margin:0 0 12px;font-size:12px;letter-spacing:2px;text-transform:uppercase;color:#71717a;">${escapeHtml(t.topStories)}</h2>
+${stories.map((s) => `  <div style="margin:0 0 20px;">
+    <h3 style="margin:0 0 4px;font-size:17px;color:#ffffff;">${escapeHtml(s.headline)}</h3>
+    <p style="margin:0;font-size:14px;line-height:1.5;color:#a1a1aa;">${escapeHtml(s.summary)}</p>
+  </div>`).join('\n')}
+` : ''}${links.length ? `  <h2 style="margin:24px 0 12px;font-size:12px;letter-spacing:2px;text-transform:uppercase;color:#71717a;">${escapeHtml(t.sources)}</h2>
+  <ul style="margin:0;padding-left:20px;font-size:13px;line-height:1.6;">
+${links.map((l) => `    <li><a href="${escapeHtml(l.uri)}" style="color:#a78bfa;">${escapeHtml(l.source || l.title)}</a></li>`).join('\n')}
+  </ul>
+` : ''}  <p style="margin:40px 0 0;font-size:11px;color:#52525b;"><a href="${escapeHtml(content.unsubscribeUrl)}" style="color:#52525b;">${escapeHtml(t.unsubscribe)}</a></p>
+</div>
+</body>
+</html>
+`;
+
+  return { subject, html, text };
+}
+
+// The unsubscribe link only opens this page: link scanners and prefetchers follow
+// links with GET, so the subscription changes on the form's POST
+export function renderUnsubscribeConfirm(language: string, actionUrl: string): string {
+  const t = digestStrings(language);
+  return unsubscribePage(language, `<p style="font-size:18px;">${escapeHtml(t.confirmUnsubscribe)}</p>
+  <form method="post" action="${escapeHtml(actionUrl)}">
+    <button type="submit" style="margin-top:16px;padding:12px 24px;border:0;border-radius:999px;background:#7c3aed;color:#ffffff;font-size:15px;font-weight:bold;cursor:pointer;">${escapeHtml(t.unsubscribeButton)}</button>
+  </form>`);
+}
+
+// Shown once the subscription is off
+export function renderUnsubscribed(language: string): string {
+  return unsubscribePage(language, `<p style="font-size:18px;">${escapeHtml(digestStrings(language).unsubscribed)}</p>`);
+}
+
+function unsubscribePage(language: string, body: string): string {
+  return `<!DOCTYPE html>
+<html lang="${getLanguage(language)?.code ?? 'en'}">
+<head><meta charset="utf-8"><meta name="viewport" content="width=device-width"><title>VoxTrends</title></head>
+<body style="margin:0;padding:64px 24px;background:#09090b;font-family:Helvetica,Arial,sans-serif;color:#e4e4e7;text-align:center;">
+  ${body}
+</body>
+</html>
+`;
+}
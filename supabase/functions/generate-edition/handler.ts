@@ -0,0 +1,1815 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import type { AudioQuality } from '../shared/audio.ts';
+import { storeEpisodeAudio, type StoredAudio } from '../shared/audio-storage.ts';
+import { BREAKING_COOLDOWN_HOURS, BREAKING_EDITION_TYPE } from '../shared/breaking.ts';
+import { CHANNEL_EDITION_TYPE, type TopicChannel } from '../shared/channels.ts';
+import type { Chapter } from '../shared/chapters.ts';
+import { citeSentences } from '../shared/citations.ts';
+import { dedupeStories, RECENT_STORY_DAYS, type DedupResult, type RecentStory } from '../shared/dedup.ts';
+import { DEFAULT_EPISODE_FORMAT, EPISODE_FORMATS, getEpisodeFormat, isEpisodeFormat, type EpisodeFormat } from '../shared/formats.ts';
+import type { TranscriptTurn } from '../shared/transcript.ts';
+import { GeminiService } from '../shared/gemini.ts';
+import { validateLanguage } from '../shared/language.ts';
+import { normalizeLanguage, normalizeRegion, regionDate } from '../shared/locales.ts';
+import { getAudioQuality, getPlanLimits, isEpisodeFormatAllowed } from '../shared/limits.ts';
+import { promptVersion } from '../shared/prompts.ts';
+import { annotateLinks, sourcingQuality } from '../shared/sources.ts';
+import { storiesToMarkdown, type Story } from '../shared/stories.ts';
+import { findThread, THREAD_LOOKBACK_DAYS, type PriorCoverage, type ThreadCandidate, type ThreadMatch } from '../shared/threads.ts';
+import { VOICE_PROFILES, remapScriptSpeakers, type VoiceId } from '../shared/voices.ts';
+
+// ==================== CORS ====================
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, GET, OPTIONS',
+};
+
+function handleCors(req: Request) {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+}
+
+// ==================== TIMEOUT HELPER ====================
+// Resolves to `fallback` if the promise rejects or takes longer than `ms`.
+// The timer is cleared either way so it never outlives the request.
+function withTimeout<T>(promise: Promise<T>, ms: number, fallback: T): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<T>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`Timeout after ${ms}ms`)), ms);
+  });
+  return Promise.race([promise, timeout])
+    .catch(() => fallback)
+    .finally(() => clearTimeout(timer));
+}
+
+// ==================== PHASE 1: REQUEST COALESCING ====================
+const inFlightGenerations = new Map<string, Promise<any>>();
+
+// Keyed by the region's local date, so a region's editions roll over at its own midnight
+function getCacheKey(editionType: string, region: string, language: string, date: string, channelId: string | null = null, format: string = DEFAULT_EPISODE_FORMAT): string {
+  const scope = channelId ? `${editionType}:${channelId}` : editionType;
+  return `${scope}-${region}-${language}-${format}-${date}`;
+}
+
+// Shared editions have no channel; .eq() can't match NULL, so they need .is()
+function scopeToChannel(query: any, channel: TopicChannel | null) {
+  return channel ? query.eq('channel_id', channel.id) : query.is('channel_id', null);
+}
+
+async function recordCacheHit(supabaseClient: any, cacheKey: string, generationTimeMs: number) {
+  try {
+    const { data: existing } = await supabaseClient
+      .from('cache_analytics')
+      .select('*')
+      .eq('cache_key', cacheKey)
+      .single();
+
+    if (existing) {
+      const newHits = existing.cache_hits + 1;
+      const newTotal = existing.total_requests + 1;
+      const newHitRate = newHits / newTotal;
+
+      await supabaseClient
+        .from('cache_analytics')
+        .update({
+          cache_hits: newHits,
+          total_requests: newTotal,
+          hit_rate: newHitRate,
+          cost_saved_by_cache: (existing.cost_saved_by_cache || 0) + 0.05,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('cache_key', cacheKey);
+    } else {
+      await supabaseClient
+        .from('cache_analytics')
+        .insert({
+          cache_key: cacheKey,
+          cache_hits: 1,
+          cache_misses: 0,
+          total_requests: 1,
+          hit_rate: 1.0,
+          cost_saved_by_cache: 0.05,
+          created_at: new Date().toISOString(),
+          updated_at: new Date().toISOString(),
+        });
+    }
+
+    console.log(`📊 Cache hit recorded: ${cacheKey}`);
+  } catch (error) {
+    console.warn(`⚠️ Failed to record cache hit: ${error}`);
+  }
+}
+
+async function recordCacheMiss(supabaseClient: any, cacheKey: string, generationTimeMs: number) {
+  try {
+    const { data: existing } = await supabaseClient
+      .from('cache_analytics')
+      .select('*')
+      .eq('cache_key', cacheKey)
+      .single();
+
+    const costPerGeneration = 0.50;
+
+    if (existing) {
+      const newMisses = existing.cache_misses + 1;
+      const newTotal = existing.total_requests + 1;
+      const newHitRate = existing.cache_hits / newTotal;
+
+      await supabaseClient
+        .from('cache_analytics')
+        .update({
+          cache_misses: newMisses,
+          total_requests: newTotal,
+          hit_rate: newHitRate,
+          generation_time_ms: generationTimeMs,
+          cost_per_generation: costPerGeneration,
+          total_cost: (existing.total_cost || 0) + costPerGeneration,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('cache_key', cacheKey);
+    } else {
+      await supabaseClient
+        .from('cache_analytics')
+        .insert({
+          cache_key: cacheKey,
+          cache_hits: 0,
+          cache_misses: 1,
+          total_requests: 1,
+          hit_rate: 0,
+          generation_time_ms: generationTimeMs,
+          cost_per_generation: costPerGeneration,
+          total_cost: costPerGeneration,
+          created_at: new Date().toISOString(),
+          updated_at: new Date().toISOString(),
+        });
+    }
+
+    console.log(`📊 Cache miss recorded: ${cacheKey} (${generationTimeMs}ms)`);
+  } catch (error) {
+    console.warn(`⚠️ Failed to record cache miss: ${error}`);
+  }
+}
+
+// ==================== PHASE 1: REFRESH THROTTLING ====================
+async function isRefreshThrottled(supabaseClient: any, userId: string, editionKey: string): Promise<{ throttled: boolean; minutesUntilRefresh?: number }> {
+  try {
+    const oneHourAgo = new Date(Date.now() - 60 * 60 * 1000).toISOString();
+
+    const { data: recentRefresh, error } = await supabaseClient
+      .from('user_refresh_history')
+      .select('force_refresh_at')
+      .eq('user_id', userId)
+      .eq('edition_key', editionKey)
+      .gte('force_refresh_at', oneHourAgo)
+      .order('force_refresh_at', { ascending: false })
+      .limit(1)
+      .single();
+
+    if (error && error.code === 'PGRST116') {
+      return { throttled: false };
+    }
+
+    if (recentRefresh) {
+      const lastRefresh = new Date(recentRefresh.force_refresh_at);
+      const nextAllowedRefresh = new Date(lastRefresh.getTime() + 60 * 60 * 1000);
+      const minutesUntilRefresh = Math.ceil((nextAllowedRefresh.getTime() - Date.now()) / (60 * 1000));
+
+      console.log(`🔒 Refresh throttled for ${editionKey}: ${minutesUntilRefresh} minutes remaining`);
+      return { throttled: true, minutesUntilRefresh };
+    }
+
+    return { throttled: false };
+  } catch (error) {
+    console.warn(`⚠️ Error checking refresh throttle: ${error}`);
+    return { throttled: false };
+  }
+}
+
+async function recordRefresh(supabaseClient: any, userId: string, editionKey: string) {
+  try {
+    await supabaseClient
+      .from('user_refresh_history')
+      .insert({
+        user_id: userId,
+        edition_key: editionKey,
+        force_refresh_at: new Date().toISOString(),
+      });
+
+    console.log(`📝 Refresh recorded for ${editionKey}`);
+  } catch (error) {
+    console.warn(`⚠️ Failed to record refresh: ${error}`);
+  }
+}
+
+// ==================== EDITION PIPELINE ====================
+// The fresh-generation chain: news → script → cover art + summary → optional audio.
+// Shared by the synchronous request path, async jobs and SSE streaming; hooks report
+// each step (jobs) and each artifact as soon as it exists (streaming).
+export type GenerationStage = 'queued' | 'researching' | 'scripting' | 'art' | 'summary' | 'audio' | 'complete';
+export type EditionArtifact = 'content' | 'links' | 'script' | 'image' | 'summary';
+
+interface PipelineHooks {
+  onStage?: (stage: GenerationStage) => void;
+  onArtifact?: (artifact: EditionArtifact, data: Record<string, unknown>) => void;
+}
+
+interface PipelineContext {
+  supabaseClient: any;
+  gemini: GeminiService;
+  user: { id: string };
+  userPlan: string;
+  editionType: string;
+  region: string;
+  language: string;
+  channel: TopicChannel | null;
+  format: EpisodeFormat;
+  voiceId: string;
+  voiceProfile: (typeof VOICE_PROFILES)[VoiceId];
+  generateAudio: boolean;
+  today: string;  // The region's local date, which the edition is filed under
+  breakingTopic: string | null;  // The spiking topic a Breaking bulletin covers
+  cacheKey: string;
+  startTime: number;
+}
+
+// Where each story and each spoken turn falls in one rendered voice variant
+interface AudioTiming {
+  chapters: Chapter[];
+  transcript: TranscriptTurn[];
+}
+
+function audioTiming(result: { chapters?: Chapter[]; transcript?: TranscriptTurn[] }): AudioTiming {
+  return { chapters: result.chapters ?? [], transcript: result.transcript ?? [] };
+}
+
+// Keep generated edition audio as the voice variant it is, so picking this voice later is a cache hit
+async function recordVoiceVariant(
+  supabaseClient: any,
+  editionId: string,
+  userId: string,
+  voiceId: string,
+  quality: AudioQuality,
+  audio: StoredAudio,
+  timing: AudioTiming,
+  generationTimeMs: number
+) {
+  const { error } = await supabaseClient
+    .from('voice_variants')
+    .upsert({
+      edition_id: editionId,
+      user_id: userId,
+      voice_id: voiceId,
+      audio_quality: quality,
+      audio_url: audio.url,
+      duration_seconds: audio.durationSeconds,
+      audio_format: audio.format,
+      audio_bytes: audio.sizeBytes,
+      sample_rate: audio.sampleRate,
+      chapters: timing.chapters,
+      transcript: timing.transcript,
+      generation_time_ms: generationTimeMs,
+    }, {
+      onConflict: 'edition_id,voice_id,audio_quality'
+    });
+
+  if (error) {
+    console.warn(`⚠️ Failed to store edition audio: ${error.message}`);
+  }
+}
+
+// The edition keeps the chapter list of its first render; each voice variant also keeps
+// its own, since different voices pace the same script differently
+async function recordEditionChapters(supabaseClient: any, edition: { id: string; chapters?: Chapter[] | null }, chapters: Chapter[]) {
+  if (!chapters.length || edition.chapters?.length) return;
+
+  const { error } = await supabaseClient
+    .from('daily_editions')
+    .update({ chapters })
+    .eq('id', edition.id);
+
+  if (error) {
+    console.warn(`⚠️ Failed to store edition chapters: ${error.message}`);
+  }
+}
+
+// ==================== STORIES ====================
+// The briefing's structured stories, one row each in briefing order. Regenerating
+// an edition replaces them.
+const STORY_COLUMNS = 'headline, summary, body, entities, sources, sentiment, thread_id';
+
+// Follow-ups extend the matched thread; every other story starts a new one. Threads
+// are written through record_story_thread only (see the story_threads migration).
+// Returns each story's thread id (null where the thread couldn't be stored).
+async function recordStoryThreads(supabaseClient: any, edition: any, stories: Story[], threads: (ThreadMatch | null)[]): Promise<(string | null)[]> {
+  return await Promise.all(stories.map(async (story, i) => {
+    const match = threads[i];
+    const { data, error } = await supabaseClient.rpc('record_story_thread', {
+      p_thread_id: match?.threadId ?? null,
+      p_region: edition.region,
+      p_language: edition.language,
+      p_channel_id: edition.channel_id ?? null,
+      p_title: story.headline,
+      p_entities: story.entities,
+      p_date: edition.date,
+    });
+    if (error) {
+      console.warn(`⚠️ Failed to ${match ? 'extend' : 'start'} story thread: ${error.message}`);
+      return match?.threadId ?? null;
+    }
+    return data ?? null;
+  }));
+}
+
+async function recordEditionStories(
+  supabaseClient: any,
+  edition: any,
+  stories: Story[],
+  embeddings: number[][] = [],
+  threads: (ThreadMatch | null)[] = []
+): Promise<(string | null)[]> {
+  const threadIds = await recordStoryThreads(supabaseClient, edition, stories, threads);
+
+  const { error: deleteError } = await supabaseClient
+    .from('stories')
+    .delete()
+    .eq('edition_id', edition.id);
+
+  const { error } = deleteError || !stories.length ? { error: deleteError } : await supabaseClient
+    .from('stories')
+    .insert(stories.map((story, position) => ({
+      ...story,
+      embedding: embeddings[position] ?? null,
+      thread_id: threadIds[position],
+      edition_id: edition.id,
+      channel_id: edition.channel_id ?? null,
+      position,
+      language: edition.language,
+      region: edition.region,
+      date: edition.date,
+    })));
+
+  if (error) {
+    console.warn(`⚠️ Failed to store edition stories: ${error.message}`);
+  }
+  return threadIds;
+}
+
+async function loadEditionStories(supabaseClient: any, editionId: string): Promise<Story[]> {
+  const { data, error } = await supabaseClient
+    .from('stories')
+    .select(STORY_COLUMNS)
+    .eq('edition_id', editionId)
+    .order('position', { ascending: true });
+
+  if (error) {
+    console.warn(`⚠️ Failed to load edition stories: ${error.message}`);
+  }
+  return data ?? [];
+}
+
+// Cover art prompt: the lead story's headline, or the briefing's first line for
+// editions stored before stories existed
+function leadTopic(stories: Story[], content: string): string {
+  return stories[0]?.headline.slice(0, 100) || content.split('\n')
+    .find((line) => line.trim().length > 5)
+    ?.replace(/[*#]/g, '')
+    ?.trim()
+    ?.slice(0, 100) || 'Daily News Briefing';
+}
+
+// ==================== SEMANTIC DEDUP ====================
+// New stories are embedded and compared with those of recent editions (see
+// shared/dedup.ts). Repeats are dropped; if every story was a repeat the news
+// step runs once more with the repeated topics excluded in the prompt.
+const MAX_DEDUP_ATTEMPTS = 2;
+
+interface RecentStories {
+  todayTopics: string[];          // Headlines of today's sibling editions, for the prompt
+  stories: RecentStory[];         // Stories of the last RECENT_STORY_DAYS, for the similarity check
+  threads: ThreadCandidate[];     // Stories of the last THREAD_LOOKBACK_DAYS, for follow-up threading
+}
+
+const daysBefore = (date: string, days: number) => {
+  const since = new Date(`${date}T00:00:00Z`);
+  since.setUTCDate(since.getUTCDate() - days);
+  return since.toISOString().split('T')[0];
+};
+
+// Editions for this region/language from the last THREAD_LOOKBACK_DAYS, except this
+// edition type today (this edition and its other formats). Channel editions only
+// compare with their own channel's earlier briefings.
+async function loadRecentStories(supabaseClient: any, ctx: PipelineContext): Promise<RecentStories> {
+  const { region, language, editionType, channel, today } = ctx;
+
+  const { data: editions } = await scopeToChannel(
+    supabaseClient
+      .from('daily_editions')
+      .select('id, edition_type, date, content')
+      .eq('region', region)
+      .eq('language', language)
+      .gte('date', daysBefore(today, THREAD_LOOKBACK_DAYS - 1)),
+    channel
+  );
+
+  const recentEditions = (editions ?? []).filter((ed: any) => !(ed.date === today && ed.edition_type === editionType));
+  if (!recentEditions.length) return { todayTopics: [], stories: [], threads: [] };
+
+  const { data: rows } = await supabaseClient
+    .from('stories')
+    .select('edition_id, headline, entities, embedding, thread_id')
+    .in('edition_id', recentEditions.map((ed: any) => ed.id))
+    .order('position', { ascending: true });
+
+  // Editions stored before stories existed contribute their first heading to the prompt
+  const todayTopics = recentEditions.filter((ed: any) => ed.date === today).flatMap((ed: any) => {
+    const headlines = (rows ?? []).filter((row: any) => row.edition_id === ed.id).map((row: any) => row.headline);
+    return headlines.length ? headlines : [leadTopic([], ed.content || '')];
+  }).map((topic: string) => topic.slice(0, 80)).filter((topic: string) => topic !== 'Daily News Briefing');
+
+  const editionDates = new Map<string, string>(recentEditions.map((ed: any) => [ed.id, ed.date]));
+  const threads: ThreadCandidate[] = (rows ?? []).map((row: any) => ({
+    headline: row.headline,
+    entities: row.entities ?? [],
+    embedding: row.embedding ?? null,
+    thread_id: row.thread_id ?? null,
+    date: editionDates.get(row.edition_id)!,
+  }));
+
+  const dedupSince = daysBefore(today, RECENT_STORY_DAYS - 1);
+  return {
+    todayTopics,
+    stories: threads
+      .filter((row) => row.date >= dedupSince)
+      .map(({ headline, embedding }) => ({ headline, embedding })),
+    threads,
+  };
+}
+
+async function dedupeNews(gemini: GeminiService, stories: Story[], recent: RecentStory[]): Promise<DedupResult> {
+  const embeddings = await gemini.embedStories(stories);
+  if (!embeddings) return { stories, embeddings: [], rejected: [], merged: [] };
+
+  const result = dedupeStories(stories, embeddings, recent);
+  for (const match of result.rejected) {
+    console.log(`🔁 Dropped "${match.headline}" — repeats "${match.matched}" (${match.similarity})`);
+  }
+  for (const match of result.merged) {
+    console.log(`🔁 Merged "${match.headline}" into "${match.matched}" (${match.similarity})`);
+  }
+
+  // Better a briefing of repeats than no briefing at all
+  if (!result.stories.length && stories.length) {
+    return { ...result, stories, embeddings };
+  }
+  return result;
+}
+
+// ==================== LANGUAGE CHECKS ====================
+// News and script output is identified with the n-gram detector. A step that comes
+// back in the wrong language is regenerated with a language correction prepended,
+// up to MAX_LANGUAGE_ATTEMPTS; the last attempt is kept either way and the outcome
+// is recorded in daily_editions.language_check.
+const MAX_LANGUAGE_ATTEMPTS = 3;
+
+interface LanguageCheck {
+  detected: string;
+  confidence: number;
+  attempts: number;
+  valid: boolean;
+}
+
+async function generateInLanguage<T>(
+  step: string,
+  language: string,
+  generate: (strictLanguage: boolean) => Promise<T>,
+  textOf: (result: T) => string
+): Promise<{ result: T; check: LanguageCheck }> {
+  for (let attempt = 1; ; attempt++) {
+    const result = await generate(attempt > 1);
+    const { isValid, detectedLanguage, confidence } = validateLanguage(textOf(result), language);
+    const check = { detected: detectedLanguage, confidence, attempts: attempt, valid: isValid };
+
+    if (isValid) {
+      console.log(`🔍 ${step} language: ${detectedLanguage} (confidence ${confidence}, attempt ${attempt})`);
+      return { result, check };
+    }
+    if (attempt >= MAX_LANGUAGE_ATTEMPTS) {
+      console.error(`❌ LANGUAGE MISMATCH: ${step} still came back in ${detectedLanguage} instead of ${language} after ${attempt} attempts`);
+      return { result, check };
+    }
+    console.warn(`⚠️ ${step} came back in ${detectedLanguage} instead of ${language} — retrying with a language correction (${attempt + 1}/${MAX_LANGUAGE_ATTEMPTS})`);
+  }
+}
+
+async function runEditionPipeline(ctx: PipelineContext, hooks: PipelineHooks = {}) {
+  const { supabaseClient, gemini, user, userPlan, editionType, region, language, channel, format, voiceId, voiceProfile, generateAudio, today, breakingTopic, cacheKey, startTime } = ctx;
+  const onStage = hooks.onStage ?? (() => {});
+  const onArtifact = hooks.onArtifact ?? (() => {});
+
+  // Step 1: Fetch trending news (REQUIRED - this is the core content)
+  // First, gather the stories of recent editions for the same region/language: today's
+  // sibling headlines go into the prompt, and every new story is checked against all
+  // of them by embedding similarity once the briefing is back. The past week's stories
+  // are kept as well to link follow-ups into their threads.
+  let recent: RecentStories = { todayTopics: [], stories: [], threads: [] };
+  try {
+    recent = await loadRecentStories(supabaseClient, ctx);
+    if (recent.todayTopics.length > 0) {
+      console.log(`Found ${recent.todayTopics.length} sibling topic(s) — passing topics for dedup`);
+    }
+  } catch (e) {
+    console.warn('⚠️ Failed to fetch recent stories for dedup (non-fatal):', e);
+  }
+
+  onStage('researching');
+  // A Breaking bulletin is usually a development of something covered earlier, so it
+  // isn't deduplicated against those editions; threads link it to them instead
+  const dedupAgainst = breakingTopic ? [] : recent.stories;
+  let previousTopics = breakingTopic ? '' : recent.todayTopics.join(', ');
+  let dedupAttempts = 0;
+  let news: Awaited<ReturnType<GeminiService['fetchTrendingNews']>>;
+  let newsLanguage: LanguageCheck;
+  let dedup: DedupResult;
+  do {
+    dedupAttempts++;
+    console.log('Fetching trending news...');
+    ({ result: news, check: newsLanguage } = await generateInLanguage(
+      'News',
+      language,
+      (strictLanguage) => gemini.fetchTrendingNews(region, language, editionType, previousTopics, channel ?? undefined, strictLanguage, breakingTopic ?? undefined),
+      (result) => result.text
+    ));
+    dedup = await dedupeNews(gemini, news.stories, dedupAgainst);
+
+    const allRepeats = news.stories.length > 0 && dedup.rejected.length === news.stories.length;
+    if (!allRepeats || dedupAttempts >= MAX_DEDUP_ATTEMPTS) break;
+    previousTopics = [...new Set([...recent.todayTopics, ...dedup.rejected.map((match) => match.matched)])].join(', ');
+    console.warn(`⚠️ Every story repeats a recent edition — regenerating with them excluded (${dedupAttempts + 1}/${MAX_DEDUP_ATTEMPTS})`);
+  } while (true);
+
+  // Grounding links carry their outlet's credibility tier and bias label (shared/sources.ts)
+  const groundingLinks = annotateLinks(news.grounding);
+  const sourcing = sourcingQuality(groundingLinks);
+  const stories = dedup.stories;
+  const trendingNews = stories.length ? storiesToMarkdown(stories) : news.text;
+  console.log('Trending news fetched, length:', trendingNews.length);
+
+  if (!trendingNews || trendingNews.length < 50) {
+    throw new Error('Failed to fetch trending news content');
+  }
+
+  // Sentences of the final briefing matched with the grounding supports behind them
+  const citations = citeSentences(trendingNews, news.supports, groundingLinks.length);
+  console.log(`🔗 ${citations.length} briefing sentences cite their sources`);
+
+  onArtifact('content', { text: trendingNews, stories });
+  onArtifact('links', { links: groundingLinks, sourcingQuality: sourcing, citations });
+
+  const firstTopic = leadTopic(stories, trendingNews);
+
+  // Follow-ups of stories from the past week, so the script can refer back to them
+  const threads = stories.map((story, i) => findThread(story, dedup.embeddings[i], recent.threads));
+  const priorCoverage: PriorCoverage[] = stories.flatMap((story, i) => {
+    const match = threads[i];
+    return match ? [{ headline: story.headline, previousHeadline: match.previous.headline, previousDate: match.previous.date }] : [];
+  });
+
+  // ==================== PHASE 3: CONTENT + SCRIPT ONLY ====================
+  // Skip audio generation - users will select voice variant after content is ready
+  // This reduces TTS cost by ~90% (only generate audio for variants they actually want)
+
+  onStage('scripting');
+  console.log(`Step 2: Generating podcast script (${format.label})...`);
+  let script = '';
+  let scriptLanguage: LanguageCheck | null = null;
+  try {
+    const generated = await generateInLanguage(
+      'Script',
+      language,
+      (strictLanguage) => gemini.generatePodcastScript(
+        trendingNews,
+        language,
+        format,
+        voiceProfile.hosts.lead,
+        voiceProfile.hosts.expert,
+        priorCoverage,
+        strictLanguage,
+        region
+      ),
+      (result) => result
+    );
+    script = generated.result;
+    scriptLanguage = generated.check;
+  } catch (e) { console.error('Script error:', e); }
+
+  if (script) onArtifact('script', { script });
+
+  // Steps 3 & 4 are independent of each other — run in parallel to cut wall-clock time.
+  // Cover art is the slow one, so the job reports 'art' until it lands and then
+  // 'summary' for whatever is left of the summary call.
+  onStage('art');
+  console.log('Steps 3+4: Generating cover art and flash summary in parallel...');
+  const [imageUrl, flashSummary] = await Promise.all([
+    withTimeout(gemini.generateCoverArt(firstTopic), 45000, null)
+      .catch((e: any) => { console.error('Image generation failed or timed out:', e); return null; })
+      .then((url) => { onArtifact('image', { imageUrl: url }); return url; })
+      .finally(() => onStage('summary')),
+    gemini.generateFlashSummary(trendingNews, language)
+      .catch((e: any) => { console.error('Summary error:', e); return ''; })
+      .then((summary) => { onArtifact('summary', { flashSummary: summary }); return summary; }),
+  ]);
+
+  console.log('Content generation complete:');
+  console.log('  - Summary:', flashSummary ? 'success' : 'failed');
+  console.log('  - Image:', imageUrl ? 'success' : 'failed/skipped');
+  console.log('  - Script:', script ? `success (${script.length} chars)` : 'failed');
+  console.log('  🎙️ Audio generation: SKIPPED (Phase 3 on-demand voice variants)');
+
+  // STRICT VALIDATION: Only cache if content is successful
+  if (!trendingNews || trendingNews.length < 500) {
+    console.error('Validation Failed: News content too short or missing.');
+    throw new Error('News research failed to produce quality content. Please try again.');
+  }
+
+  if (!script || script.length < 50) {
+    console.error('Validation Failed: Script generation failed.');
+    throw new Error('Script generation failed. Please try again.');
+  }
+
+  // Cache the edition
+  const expiresAt = new Date();
+  expiresAt.setHours(expiresAt.getHours() + 6);
+
+  // ==================== PHASE 3: CACHE SCRIPT-READY EDITION ====================
+  // Store content + script, but NOT audio (audio will be generated per-variant on-demand)
+  const { data: editionData, error: cacheError } = await supabaseClient
+    .from('daily_editions')
+    .upsert({
+      edition_type: editionType,
+      region,
+      language,
+      date: today,
+      channel_id: channel?.id ?? null,
+      episode_format: format.id,
+      user_id: user.id,
+      content: trendingNews,
+      script: script || '',
+      audio_url: null,  // Phase 3: No audio yet - generated on-demand
+      chapters: null,   // Filled in from the first audio render
+      image_url: imageUrl,
+      grounding_links: groundingLinks,
+      sourcing_quality: sourcing,
+      citations,
+      breaking_topic: breakingTopic,
+      flash_summary: flashSummary,
+      expires_at: expiresAt.toISOString(),
+      script_ready: true,
+      is_script_only: true,  // Marker for Phase 3 behavior
+      content_generated_at: new Date().toISOString(),
+      prompt_versions: { news: promptVersion('news', language), script: promptVersion('script', language) },
+      language_check: { news: newsLanguage, script: scriptLanguage },
+      story_dedup: { attempts: dedupAttempts, rejected: dedup.rejected, merged: dedup.merged },
+    }, {
+      onConflict: 'edition_type,region,language,date,channel_id,episode_format'
+    })
+    .select()
+    .single();
+
+  if (cacheError) {
+    throw new Error(`Failed to cache edition: ${cacheError.message}`);
+  }
+
+  console.log('Edition cached (script-ready, audio on-demand per voice variant)');
+
+  const threadIds = await recordEditionStories(supabaseClient, editionData, stories, dedup.embeddings, threads);
+  const storedStories = stories.map((story, i) => ({ ...story, thread_id: threadIds[i] }));
+
+  // ==================== PHASE 4: SCHEDULE CONTENT DELETION ====================
+  // Create expiration schedule entry based on user's plan tier
+  const retentionHours = {
+    'Free': 24,
+    'Pro': 7 * 24,      // 7 days
+    'Studio': 30 * 24,  // 30 days
+  };
+
+  const tierRetentionHours = retentionHours[userPlan as keyof typeof retentionHours] || 24;
+  const scheduledDeletionAt = new Date();
+  scheduledDeletionAt.setHours(scheduledDeletionAt.getHours() + tierRetentionHours);
+
+  try {
+    await supabaseClient
+      .from('content_expiration_schedule')
+      .upsert({
+        edition_id: editionData.id,
+        user_id: user.id,
+        tier: userPlan,
+        scheduled_deletion_at: scheduledDeletionAt.toISOString(),
+      }, {
+        onConflict: 'edition_id,user_id'
+      });
+
+    console.log(`📅 Content scheduled for deletion in ${tierRetentionHours} hours (${userPlan} tier)`);
+  } catch (err) {
+    console.warn(`⚠️ Failed to schedule content deletion: ${err}`);
+    // Non-blocking error - don't fail the whole function
+  }
+
+  // Increment usage
+  await supabaseClient.rpc('increment_daily_usage', {
+    p_user_id: user.id,
+    p_action: 'edition',
+  });
+
+  console.log('Usage incremented');
+
+  // Log analytics
+  await supabaseClient.from('usage_analytics').insert({
+    user_id: user.id,
+    action_type: 'generate_edition',
+    metadata: { editionType, region, language, channelId: channel?.id ?? null, format: format.id, voiceId },
+    cost_estimate: 0.15,
+  });
+
+  console.log('Analytics logged');
+
+  // ==================== PHASE 1: RECORD CACHE MISS ====================
+  const generationTime = Date.now() - startTime;
+  recordCacheMiss(supabaseClient, cacheKey, generationTime).catch((err) =>
+    console.warn(`⚠️ Failed to record cache miss: ${err}`)
+  );
+
+  // ==================== PHASE 3: OPTIONAL AUDIO GENERATION ====================
+  let storedAudio: StoredAudio | null = null;
+  let timing: AudioTiming = { chapters: [], transcript: [] };
+  const audioQuality = getAudioQuality(userPlan);
+
+  if (generateAudio && script) {
+    try {
+      onStage('audio');
+      console.log(`🎙️ Generating ${audioQuality} audio for voice profile:`, voiceId);
+      const audioResult = await gemini.generateAudio(
+        script,
+        voiceProfile.voices.lead,
+        voiceProfile.voices.expert,
+        voiceProfile.hosts.lead,
+        voiceProfile.hosts.expert,
+        language || 'English',
+        audioQuality
+      );
+
+      if (audioResult.data) {
+        storedAudio = await storeEpisodeAudio(supabaseClient, user.id, audioResult.data, `${cacheKey}-${voiceId}`);
+        timing = audioTiming(audioResult);
+        console.log('✅ Audio generated successfully');
+
+        await recordVoiceVariant(supabaseClient, editionData.id, user.id, voiceId, audioQuality, storedAudio, timing, Date.now() - startTime);
+        await recordEditionChapters(supabaseClient, editionData, timing.chapters);
+      } else {
+        console.warn('⚠️ Audio generation returned no data:', audioResult.error);
+      }
+    } catch (audioError: any) {
+      console.error('❌ Audio generation error:', audioError);
+      // Don't fail the whole request if audio generation fails
+    }
+  }
+
+  // ==================== PHASE 3: RETURN SCRIPT-READY EDITION ====================
+  // Return content + script, optionally with audio
+  const audioUrl = storedAudio?.url ?? null;
+  return {
+    edition_id: editionData.id,
+    format: format.id,
+    text: trendingNews,
+    stories: storedStories,
+    script: script || '',
+    imageUrl,
+    links: groundingLinks,
+    sourcingQuality: sourcing,
+    citations,
+    breakingTopic,
+    flashSummary,
+    audio: audioUrl,  // Will be null if generateAudio was false or if generation failed
+    audioDuration: storedAudio?.durationSeconds ?? null,
+    audioQuality: storedAudio ? audioQuality : null,
+    audioSampleRate: storedAudio?.sampleRate ?? null,
+    chapters: timing.chapters,
+    transcript: timing.transcript,
+    cached: false,
+    scriptReady: true,
+    voiceVariantsAvailable: ['originals', 'deep-divers', 'trendspotters'],
+    voiceVariantsGeneratedCount: audioUrl ? 1 : 0,
+    message: audioUrl
+      ? 'Content and script ready with audio!'
+      : 'Content and script ready. Select a voice profile to generate audio.',
+  };
+}
+
+// ==================== ASYNC GENERATION JOBS ====================
+// Jobs live in generation_status (one row per edition combo per day). A job still
+// 'generating' after JOB_STALE_MS is assumed dead (worker killed) and restarted.
+const JOB_STALE_MS = 10 * 60 * 1000;
+
+async function enqueueEditionJob(supabaseClient: any, ctx: PipelineContext, forceRefresh: boolean) {
+  const { editionType, region, language, channel, format, today, user, userPlan, voiceId, generateAudio } = ctx;
+
+  const { data: existing } = await scopeToChannel(
+    supabaseClient
+      .from('generation_status')
+      .select('*')
+      .eq('edition_type', editionType)
+      .eq('region', region)
+      .eq('language', language)
+      .eq('generation_date', today)
+      .eq('episode_format', format.id),
+    channel
+  ).single();
+
+  const lastActivity = existing ? Date.parse(existing.updated_at || existing.last_attempt_at || '') : NaN;
+  if (existing?.status === 'generating' && !forceRefresh && Date.now() - lastActivity < JOB_STALE_MS) {
+    console.log(`🔗 Joining in-flight job ${existing.id} for ${ctx.cacheKey}`);
+    // Only the starter and recorded listeners may poll the job (see findPolledJob)
+    const { error: listenerError } = await supabaseClient
+      .from('generation_job_listeners')
+      .upsert({ job_id: existing.id, user_id: user.id }, { onConflict: 'job_id,user_id' });
+    if (listenerError) throw new Error(`Failed to join generation job: ${listenerError.message}`);
+
+    // The pipeline only charges the originator; joiners count like cache hits
+    await supabaseClient.rpc('increment_daily_usage', {
+      p_user_id: user.id,
+      p_action: 'edition',
+    });
+    return { job: existing, joined: true };
+  }
+
+  const now = new Date().toISOString();
+  const { data: job, error } = await supabaseClient
+    .from('generation_status')
+    .upsert({
+      edition_type: editionType,
+      region,
+      language,
+      generation_date: today,
+      channel_id: channel?.id ?? null,
+      episode_format: format.id,
+      status: 'generating',
+      stage: 'queued',
+      user_id: user.id,
+      edition_id: null,
+      error_message: null,
+      request: { voiceId, generateAudio, audioQuality: getAudioQuality(userPlan) },
+      attempts: (existing?.attempts || 0) + 1,
+      last_attempt_at: now,
+      updated_at: now,
+    }, {
+      onConflict: 'edition_type,region,language,generation_date,channel_id,episode_format'
+    })
+    .select()
+    .single();
+
+  if (error || !job) {
+    throw new Error(`Failed to enqueue generation job: ${error?.message || 'unknown error'}`);
+  }
+
+  console.log(`📥 Enqueued generation job ${job.id} for ${ctx.cacheKey}`);
+  return { job, joined: false };
+}
+
+// Streams run as jobs too (see streamEdition): their hooks see the same stages the row records.
+// Failures are recorded on the job and rethrown for the stream; async callers only poll the row.
+async function runEditionJob(jobId: string, ctx: PipelineContext, hooks: PipelineHooks = {}) {
+  const { supabaseClient } = ctx;
+
+  // Stage writes are chained so they land in order even though the pipeline doesn't wait on them
+  let stageWrites: Promise<unknown> = Promise.resolve();
+  const setStage = (stage: GenerationStage) => {
+    console.log(`⏩ Job ${jobId} stage: ${stage}`);
+    hooks.onStage?.(stage);
+    stageWrites = stageWrites
+      .then(() => supabaseClient
+        .from('generation_status')
+        .update({ stage, updated_at: new Date().toISOString() })
+        .eq('id', jobId))
+      .catch((err) => console.warn(`⚠️ Failed to record job stage: ${err}`));
+  };
+
+  try {
+    // Audio can't ride along in the job row; the pipeline already stored it as a voice variant
+    const result = await runEditionPipeline(ctx, { onStage: setStage, onArtifact: hooks.onArtifact });
+
+    await stageWrites;
+    await supabaseClient
+      .from('generation_status')
+      .update({
+        status: 'success',
+        stage: 'complete',
+        edition_id: result.edition_id,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', jobId);
+
+    console.log(`✅ Job ${jobId} complete`);
+    return result;
+  } catch (error: any) {
+    console.error(`❌ Job ${jobId} failed:`, error);
+    await stageWrites;
+    await supabaseClient
+      .from('generation_status')
+      .update({
+        status: 'failed',
+        error_message: error.message || 'Generation failed',
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', jobId);
+    throw error;
+  }
+}
+
+// ==================== SSE STREAMING ====================
+// Runs the pipeline inside the response body and emits one Server-Sent Event per
+// stage and artifact, then `done` with the same payload the JSON path returns
+// (or `error`). Browsers get the briefing text long before script and cover art.
+// The stream is a generation_status job like any async request, and its first event is
+// `job` with the job id. A listener who disconnects stops the events, not the pipeline:
+// the edition still finishes and is cached, and the client polls the job instead of
+// paying for a second run. A stream that joined someone else's job ends after `job`.
+function streamEdition(job: { id: string; stage: string }, joined: boolean, ctx: PipelineContext, runInBackground: (task: Promise<unknown>) => void): Response {
+  const encoder = new TextEncoder();
+  let closed = false;
+
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (event: string, data: unknown) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+        } catch {
+          closed = true;
+        }
+      };
+
+      send('job', { job_id: job.id, stage: job.stage, joined });
+      if (joined) {
+        closed = true;
+        controller.close();
+        return;
+      }
+
+      runInBackground((async () => {
+        try {
+          const result = await runEditionJob(job.id, ctx, {
+            onStage: (stage) => send('stage', { stage }),
+            onArtifact: send,
+          });
+          send('done', result);
+        } catch (error: any) {
+          console.error('❌ Streaming generation failed:', error);
+          send('error', { error: error.message || 'Internal server error' });
+        } finally {
+          if (!closed) {
+            closed = true;
+            controller.close();
+          }
+        }
+      })());
+    },
+    cancel() {
+      closed = true;
+      console.log('🔌 Stream client disconnected; finishing the edition in the background');
+    },
+  });
+
+  return new Response(body, {
+    headers: {
+      ...corsHeaders,
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache',
+    },
+  });
+}
+
+// generation_status has no RLS, so polls are scoped here: a job belongs to the user who
+// started it and to the listeners who joined it. Anyone else gets null (404), not the job.
+async function findPolledJob(supabaseClient: any, jobId: string, userId: string) {
+  const { data: own } = await supabaseClient
+    .from('generation_status')
+    .select('*')
+    .eq('id', jobId)
+    .eq('user_id', userId)
+    .maybeSingle();
+  if (own) return own;
+
+  const { data: listener } = await supabaseClient
+    .from('generation_job_listeners')
+    .select('job_id')
+    .eq('job_id', jobId)
+    .eq('user_id', userId)
+    .maybeSingle();
+  if (!listener) return null;
+
+  const { data: joined } = await supabaseClient
+    .from('generation_status')
+    .select('*')
+    .eq('id', jobId)
+    .maybeSingle();
+  return joined;
+}
+
+// The audio a poller wants back. Listeners who joined someone else's job pass their own
+// voice; the quality always follows the poller's plan, not the job originator's.
+interface JobAudioRequest {
+  voiceId: string | null;  // null: no audio
+  audioQuality: AudioQuality;
+}
+
+// Rebuild the same payload the synchronous path returns, from what the job stored
+async function loadJobEdition(supabaseClient: any, job: any, requested: JobAudioRequest) {
+  const { data: edition } = await supabaseClient
+    .from('daily_editions')
+    .select('*')
+    .eq('id', job.edition_id)
+    .single();
+
+  if (!edition) return null;
+
+  const { data: variants } = await supabaseClient
+    .from('voice_variants')
+    .select('voice_id, audio_quality, audio_url, duration_seconds, sample_rate, chapters, transcript')
+    .eq('edition_id', edition.id);
+
+  const variant = variants?.find((v: any) => v.voice_id === requested.voiceId && v.audio_quality === requested.audioQuality);
+  const audio = variant?.audio_url || null;
+  const stories = await loadEditionStories(supabaseClient, edition.id);
+
+  return {
+    edition_id: edition.id,
+    format: edition.episode_format || DEFAULT_EPISODE_FORMAT,
+    text: edition.content,
+    stories,
+    script: edition.script,
+    imageUrl: edition.image_url,
+    links: edition.grounding_links,
+    sourcingQuality: edition.sourcing_quality ?? null,
+    citations: edition.citations ?? [],
+    breakingTopic: edition.breaking_topic ?? null,
+    flashSummary: edition.flash_summary,
+    audio,
+    audioDuration: variant?.duration_seconds ?? null,
+    audioQuality: variant?.audio_quality ?? null,
+    audioSampleRate: variant?.sample_rate ?? null,
+    chapters: variant?.chapters ?? [],
+    transcript: variant?.transcript ?? [],
+    cached: false,
+    scriptReady: true,
+    voiceVariantsAvailable: ['originals', 'deep-divers', 'trendspotters'],
+    voiceVariantsGeneratedCount: variants?.length || 0,
+    message: audio
+      ? 'Content and script ready with audio!'
+      : 'Content and script ready. Select a voice profile to generate audio.',
+  };
+}
+
+// ==================== BREAKING TOPIC ====================
+// A bulletin's topic must be a spike breaking-monitor recorded for the region within
+// the cooldown. trend_scans is readable with the service role only, so a listener's
+// topic never matches and they are served the existing bulletin, if any.
+async function recordedSpikeTopic(supabaseClient: any, region: string, topic: unknown): Promise<string | null> {
+  if (typeof topic !== 'string' || !topic.trim()) return null;
+
+  const since = new Date(Date.now() - BREAKING_COOLDOWN_HOURS * 60 * 60 * 1000).toISOString();
+  const { data: scans } = await supabaseClient
+    .from('trend_scans')
+    .select('spike')
+    .eq('region', region)
+    .gte('scanned_at', since);
+
+  const recorded = (scans ?? []).some((scan: any) => scan.spike?.topic === topic.trim());
+  if (!recorded) console.warn(`⚠️ Ignoring Breaking topic with no recorded spike for ${region}: "${topic.trim()}"`);
+  return recorded ? topic.trim() : null;
+}
+
+// ==================== HANDLER ====================
+// Everything the handler talks to is injected so tests can swap in an
+// in-memory Supabase client and the fake model provider (see tests/).
+export interface EditionHandlerDeps {
+  createSupabaseClient: (authHeader: string) => any;
+  createGemini: () => GeminiService;
+  // Keeps async job work alive after the 202 response has been sent
+  runInBackground: (task: Promise<unknown>) => void;
+}
+
+export const defaultDeps: EditionHandlerDeps = {
+  createSupabaseClient: (authHeader) => createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+    {
+      global: { headers: { Authorization: authHeader } },
+      auth: {
+        persistSession: false,
+      }
+    }
+  ),
+  createGemini: () => new GeminiService(),
+  runInBackground: (task) => {
+    // Supabase Edge Runtime keeps the worker alive for waitUntil'd promises
+    const runtime = (globalThis as any).EdgeRuntime;
+    if (runtime?.waitUntil) {
+      runtime.waitUntil(task);
+    } else {
+      task.catch((err) => console.error('Background task failed:', err));
+    }
+  },
+};
+
+export async function handleEditionRequest(req: Request, deps: EditionHandlerDeps = defaultDeps): Promise<Response> {
+  // Handle CORS
+  const corsResponse = handleCors(req);
+  if (corsResponse) return corsResponse;
+
+  const startTime = Date.now();
+
+  try {
+    // Check if the request body is valid JSON
+    let body;
+    try {
+      body = await req.json();
+    } catch (e) {
+      console.error('Invalid JSON body:', e);
+      return new Response(
+        JSON.stringify({ error: 'Invalid JSON body' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { channelId, format: formatId = DEFAULT_EPISODE_FORMAT, voiceId = 'originals', generateAudio = false, async: asyncMode = false, stream: streamMode = false } = body;
+    // Legacy codes ('us', 'en') are cached under the same ids the app requests
+    const region = normalizeRegion(body.region) ?? '';
+    const language = normalizeLanguage(body.language) ?? '';
+    // Topic channel editions are one per channel per day, whatever tab asked for them
+    const editionType = channelId ? CHANNEL_EDITION_TYPE : body.editionType;
+    const isAskAction = body.action === 'ask';
+    const isVoiceVariantAction = body.action === 'generate-voice-variant';
+    const isJobStatusAction = body.action === 'job-status';
+
+    // Log appropriate parameters based on action type
+    if (isAskAction) {
+      console.log('Q&A request received:', { question: body.question?.substring(0, 50) + '...', language: body.language });
+    } else if (isVoiceVariantAction) {
+      console.log('Voice variant request received:', { edition_id: body.edition_id, voice_id: body.voice_id });
+    } else if (isJobStatusAction) {
+      console.log('Job status request received:', { job_id: body.job_id });
+    } else {
+      console.log('Edition request:', { editionType, region, language, channelId, format: formatId, forceRefresh: body.forceRefresh, voiceId, generateAudio });
+      console.log('🔍 DEBUG - Language received from request:', language);
+    }
+
+    // Select voice profile
+    const profileKey = (VOICE_PROFILES[voiceId as VoiceId] ? voiceId : 'originals') as VoiceId;
+    const voiceProfile = VOICE_PROFILES[profileKey];
+
+    // Validate edition inputs (skip for routed actions)
+    if (!isAskAction && !isVoiceVariantAction && !isJobStatusAction && (!editionType || !region || !language)) {
+      return new Response(
+        JSON.stringify({
+          error: !editionType || !body.region || !body.language
+            ? 'Missing required fields: editionType, region, language'
+            : `Unsupported region or language: ${body.region}/${body.language}`
+        }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (!isAskAction && !isVoiceVariantAction && !isJobStatusAction && !isEpisodeFormat(formatId)) {
+      return new Response(
+        JSON.stringify({ error: `Invalid format. Must be one of: ${Object.keys(EPISODE_FORMATS).join(', ')}` }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+    // Breaking bulletins are always the short flash format, about the topic breaking-monitor passes
+    const isBreaking = editionType === BREAKING_EDITION_TYPE;
+    const format = getEpisodeFormat(isBreaking ? 'flash' : formatId);
+
+    // Get user from JWT
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: 'Missing authorization header' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Create Supabase client with Authorization header
+    const supabaseClient = deps.createSupabaseClient(authHeader);
+
+    const { data: { user }, error: authError } = await supabaseClient.auth.getUser();
+
+    if (authError || !user) {
+      console.error('Auth error:', authError);
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized', code: 401, message: 'Invalid JWT' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    console.log('User authenticated:', user.id);
+
+    // ==================== Q&A ACTION ====================
+    // ask-question is routed here because it was never deployed as a standalone function.
+    // This early-returns before any edition logic runs.
+    if (isAskAction) {
+      const { context, question, history, language: qLanguage } = body;
+
+      if (!context || !question) {
+        return new Response(
+          JSON.stringify({ error: 'Missing required fields: context, question' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      console.log('Processing Q&A request...');
+
+      let prompt = `You are the VoxTrends Intelligence Agent. Your role is to help users explore news with depth, critical thinking, and intellectual honesty.
+
+News Context:
+${context}
+
+`;
+
+      if (history && history.length > 0) {
+        prompt += 'Previous conversation:\n';
+        for (const msg of history) {
+          const label = msg.role === 'user' ? 'User' : 'Assistant';
+          prompt += `${label}: ${msg.text}\n`;
+        }
+        prompt += '\n';
+      }
+
+      prompt += `User: ${question}
+
+You have access to web search. Use it to find information that goes BEYOND what the news context above provides. The context gives you the baseline — search to fill the gaps, verify claims, and find what the reporting left out.
+
+RESPONSE FORMAT — follow this structure exactly:
+
+**What the sources say:**
+Summarize what is reported on this topic — from both the news context AND what you found via search. Be precise: cite specific claims, names, numbers, and dates. If the original context and fresh sources contradict each other, flag it.
+
+**What's missing or left unsaid:**
+This is the core. What is the reporting NOT covering? Whose voices are absent? What questions is no one asking? What context — found via your search — would change how people understand this? What incentives or power dynamics are invisible? Be specific and direct.
+
+**Why it matters:**
+Connect this to broader patterns. What does this reveal about how this issue actually works — politically, economically, socially? Ground it in what you found, not speculation.
+
+**You might also explore:**
+End with exactly 2 follow-up questions that would push the investigation deeper. Make them specific, not generic.
+
+GUIDELINES:
+- Language: ${qLanguage || 'English'}. Write entirely in this language.
+- Be direct. No hedging, no filler, no preamble.
+- Search actively. Do not stay inside the box of what the edition text already says — that's what people already read. They came here to go deeper.
+- The "What's missing" section is the most important. This is where people come to find the truth.`;
+
+      try {
+        const gemini = deps.createGemini();
+        const answer = await gemini.answerQuestion(prompt, qLanguage || 'English', true);
+        console.log('Q&A answered successfully');
+
+        return new Response(
+          JSON.stringify({ data: { answer } }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      } catch (qaError: any) {
+        console.error('Q&A error:', qaError);
+        return new Response(
+          JSON.stringify({ error: qaError.message || 'Failed to process question' }),
+          { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+    }
+
+    // ==================== JOB STATUS ACTION ====================
+    // Polled by the client after an async edition request returned a job_id.
+    if (isJobStatusAction) {
+      const { job_id } = body;
+
+      if (!job_id) {
+        return new Response(
+          JSON.stringify({ error: 'Missing required field: job_id' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const job = await findPolledJob(supabaseClient, job_id, user.id);
+
+      if (!job) {
+        return new Response(
+          JSON.stringify({ error: 'Job not found' }),
+          { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      let edition = null;
+      if (job.status === 'success' && job.edition_id) {
+        const { data: poller } = await supabaseClient
+          .from('users')
+          .select('plan')
+          .eq('id', user.id)
+          .single();
+        // Older clients don't send their voice; they get what the job was started with
+        const wantsAudio = body.generateAudio ?? job.request?.generateAudio;
+        edition = await loadJobEdition(supabaseClient, job, {
+          voiceId: wantsAudio ? (body.voiceId ?? job.request?.voiceId ?? 'originals') : null,
+          audioQuality: getAudioQuality(poller?.plan || 'Free'),
+        });
+      }
+
+      return new Response(
+        JSON.stringify({
+          data: {
+            job_id: job.id,
+            status: job.status,
+            stage: job.stage,
+            error: job.status === 'failed' ? job.error_message : null,
+            edition,
+          },
+        }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json; charset=utf-8' } }
+      );
+    }
+
+    // ==================== VOICE VARIANT ACTION ====================
+    // generate-voice-variant is routed here because it was never deployed as a standalone function.
+    // This early-returns before any edition logic runs.
+    if (isVoiceVariantAction) {
+      const { edition_id, voice_id } = body;
+
+      if (!edition_id || !voice_id) {
+        return new Response(
+          JSON.stringify({ error: 'Missing required fields: edition_id, voice_id' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      if (!VOICE_PROFILES[voice_id as VoiceId]) {
+        return new Response(
+          JSON.stringify({ error: `Invalid voice_id. Must be one of: ${Object.keys(VOICE_PROFILES).join(', ')}` }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      // Fetch edition
+      const { data: edition, error: editionError } = await supabaseClient
+        .from('daily_editions')
+        .select('id, script, language, chapters')
+        .eq('id', edition_id)
+        .single();
+
+      if (editionError || !edition) {
+        return new Response(
+          JSON.stringify({ error: 'Edition not found' }),
+          { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      if (!edition.script) {
+        return new Response(
+          JSON.stringify({ error: 'Edition script not available' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      // Variants are cached per audio quality, so Pro listeners never get a Free-tier render
+      const { data: variantOwner } = await supabaseClient
+        .from('users')
+        .select('plan')
+        .eq('id', user.id)
+        .maybeSingle();
+      const audioQuality = getAudioQuality(variantOwner?.plan || 'Free');
+
+      // Check if variant already cached
+      const { data: existingVariant } = await supabaseClient
+        .from('voice_variants')
+        .select('id, audio_url, duration_seconds, sample_rate, chapters, transcript')
+        .eq('edition_id', edition_id)
+        .eq('voice_id', voice_id)
+        .eq('audio_quality', audioQuality)
+        .single();
+
+      if (existingVariant) {
+        console.log(`✅ Returning cached voice variant: ${voice_id} (${audioQuality})`);
+        return new Response(
+          JSON.stringify({ data: { variant_id: existingVariant.id, audio: existingVariant.audio_url, duration: existingVariant.duration_seconds ?? null, chapters: existingVariant.chapters ?? [], transcript: existingVariant.transcript ?? [], audioQuality, audioSampleRate: existingVariant.sample_rate ?? null, cached: true } }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      // Generate new variant
+      console.log(`🎙️ Generating new ${audioQuality} voice variant: ${voice_id}`);
+      const variantProfile = VOICE_PROFILES[voice_id as VoiceId];
+      const gemini = deps.createGemini();
+      const scriptForTTS = remapScriptSpeakers(edition.script, variantProfile.hosts);
+
+      const audioResult = await gemini.generateAudio(
+        scriptForTTS,
+        variantProfile.voices.lead,
+        variantProfile.voices.expert,
+        variantProfile.hosts.lead,
+        variantProfile.hosts.expert,
+        edition.language || 'English',
+        audioQuality
+      );
+
+      if (!audioResult.data) {
+        return new Response(
+          JSON.stringify({ error: `Audio generation failed: ${audioResult.error}` }),
+          { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const stored = await storeEpisodeAudio(supabaseClient, user.id, audioResult.data, `${edition_id}-${voice_id}`);
+      const timing = audioTiming(audioResult);
+
+      // Store variant
+      const { data: variant, error: variantError } = await supabaseClient
+        .from('voice_variants')
+        .insert({
+          edition_id,
+          user_id: user.id,
+          voice_id,
+          audio_quality: audioQuality,
+          audio_url: stored.url,
+          duration_seconds: stored.durationSeconds,
+          audio_format: stored.format,
+          audio_bytes: stored.sizeBytes,
+          sample_rate: stored.sampleRate,
+          chapters: timing.chapters,
+          transcript: timing.transcript,
+          generation_time_ms: Date.now() - startTime,
+          cost_estimate: 0.05,
+        })
+        .select()
+        .single();
+
+      if (variantError) {
+        console.warn(`⚠️ Failed to store variant: ${variantError.message}`);
+      }
+
+      await recordEditionChapters(supabaseClient, edition, timing.chapters);
+      console.log(`✅ Voice variant generated: ${voice_id}`);
+
+      return new Response(
+        JSON.stringify({ data: { variant_id: variant?.id, audio: stored.url, duration: stored.durationSeconds, chapters: timing.chapters, transcript: timing.transcript, audioQuality, audioSampleRate: stored.sampleRate, cached: false } }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Get user profile
+    const { data: profile, error: profileError } = await supabaseClient
+      .from('users')
+      .select('plan')
+      .eq('id', user.id)
+      .single();
+
+    if (profileError || !profile) {
+      console.error('Profile error:', profileError);
+      return new Response(
+        JSON.stringify({ error: 'User profile not found' }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const userPlan = profile.plan || 'Free';
+    const limits = getPlanLimits(userPlan);
+
+    console.log('User plan:', userPlan, 'Limits:', limits);
+
+    // Longer and alternative formats are a paid feature
+    if (!isEpisodeFormatAllowed(userPlan, format.id)) {
+      return new Response(
+        JSON.stringify({
+          error: `The ${format.label} format is not included in the ${userPlan} plan`,
+          upgrade: true,
+          format: format.id,
+          message: `Upgrade to Pro to unlock the ${format.label} format.`
+        }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Get today's usage
+    const today = new Date().toISOString().split('T')[0];
+    const { data: usage } = await supabaseClient
+      .from('daily_usage')
+      .select('*')
+      .eq('user_id', user.id)
+      .eq('date', today)
+      .single();
+
+    const editionsUsed = usage?.edition_count || 0;
+
+    console.log('Editions used today:', editionsUsed, 'Limit:', limits.dailyEditions);
+
+    // Check daily limit
+    if (editionsUsed >= limits.dailyEditions) {
+      return new Response(
+        JSON.stringify({
+          error: 'Daily edition limit reached',
+          upgrade: true,
+          limit: limits.dailyEditions,
+          used: editionsUsed,
+          message: `You've used all ${limits.dailyEditions} editions for today. Upgrade to Pro for unlimited editions.`
+        }),
+        { status: 429, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Without a recorded spike, a Breaking request can only tune in to the cached bulletin
+    const breakingTopic = isBreaking ? await recordedSpikeTopic(supabaseClient, region, body.topic) : null;
+    const forceRefresh = !!body.forceRefresh && (!isBreaking || !!breakingTopic);
+
+    // ==================== TOPIC CHANNEL ====================
+    // Channels are private to their owner (RLS), so a foreign id simply isn't found
+    let channel: TopicChannel | null = null;
+    if (channelId) {
+      const { data: channelRow } = await supabaseClient
+        .from('topic_channels')
+        .select('id, name, include_keywords, exclude_keywords, preferred_sources')
+        .eq('id', channelId)
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      if (!channelRow) {
+        return new Response(
+          JSON.stringify({ error: 'Topic channel not found' }),
+          { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      channel = {
+        id: channelRow.id,
+        name: channelRow.name,
+        include_keywords: channelRow.include_keywords || [],
+        exclude_keywords: channelRow.exclude_keywords || [],
+        preferred_sources: channelRow.preferred_sources || [],
+      };
+      console.log(`📡 Topic channel: ${channel.name}`);
+    }
+
+    // ==================== PHASE 1: REQUEST COALESCING ====================
+    const editionDate = regionDate(region);
+    const cacheKey = getCacheKey(editionType, region, language, editionDate, channel?.id, format.id);
+
+    // Check if this exact request is already being processed
+    if (inFlightGenerations.has(cacheKey) && !forceRefresh) {
+      console.log(`🔗 Request coalesced: Waiting for in-flight ${cacheKey}`);
+      try {
+        const coalescedResult = await inFlightGenerations.get(cacheKey);
+        return new Response(
+          JSON.stringify({
+            data: coalescedResult,
+            coalesced: true,
+          }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      } catch (error) {
+        console.warn(`⚠️ Coalesced request failed: ${error}`);
+        // Fall through to generate new one
+      }
+    }
+
+    // ==================== PHASE 1: REFRESH THROTTLING ====================
+    if (forceRefresh) {
+      const { throttled, minutesUntilRefresh } = await isRefreshThrottled(supabaseClient, user.id, cacheKey);
+
+      if (throttled) {
+        return new Response(
+          JSON.stringify({
+            error: `Refresh throttled. Please wait ${minutesUntilRefresh} minutes before refreshing again.`,
+            throttled: true,
+            minutesUntilRefresh,
+          }),
+          { status: 429, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      // Record this refresh
+      await recordRefresh(supabaseClient, user.id, cacheKey);
+      console.log('🚀 FORCE REFRESH REQUESTED: Bypassing Supabase cache and generating fresh content');
+    }
+
+    // Check for cached edition (SKIP if forceRefresh is true)
+    if (!forceRefresh) {
+      console.log('Checking for cached edition for:', { editionType, region, language, channelId: channel?.id ?? null, format: format.id, date: editionDate });
+      const { data: cachedEdition } = await scopeToChannel(
+        supabaseClient
+          .from('daily_editions')
+          .select('*')
+          .eq('edition_type', editionType)
+          .eq('region', region)
+          .eq('language', language)
+          .eq('date', editionDate)
+          .eq('episode_format', format.id)
+          .gt('expires_at', new Date().toISOString()),
+        channel
+      ).single();
+
+      if (cachedEdition) {
+        const cacheTime = Date.now() - startTime;
+        console.log('✅ Found cached edition');
+
+        // Record cache hit asynchronously
+        recordCacheHit(supabaseClient, cacheKey, cacheTime).catch((err) =>
+          console.warn(`⚠️ Failed to record cache hit: ${err}`)
+        );
+
+        // Still increment usage for cached editions
+        await supabaseClient.rpc('increment_daily_usage', {
+          p_user_id: user.id,
+          p_action: 'edition',
+        });
+
+        // Count generated voice variants for this edition
+        const { data: variants } = await supabaseClient
+          .from('voice_variants')
+          .select('voice_id')
+          .eq('edition_id', cachedEdition.id);
+
+        const cachedStories = await loadEditionStories(supabaseClient, cachedEdition.id);
+
+        // ==================== PHASE 3: HANDLE AUDIO GENERATION FOR CACHED EDITIONS ====================
+        let storedAudio: StoredAudio | null = null;
+        let timing: AudioTiming = { chapters: [], transcript: [] };
+        const audioQuality = getAudioQuality(userPlan);
+
+        if (generateAudio && cachedEdition.script) {
+          try {
+            console.log(`🎙️ Generating ${audioQuality} audio for cached edition with voice profile:`, voiceId);
+            const gemini = deps.createGemini();
+            const scriptForTTS = remapScriptSpeakers(cachedEdition.script, voiceProfile.hosts);
+            const audioResult = await gemini.generateAudio(
+              scriptForTTS,
+              voiceProfile.voices.lead,
+              voiceProfile.voices.expert,
+              voiceProfile.hosts.lead,
+              voiceProfile.hosts.expert,
+              cachedEdition.language || language || 'English',
+              audioQuality
+            );
+
+            if (audioResult.data) {
+              storedAudio = await storeEpisodeAudio(supabaseClient, user.id, audioResult.data, `${cacheKey}-${voiceId}`);
+              timing = audioTiming(audioResult);
+              await recordVoiceVariant(supabaseClient, cachedEdition.id, user.id, voiceId, audioQuality, storedAudio, timing, Date.now() - startTime);
+              await recordEditionChapters(supabaseClient, cachedEdition, timing.chapters);
+              console.log('✅ Audio generated successfully for cached edition');
+            } else {
+              console.warn('⚠️ Audio generation returned no data:', audioResult.error);
+            }
+          } catch (audioError: any) {
+            console.error('❌ Audio generation error for cached edition:', audioError);
+            // Don't fail the whole request if audio generation fails
+          }
+        }
+
+        // ==================== IMAGEN FALLBACK FOR CACHED EDITIONS ====================
+        // If cached edition has no image (Imagen failed during initial generation), try regenerating
+        let imageUrl = cachedEdition.image_url;
+        if (!imageUrl && cachedEdition.content) {
+          console.log('⚠️ Cached edition missing image, attempting to regenerate...');
+          try {
+            const gemini = deps.createGemini();
+            const firstTopic = leadTopic(cachedStories, cachedEdition.content);
+
+            // Try with timeout and fallback
+            imageUrl = await withTimeout(gemini.generateCoverArt(firstTopic), 45000, null);
+
+            if (imageUrl) {
+              console.log('✅ Image regenerated successfully, updating cached edition...');
+              // Update the cached edition with the new image
+              await supabaseClient
+                .from('daily_editions')
+                .update({ image_url: imageUrl })
+                .eq('id', cachedEdition.id);
+            } else {
+              console.warn('⚠️ Image regeneration failed or timed out');
+            }
+          } catch (imageError: any) {
+            console.error('❌ Image regeneration error:', imageError);
+            // Continue without image - don't fail the request
+          }
+        }
+
+        // ==================== PHASE 3: RETURN CACHED SCRIPT-READY EDITION ====================
+        const audioUrl = storedAudio?.url ?? null;
+        console.log('✅ Returning cached edition (script-ready)' + (audioUrl ? ' with audio' : '') + (imageUrl ? ' with image' : ' (no image)'));
+        return new Response(
+          JSON.stringify({
+            data: {
+              edition_id: cachedEdition.id,
+              format: format.id,
+              text: cachedEdition.content,
+              stories: cachedStories,
+              script: cachedEdition.script,
+              imageUrl: imageUrl,  // Use potentially regenerated imageUrl
+              links: cachedEdition.grounding_links,
+              sourcingQuality: cachedEdition.sourcing_quality ?? null,
+              citations: cachedEdition.citations ?? [],
+              breakingTopic: cachedEdition.breaking_topic ?? null,
+              flashSummary: cachedEdition.flash_summary,
+              audio: audioUrl,
+              audioDuration: storedAudio?.durationSeconds ?? null,
+              audioQuality: storedAudio ? audioQuality : null,
+              audioSampleRate: storedAudio?.sampleRate ?? null,
+              chapters: timing.chapters,
+              transcript: timing.transcript,
+              cached: true,
+              scriptReady: true,
+              voiceVariantsAvailable: ['originals', 'deep-divers', 'trendspotters'],
+              voiceVariantsGeneratedCount: variants?.length || 0,
+              message: audioUrl
+                ? 'Content and script ready with audio!'
+                : 'Content and script ready. Select a voice profile to generate audio.',
+            },
+          }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+    }
+
+    // Listeners can tune in to a bulletin that exists, but only a spike starts one
+    if (isBreaking && !breakingTopic) {
+      return new Response(
+        JSON.stringify({ error: `No breaking news for ${region} right now` }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const pipelineContext: PipelineContext = {
+      supabaseClient,
+      gemini: deps.createGemini(),
+      user,
+      userPlan,
+      editionType,
+      region,
+      language,
+      channel,
+      format,
+      voiceId,
+      voiceProfile,
+      generateAudio,
+      today: editionDate,
+      breakingTopic,
+      cacheKey,
+      startTime,
+    };
+
+    // ==================== ASYNC JOB ====================
+    // Enqueue and return immediately; the client polls { action: 'job-status' }.
+    if (asyncMode) {
+      const { job, joined } = await enqueueEditionJob(supabaseClient, pipelineContext, !!forceRefresh);
+
+      if (!joined) {
+        // The failure is on the job row for the poller; nothing else is waiting on it
+        deps.runInBackground(runEditionJob(job.id, pipelineContext).catch(() => {}));
+      }
+
+      return new Response(
+        JSON.stringify({
+          data: {
+            job_id: job.id,
+            status: job.status,
+            stage: job.stage,
+            joined,
+          },
+        }),
+        { status: 202, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // ==================== SSE STREAM ====================
+    // Cache hits above still answer with plain JSON; only fresh generation streams.
+    if (streamMode) {
+      const { job, joined } = await enqueueEditionJob(supabaseClient, pipelineContext, !!forceRefresh);
+      console.log(joined ? `Streaming joined job ${job.id}...` : 'Streaming new edition...');
+      return streamEdition(job, joined, pipelineContext, deps.runInBackground);
+    }
+
+    console.log('Generating new edition...');
+    const editionResult = await runEditionPipeline(pipelineContext);
+
+    return new Response(
+      JSON.stringify({ data: editionResult }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json; charset=utf-8' } }
+    );
+
+  } catch (error: any) {
+    console.error('Function error:', error);
+    return new Response(
+      JSON.stringify({ error: error.message || 'Internal server error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+}
@@ -1,6 +1,9 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
-import { GoogleGenAI } from 'https://esm.sh/@google/genai@1.38.0';
+import { storeEpisodeAudio } from '../shared/audio-storage.ts';
+import { GeminiService } from '../shared/gemini.ts';
+import { getAudioQuality } from '../shared/limits.ts';
+import { VOICE_PROFILES, remapScriptSpeakers, type VoiceId } from '../shared/voices.ts';
 
 // ==================== CORS ====================
 const corsHeaders = {
@@ -18,169 +21,11 @@ function handleCors(req: Request) {
   }
 }
 
-// ==================== GEMINI SERVICE ====================
-function createWavHeader(pcmLength: number): Uint8Array {
-  const sampleRate = 24000;
-  const numChannels = 1;
-  const bitsPerSample = 16;
-  const byteRate = sampleRate * numChannels * (bitsPerSample / 8);
-  const blockAlign = numChannels * (bitsPerSample / 8);
-  const dataSize = pcmLength;
-  const fileSize = 36 + dataSize;
-
-  const buffer = new ArrayBuffer(44);
-  const view = new DataView(buffer);
-
-  view.setUint32(0, 0x52494646, false); // "RIFF"
-  view.setUint32(4, fileSize, true);
-  view.setUint32(8, 0x57415645, false); // "WAVE"
-
-  view.setUint32(12, 0x666d7420, false); // "fmt "
-  view.setUint32(16, 16, true);
-  view.setUint16(20, 1, true);
-  view.setUint16(22, numChannels, true);
-  view.setUint32(24, sampleRate, true);
-  view.setUint32(28, byteRate, true);
-  view.setUint16(32, blockAlign, true);
-  view.setUint16(34, bitsPerSample, true);
-
-  view.setUint32(36, 0x64617461, false); // "data"
-  view.setUint32(40, dataSize, true);
-
-  return new Uint8Array(buffer);
-}
-
-function pcmToWav(pcmBase64: string): string {
-  const pcmBytes = Uint8Array.from(atob(pcmBase64), (c) => c.charCodeAt(0));
-  const wavHeader = createWavHeader(pcmBytes.length);
-  const wavBytes = new Uint8Array(wavHeader.length + pcmBytes.length);
-  wavBytes.set(wavHeader, 0);
-  wavBytes.set(pcmBytes, wavHeader.length);
-
-  const chunks: string[] = [];
-  const chunkSize = 0x8000;
-  for (let i = 0; i < wavBytes.length; i += chunkSize) {
-    const chunk = wavBytes.subarray(i, Math.min(i + chunkSize, wavBytes.length));
-    // @ts-ignore
-    chunks.push(String.fromCharCode.apply(null, chunk));
-  }
-  return btoa(chunks.join(''));
-}
-
-class GeminiService {
-  private ai: GoogleGenAI;
-
-  constructor(apiKey: string) {
-    this.ai = new GoogleGenAI({ apiKey });
-  }
-
-  async generateAudio(
-    script: string,
-    voiceLead: string,
-    voiceExpert: string,
-    hostLead: string,
-    hostExpert: string
-  ): Promise<{ data: string | null; error?: string }> {
-    try {
-      console.log(`Starting TTS generation with voices ${voiceLead} and ${voiceExpert}...`);
-      const response = await this.ai.models.generateContent({
-        model: 'gemini-2.5-flash-preview-tts',
-        contents: [{ parts: [{ text: script }] }],
-        config: {
-          responseModalities: ['AUDIO'],
-          speechConfig: {
-            multiSpeakerVoiceConfig: {
-              speakerVoiceConfigs: [
-                { speaker: hostLead, voiceConfig: { prebuiltVoiceConfig: { voiceName: voiceLead } } },
-                { speaker: hostExpert, voiceConfig: { prebuiltVoiceConfig: { voiceName: voiceExpert } } }
-              ]
-            }
-          }
-        }
-      });
-
-      const audioData = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-
-      if (!audioData) {
-        console.error('Gemini TTS returned empty audioContent');
-        return { data: null, error: 'Gemini TTS returned empty audioContent' };
-      }
-
-      console.log('TTS returned audio data, converting PCM to WAV...');
-      const wavBase64 = pcmToWav(audioData);
-      console.log('WAV conversion complete');
-
-      return { data: wavBase64 };
-    } catch (error: any) {
-      console.error('Gemini TTS Synthesis Error:', error);
-      return { data: null, error: `Synthesis Error: ${error.message}` };
-    }
-  }
-}
-
-// ==================== VOICE PROFILES ====================
-const VOICE_PROFILES = {
-  'originals': {
-    hosts: { lead: 'Alex', expert: 'Jordan' },
-    voices: { lead: 'Puck', expert: 'Kore' },
-    label: 'The Originals',
-    description: 'Classic dynamic duo - upbeat and confident'
-  },
-  'deep-divers': {
-    hosts: { lead: 'Marcus', expert: 'Elena' },
-    voices: { lead: 'Charon', expert: 'Leda' },
-    label: 'The Deep-Divers',
-    description: 'Investigative pair - informative and youthful'
-  },
-  'trendspotters': {
-    hosts: { lead: 'Kai', expert: 'Sophia' },
-    voices: { lead: 'Alnilam', expert: 'Callirrhoe' },
-    label: 'The Trendspotters',
-    description: 'Energetic team - fresh perspectives on trending topics'
-  }
-} as const;
-
-type VoiceId = keyof typeof VOICE_PROFILES;
-
-// ==================== SPEAKER REMAPPING ====================
-// The edition script is generated once and cached with one set of host names.
-// When a different voice profile is requested later, we remap the speaker labels
-// so they match what TTS expects — otherwise Gemini collapses to a single voice.
-function remapScriptSpeakers(script: string, targetHosts: { lead: string; expert: string }): string {
-  const speakerPattern = /^([A-Za-z]+):/gm;
-  const speakers: string[] = [];
-  let match;
-  while ((match = speakerPattern.exec(script)) !== null) {
-    if (!speakers.includes(match[1])) {
-      speakers.push(match[1]);
-    }
-    if (speakers.length === 2) break;
-  }
-
-  if (speakers.length !== 2) return script;
-
-  const [existingLead, existingExpert] = speakers;
-  if (existingLead === targetHosts.lead && existingExpert === targetHosts.expert) {
-    return script; // Already matches — nothing to do
-  }
-
-  // Use placeholders to avoid double-replacement (e.g., if Alex→Marcus and Marcus→Elena)
-  let remapped = script
-    .replace(new RegExp(`^${existingLead}:`, 'gm'), '__LEAD_PLACEHOLDER__:')
-    .replace(new RegExp(`^${existingExpert}:`, 'gm'), '__EXPERT_PLACEHOLDER__:');
-  remapped = remapped
-    .replace(/__LEAD_PLACEHOLDER__:/g, `${targetHosts.lead}:`)
-    .replace(/__EXPERT_PLACEHOLDER__:/g, `${targetHosts.expert}:`);
-
-  console.log(`🔤 Remapped speakers: ${existingLead}→${targetHosts.lead}, ${existingExpert}→${targetHosts.expert}`);
-  return remapped;
-}
-
 // ==================== REQUEST COALESCING ====================
 const inFlightVariants = new Map<string, Promise<any>>();
 
-function getVariantCacheKey(editionId: string, voiceId: string): string {
-  return `variant-${editionId}-${voiceId}`;
+function getVariantCacheKey(editionId: string, voiceId: string, audioQuality: string): string {
+  return `variant-${editionId}-${voiceId}-${audioQuality}`;
 }
 
 // ==================== MAIN FUNCTION ====================
@@ -257,7 +102,7 @@ serve(async (req) => {
     // Verify user owns this edition
     const { data: edition, error: editionError } = await supabaseClient
       .from('daily_editions')
-      .select('id, script, user_id')
+      .select('id, script, user_id, language, chapters')
       .eq('id', edition_id)
       .single();
 
@@ -282,8 +127,16 @@ serve(async (req) => {
       );
     }
 
+    // Variants are rendered and cached per audio quality (PLAN_LIMITS.audioQuality)
+    const { data: profile } = await supabaseClient
+      .from('users')
+      .select('plan')
+      .eq('id', user.id)
+      .maybeSingle();
+    const audioQuality = getAudioQuality(profile?.plan || 'Free');
+
     // ==================== REQUEST COALESCING ====================
-    const variantCacheKey = getVariantCacheKey(edition_id, voice_id);
+    const variantCacheKey = getVariantCacheKey(edition_id, voice_id, audioQuality);
 
     if (inFlightVariants.has(variantCacheKey)) {
       console.log(`🔗 Voice variant request coalesced: Waiting for ${variantCacheKey}`);
@@ -305,9 +158,10 @@ serve(async (req) => {
     // Check if variant already exists
     const { data: existingVariant } = await supabaseClient
       .from('voice_variants')
-      .select('id, audio_url')
+      .select('id, audio_url, duration_seconds, sample_rate, chapters, transcript')
       .eq('edition_id', edition_id)
       .eq('voice_id', voice_id)
+      .eq('audio_quality', audioQuality)
       .single();
 
     if (existingVariant) {
@@ -317,6 +171,11 @@ serve(async (req) => {
           data: {
             variant_id: existingVariant.id,
             audio_url: existingVariant.audio_url,
+            duration_seconds: existingVariant.duration_seconds ?? null,
+            chapters: existingVariant.chapters ?? [],
+            transcript: existingVariant.transcript ?? [],
+            audio_quality: audioQuality,
+            sample_rate: existingVariant.sample_rate ?? null,
             cached: true,
           },
         }),
@@ -330,7 +189,7 @@ serve(async (req) => {
     // Create in-flight promise
     const generationPromise = (async () => {
       const voiceProfile = VOICE_PROFILES[voice_id as VoiceId];
-      const gemini = new GeminiService(Deno.env.get('GEMINI_API_KEY') ?? '');
+      const gemini = new GeminiService();
 
       // Remap speaker labels if the script was generated with a different voice profile
       const scriptForTTS = remapScriptSpeakers(edition.script, voiceProfile.hosts);
@@ -341,14 +200,19 @@ serve(async (req) => {
         voiceProfile.voices.lead,
         voiceProfile.voices.expert,
         voiceProfile.hosts.lead,
-        voiceProfile.hosts.expert
+        voiceProfile.hosts.expert,
+        edition.language || 'English',
+        audioQuality
       );
 
       if (!audioResult.data) {
         throw new Error(`Audio generation failed: ${audioResult.error}`);
       }
 
-      const audioUrl = `data:audio/wav;base64,${audioResult.data}`;
+      // Compress and upload so the variant row holds a URL, not the whole WAV
+      const stored = await storeEpisodeAudio(supabaseClient, user.id, audioResult.data, `${edition_id}-${voice_id}`);
+      const chapters = audioResult.chapters ?? [];
+      const transcript = audioResult.transcript ?? [];
       const generationTime = Date.now() - startTime;
 
       // Store variant
@@ -358,7 +222,14 @@ serve(async (req) => {
           edition_id,
           user_id: user.id,
           voice_id,
-          audio_url: audioUrl,
+          audio_quality: audioQuality,
+          audio_url: stored.url,
+          duration_seconds: stored.durationSeconds,
+          audio_format: stored.format,
+          audio_bytes: stored.sizeBytes,
+          sample_rate: stored.sampleRate,
+          chapters,
+          transcript,
           generation_time_ms: generationTime,
           cost_estimate: 0.05,
         })
@@ -369,6 +240,15 @@ serve(async (req) => {
         throw new Error(`Failed to store variant: ${variantError.message}`);
       }
 
+      // The edition keeps the chapters of its first render
+      if (chapters.length && !edition.chapters?.length) {
+        const { error: chaptersError } = await supabaseClient
+          .from('daily_editions')
+          .update({ chapters })
+          .eq('id', edition_id);
+        if (chaptersError) console.warn(`⚠️ Failed to store edition chapters: ${chaptersError.message}`);
+      }
+
       // Log cost
       await supabaseClient
         .from('voice_variant_costs')
@@ -390,7 +270,12 @@ serve(async (req) => {
 
       return {
         variant_id: variant.id,
-        audio_url: audioUrl,
+        audio_url: stored.url,
+        duration_seconds: stored.durationSeconds,
+        chapters,
+        transcript,
+        audio_quality: audioQuality,
+        sample_rate: stored.sampleRate,
         generation_time_ms: generationTime,
         cached: false,
       };
@@ -1,4 +1,5 @@
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { annotateLinks, sourcingQuality } from "../shared/sources.ts";
 
 const supabaseUrl = Deno.env.get("SUPABASE_URL");
 const supabaseKey = Deno.env.get("SUPABASE_ANON_KEY");
@@ -78,17 +79,25 @@ Deno.serve(async (req: Request) => {
     }
 
     // ==================== PHASE 3: FETCH VOICE VARIANTS ====================
-    // Get all voice variants available for this edition
+    // Get all voice variants available for this edition. A voice can exist at both
+    // audio qualities; ordering by quality lets the 48khz render win in the map below.
     const { data: variants } = await supabase
       .from("voice_variants")
-      .select("voice_id, audio_url, created_at")
-      .eq("edition_id", shareLink.edition_id);
+      .select("voice_id, audio_url, audio_quality, chapters, created_at")
+      .eq("edition_id", shareLink.edition_id)
+      .order("audio_quality", { ascending: true });
 
     const variantMap = variants?.reduce((acc, v) => {
       acc[v.voice_id] = v.audio_url;
       return acc;
     }, {} as Record<string, string>) || {};
 
+    // Chapter timings depend on the voice, so they travel with each variant
+    const chapterMap = variants?.reduce((acc, v) => {
+      acc[v.voice_id] = v.chapters || [];
+      return acc;
+    }, {} as Record<string, { title: string; start: number }[]>) || {};
+
     // Log access (async, non-blocking)
     const clientIP = req.headers.get("x-forwarded-for") ||
       req.headers.get("x-real-ip") ||
@@ -116,16 +125,22 @@ Deno.serve(async (req: Request) => {
       })
       .catch((err) => console.error("Failed to log access:", err));
 
+    // Editions saved before grounding links were annotated get their outlet ratings here
+    const groundingLinks = annotateLinks(Array.isArray(edition.grounding_links) ? edition.grounding_links : []);
+
     // ==================== PHASE 3 & 4: RETURN SHARED EDITION WITH VARIANTS ====================
     // Return edition with share metadata and available voice variants
     return new Response(
       JSON.stringify({
         edition: {
           ...edition,
+          grounding_links: groundingLinks,
+          sourcing_quality: edition.sourcing_quality ?? sourcingQuality(groundingLinks),
           voiceVariants: {
             available: Object.keys(variantMap),
             count: Object.keys(variantMap).length,
             audioUrls: variantMap,  // Map of voice_id -> audio_url
+            chapters: chapterMap,   // Map of voice_id -> [{ title, start }]
           },
         },
         share_metadata: {
@@ -0,0 +1,105 @@
+// ==================== PODCAST RSS RENDERING ====================
+// RSS 2.0 with the iTunes and content namespaces — the subset Apple Podcasts,
+// Overcast and Pocket Casts all read — plus podcast:chapters for apps that support
+// the Podcasting 2.0 namespace. Everything interpolated is XML-escaped; show notes
+// go in CDATA so their HTML survives.
+
+import type { Chapter } from '../shared/chapters.ts';
+
+export interface FeedChannel {
+  title: string;
+  description: string;
+  link: string;        // Web app URL
+  selfUrl: string;     // This feed's URL (atom:link rel=self)
+  language: string;    // BCP-47, e.g. en-US
+  imageUrl: string;
+}
+
+export interface FeedEpisode {
+  guid: string;
+  title: string;
+  publishedAt: string;    // ISO timestamp
+  audioUrl: string;
+  audioBytes: number;
+  audioType: string;      // MIME type of the enclosure
+  durationSeconds: number | null;
+  imageUrl: string | null;
+  summary: string;        // Plain text
+  notesHtml: string;      // Show notes (summary + chapters + sources)
+  chaptersUrl: string | null;  // JSON chapters document, when the episode has chapters
+}
+
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+// "]]>" would close the CDATA section early, so split it across two sections
+function cdata(value: string): string {
+  return `<![CDATA[${value.replace(/]]>/g, ']]]]><![CDATA[>')}]]>`;
+}
+
+// iTunes accepts HH:MM:SS
+export function formatDuration(seconds: number): string {
+  const total = Math.round(seconds);
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = total % 60;
+  return [h, m, s].map((n) => String(n).padStart(2, '0')).join(':');
+}
+
+export function renderFeed(channel: FeedChannel, episodes: FeedEpisode[]): string {
+  const items = episodes.map((episode) => `    <item>
+      <title>${escapeXml(episode.title)}</title>
+      <guid isPermaLink="false">${escapeXml(episode.guid)}</guid>
+      <pubDate>${new Date(episode.publishedAt).toUTCString()}</pubDate>
+      <enclosure url="${escapeXml(episode.audioUrl)}" length="${episode.audioBytes}" type="${escapeXml(episode.audioType)}"/>
+      <description>${escapeXml(episode.summary)}</description>
+      <content:encoded>${cdata(episode.notesHtml)}</content:encoded>
+      <itunes:summary>${escapeXml(episode.summary)}</itunes:summary>
+      <itunes:episodeType>full</itunes:episodeType>
+      <itunes:explicit>false</itunes:explicit>${episode.durationSeconds ? `
+      <itunes:duration>${formatDuration(episode.durationSeconds)}</itunes:duration>` : ''}${episode.imageUrl ? `
+      <itunes:image href="${escapeXml(episode.imageUrl)}"/>` : ''}${episode.chaptersUrl ? `
+      <podcast:chapters url="${escapeXml(episode.chaptersUrl)}" type="application/json+chapters"/>` : ''}
+    </item>`).join('\n');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:itunes="http://www.itunes.com/dtds/podcast-1.0.dtd" xmlns:content="http://purl.org/rss/1.0/modules/content/" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:podcast="https://podcastindex.org/namespace/1.0">
+  <channel>
+    <title>${escapeXml(channel.title)}</title>
+    <link>${escapeXml(channel.link)}</link>
+    <atom:link href="${escapeXml(channel.selfUrl)}" rel="self" type="application/rss+xml"/>
+    <description>${escapeXml(channel.description)}</description>
+    <language>${escapeXml(channel.language.toLowerCase())}</language>
+    <image>
+      <url>${escapeXml(channel.imageUrl)}</url>
+      <title>${escapeXml(channel.title)}</title>
+      <link>${escapeXml(channel.link)}</link>
+    </image>
+    <itunes:author>VoxTrends</itunes:author>
+    <itunes:summary>${escapeXml(channel.description)}</itunes:summary>
+    <itunes:image href="${escapeXml(channel.imageUrl)}"/>
+    <itunes:category text="News">
+      <itunes:category text="Daily News"/>
+    </itunes:category>
+    <itunes:explicit>false</itunes:explicit>
+    <itunes:type>episodic</itunes:type>
+    <itunes:block>Yes</itunes:block>
+${items}
+  </channel>
+</rss>
+`;
+}
+
+// Podcasting 2.0 JSON chapters (https://github.com/Podcastindex-org/podcast-namespace/blob/main/chapters/jsonChapters.md)
+export function renderChapters(chapters: Chapter[]): string {
+  return JSON.stringify({
+    version: '1.2.0',
+    chapters: chapters.map((chapter) => ({ startTime: chapter.start, title: chapter.title })),
+  });
+}
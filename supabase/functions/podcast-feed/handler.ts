@@ -0,0 +1,327 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { getLanguageCode } from '../shared/language.ts';
+import { getAudioQuality, isLanguageAllowed, isRegionAllowed } from '../shared/limits.ts';
+import { normalizeLanguage, normalizeRegion } from '../shared/locales.ts';
+import type { Chapter } from '../shared/chapters.ts';
+import { formatDuration, renderChapters, renderFeed, type FeedEpisode } from './feed.ts';
+
+// ==================== CORS ====================
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'GET, POST, DELETE, OPTIONS',
+};
+
+// ==================== CONFIGURATION ====================
+const MAX_EPISODES = 50;
+const VARIANT_COLUMNS = 'edition_id, voice_id, audio_quality, audio_url, audio_bytes, audio_format, duration_seconds, chapters, created_at';
+
+// Podcast apps poll feeds on their own schedule and can't send an Authorization
+// header, so each user gets one long random token that goes in the feed URL.
+function generateFeedToken(): string {
+  const chars = 'abcdefghijklmnopqrstuvwxyz0123456789';
+  const array = new Uint8Array(32);
+  crypto.getRandomValues(array);
+  return Array.from(array, (byte) => chars[byte % chars.length]).join('');
+}
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+// ==================== HANDLER DEPS ====================
+export interface FeedHandlerDeps {
+  // Feed reads resolve the token themselves, so they run with the service role
+  createServiceClient: () => any;
+  createUserClient: (authHeader: string) => any;
+  appUrl: () => string;
+  coverUrl: () => string;  // Channel artwork; Apple wants a 1400–3000px square
+  functionsUrl: () => string;
+}
+
+export const defaultDeps: FeedHandlerDeps = {
+  createServiceClient: () => createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+  ),
+  createUserClient: (authHeader) => createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+    {
+      global: { headers: { Authorization: authHeader } },
+      auth: { persistSession: false },
+    }
+  ),
+  appUrl: () => Deno.env.get('APP_URL') ?? 'https://voxtrends.com',
+  coverUrl: () => Deno.env.get('PODCAST_COVER_URL') ?? `${Deno.env.get('APP_URL') ?? 'https://voxtrends.com'}/podcast-cover.png`,
+  functionsUrl: () => `${Deno.env.get('SUPABASE_URL') ?? ''}/functions/v1`,
+};
+
+// ==================== EPISODES ====================
+// One enclosure per edition: the variant at the listener's plan quality if there is
+// one, then the default voice, then whatever is newest. Inline (data URI) audio from
+// before compressed storage can't be an enclosure, so those are skipped.
+function pickVariant(variants: any[], quality: string) {
+  const playable = variants.filter((v) => typeof v.audio_url === 'string' && v.audio_url.startsWith('http'));
+  const score = (v: any) => (v.audio_quality === quality ? 2 : 0) + (v.voice_id === 'originals' ? 1 : 0);
+  return playable.sort((a, b) => score(b) - score(a) || String(b.created_at).localeCompare(String(a.created_at)))[0] ?? null;
+}
+
+// The chapters document for one variant lives at the feed URL itself, keyed by variant
+function chaptersUrl(feedUrl: URL, variant: any): string {
+  const url = new URL(feedUrl.origin + feedUrl.pathname);
+  url.searchParams.set('token', feedUrl.searchParams.get('token') ?? '');
+  url.searchParams.set('chapters', variant.edition_id);
+  url.searchParams.set('voice', variant.voice_id);
+  url.searchParams.set('quality', variant.audio_quality || '24khz');
+  return url.toString();
+}
+
+function toEpisode(edition: any, variant: any, feedUrl: URL): FeedEpisode {
+  const summary = (edition.flash_summary || edition.content || '').replace(/[*#]/g, '').trim();
+  const links: { uri: string; title: string }[] = Array.isArray(edition.grounding_links) ? edition.grounding_links : [];
+  const chapters: Chapter[] = Array.isArray(variant.chapters) ? variant.chapters : [];
+  const escapeHtml = (s: string) => s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+  // Timestamps in the notes double as chapters in apps that don't read podcast:chapters
+  const notesHtml = [
+    `<p>${escapeHtml(summary).replace(/\n+/g, '<br/>')}</p>`,
+    chapters.length
+      ? `<h3>Chapters</h3><ul>${chapters.map((c) => `<li>${formatDuration(c.start)} ${escapeHtml(c.title)}</li>`).join('')}</ul>`
+      : '',
+    links.length
+      ? `<h3>Sources</h3><ul>${links.map((l) => `<li><a href="${escapeHtml(l.uri)}">${escapeHtml(l.title || l.uri)}</a></li>`).join('')}</ul>`
+      : '',
+  ].join('');
+
+  return {
+    guid: `voxtrends-${edition.id}-${variant.voice_id}-${variant.audio_quality || '24khz'}`,
+    title: `${edition.edition_type} Edition · ${edition.region} · ${edition.date}`,
+    publishedAt: variant.created_at || edition.content_generated_at || `${edition.date}T00:00:00Z`,
+    audioUrl: variant.audio_url,
+    audioBytes: variant.audio_bytes || 0,
+    audioType: variant.audio_format === 'wav' ? 'audio/wav' : 'audio/mpeg',
+    durationSeconds: variant.duration_seconds ? Number(variant.duration_seconds) : null,
+    // Cover art may still be an inline data URI, which podcast apps can't load
+    imageUrl: edition.image_url?.startsWith('http') ? edition.image_url : null,
+    summary,
+    notesHtml,
+    chaptersUrl: chapters.length ? chaptersUrl(feedUrl, variant) : null,
+  };
+}
+
+async function loadUserEpisodes(client: any, userId: string, quality: string, feedUrl: URL) {
+  const { data: variants } = await client
+    .from('voice_variants')
+    .select(VARIANT_COLUMNS)
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(MAX_EPISODES * 3);
+
+  const editionIds = [...new Set((variants || []).map((v: any) => v.edition_id))];
+  if (editionIds.length === 0) return [];
+
+  const { data: editions } = await client
+    .from('daily_editions')
+    .select('*')
+    .in('id', editionIds);
+
+  return buildEpisodes(editions || [], variants || [], quality, feedUrl);
+}
+
+async function loadChannelEpisodes(client: any, region: string, language: string, quality: string, feedUrl: URL) {
+  // Topic channel editions are private to their owner and only appear in the user feed
+  const { data: editions } = await client
+    .from('daily_editions')
+    .select('*')
+    .eq('region', region)
+    .eq('language', language)
+    .is('channel_id', null)
+    .order('date', { ascending: false })
+    .limit(MAX_EPISODES);
+
+  if (!editions?.length) return [];
+
+  const { data: variants } = await client
+    .from('voice_variants')
+    .select(VARIANT_COLUMNS)
+    .in('edition_id', editions.map((e: any) => e.id));
+
+  return buildEpisodes(editions, variants || [], quality, feedUrl);
+}
+
+function buildEpisodes(editions: any[], variants: any[], quality: string, feedUrl: URL): FeedEpisode[] {
+  return editions
+    .map((edition) => {
+      const variant = pickVariant(variants.filter((v) => v.edition_id === edition.id), quality);
+      return variant ? toEpisode(edition, variant, feedUrl) : null;
+    })
+    .filter((episode): episode is FeedEpisode => episode !== null)
+    .sort((a, b) => b.publishedAt.localeCompare(a.publishedAt))
+    .slice(0, MAX_EPISODES);
+}
+
+// ==================== FEED (GET) ====================
+async function serveFeed(req: Request, deps: FeedHandlerDeps): Promise<Response> {
+  const url = new URL(req.url);
+  const token = url.searchParams.get('token');
+  const regionParam = url.searchParams.get('region');
+  const languageParam = url.searchParams.get('language');
+
+  if (!token) return json({ error: 'token is required' }, 401);
+  if (!!regionParam !== !!languageParam) return json({ error: 'region and language must be given together' }, 400);
+
+  // Feeds subscribed with legacy codes ('us', 'en') keep resolving to the same channel
+  const region = regionParam && normalizeRegion(regionParam);
+  const language = languageParam && normalizeLanguage(languageParam);
+  if (regionParam && !region) return json({ error: `Unknown region: ${regionParam}` }, 400);
+  if (languageParam && !language) return json({ error: `Unknown language: ${languageParam}` }, 400);
+
+  const client = deps.createServiceClient();
+  const { data: feedToken } = await client
+    .from('podcast_feed_tokens')
+    .select('user_id')
+    .eq('token', token)
+    .maybeSingle();
+
+  if (!feedToken) return json({ error: 'Feed not found' }, 404);
+
+  const chaptersFor = url.searchParams.get('chapters');
+  if (chaptersFor) return serveChapters(client, chaptersFor, url);
+
+  const { data: profile } = await client
+    .from('users')
+    .select('plan')
+    .eq('id', feedToken.user_id)
+    .maybeSingle();
+  const plan = profile?.plan || 'Free';
+  const quality = getAudioQuality(plan);
+
+  // Channel feeds follow the same region/language gates as generating an edition
+  if (region && language) {
+    if (!isRegionAllowed(plan, region) || !isLanguageAllowed(plan, language)) {
+      return json({ error: `The ${plan} plan does not include the ${region}/${language} channel` }, 403);
+    }
+  }
+
+  const episodes = region && language
+    ? await loadChannelEpisodes(client, region, language, quality, url)
+    : await loadUserEpisodes(client, feedToken.user_id, quality, url);
+
+  // Fire-and-forget: feed polling shouldn't wait on bookkeeping
+  client
+    .from('podcast_feed_tokens')
+    .update({ last_accessed_at: new Date().toISOString() })
+    .eq('token', token)
+    .then(() => {}, (err: unknown) => console.warn(`⚠️ Failed to record feed access: ${err}`));
+
+  const appUrl = deps.appUrl();
+  const xml = renderFeed({
+    title: region && language ? `VoxTrends · ${region} (${language})` : 'VoxTrends · My Daily Briefings',
+    description: region && language
+      ? `AI-produced daily news briefings for ${region}, in ${language}.`
+      : 'Your VoxTrends editions, delivered to your podcast app.',
+    link: appUrl,
+    selfUrl: url.toString(),
+    language: getLanguageCode(language || 'English'),
+    imageUrl: deps.coverUrl(),
+  }, episodes);
+
+  console.log(`📻 Served ${episodes.length} episode feed${region ? ` for ${region}/${language}` : ''} to ${feedToken.user_id}`);
+  return new Response(xml, {
+    headers: {
+      ...corsHeaders,
+      'Content-Type': 'application/rss+xml; charset=utf-8',
+      'Cache-Control': 'private, max-age=300',
+    },
+  });
+}
+
+// ==================== CHAPTERS (GET ?chapters=) ====================
+async function serveChapters(client: any, editionId: string, url: URL): Promise<Response> {
+  const { data: variant } = await client
+    .from('voice_variants')
+    .select('chapters')
+    .eq('edition_id', editionId)
+    .eq('voice_id', url.searchParams.get('voice') || 'originals')
+    .eq('audio_quality', url.searchParams.get('quality') || '24khz')
+    .maybeSingle();
+
+  if (!variant) return json({ error: 'Episode not found' }, 404);
+
+  return new Response(renderChapters(variant.chapters || []), {
+    headers: {
+      ...corsHeaders,
+      'Content-Type': 'application/json+chapters',
+      'Cache-Control': 'public, max-age=86400',
+    },
+  });
+}
+
+// ==================== TOKEN MANAGEMENT (POST / DELETE) ====================
+async function manageToken(req: Request, deps: FeedHandlerDeps): Promise<Response> {
+  const authHeader = req.headers.get('Authorization');
+  if (!authHeader) return json({ error: 'Missing authorization header' }, 401);
+
+  const { data: { user }, error: authError } = await deps.createUserClient(authHeader).auth.getUser();
+  if (authError || !user) return json({ error: 'Unauthorized', code: 401, message: 'Invalid JWT' }, 401);
+
+  const client = deps.createServiceClient();
+
+  if (req.method === 'DELETE') {
+    await client.from('podcast_feed_tokens').delete().eq('user_id', user.id);
+    console.log(`🗑️ Revoked podcast feed for ${user.id}`);
+    return json({ success: true });
+  }
+
+  let body: { rotate?: boolean } = {};
+  try {
+    body = await req.json();
+  } catch {
+    // An empty body just means "give me my feed"
+  }
+
+  const { data: existing } = await client
+    .from('podcast_feed_tokens')
+    .select('token')
+    .eq('user_id', user.id)
+    .maybeSingle();
+
+  let token = existing?.token;
+  if (!token || body.rotate) {
+    token = generateFeedToken();
+    const { error } = await client
+      .from('podcast_feed_tokens')
+      .upsert({ user_id: user.id, token, created_at: new Date().toISOString() }, { onConflict: 'user_id' });
+
+    if (error) return json({ error: `Failed to create feed: ${error.message}` }, 500);
+    console.log(`🔑 ${existing ? 'Rotated' : 'Created'} podcast feed token for ${user.id}`);
+  }
+
+  // Channel feeds are the same URL with &region=...&language=... appended
+  return json({
+    data: {
+      token,
+      feed_url: `${deps.functionsUrl()}/podcast-feed?token=${token}`,
+    },
+  });
+}
+
+// ==================== HANDLER ====================
+export async function handleFeedRequest(req: Request, deps: FeedHandlerDeps = defaultDeps): Promise<Response> {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { status: 200, headers: corsHeaders });
+  }
+
+  try {
+    if (req.method === 'GET') return await serveFeed(req, deps);
+    if (req.method === 'POST' || req.method === 'DELETE') return await manageToken(req, deps);
+    return json({ error: 'Method not allowed' }, 405);
+  } catch (error: any) {
+    console.error('Podcast feed error:', error);
+    return json({ error: error.message || 'Internal server error' }, 500);
+  }
+}
@@ -0,0 +1,7 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { handleFeedRequest } from './handler.ts';
+
+// ==================== MAIN FUNCTION ====================
+console.log('Podcast Feed Function Started');
+
+serve((req) => handleFeedRequest(req));
@@ -1,5 +1,7 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { editionsDue, LANGUAGE_IDS, normalizeLanguage, normalizeRegion, REGION_IDS, regionDate } from '../shared/locales.ts';
+import { notifyEditionReady, pushSenderFromEnv, type PushSender } from '../shared/push.ts';
 
 // ==================== CORS ====================
 const corsHeaders = {
@@ -15,14 +17,21 @@ function handleCors(req: Request) {
 }
 
 // ==================== CONFIGURATION ====================
-const REGIONS = ['us', 'global', 'colombia', 'venezuela', 'europe', 'asia'];
-const LANGUAGES = ['en', 'es'];  // English, Spanish only (Portuguese commented out for future)
 const EDITIONS = ['Morning', 'Midday', 'Evening'];
 const GENERATE_EDITION_URL = `${Deno.env.get('SUPABASE_URL')}/functions/v1/generate-edition`;
+const EMAIL_DIGEST_URL = `${Deno.env.get('SUPABASE_URL')}/functions/v1/email-digest`;
+const APP_URL = Deno.env.get('APP_URL') ?? 'https://voxtrends.com';
 
 // ==================== HELPERS ====================
-function getTodayDate(): string {
-  return new Date().toISOString().split('T')[0];
+
+function canonical(values: string[], normalize: (value: string) => string | null, kind: string): string[] {
+  const ids = new Set<string>();
+  for (const value of values) {
+    const id = normalize(value);
+    if (id) ids.add(id);
+    else console.warn(`⚠️ Skipping unknown ${kind}: ${value}`);
+  }
+  return [...ids];
 }
 
 async function generateEdition(
@@ -31,7 +40,7 @@ async function generateEdition(
   region: string,
   language: string,
   serviceRoleKey: string
-): Promise<{ success: boolean; error?: string }> {
+): Promise<{ success: boolean; headline?: string | null; error?: string }> {
   try {
     console.log(`📢 [${editionType}] Generating for ${region}/${language}...`);
 
@@ -55,8 +64,9 @@ async function generateEdition(
       throw new Error(`HTTP ${response.status}: ${error.error || 'Unknown error'}`);
     }
 
+    const result = await response.json().catch(() => ({}));
     console.log(`✅ [${editionType}] ${region}/${language} generated successfully`);
-    return { success: true };
+    return { success: true, headline: result.data?.stories?.[0]?.headline ?? null };
   } catch (error: any) {
     const errorMsg = error.message || String(error);
     console.error(`❌ [${editionType}] ${region}/${language} failed: ${errorMsg}`);
@@ -70,7 +80,7 @@ async function generateEdition(
             edition_type: editionType,
             region,
             language,
-            generation_date: getTodayDate(),
+            generation_date: regionDate(region),
             error_message: errorMsg,
             retry_count: 0,
             next_retry_at: new Date(Date.now() + 2 * 60 * 1000).toISOString(), // Retry in 2 minutes
@@ -88,18 +98,131 @@ async function generateEdition(
   }
 }
 
+// Emails the edition to its digest subscribers; a failed send never fails the run
+async function sendDigests(editionType: string, region: string, language: string, serviceRoleKey: string) {
+  try {
+    const response = await fetch(EMAIL_DIGEST_URL, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${serviceRoleKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ editionType, region, language }),
+    });
+    if (!response.ok) console.warn(`⚠️ Email digest for ${region}/${language} answered ${response.status}`);
+    await response.body?.cancel();
+  } catch (error: any) {
+    console.warn(`⚠️ Email digest failed: ${error.message || error}`);
+  }
+}
+
+// ==================== BATCH ====================
+// Generates every region/language combination of one edition type and logs the run
+async function runBatch(
+  supabaseClient: any,
+  editionType: string,
+  regions: string[],
+  languages: string[],
+  pushSender: PushSender | null
+) {
+  const startTime = Date.now();
+  console.log(`\n📅 ===== SCHEDULED GENERATION: ${editionType} =====`);
+  console.log(`📍 Regions: ${regions.join(', ')}`);
+  console.log(`🌐 Languages: ${languages.join(', ')}`);
+
+  // Create scheduled log entry
+  const logId = crypto.randomUUID();
+  const totalCombinations = regions.length * languages.length;
+
+  await supabaseClient
+    .from('scheduled_generation_logs')
+    .insert({
+      id: logId,
+      edition_type: editionType,
+      regions,
+      languages,
+      scheduled_time: new Date().toISOString(),
+      started_at: new Date().toISOString(),
+      status: 'running',
+      total_combinations: totalCombinations,
+    });
+
+  console.log(`📊 Starting generation for ${totalCombinations} region/language combinations...`);
+
+  // Generate all combinations
+  let successCount = 0;
+  let errorCount = 0;
+  const results: any[] = [];
+
+  for (const region of regions) {
+    for (const language of languages) {
+      const result = await generateEdition(
+        supabaseClient,
+        editionType,
+        region,
+        language,
+        Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+      );
+
+      if (result.success) {
+        successCount++;
+        results.push({ editionType, region, language, status: 'success' });
+        // Followers hear about it as soon as it lands; a failed push never fails the run
+        if (pushSender) {
+          await notifyEditionReady(supabaseClient, { editionType, region, language, headline: result.headline }, pushSender, APP_URL)
+            .catch((error) => console.warn(`⚠️ Edition alerts failed: ${error.message || error}`));
+        }
+        await sendDigests(editionType, region, language, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '');
+      } else {
+        errorCount++;
+        results.push({ editionType, region, language, status: 'failed', error: result.error });
+      }
+    }
+  }
+
+  // Update scheduled log with results
+  const completionTime = Date.now() - startTime;
+  await supabaseClient
+    .from('scheduled_generation_logs')
+    .update({
+      completed_at: new Date().toISOString(),
+      status: errorCount === 0 ? 'success' : 'failed',
+      success_count: successCount,
+      error_count: errorCount,
+      metadata: {
+        completionTimeMs: completionTime,
+        successRate: `${Math.round((successCount / totalCombinations) * 100)}%`,
+      },
+    })
+    .eq('id', logId);
+
+  console.log(`\n📊 ===== ${editionType} COMPLETE =====`);
+  console.log(`✅ Success: ${successCount}/${totalCombinations}`);
+  console.log(`❌ Errors: ${errorCount}/${totalCombinations}`);
+  console.log(`⏱️ Duration: ${completionTime}ms`);
+
+  return { totalCombinations, successCount, errorCount, results };
+}
+
 // ==================== MAIN HANDLER ====================
+// The hourly cron sends no editionType: each region gets the editions whose local
+// pre-generation hour it is (see EDITION_WINDOWS). An explicit editionType runs that
+// edition for every given region right away, for manual backfills.
 async function handleScheduledGeneration(req: Request): Promise<Response> {
   const startTime = Date.now();
 
   try {
     const body = await req.json();
-    const { editionType, regions, languages } = body;
+    const { editionType } = body;
+    // Editions are cached under the registry ids the app requests, so legacy codes
+    // from older cron payloads ('us', 'en') are mapped first and unknown ones dropped
+    const regions = canonical(body.regions ?? REGION_IDS, normalizeRegion, 'region');
+    const languages = canonical(body.languages ?? LANGUAGE_IDS, normalizeLanguage, 'language');
 
-    if (!editionType) {
+    if (editionType && !EDITIONS.includes(editionType)) {
       return new Response(
         JSON.stringify({
-          error: 'Missing editionType parameter',
+          error: `Invalid editionType. Must be one of: ${EDITIONS.join(', ')}`,
         }),
         {
           status: 400,
@@ -108,9 +231,19 @@ async function handleScheduledGeneration(req: Request): Promise<Response> {
       );
     }
 
-    console.log(`\n📅 ===== SCHEDULED GENERATION: ${editionType} =====`);
-    console.log(`📍 Regions: ${regions.join(', ')}`);
-    console.log(`🌐 Languages: ${languages.join(', ')}`);
+    // Regions due this hour, grouped by edition
+    const batches = new Map<string, string[]>();
+    if (editionType) {
+      batches.set(editionType, regions);
+    } else {
+      for (const due of editionsDue()) {
+        if (regions.includes(due.region)) batches.set(due.edition, [...(batches.get(due.edition) ?? []), due.region]);
+      }
+    }
+
+    if (!batches.size) {
+      console.log('🕐 No region is due for an edition this hour');
+    }
 
     // Create Supabase client
     const supabaseClient = createClient(
@@ -118,79 +251,30 @@ async function handleScheduledGeneration(req: Request): Promise<Response> {
       Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
     );
 
-    // Create scheduled log entry
-    const logId = crypto.randomUUID();
-    const totalCombinations = regions.length * languages.length;
-
-    await supabaseClient
-      .from('scheduled_generation_logs')
-      .insert({
-        id: logId,
-        edition_type: editionType,
-        regions,
-        languages,
-        scheduled_time: new Date().toISOString(),
-        started_at: new Date().toISOString(),
-        status: 'running',
-        total_combinations: totalCombinations,
-      });
-
-    console.log(`📊 Starting generation for ${totalCombinations} region/language combinations...`);
-
-    // Generate all combinations
+    const pushSender = pushSenderFromEnv();
+    if (!pushSender) console.warn('⚠️ VAPID keys not configured, edition alerts are off');
+
+    let totalCombinations = 0;
     let successCount = 0;
     let errorCount = 0;
     const results: any[] = [];
 
-    for (const region of regions) {
-      for (const language of languages) {
-        const result = await generateEdition(
-          supabaseClient,
-          editionType,
-          region,
-          language,
-          Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
-        );
-
-        if (result.success) {
-          successCount++;
-          results.push({ region, language, status: 'success' });
-        } else {
-          errorCount++;
-          results.push({ region, language, status: 'failed', error: result.error });
-        }
-      }
+    for (const [edition, batchRegions] of batches) {
+      const batch = await runBatch(supabaseClient, edition, batchRegions, languages, pushSender);
+      totalCombinations += batch.totalCombinations;
+      successCount += batch.successCount;
+      errorCount += batch.errorCount;
+      results.push(...batch.results);
     }
 
-    // Update scheduled log with results
-    const completionTime = Date.now() - startTime;
-    await supabaseClient
-      .from('scheduled_generation_logs')
-      .update({
-        completed_at: new Date().toISOString(),
-        status: errorCount === 0 ? 'success' : 'failed',
-        success_count: successCount,
-        error_count: errorCount,
-        metadata: {
-          completionTimeMs: completionTime,
-          successRate: `${Math.round((successCount / totalCombinations) * 100)}%`,
-        },
-      })
-      .eq('id', logId);
-
-    console.log(`\n📊 ===== GENERATION COMPLETE =====`);
-    console.log(`✅ Success: ${successCount}/${totalCombinations}`);
-    console.log(`❌ Errors: ${errorCount}/${totalCombinations}`);
-    console.log(`⏱️ Duration: ${completionTime}ms`);
-
     return new Response(
       JSON.stringify({
         success: true,
-        editionType,
+        editionTypes: [...batches.keys()],
         totalCombinations,
         successCount,
         errorCount,
-        completionTimeMs: completionTime,
+        completionTimeMs: Date.now() - startTime,
         results,
       }),
       {
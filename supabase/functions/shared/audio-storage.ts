@@ -0,0 +1,75 @@
+// ==================== EPISODE AUDIO STORAGE ====================
+// Encodes a generated WAV to MP3 and uploads it to the vox-media bucket under the
+// same `${userId}/audio/` prefix the client uses, so stored variants point at a
+// public URL instead of carrying megabytes of base64 in voice_variants.audio_url.
+
+import { base64ToBytes, bytesToBase64 } from './audio.ts';
+import { encodeMp3, readWav } from './encoding.ts';
+
+export const MEDIA_BUCKET = 'vox-media';
+
+export interface StoredAudio {
+  url: string;              // Public storage URL, or a data URI if the upload failed
+  format: string;           // 'mp3' or 'wav'
+  durationSeconds: number;
+  sizeBytes: number;
+  sampleRate: number;
+}
+
+export async function storeEpisodeAudio(
+  supabaseClient: any,
+  userId: string,
+  wavBase64: string,
+  name: string
+): Promise<StoredAudio> {
+  const wav = base64ToBytes(wavBase64);
+  const pcm = readWav(wav);
+
+  let encoded;
+  try {
+    encoded = encodeMp3(pcm);
+    console.log(`🗜️ Encoded ${wav.length} byte WAV to ${encoded.bytes.length} byte MP3 (${encoded.durationSeconds}s @ ${encoded.sampleRate}Hz)`);
+  } catch (error: any) {
+    // Still playable, just big — better than losing the episode
+    console.error('❌ MP3 encoding failed, keeping WAV:', error);
+    return {
+      url: `data:audio/wav;base64,${wavBase64}`,
+      format: 'wav',
+      durationSeconds: Math.round((pcm.samples.length / pcm.sampleRate) * 100) / 100,
+      sizeBytes: wav.length,
+      sampleRate: pcm.sampleRate,
+    };
+  }
+
+  const safeName = name.replace(/[^a-zA-Z0-9_-]+/g, '-');
+  const path = `${userId}/audio/${Date.now()}-${safeName}.${encoded.extension}`;
+  const { error: uploadError } = await supabaseClient.storage
+    .from(MEDIA_BUCKET)
+    .upload(path, encoded.bytes, {
+      contentType: encoded.mimeType,
+      cacheControl: '31536000',  // Paths are timestamped, so the object never changes
+      upsert: false,
+    });
+
+  if (uploadError) {
+    console.warn(`⚠️ Audio upload failed, returning inline MP3: ${uploadError.message}`);
+    return {
+      url: `data:${encoded.mimeType};base64,${bytesToBase64(encoded.bytes)}`,
+      format: encoded.extension,
+      durationSeconds: encoded.durationSeconds,
+      sizeBytes: encoded.bytes.length,
+      sampleRate: encoded.sampleRate,
+    };
+  }
+
+  const { data: { publicUrl } } = supabaseClient.storage.from(MEDIA_BUCKET).getPublicUrl(path);
+  console.log('🔗 Episode audio stored:', publicUrl);
+
+  return {
+    url: publicUrl,
+    format: encoded.extension,
+    durationSeconds: encoded.durationSeconds,
+    sizeBytes: encoded.bytes.length,
+    sampleRate: encoded.sampleRate,
+  };
+}
@@ -0,0 +1,97 @@
+// ==================== AUDIO HELPERS ====================
+
+// Rate TTS providers render at (Gemini TTS only produces 24kHz)
+export const PCM_SAMPLE_RATE = 24000;
+
+// Output rates per plan (PLAN_LIMITS.audioQuality)
+export type AudioQuality = '24khz' | '48khz';
+
+export const SAMPLE_RATES: Record<AudioQuality, number> = {
+  '24khz': 24000,
+  '48khz': 48000,
+};
+
+export function sampleRateFor(quality: string | undefined): number {
+  return SAMPLE_RATES[quality as AudioQuality] ?? PCM_SAMPLE_RATE;
+}
+
+// Create WAV header for PCM audio (16-bit, mono)
+export function createWavHeader(pcmLength: number, sampleRate: number = PCM_SAMPLE_RATE): Uint8Array {
+  const numChannels = 1;
+  const bitsPerSample = 16;
+  const byteRate = sampleRate * numChannels * (bitsPerSample / 8);
+  const blockAlign = numChannels * (bitsPerSample / 8);
+  const dataSize = pcmLength;
+  const fileSize = 36 + dataSize;
+
+  const buffer = new ArrayBuffer(44);
+  const view = new DataView(buffer);
+
+  // RIFF header
+  view.setUint32(0, 0x52494646, false); // "RIFF"
+  view.setUint32(4, fileSize, true);
+  view.setUint32(8, 0x57415645, false); // "WAVE"
+
+  // fmt chunk
+  view.setUint32(12, 0x666d7420, false); // "fmt "
+  view.setUint32(16, 16, true); // chunk size
+  view.setUint16(20, 1, true); // audio format (PCM)
+  view.setUint16(22, numChannels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, byteRate, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, bitsPerSample, true);
+
+  // data chunk
+  view.setUint32(36, 0x64617461, false); // "data"
+  view.setUint32(40, dataSize, true);
+
+  return new Uint8Array(buffer);
+}
+
+// Memory-efficient Uint8Array to Base64
+export function bytesToBase64(bytes: Uint8Array): string {
+  const chunks: string[] = [];
+  const chunkSize = 0x8000; // 32KB chunks
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    const chunk = bytes.subarray(i, Math.min(i + chunkSize, bytes.length));
+    // @ts-ignore: String.fromCharCode.apply is faster than a manual loop
+    chunks.push(String.fromCharCode.apply(null, chunk));
+  }
+  return btoa(chunks.join(''));
+}
+
+export function base64ToBytes(base64: string): Uint8Array {
+  return Uint8Array.from(atob(base64), (c) => c.charCodeAt(0));
+}
+
+// Resample 16-bit mono PCM with linear interpolation. Used to lift 24kHz TTS output to
+// the 48kHz Pro rate so the whole chain (WAV, MP3, storage, playback) runs at 48kHz.
+export function resamplePcm16(pcmBytes: Uint8Array, fromRate: number, toRate: number): Uint8Array {
+  if (fromRate === toRate) return pcmBytes;
+
+  const input = new Int16Array(pcmBytes.slice(0, pcmBytes.length & ~1).buffer);
+  const outputLength = Math.round((input.length * toRate) / fromRate);
+  const output = new Int16Array(outputLength);
+  const step = fromRate / toRate;
+
+  for (let i = 0; i < outputLength; i++) {
+    const position = i * step;
+    const index = Math.floor(position);
+    const next = Math.min(index + 1, input.length - 1);
+    const fraction = position - index;
+    output[i] = Math.round(input[index] + (input[next] - input[index]) * fraction);
+  }
+
+  return new Uint8Array(output.buffer);
+}
+
+// Convert base64 PCM to base64 WAV
+export function pcmToWav(pcmBase64: string, sampleRate: number = PCM_SAMPLE_RATE): string {
+  const pcmBytes = base64ToBytes(pcmBase64);
+  const wavHeader = createWavHeader(pcmBytes.length, sampleRate);
+  const wavBytes = new Uint8Array(wavHeader.length + pcmBytes.length);
+  wavBytes.set(wavHeader, 0);
+  wavBytes.set(pcmBytes, wavHeader.length);
+  return bytesToBase64(wavBytes);
+}
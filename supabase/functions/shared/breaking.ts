@@ -0,0 +1,66 @@
+// ==================== BREAKING NEWS ====================
+// breaking-monitor scans each region's trending topics every 15 minutes and stores
+// the scan (trend_scans). A topic's velocity is how many more outlets report it
+// than in the previous scan; one that is both widely reported and climbing fast
+// interrupts the fixed cadence with a short Breaking bulletin.
+
+import { storyOverlap } from './threads.ts';
+
+export const BREAKING_EDITION_TYPE = 'Breaking';
+export const SPIKE_MIN_SOURCES = 6;      // Outlets reporting the topic now
+export const SPIKE_MIN_VELOCITY = 4;     // More outlets than in the previous scan
+export const BREAKING_COOLDOWN_HOURS = 3;
+const SAME_TOPIC_OVERLAP = 0.5;          // storyOverlap of one topic across two scans
+
+export interface TrendTopic {
+  topic: string;       // Short headline-style label
+  entities: string[];
+  sources: number;     // Distinct outlets reporting it
+}
+
+export interface TrendSpike extends TrendTopic {
+  previousSources: number;  // 0 when the topic is new since the previous scan
+  velocity: number;
+}
+
+// The scan comes back as a JSON array; anything malformed is dropped rather than guessed at
+export function parseTrendScan(text: string): TrendTopic[] {
+  const json = text.slice(text.indexOf('['), text.lastIndexOf(']') + 1);
+  let items: unknown;
+  try {
+    items = JSON.parse(json);
+  } catch {
+    return [];
+  }
+  if (!Array.isArray(items)) return [];
+
+  return items.flatMap((item: any) => {
+    const topic = typeof item?.topic === 'string' ? item.topic.trim() : '';
+    const sources = Number(item?.sources);
+    if (!topic || !Number.isFinite(sources)) return [];
+    const entities = Array.isArray(item.entities) ? item.entities.filter((e: unknown) => typeof e === 'string') : [];
+    return [{ topic, entities, sources: Math.max(0, Math.round(sources)) }];
+  });
+}
+
+// Each topic of the current scan against its match in the previous one
+export function trendVelocity(current: TrendTopic[], previous: TrendTopic[]): TrendSpike[] {
+  const asStory = (t: TrendTopic) => ({ headline: t.topic, entities: t.entities });
+  return current.map((topic) => {
+    const match = previous
+      .map((p) => ({ p, overlap: storyOverlap(asStory(topic), asStory(p)) }))
+      .filter(({ overlap }) => overlap >= SAME_TOPIC_OVERLAP)
+      .sort((a, b) => b.overlap - a.overlap)[0]?.p;
+    const previousSources = match?.sources ?? 0;
+    return { ...topic, previousSources, velocity: topic.sources - previousSources };
+  });
+}
+
+// The fastest-climbing topic over both thresholds. The first scan of a region has
+// nothing to compare with, so it never spikes.
+export function detectSpike(current: TrendTopic[], previous: TrendTopic[] | null): TrendSpike | null {
+  if (!previous) return null;
+  return trendVelocity(current, previous)
+    .filter((t) => t.sources >= SPIKE_MIN_SOURCES && t.velocity >= SPIKE_MIN_VELOCITY)
+    .sort((a, b) => b.velocity - a.velocity)[0] ?? null;
+}
@@ -0,0 +1,17 @@
+// ==================== TOPIC CHANNELS ====================
+// User-defined beats layered on top of region/language. A channel edition is
+// researched with the channel's keywords and sources in the prompt (see
+// buildNewsPrompt in prompts.ts) and cached
+// under its own channel_id, so it never replaces the shared editions.
+
+export interface TopicChannel {
+  id: string;
+  name: string;
+  include_keywords: string[];
+  exclude_keywords: string[];
+  preferred_sources: string[];
+}
+
+// Stored as edition_type so channel editions share the daily_editions columns
+export const CHANNEL_EDITION_TYPE = 'Channel';
+
@@ -0,0 +1,45 @@
+// ==================== CHAPTERS ====================
+// Scripts mark the start of each story with a "[STORY: Title]" line. The markers
+// are never spoken: TTS splits the script into sections on them, and the audio
+// offset where each section starts becomes a chapter for skip-to-story navigation.
+
+export interface Chapter {
+  title: string;
+  start: number;  // Seconds from the start of the episode
+}
+
+export interface ScriptSection {
+  title: string;
+  script: string;
+}
+
+// Tolerates the markdown the model sometimes wraps around the marker, e.g. "**[STORY: Title]**"
+const STORY_MARKER = /^[\s*_#>-]*\[STORY:\s*(.+?)\s*\][\s*_]*$/i;
+
+export const INTRO_CHAPTER_TITLE = 'Intro';
+
+export function parseStoryMarker(line: string): string | null {
+  return line.match(STORY_MARKER)?.[1] ?? null;
+}
+
+// Lines before the first marker (the welcome) become an intro section; empty sections are dropped
+export function splitScriptSections(script: string): ScriptSection[] {
+  const sections: ScriptSection[] = [{ title: INTRO_CHAPTER_TITLE, script: '' }];
+
+  for (const line of script.split('\n')) {
+    const title = parseStoryMarker(line);
+    if (title) {
+      sections.push({ title, script: '' });
+    } else {
+      const current = sections[sections.length - 1];
+      current.script += current.script ? `\n${line}` : line;
+    }
+  }
+
+  return sections.filter((section) => section.script.trim());
+}
+
+export function stripStoryMarkers(script: string): string {
+  return script.split('\n').filter((line) => !parseStoryMarker(line)).join('\n');
+}
+
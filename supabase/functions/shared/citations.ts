@@ -0,0 +1,49 @@
+// ==================== CLAIM CITATIONS ====================
+// Gemini's grounding supports tie spans of its answer to the search results behind
+// them. The briefing is re-rendered from the parsed stories, so offsets into the raw
+// answer don't carry over; instead each sentence of the final text is matched with
+// the supports by content and cites the links of every support it contains or is
+// part of.
+
+import type { GroundingSupport } from './provider.ts';
+
+export interface Citation {
+  text: string;       // A sentence of the text, exactly as it appears there
+  sources: number[];  // Indexes into the grounding links
+}
+
+const MIN_MATCH_LENGTH = 20;  // Shorter spans (a name, a figure) would match all over the text
+
+// Letters and digits only, so JSON escapes, quotes and markdown don't get in the way
+const normalize = (text: string) => text
+  .replace(/\\[nrt]/g, ' ')
+  .toLowerCase()
+  .replace(/[^\p{L}\p{N}]+/gu, ' ')
+  .trim();
+
+export function splitSentences(text: string): string[] {
+  const segmenter = new Intl.Segmenter(undefined, { granularity: 'sentence' });
+  return text.split('\n').flatMap((line) =>
+    [...segmenter.segment(line)].map(({ segment }) => segment.trim()).filter(Boolean)
+  );
+}
+
+export function citeSentences(text: string, supports: GroundingSupport[], linkCount: number): Citation[] {
+  const spans = supports
+    .map((support) => ({ text: normalize(support.text), chunks: support.chunks.filter((i) => i >= 0 && i < linkCount) }))
+    .filter((span) => span.text.length >= MIN_MATCH_LENGTH && span.chunks.length);
+  if (!spans.length) return [];
+
+  const citations: Citation[] = [];
+  for (const sentence of splitSentences(text)) {
+    const normalized = normalize(sentence);
+    if (normalized.length < MIN_MATCH_LENGTH) continue;
+
+    const sources = new Set<number>();
+    for (const span of spans) {
+      if (normalized.includes(span.text) || span.text.includes(normalized)) span.chunks.forEach((i) => sources.add(i));
+    }
+    if (sources.size) citations.push({ text: sentence, sources: [...sources].sort((a, b) => a - b) });
+  }
+  return citations;
+}
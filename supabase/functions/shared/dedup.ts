@@ -0,0 +1,92 @@
+// ==================== SEMANTIC STORY DEDUP ====================
+// Each story is embedded (headline + summary) and stored with its vector. After the
+// news step, generate-edition compares the new stories against those of recent
+// editions for the same region/language (and against each other) instead of
+// trusting the prompt's "don't repeat these topics" instruction alone.
+
+import type { Story } from './stories.ts';
+
+export const DUPLICATE_SIMILARITY = 0.88;  // Cosine similarity at which two stories cover the same topic
+export const RECENT_STORY_DAYS = 2;        // Today and yesterday
+
+export interface RecentStory {
+  headline: string;
+  embedding: number[] | null;  // Null for stories stored before embeddings, or when embedding failed
+}
+
+export interface DedupMatch {
+  headline: string;    // The new story
+  matched: string;     // The story it repeats
+  similarity: number;
+}
+
+export interface DedupResult {
+  stories: Story[];
+  embeddings: number[][];
+  rejected: DedupMatch[];  // Repeats of a recent edition's story, dropped
+  merged: DedupMatch[];    // Repeats within this briefing, folded into the earlier story
+}
+
+export function storyEmbeddingText(story: Story): string {
+  return `${story.headline}\n${story.summary}`;
+}
+
+// Vectors from different embedding models (different lengths) never match
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (!a.length || a.length !== b.length) return 0;
+  let dot = 0, normA = 0, normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+function closest(embedding: number[], candidates: (number[] | null)[]) {
+  let best: { index: number; similarity: number } | null = null;
+  for (let index = 0; index < candidates.length; index++) {
+    const candidate = candidates[index];
+    if (!candidate) continue;
+    const similarity = cosineSimilarity(embedding, candidate);
+    if (!best || similarity > best.similarity) best = { index, similarity };
+  }
+  return best;
+}
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+// Drops stories that repeat a recent one and merges near-identical stories of the
+// same briefing (sources and entities of the later one are kept on the earlier one)
+export function dedupeStories(
+  stories: Story[],
+  embeddings: number[][],
+  recent: RecentStory[],
+  threshold: number = DUPLICATE_SIMILARITY
+): DedupResult {
+  const result: DedupResult = { stories: [], embeddings: [], rejected: [], merged: [] };
+
+  stories.forEach((story, i) => {
+    const embedding = embeddings[i];
+
+    const repeat = closest(embedding, recent.map((r) => r.embedding));
+    if (repeat && repeat.similarity >= threshold) {
+      result.rejected.push({ headline: story.headline, matched: recent[repeat.index].headline, similarity: round(repeat.similarity) });
+      return;
+    }
+
+    const twin = closest(embedding, result.embeddings);
+    if (twin && twin.similarity >= threshold) {
+      const target = result.stories[twin.index];
+      target.entities = [...new Set([...target.entities, ...story.entities])];
+      target.sources = [...target.sources, ...story.sources.filter((s) => !target.sources.some((t) => t.url === s.url))];
+      result.merged.push({ headline: story.headline, matched: target.headline, similarity: round(twin.similarity) });
+      return;
+    }
+
+    result.stories.push({ ...story });
+    result.embeddings.push(embedding);
+  });
+
+  return result;
+}
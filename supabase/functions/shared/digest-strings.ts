@@ -0,0 +1,77 @@
+// ==================== EMAIL DIGEST STRINGS ====================
+// What the email digest and its unsubscribe page say, per edition language. The
+// settings labels for the digest stay in the app's translations.ts.
+
+export interface DigestStrings {
+  subject: string;       // {{edition}}, {{region}}
+  intro: string;         // {{edition}}, {{region}}
+  topStories: string;
+  sources: string;
+  listen: string;
+  unsubscribe: string;
+  confirmUnsubscribe: string;  // The page the unsubscribe link opens
+  unsubscribeButton: string;
+  unsubscribed: string;
+}
+
+export const DIGEST_STRINGS: Record<string, DigestStrings> = {
+  English: {
+    subject: '{{edition}} briefing · {{region}}',
+    intro: 'Your {{edition}} edition for {{region}} is ready.',
+    topStories: 'Top stories',
+    sources: 'Sources',
+    listen: 'Listen to the episode',
+    unsubscribe: 'Unsubscribe from this digest',
+    confirmUnsubscribe: 'Stop emailing me this digest?',
+    unsubscribeButton: 'Unsubscribe',
+    unsubscribed: "You won't receive this email digest anymore.",
+  },
+  Spanish: {
+    subject: 'Resumen {{edition}} · {{region}}',
+    intro: 'Tu edición {{edition}} para {{region}} está lista.',
+    topStories: 'Noticias principales',
+    sources: 'Fuentes',
+    listen: 'Escuchar el episodio',
+    unsubscribe: 'Cancelar la suscripción a este resumen',
+    confirmUnsubscribe: '¿Dejar de recibir este resumen por correo?',
+    unsubscribeButton: 'Cancelar suscripción',
+    unsubscribed: 'Ya no recibirás este resumen por correo.',
+  },
+  Portuguese: {
+    subject: 'Resumo {{edition}} · {{region}}',
+    intro: 'Sua edição {{edition}} para {{region}} está pronta.',
+    topStories: 'Principais notícias',
+    sources: 'Fontes',
+    listen: 'Ouvir o episódio',
+    unsubscribe: 'Cancelar a inscrição neste resumo',
+    confirmUnsubscribe: 'Parar de receber este resumo por e-mail?',
+    unsubscribeButton: 'Cancelar inscrição',
+    unsubscribed: 'Você não receberá mais este resumo por e-mail.',
+  },
+  French: {
+    subject: 'Briefing {{edition}} · {{region}}',
+    intro: 'Votre édition {{edition}} pour {{region}} est prête.',
+    topStories: 'À la une',
+    sources: 'Sources',
+    listen: "Écouter l'épisode",
+    unsubscribe: 'Se désabonner de ce résumé',
+    confirmUnsubscribe: 'Ne plus recevoir ce résumé par e-mail ?',
+    unsubscribeButton: 'Se désabonner',
+    unsubscribed: 'Vous ne recevrez plus ce résumé par e-mail.',
+  },
+  German: {
+    subject: '{{edition}}-Briefing · {{region}}',
+    intro: 'Ihre {{edition}}-Ausgabe für {{region}} ist bereit.',
+    topStories: 'Top-Meldungen',
+    sources: 'Quellen',
+    listen: 'Folge anhören',
+    unsubscribe: 'Diese Zusammenfassung abbestellen',
+    confirmUnsubscribe: 'Diese Zusammenfassung nicht mehr per E-Mail erhalten?',
+    unsubscribeButton: 'Abbestellen',
+    unsubscribed: 'Sie erhalten diese E-Mail-Zusammenfassung nicht mehr.',
+  },
+};
+
+export function digestStrings(language: string): DigestStrings {
+  return DIGEST_STRINGS[language] ?? DIGEST_STRINGS.English;
+}
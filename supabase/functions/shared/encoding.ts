@@ -0,0 +1,131 @@
+// ==================== AUDIO ENCODING ====================
+// TTS comes back as uncompressed 16-bit PCM, which we wrap as WAV (~384 kbps at
+// 24 kHz). Episodes are re-encoded to constant-bitrate MP3 before storage so
+// listeners download roughly a tenth of that. An ID3 TLEN frame carries the exact
+// duration so players don't have to estimate it from the file size.
+
+import { Mp3Encoder } from 'https://esm.sh/@breezystack/lamejs@1.2.7';
+
+export const MP3_BITRATE_KBPS = 40;
+// 48kHz (Pro) needs more bits per second for the same frame quality, but speech stays
+// mono: 64 kbps keeps Pro files within ~1.6x of Free ones rather than tripling them
+export const MP3_HQ_BITRATE_KBPS = 64;
+const MP3_FRAME_SAMPLES = 1152;
+
+export interface PcmAudio {
+  sampleRate: number;
+  channels: number;
+  samples: Int16Array;  // Interleaved when channels > 1
+}
+
+export interface EncodedAudio {
+  bytes: Uint8Array;
+  mimeType: string;
+  extension: string;
+  durationSeconds: number;
+  sampleRate: number;
+  bitrateKbps: number;
+}
+
+// ==================== WAV PARSING ====================
+// Walks the RIFF chunks rather than assuming a 44-byte header
+export function readWav(wav: Uint8Array): PcmAudio {
+  const view = new DataView(wav.buffer, wav.byteOffset, wav.byteLength);
+  const tag = (offset: number) => String.fromCharCode(...wav.subarray(offset, offset + 4));
+
+  if (wav.length < 12 || tag(0) !== 'RIFF' || tag(8) !== 'WAVE') {
+    throw new Error('Not a WAV file');
+  }
+
+  let sampleRate = 0;
+  let channels = 0;
+  let offset = 12;
+
+  while (offset + 8 <= wav.length) {
+    const id = tag(offset);
+    const size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+
+    if (id === 'fmt ') {
+      const format = view.getUint16(body, true);
+      const bitsPerSample = view.getUint16(body + 14, true);
+      if (format !== 1 || bitsPerSample !== 16) {
+        throw new Error(`Unsupported WAV encoding (format ${format}, ${bitsPerSample}-bit)`);
+      }
+      channels = view.getUint16(body + 2, true);
+      sampleRate = view.getUint32(body + 4, true);
+    } else if (id === 'data') {
+      if (!sampleRate) throw new Error('WAV data chunk before fmt chunk');
+      const length = Math.min(size, wav.length - body) & ~1;
+      // Copy so the samples are 2-byte aligned regardless of where the chunk sits
+      const samples = new Int16Array(wav.slice(body, body + length).buffer);
+      return { sampleRate, channels, samples };
+    }
+
+    offset = body + size + (size % 2);  // Chunks are word-aligned
+  }
+
+  throw new Error('WAV file has no data chunk');
+}
+
+// ==================== MP3 ENCODING ====================
+export function mp3BitrateFor(sampleRate: number): number {
+  return sampleRate >= 44100 ? MP3_HQ_BITRATE_KBPS : MP3_BITRATE_KBPS;
+}
+
+export function encodeMp3(pcm: PcmAudio, bitrateKbps: number = mp3BitrateFor(pcm.sampleRate)): EncodedAudio {
+  if (pcm.channels !== 1) throw new Error(`Expected mono PCM, got ${pcm.channels} channels`);
+
+  const encoder = new Mp3Encoder(1, pcm.sampleRate, bitrateKbps);
+  const frames: Uint8Array[] = [];
+
+  for (let i = 0; i < pcm.samples.length; i += MP3_FRAME_SAMPLES) {
+    const frame = encoder.encodeBuffer(pcm.samples.subarray(i, i + MP3_FRAME_SAMPLES));
+    if (frame.length) frames.push(new Uint8Array(frame));
+  }
+  const tail = encoder.flush();
+  if (tail.length) frames.push(new Uint8Array(tail));
+
+  const durationSeconds = pcm.samples.length / pcm.sampleRate;
+  const id3 = createId3Duration(durationSeconds);
+  const bytes = new Uint8Array(id3.length + frames.reduce((sum, f) => sum + f.length, 0));
+  bytes.set(id3, 0);
+  let offset = id3.length;
+  for (const frame of frames) {
+    bytes.set(frame, offset);
+    offset += frame.length;
+  }
+
+  return {
+    bytes,
+    mimeType: 'audio/mpeg',
+    extension: 'mp3',
+    durationSeconds: Math.round(durationSeconds * 100) / 100,
+    sampleRate: pcm.sampleRate,
+    bitrateKbps,
+  };
+}
+
+// Minimal ID3v2.3 tag holding a single TLEN (length in milliseconds) frame
+function createId3Duration(durationSeconds: number): Uint8Array {
+  const text = new TextEncoder().encode(String(Math.round(durationSeconds * 1000)));
+  const frameSize = 1 + text.length;  // Encoding byte + text
+  const tagSize = 10 + frameSize;
+
+  const tag = new Uint8Array(10 + tagSize);
+  const view = new DataView(tag.buffer);
+
+  tag.set([0x49, 0x44, 0x33, 0x03, 0x00, 0x00], 0);  // "ID3", v2.3, no flags
+  // Tag size is syncsafe: 7 bits per byte
+  tag[6] = (tagSize >> 21) & 0x7f;
+  tag[7] = (tagSize >> 14) & 0x7f;
+  tag[8] = (tagSize >> 7) & 0x7f;
+  tag[9] = tagSize & 0x7f;
+
+  tag.set([0x54, 0x4c, 0x45, 0x4e], 10);  // "TLEN"
+  view.setUint32(14, frameSize, false);
+  // Frame flags (2 bytes) and ISO-8859-1 encoding byte stay zero
+  tag.set(text, 21);
+
+  return tag;
+}
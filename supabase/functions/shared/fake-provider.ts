@@ -0,0 +1,58 @@
+// ==================== FAKE PROVIDER ====================
+// Deterministic, offline stand-in for GeminiProvider. Enabled with
+// MODEL_PROVIDER=fake so editions can be generated locally and in tests
+// without an API key or network access.
+
+import { bytesToBase64, PCM_SAMPLE_RATE } from './audio.ts';
+import { FIXTURE_GROUNDING, FIXTURE_PNG_BASE64, FIXTURE_SUPPORTS, TEXT_FIXTURES } from './fixtures.ts';
+import type { ModelProvider, SpeechRequest, TextRequest, TextResult } from './provider.ts';
+
+const SECONDS_PER_LINE = 0.5;
+const EMBEDDING_DIMENSIONS = 64;
+
+export class FakeProvider implements ModelProvider {
+  readonly name = 'fake';
+
+  async generateText(request: TextRequest): Promise<TextResult> {
+    const fixtures = TEXT_FIXTURES[request.language || 'English'] || TEXT_FIXTURES.English;
+    return {
+      text: fixtures[request.task],
+      grounding: request.search ? [...FIXTURE_GROUNDING] : [],
+      supports: request.search ? [...FIXTURE_SUPPORTS] : [],
+    };
+  }
+
+  // Half a second of a quiet tone per script line, so audio length tracks the script
+  async synthesizeSpeech(request: SpeechRequest): Promise<string | null> {
+    const lines = request.script.split('\n').filter((line) => line.trim()).length;
+    if (lines === 0) return null;
+
+    const samples = Math.round(lines * SECONDS_PER_LINE * PCM_SAMPLE_RATE);
+    const pcm = new Uint8Array(samples * 2);
+    const view = new DataView(pcm.buffer);
+    for (let i = 0; i < samples; i++) {
+      const value = Math.round(Math.sin((2 * Math.PI * 440 * i) / PCM_SAMPLE_RATE) * 1000);
+      view.setInt16(i * 2, value, true);
+    }
+    return bytesToBase64(pcm);
+  }
+
+  async generateImage(_prompt: string): Promise<string | null> {
+    return FIXTURE_PNG_BASE64;
+  }
+
+  // Hashed bag of words: texts sharing most of their words land close together,
+  // which is enough for the dedup tests to tell repeats from new stories
+  async embedTexts(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => {
+      const vector = new Array(EMBEDDING_DIMENSIONS).fill(0);
+      for (const word of text.toLowerCase().match(/\p{L}{3,}/gu) ?? []) {
+        let hash = 0;
+        for (const char of word) hash = (hash * 31 + char.codePointAt(0)!) >>> 0;
+        vector[hash % EMBEDDING_DIMENSIONS] += 1;
+      }
+      const norm = Math.hypot(...vector) || 1;
+      return vector.map((value) => value / norm);
+    });
+  }
+}
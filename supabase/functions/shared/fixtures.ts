@@ -0,0 +1,141 @@
+// ==================== FAKE PROVIDER FIXTURES ====================
+// Canned model output used by FakeProvider. Briefings are JSON story lists (see
+// stories.ts) long enough to pass the generate-edition quality gate (500+ chars
+// once rendered) and scripts follow the "Host: line" format that TTS and
+// remapScriptSpeakers rely on, with a "[STORY: ...]" marker opening each
+// story's chapter.
+
+import type { GroundingLink, GroundingSupport, ModelTask } from './provider.ts';
+
+export const FIXTURE_GROUNDING: GroundingLink[] = [
+  { uri: 'https://www.reuters.com/world/fixture-story-one', title: 'Reuters — Fixture Story One' },
+  { uri: 'https://apnews.com/article/fixture-story-two', title: 'AP News — Fixture Story Two' },
+];
+
+// Segments of the English news fixture and the FIXTURE_GROUNDING links behind them
+export const FIXTURE_SUPPORTS: GroundingSupport[] = [
+  { text: 'Policymakers across several major economies kept benchmark interest rates unchanged this week, citing inflation data that has moved closer to official targets.', chunks: [0] },
+  { text: 'Data shows consumer spending has slowed but not collapsed', chunks: [0, 1] },
+  { text: 'Officials confirmed that the projects will be phased over the next decade, with the first contracts awarded this quarter.', chunks: [1] },
+];
+
+export const TEXT_FIXTURES: Record<string, Record<ModelTask, string>> = {
+  English: {
+    news: `[
+  {
+    "headline": "Central Banks Hold Rates Steady Amid Cooling Inflation",
+    "summary": "Several major central banks kept benchmark rates unchanged as inflation moved closer to target.",
+    "body": "Policymakers across several major economies kept benchmark interest rates unchanged this week, citing inflation data that has moved closer to official targets. Officials said the decision reflects a cautious approach while labor markets remain tight and energy prices stay volatile.\\n\\nSupporters of the pause argue it gives households relief after two years of rising borrowing costs, while critics say holding too long risks a renewed price spike. Data shows consumer spending has slowed but not collapsed, and the outlook remains disputed among economists.",
+    "entities": ["Central banks", "Policymakers"],
+    "sources": [{"title": "Reuters — Fixture Story One", "url": "https://www.reuters.com/world/fixture-story-one"}],
+    "sentiment": "neutral"
+  },
+  {
+    "headline": "Coastal Cities Expand Flood Defenses After Record Storm Season",
+    "summary": "Cities are funding a decade of sea walls, drainage and wetland restoration after record storms.",
+    "body": "Municipal governments announced new funding for sea walls, drainage upgrades and wetland restoration following a storm season that broke regional records. Officials confirmed that the projects will be phased over the next decade, with the first contracts awarded this quarter.\\n\\nResidents have welcomed the investment, though some community groups say low-income neighborhoods were left out of the first phase. No official response has yet been given to those concerns.",
+    "entities": ["Municipal governments", "Community groups"],
+    "sources": [{"title": "AP News — Fixture Story Two", "url": "https://apnews.com/article/fixture-story-two"}],
+    "sentiment": "mixed"
+  }
+]`,
+    script: `Alex: Welcome back to VoxTrends, I'm Alex — and today we've got a big one.
+[STORY: Central Banks Hold Rates]
+Jordan: Central banks are holding rates steady as inflation cools, and the data shows spending has slowed without collapsing.
+Alex: So is this relief for households, or a risk of prices climbing again?
+Jordan: Supporters call it breathing room, while critics warn that waiting too long could reignite inflation.
+[STORY: Coastal Flood Defenses]
+Alex: Let's head to the coast, where cities are building up their flood defenses.
+Jordan: Officials confirmed a decade-long plan of sea walls and wetland restoration, though some groups say poorer neighborhoods were left out.
+Alex: That's your VoxTrends briefing for today. Stay curious, stay sharp — I'm Alex, see you next time.`,
+    summary: `- Central banks pause rate changes as inflation nears target
+- Coastal cities fund a decade of flood defenses after record storms
+- Community groups question who benefits first from the new projects`,
+    research: `**Overview**
+
+Fixture research findings covering the requested topic, including background, key stakeholders and the main points of disagreement between them.
+
+**Key Points**
+
+- Officials confirmed the core facts of the story
+- Critics argue important context is still missing
+- Data on long-term impact remains limited`,
+    answer: `**What the sources say:**
+Fixture answer summarizing what the news context reports.
+
+**What's missing or left unsaid:**
+Fixture answer describing the gaps in current reporting.
+
+**Why it matters:**
+Fixture answer connecting the story to broader patterns.
+
+**You might also explore:**
+- What happens next?
+- Who is not being heard?`,
+    trends: `[
+  {"topic": "Central banks hold rates steady", "entities": ["Central banks"], "sources": 9},
+  {"topic": "Coastal cities expand flood defenses", "entities": ["Municipal governments"], "sources": 4}
+]`,
+  },
+  Spanish: {
+    news: `[
+  {
+    "headline": "Los bancos centrales mantienen las tasas ante una inflación más moderada",
+    "summary": "Varios bancos centrales mantuvieron sus tasas de referencia mientras la inflación se acerca al objetivo.",
+    "body": "Los responsables de la política monetaria en varias de las principales economías mantuvieron sin cambios las tasas de interés de referencia esta semana, citando datos de inflación que se han acercado a los objetivos oficiales. Los funcionarios dijeron que la decisión refleja un enfoque prudente mientras el mercado laboral sigue ajustado y los precios de la energía son volátiles.\\n\\nLos partidarios de la pausa argumentan que da alivio a los hogares después de dos años de costos crecientes, mientras que los críticos dicen que esperar demasiado puede provocar un nuevo aumento de precios. Los datos muestran que el consumo se ha desacelerado pero no se ha derrumbado.",
+    "entities": ["Bancos centrales"],
+    "sources": [{"title": "Reuters — Fixture Story One", "url": "https://www.reuters.com/world/fixture-story-one"}],
+    "sentiment": "neutral"
+  },
+  {
+    "headline": "Las ciudades costeras amplían sus defensas contra inundaciones",
+    "summary": "Las ciudades financian una década de muros de contención, drenaje y humedales tras tormentas récord.",
+    "body": "Los gobiernos municipales anunciaron nuevos fondos para muros de contención, mejoras en el drenaje y la restauración de humedales tras una temporada de tormentas récord. Los funcionarios confirmaron que los proyectos se realizarán por fases durante la próxima década.\\n\\nLos residentes han recibido con agrado la inversión, aunque algunos grupos comunitarios dicen que los barrios de bajos ingresos quedaron fuera de la primera fase.",
+    "entities": ["Gobiernos municipales", "Grupos comunitarios"],
+    "sources": [{"title": "AP News — Fixture Story Two", "url": "https://apnews.com/article/fixture-story-two"}],
+    "sentiment": "mixed"
+  }
+]`,
+    script: `Alex: Bienvenidos de nuevo a VoxTrends, soy Alex — y hoy tenemos algo grande.
+[STORY: Bancos centrales mantienen tasas]
+Jordan: Los bancos centrales mantienen las tasas mientras la inflación se modera, y los datos muestran que el consumo se ha desacelerado sin derrumbarse.
+Alex: ¿Es un alivio para los hogares o un riesgo de que los precios vuelvan a subir?
+Jordan: Los partidarios hablan de un respiro, mientras que los críticos advierten que esperar demasiado puede reavivar la inflación.
+[STORY: Defensas contra inundaciones]
+Alex: Vamos a la costa, donde las ciudades refuerzan sus defensas contra inundaciones.
+Jordan: Los funcionarios confirmaron un plan de diez años, aunque algunos grupos dicen que los barrios más pobres quedaron fuera.
+Alex: Ese es tu resumen de VoxTrends para hoy. Mantente curioso, mantente agudo — soy Alex, nos vemos la próxima vez.`,
+    summary: `- Los bancos centrales pausan los cambios de tasas con la inflación cerca del objetivo
+- Las ciudades costeras financian una década de defensas contra inundaciones
+- Grupos comunitarios cuestionan quién se beneficia primero de los proyectos`,
+    research: `**Resumen**
+
+Hallazgos de investigación de prueba sobre el tema solicitado, con antecedentes, actores principales y los puntos de desacuerdo entre ellos.
+
+**Puntos clave**
+
+- Los funcionarios confirmaron los hechos centrales de la historia
+- Los críticos argumentan que falta contexto importante
+- Los datos sobre el impacto a largo plazo son limitados`,
+    answer: `**Lo que dicen las fuentes:**
+Respuesta de prueba que resume lo que informa el contexto.
+
+**Lo que falta o no se dice:**
+Respuesta de prueba que describe los vacíos en la cobertura actual.
+
+**Por qué importa:**
+Respuesta de prueba que conecta la historia con patrones más amplios.
+
+**También podrías explorar:**
+- ¿Qué pasará después?
+- ¿Quién no está siendo escuchado?`,
+    trends: `[
+  {"topic": "Los bancos centrales mantienen las tasas", "entities": ["Bancos centrales"], "sources": 9},
+  {"topic": "Ciudades costeras amplían defensas contra inundaciones", "entities": ["Gobiernos municipales"], "sources": 4}
+]`,
+  },
+};
+
+// 1x1 PNG, enough for anything that only needs valid image bytes
+export const FIXTURE_PNG_BASE64 =
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==';
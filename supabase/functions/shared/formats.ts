@@ -0,0 +1,79 @@
+// ==================== EPISODE FORMATS ====================
+// Presets for how long an episode runs and how it is built. The word budget assumes
+// a natural conversational pace of ~150 words/minute; the story count and host setup
+// shape the script structure (see generatePodcastScript).
+
+export type EpisodeFormatId = 'flash' | 'classic' | 'standard' | 'deep-dive' | 'monologue' | 'interview';
+
+export interface EpisodeFormat {
+  id: EpisodeFormatId;
+  label: string;
+  duration: string;               // m:ss, as spoken in the prompt
+  words: { min: number; max: number };
+  stories: number;
+  style: 'conversation' | 'monologue' | 'interview';
+}
+
+export const EPISODE_FORMATS: Record<EpisodeFormatId, EpisodeFormat> = {
+  flash: {
+    id: 'flash',
+    label: '60-Second Flash',
+    duration: '1:00',
+    words: { min: 130, max: 160 },
+    stories: 2,
+    style: 'conversation',
+  },
+  // The briefing every edition was scripted to before formats existed
+  classic: {
+    id: 'classic',
+    label: '90-Second Classic',
+    duration: '1:30',
+    words: { min: 350, max: 385 },
+    stories: 3,
+    style: 'conversation',
+  },
+  standard: {
+    id: 'standard',
+    label: '5-Minute Standard',
+    duration: '5:00',
+    words: { min: 700, max: 780 },
+    stories: 3,
+    style: 'conversation',
+  },
+  'deep-dive': {
+    id: 'deep-dive',
+    label: '15-Minute Deep Dive',
+    duration: '15:00',
+    words: { min: 2100, max: 2300 },
+    stories: 4,
+    style: 'conversation',
+  },
+  monologue: {
+    id: 'monologue',
+    label: 'Single-Host Monologue',
+    duration: '5:00',
+    words: { min: 700, max: 780 },
+    stories: 3,
+    style: 'monologue',
+  },
+  interview: {
+    id: 'interview',
+    label: 'Interview',
+    duration: '5:00',
+    words: { min: 700, max: 780 },
+    stories: 2,
+    style: 'interview',
+  },
+};
+
+// What callers that don't pick a format get (scheduled-generation, older clients). Moving
+// them to a longer preset multiplies script and TTS cost, so that has to be a decision.
+export const DEFAULT_EPISODE_FORMAT: EpisodeFormatId = 'classic';
+
+export function isEpisodeFormat(id: unknown): id is EpisodeFormatId {
+  return typeof id === 'string' && Object.hasOwn(EPISODE_FORMATS, id);
+}
+
+export function getEpisodeFormat(id: string = DEFAULT_EPISODE_FORMAT): EpisodeFormat {
+  return isEpisodeFormat(id) ? EPISODE_FORMATS[id] : EPISODE_FORMATS[DEFAULT_EPISODE_FORMAT];
+}
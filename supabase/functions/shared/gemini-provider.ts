@@ -0,0 +1,113 @@
+import { GoogleGenAI } from 'https://esm.sh/@google/genai@1.38.0';
+import { bytesToBase64 } from './audio.ts';
+import type { GroundingLink, GroundingSupport, ModelProvider, ModelTask, SpeechRequest, TextRequest, TextResult } from './provider.ts';
+
+const TEXT_MODELS: Record<ModelTask, string> = {
+  news: 'gemini-2.0-flash',
+  script: 'gemini-2.0-flash',
+  summary: 'gemini-2.0-flash',
+  research: 'gemini-3-pro-preview',
+  answer: 'gemini-2.5-flash',
+  trends: 'gemini-2.0-flash',
+};
+
+const TTS_MODEL = 'gemini-2.5-flash-preview-tts';
+const IMAGE_MODEL = 'imagen-4.0-generate-001';
+const EMBEDDING_MODEL = 'text-embedding-004';
+
+export class GeminiProvider implements ModelProvider {
+  readonly name = 'gemini';
+  private ai: GoogleGenAI;
+
+  constructor(apiKey: string) {
+    this.ai = new GoogleGenAI({ apiKey });
+  }
+
+  async generateText(request: TextRequest): Promise<TextResult> {
+    const config: Record<string, unknown> = {};
+    if (request.search) config.tools = [{ googleSearch: {} }];
+    if (request.temperature !== undefined) config.temperature = request.temperature;
+
+    const response = await this.ai.models.generateContent({
+      model: TEXT_MODELS[request.task],
+      contents: [{ role: 'user', parts: [{ text: request.prompt }] }],
+      config,
+    });
+
+    // SDK native response.text is robust when tools are used
+    const metadata = response.candidates?.[0]?.groundingMetadata;
+    const chunks: GroundingLink[] = (metadata?.groundingChunks ?? []).map((chunk: any) => ({
+      uri: chunk.web?.uri,
+      title: chunk.web?.title,
+    }));
+    const grounding = chunks.filter((c) => c.uri);
+
+    // Supports point into groundingChunks; chunks without a web URI are dropped above,
+    // so their indexes are remapped onto the filtered links
+    const linkIndex = (chunk: number) => grounding.indexOf(chunks[chunk]);
+    const supports: GroundingSupport[] = (metadata?.groundingSupports ?? []).map((support: any) => ({
+      text: support.segment?.text ?? '',
+      chunks: (support.groundingChunkIndices ?? []).map(linkIndex).filter((index: number) => index >= 0),
+    })).filter((support: GroundingSupport) => support.text && support.chunks.length);
+
+    return { text: response.text || '', grounding, supports };
+  }
+
+  async synthesizeSpeech(request: SpeechRequest): Promise<string | null> {
+    const response = await this.ai.models.generateContent({
+      model: TTS_MODEL,
+      contents: [{ parts: [{ text: request.script }] }],
+      config: {
+        responseModalities: ['AUDIO'],
+        speechConfig: {
+          languageCode: request.languageCode,
+          multiSpeakerVoiceConfig: {
+            speakerVoiceConfigs: request.speakers.map(({ speaker, voice }) => ({
+              speaker,
+              voiceConfig: { prebuiltVoiceConfig: { voiceName: voice } },
+            })),
+          },
+        },
+      },
+    });
+
+    return response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data || null;
+  }
+
+  async generateImage(prompt: string): Promise<string | null> {
+    const response = await this.ai.models.generateImages({
+      model: IMAGE_MODEL,
+      prompt,
+      config: {
+        numberOfImages: 1,
+      },
+    });
+
+    console.log('Imagen Response received:', JSON.stringify(response).substring(0, 200));
+
+    const imageBytes = response.generatedImages?.[0]?.image?.imageBytes;
+    if (!imageBytes) return null;
+
+    // In Deno/Supabase, imageBytes can be a string (base64) or binary data (Uint8Array)
+    if (typeof imageBytes === 'string') {
+      return imageBytes.replace(/[\n\r\t\s]/g, '');
+    }
+    console.log('imageBytes returned as binary, converting to base64...');
+    return bytesToBase64(new Uint8Array(imageBytes as any));
+  }
+
+  async embedTexts(texts: string[]): Promise<number[][]> {
+    if (!texts.length) return [];
+    const response = await this.ai.models.embedContent({
+      model: EMBEDDING_MODEL,
+      contents: texts,
+      config: { taskType: 'SEMANTIC_SIMILARITY' },
+    });
+
+    const embeddings = (response.embeddings ?? []).map((embedding: any) => embedding.values ?? []);
+    if (embeddings.length !== texts.length) {
+      throw new Error(`Expected ${texts.length} embeddings, got ${embeddings.length}`);
+    }
+    return embeddings;
+  }
+}
@@ -1,116 +1,177 @@
+import { base64ToBytes, bytesToBase64, PCM_SAMPLE_RATE, pcmToWav, resamplePcm16, sampleRateFor, type AudioQuality } from './audio.ts';
+import { parseTrendScan, type TrendTopic } from './breaking.ts';
+import type { TopicChannel } from './channels.ts';
+import type { Chapter } from './chapters.ts';
+import { storyEmbeddingText } from './dedup.ts';
+import { FakeProvider } from './fake-provider.ts';
+import { getEpisodeFormat, type EpisodeFormat } from './formats.ts';
+import { GeminiProvider } from './gemini-provider.ts';
+import { getLanguageCode } from './language.ts';
+import { buildNewsPrompt, buildScriptPrompt } from './prompts.ts';
+import type { ModelProvider } from './provider.ts';
+import { synthesizeChunkedSpeech, type ChunkedSpeechOptions } from './speech.ts';
+import { parseStories, storiesFromMarkdown, storiesToMarkdown, type Story } from './stories.ts';
+import type { PriorCoverage } from './threads.ts';
+import type { TranscriptTurn } from './transcript.ts';
 
-import { GoogleGenAI } from 'https://esm.sh/@google/genai';
+// ==================== MODEL PROVIDER SELECTION ====================
+// MODEL_PROVIDER=fake swaps every model call for deterministic fixtures
+// (see fake-provider.ts); anything else uses Gemini with GEMINI_API_KEY.
+export function createModelProvider(name: string = Deno.env.get('MODEL_PROVIDER') ?? 'gemini'): ModelProvider {
+  if (name === 'fake') {
+    console.log('🧪 Using fake model provider');
+    return new FakeProvider();
+  }
+  return new GeminiProvider(Deno.env.get('GEMINI_API_KEY') ?? '');
+}
 
+// ==================== GEMINI SERVICE ====================
 export class GeminiService {
-  private client: GoogleGenAI;
+  constructor(
+    private provider: ModelProvider = createModelProvider(),
+    private speechOptions: ChunkedSpeechOptions = {}
+  ) {}
 
-  constructor(apiKey: string) {
-    this.client = new GoogleGenAI({ apiKey });
-  }
-
-  async fetchTrendingNews(region: string, language: string) {
+  // strictLanguage prepends a language correction after an attempt came back in the wrong language;
+  // breakingTopic narrows a Breaking bulletin to the story that spiked
+  async fetchTrendingNews(region: string, language: string, editionType: string = 'Daily', previousTopics: string = '', channel?: TopicChannel, strictLanguage: boolean = false, breakingTopic?: string) {
     try {
-      const response = await this.client.models.generateContent({
-        model: 'gemini-3-flash-preview',
-        contents: `Research the top 5 trending news topics on X (Twitter) for: ${region}. 
-        Focus on real-time social velocity. Language: ${language}.
-        Provide verified facts and specific details for a podcast summary.`,
-        config: {
-          tools: [{ googleSearch: {} }],
-        },
+      console.log(`Generating detailed ${channel ? `"${channel.name}" channel` : breakingTopic ? `breaking "${breakingTopic}"` : editionType} news briefing for ${region} in ${language}...`);
+      console.log('🔍 DEBUG - News fetch language parameter:', language);
+      console.log(previousTopics ? `Dedup active — excluding ${previousTopics.split(',').length} previous topics` : 'No previous topics to deduplicate');
+
+      const { prompt, version } = buildNewsPrompt({ region, language, editionType, previousTopics, channel, breakingTopic, strictLanguage });
+      console.log(`📝 News prompt template: ${version}`);
+
+      const { text, grounding, supports } = await this.provider.generateText({
+        task: 'news',
+        prompt,
+        language,
+        search: true,
       });
+      console.log(`Fetched news briefing, length: ${text.length} characters`);
+      console.log('🔍 DEBUG - First 200 chars of fetched news:', text.substring(0, 200));
+
+      if (!text) {
+        console.warn('Gemini returned empty text for news briefing.');
+        return { text: `Trending News Briefing for ${region}: [Content generation failed or returned empty]`, grounding: [], supports: [], stories: [] };
+      }
 
-      const text = response.text || 'No trending intelligence found.';
-      const grounding = response.candidates?.[0]?.groundingMetadata?.groundingChunks?.map((chunk: any) => ({
-        uri: chunk.web?.uri,
-        title: chunk.web?.title,
-      })).filter((c: any) => c.uri) || [];
+      // Search grounding rules out JSON mode, so the story list is validated here and
+      // an answer that ignored the format is read as a markdown briefing instead
+      const { stories: parsed, errors } = parseStories(text);
+      if (errors.length) console.warn(`⚠️ News story validation: ${errors.join('; ')}`);
+      const stories = parsed.length ? parsed : storiesFromMarkdown(text);
+      console.log(`✅ Parsed ${stories.length} stories${parsed.length ? '' : ' from markdown fallback'}`);
 
-      return { text, grounding };
-    } catch (error) {
+      return { text: stories.length ? storiesToMarkdown(stories) : text, grounding, supports, stories };
+    } catch (error: any) {
       console.error('Gemini Search Error:', error);
-      throw new Error('Intelligence feed unreachable. Retrying...');
+      return { text: `Trending News Briefing for ${region}: [Detailed content unavailable due to technical error]`, grounding: [], supports: [], stories: [] };
     }
   }
 
-  async generatePodcastScript(trends: string, language: string, duration: string = '1 minute') {
+  async generatePodcastScript(trends: string, language: string, format: EpisodeFormat = getEpisodeFormat(), hostLead: string = 'Joe', hostExpert: string = 'Jane', priorCoverage: PriorCoverage[] = [], strictLanguage: boolean = false, region: string = 'Global') {
     try {
-      const response = await this.client.models.generateContent({
-        model: 'gemini-3-pro-preview',
-        contents: `Showrunner: 'VoxTrends'. Create a ${duration} podcast briefing for these trends: ${trends}.
-        Language: ${language}.
-        
-        Hosts:
-        - Joe: High-energy, charismatic main host.
-        - Jane: Intelligent, analytical research expert.
-        
-        Format:
-        Joe: [Welcome and hook]
-        Jane: [Detailed analysis of trends]
-        Joe: [Closing and sign-off]
-        
-        Output only the script text.`,
-        config: { temperature: 0.8 },
+      console.log('🔍 DEBUG - Script generation language parameter:', language);
+      console.log(`🎙️ Script format: ${format.label} (${format.words.min}-${format.words.max} words)`);
+      console.log('🔍 DEBUG - First 200 chars of news input to script:', trends.substring(0, 200));
+
+      if (priorCoverage.length) console.log(`🧵 ${priorCoverage.length} stories follow up earlier coverage`);
+
+      const { prompt, version } = buildScriptPrompt({ trends, language, format, hostLead, hostExpert, priorCoverage, region, strictLanguage });
+      console.log(`📝 Script prompt template: ${version}`);
+
+      const { text: script } = await this.provider.generateText({
+        task: 'script',
+        prompt,
+        language,
+        temperature: 0.8,
       });
-      return response.text;
+      console.log('🔍 DEBUG - Generated script length:', script.length);
+      console.log('🔍 DEBUG - First 200 chars of generated script:', script.substring(0, 200));
+
+      return script;
     } catch (error) {
       console.error('Script Gen Error:', error);
       throw error;
     }
   }
 
-  async generateAudio(script: string) {
+  async generateAudio(script: string, voiceLead: string = 'Puck', voiceExpert: string = 'Kore', hostLead: string = 'Joe', hostExpert: string = 'Jane', language: string = 'English', quality: AudioQuality = '24khz'): Promise<{ data: string | null; chapters?: Chapter[]; transcript?: TranscriptTurn[]; error?: string }> {
     try {
-      const response = await this.client.models.generateContent({
-        model: 'gemini-2.5-flash-preview-tts',
-        contents: [{ parts: [{ text: script }] }],
-        config: {
-          responseModalities: ['AUDIO'],
-          speechConfig: {
-            multiSpeakerVoiceConfig: {
-              speakerVoiceConfigs: [
-                { speaker: 'Joe', voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Puck' } } },
-                { speaker: 'Jane', voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Kore' } } },
-              ],
-            },
-          },
-        },
-      });
-      return response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data || null;
-    } catch (error) {
-      console.error('TTS Synthesis Error:', error);
+      const languageCode = getLanguageCode(language);
+
+      console.log(`Starting TTS generation with voices ${voiceLead} and ${voiceExpert} in ${language} (${languageCode}) via ${this.provider.name}...`);
+      // Split on speaker turns and synthesize chunk by chunk so one bad call doesn't lose the episode
+      const { pcm: audioData, chapters, transcript } = await synthesizeChunkedSpeech(this.provider, {
+        script,
+        languageCode,
+        speakers: [
+          { speaker: hostLead, voice: voiceLead },
+          { speaker: hostExpert, voice: voiceExpert },
+        ],
+      }, this.speechOptions);
+
+      // TTS renders at 24kHz; higher plan qualities are resampled before anything downstream sees them
+      const sampleRate = sampleRateFor(quality);
+      const pcm = sampleRate === PCM_SAMPLE_RATE
+        ? audioData
+        : bytesToBase64(resamplePcm16(base64ToBytes(audioData), PCM_SAMPLE_RATE, sampleRate));
+
+      console.log(`TTS returned audio data, converting PCM to ${sampleRate}Hz WAV...`);
+      // Convert PCM to WAV for browser playback
+      const wavBase64 = pcmToWav(pcm, sampleRate);
+      console.log(`WAV conversion complete${chapters.length ? ` (${chapters.length} chapters)` : ''}`);
+
+      return { data: wavBase64, chapters, transcript };
+    } catch (error: any) {
+      console.error('Gemini TTS Synthesis Error:', error);
+      return { data: null, error: `Synthesis Error: ${error.message}` };
+    }
+  }
+
+  // One vector per story for semantic dedup; null when embedding fails so the
+  // edition still goes out, just without the similarity check
+  async embedStories(stories: Story[]): Promise<number[][] | null> {
+    if (!stories.length) return [];
+    try {
+      return await this.provider.embedTexts(stories.map(storyEmbeddingText));
+    } catch (error: any) {
+      console.warn('⚠️ Story embedding failed:', error.message ?? error);
       return null;
     }
   }
 
-  async generateCoverArt(topic: string) {
+  async generateCoverArt(topic: string): Promise<string | null> {
     try {
-      const response = await this.client.models.generateContent({
-        model: 'gemini-2.5-flash-image',
-        contents: {
-          parts: [{ text: `Futuristic podcast cover art for: ${topic}. Dark violet and cinematic lighting.` }],
-        },
-        config: {
-          imageConfig: { aspectRatio: '16:9' },
-        },
-      });
+      console.log('Generating cover art with Imagen 4.0 for topic:', topic);
+      const cleanBase64 = await this.provider.generateImage(
+        `Professional podcast cover art for news topic: "${topic}". Modern, sleek, dark theme with purple accents. High quality, abstract visualization.`
+      );
 
-      for (const part of response.candidates[0].content.parts) {
-        if (part.inlineData) return `data:image/png;base64,${part.inlineData.data}`;
+      if (!cleanBase64) {
+        console.error('Imagen returned no image bytes in response');
+        return null;
       }
-    } catch (error) {
-      console.error('Image Gen Error:', error);
+
+      const dataUri = `data:image/png;base64,${cleanBase64}`;
+      console.log('Cover art generated successfully, URI length:', dataUri.length);
+      return dataUri;
+    } catch (error: any) {
+      console.error('Imagen Error:', error);
+      return null;
     }
-    return null;
   }
 
   async generateFlashSummary(text: string, language: string) {
     try {
-      const response = await this.client.models.generateContent({
-        model: 'gemini-3-flash-preview',
-        contents: `3 punchy bullet points summary of: ${text}. Language: ${language}.`,
+      const response = await this.provider.generateText({
+        task: 'summary',
+        prompt: `3 punchy bullet points summary of: ${text}. Language: ${language}. Do not use emojis.`,
+        language,
       });
-      return response.text;
+      return response.text || '';
     } catch (error) {
       console.error('Summary Gen Error:', error);
       return '';
@@ -119,21 +180,46 @@ export class GeminiService {
 
   async conductResearch(topic: string, region: string, language: string) {
     try {
-      const response = await this.client.models.generateContent({
-        model: 'gemini-3-pro-preview',
-        contents: `Perform high-intensity research on: "${topic}" in ${region}. Language: ${language}. Provide a deep analysis.`,
-        config: { tools: [{ googleSearch: {} }] },
+      const { text, grounding, supports } = await this.provider.generateText({
+        task: 'research',
+        prompt: `Perform high-intensity research on: "${topic}" in ${region}. Language: ${language}. Provide a deep analysis.`,
+        language,
+        search: true,
       });
 
-      const grounding = response.candidates?.[0]?.groundingMetadata?.groundingChunks?.map((chunk: any) => ({
-        uri: chunk.web?.uri,
-        title: chunk.web?.title,
-      })).filter((c: any) => c.uri) || [];
-
-      return { text: response.text || 'No research findings available.', grounding };
+      return { text: text || 'No research findings available.', grounding, supports };
     } catch (error) {
       console.error('Research Error:', error);
       throw error;
     }
   }
+
+  // The region's trending topics right now with how many outlets report each, for
+  // breaking-monitor to compare with its previous scan
+  async scanTrends(region: string, language: string = 'English'): Promise<TrendTopic[]> {
+    try {
+      const { text } = await this.provider.generateText({
+        task: 'trends',
+        prompt: `List the 10 news topics trending hardest in ${region} in the last 2 hours. For each, count the distinct news outlets that published on it in that time. Answer ONLY with a JSON array: [{"topic": "short factual headline in ${language}", "entities": ["main people, organisations, places"], "sources": 7}]. No text before or after.`,
+        language,
+        search: true,
+        temperature: 0.2,
+      });
+      return parseTrendScan(text);
+    } catch (error: any) {
+      console.error('Trend Scan Error:', error);
+      return [];
+    }
+  }
+
+  // Prompts for Q&A are built by the calling function (edition context + history)
+  async answerQuestion(prompt: string, language: string = 'English', search: boolean = false): Promise<string> {
+    const { text } = await this.provider.generateText({
+      task: 'answer',
+      prompt,
+      language,
+      search,
+    });
+    return text || 'Unable to generate an answer.';
+  }
 }
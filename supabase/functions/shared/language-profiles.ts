@@ -0,0 +1,13 @@
+// ==================== LANGUAGE PROFILE SAMPLES ====================
+// Reference text the n-gram language identifier (language.ts) builds its
+// character trigram profiles from. Written in the register the pipeline produces
+// (news briefings and conversational scripts) and kept roughly the same length
+// per language so no profile dominates. Add a sample here when adding a language.
+
+export const LANGUAGE_SAMPLES: Record<string, string> = {
+  English: `Officials confirmed on Tuesday that the government will review the new budget after weeks of protests in the capital. Supporters of the plan argue that it protects families from rising prices, while critics say the cuts to public services go too far. The data shows that inflation has slowed this year, but many households are still struggling to pay their rent and their energy bills. Economists warn that the outlook remains uncertain and that the central bank could raise interest rates again before the end of the summer. Meanwhile, thousands of people gathered outside parliament, where they called for more investment in schools and hospitals. Police said the march was largely peaceful. What is still missing is a clear answer about who will pay for the changes and when they will take effect. So what does this mean for people at home? It means they should watch the vote next week, because the outcome will shape what they pay for food, housing and transport. Welcome back to the show, and thank you for listening with us today.`,
+  Spanish: `Los funcionarios confirmaron el martes que el gobierno revisará el nuevo presupuesto después de semanas de protestas en la capital. Los partidarios del plan argumentan que protege a las familias del aumento de los precios, mientras que los críticos dicen que los recortes a los servicios públicos van demasiado lejos. Los datos muestran que la inflación se ha moderado este año, pero muchos hogares todavía tienen dificultades para pagar el alquiler y las facturas de energía. Los economistas advierten que el panorama sigue siendo incierto y que el banco central podría volver a subir las tasas de interés antes del final del verano. Mientras tanto, miles de personas se reunieron frente al congreso, donde pidieron más inversión en escuelas y hospitales. La policía dijo que la marcha fue mayormente pacífica. Lo que todavía falta es una respuesta clara sobre quién pagará los cambios y cuándo entrarán en vigor. ¿Qué significa esto para la gente en casa? Significa que deben seguir la votación de la próxima semana. Bienvenidos de nuevo al programa y gracias por escucharnos hoy.`,
+  Portuguese: `As autoridades confirmaram na terça-feira que o governo vai revisar o novo orçamento depois de semanas de protestos na capital. Os defensores do plano argumentam que ele protege as famílias da alta dos preços, enquanto os críticos dizem que os cortes nos serviços públicos vão longe demais. Os dados mostram que a inflação desacelerou este ano, mas muitas famílias ainda têm dificuldade para pagar o aluguel e as contas de energia. Os economistas alertam que o cenário continua incerto e que o banco central pode voltar a subir os juros antes do fim do verão. Enquanto isso, milhares de pessoas se reuniram em frente ao congresso, onde pediram mais investimento em escolas e hospitais. A polícia disse que a marcha foi em grande parte pacífica. O que ainda falta é uma resposta clara sobre quem vai pagar pelas mudanças e quando elas entram em vigor. E o que isso significa para quem está em casa? Significa que vale acompanhar a votação da próxima semana. Bem-vindos de volta ao programa e obrigado por nos ouvir hoje.`,
+  French: `Les autorités ont confirmé mardi que le gouvernement va réexaminer le nouveau budget après des semaines de manifestations dans la capitale. Les partisans du projet estiment qu'il protège les familles de la hausse des prix, tandis que les critiques jugent que les coupes dans les services publics vont trop loin. Les données montrent que l'inflation a ralenti cette année, mais beaucoup de ménages ont encore du mal à payer leur loyer et leurs factures d'énergie. Les économistes préviennent que les perspectives restent incertaines et que la banque centrale pourrait relever à nouveau ses taux avant la fin de l'été. Pendant ce temps, des milliers de personnes se sont rassemblées devant le parlement, où elles ont réclamé davantage d'investissements dans les écoles et les hôpitaux. La police a indiqué que la marche s'est déroulée dans le calme. Ce qui manque encore, c'est une réponse claire sur qui paiera ces changements et quand ils entreront en vigueur. Qu'est-ce que cela change pour vous ? Il faudra suivre le vote de la semaine prochaine. Bienvenue dans l'émission et merci de nous écouter aujourd'hui.`,
+  German: `Die Behörden haben am Dienstag bestätigt, dass die Regierung den neuen Haushalt nach wochenlangen Protesten in der Hauptstadt überprüfen wird. Befürworter des Plans argumentieren, dass er Familien vor steigenden Preisen schützt, während Kritiker sagen, dass die Kürzungen bei öffentlichen Dienstleistungen zu weit gehen. Die Daten zeigen, dass sich die Inflation in diesem Jahr abgeschwächt hat, aber viele Haushalte haben immer noch Schwierigkeiten, ihre Miete und ihre Energierechnungen zu bezahlen. Ökonomen warnen, dass die Aussichten unsicher bleiben und die Zentralbank die Zinsen vor dem Ende des Sommers erneut anheben könnte. Unterdessen versammelten sich tausende Menschen vor dem Parlament, wo sie mehr Investitionen in Schulen und Krankenhäuser forderten. Die Polizei erklärte, der Marsch sei weitgehend friedlich verlaufen. Was noch fehlt, ist eine klare Antwort darauf, wer die Änderungen bezahlt und wann sie in Kraft treten. Was bedeutet das für die Menschen zu Hause? Sie sollten die Abstimmung nächste Woche verfolgen. Willkommen zurück in der Sendung und danke, dass ihr heute zuhört.`,
+};
@@ -0,0 +1,95 @@
+import { LANGUAGE_SAMPLES } from './language-profiles.ts';
+import { getLanguage, normalizeLanguage } from './locales.ts';
+
+// ==================== LANGUAGE IDENTIFICATION ====================
+// Character trigram profiles built from LANGUAGE_SAMPLES, compared with the
+// text's own trigram counts by cosine similarity. Speaker labels, [STORY: ...]
+// markers, URLs and markdown are stripped first so they don't skew the counts.
+
+export interface LanguageDetection {
+  language: string;               // 'Unknown' when the text is too short or no profile stands out
+  confidence: number;             // 0-1, margin between the best and second-best profile
+  scores: Record<string, number>;
+}
+
+const MIN_LETTERS = 40;           // Below this there isn't enough text to identify
+const MAX_CHARS = 4000;           // A sample is enough; briefings run to several thousand chars
+const MIN_SIMILARITY = 0.2;
+const MIN_CONFIDENCE = 0.05;
+
+function normalizeForDetection(text: string): string {
+  return text
+    .replace(/https?:\/\/\S+/g, ' ')
+    .replace(/\[STORY:[^\]]*\]/gi, ' ')
+    .replace(/^[^\S\n]*[\p{L} .'-]{1,40}:/gmu, ' ')
+    .toLowerCase()
+    .replace(/[^\p{L}]+/gu, ' ')
+    .trim();
+}
+
+function trigramCounts(text: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const word of text.split(' ')) {
+    if (!word) continue;
+    const padded = ` ${word} `;
+    for (let i = 0; i + 3 <= padded.length; i++) {
+      const gram = padded.slice(i, i + 3);
+      counts.set(gram, (counts.get(gram) ?? 0) + 1);
+    }
+  }
+  return counts;
+}
+
+function magnitude(counts: Map<string, number>): number {
+  let sum = 0;
+  for (const count of counts.values()) sum += count * count;
+  return Math.sqrt(sum);
+}
+
+const PROFILES = Object.entries(LANGUAGE_SAMPLES).map(([language, sample]) => {
+  const counts = trigramCounts(normalizeForDetection(sample));
+  return { language, counts, magnitude: magnitude(counts) };
+});
+
+export function detectLanguage(text: string): LanguageDetection {
+  const normalized = normalizeForDetection(text).slice(0, MAX_CHARS);
+  const scores: Record<string, number> = {};
+  if (normalized.replace(/ /g, '').length < MIN_LETTERS) {
+    return { language: 'Unknown', confidence: 0, scores };
+  }
+
+  const counts = trigramCounts(normalized);
+  const textMagnitude = magnitude(counts);
+  for (const profile of PROFILES) {
+    let dot = 0;
+    for (const [gram, count] of counts) dot += count * (profile.counts.get(gram) ?? 0);
+    scores[profile.language] = Math.round((dot / (textMagnitude * profile.magnitude)) * 1000) / 1000;
+  }
+
+  const [best, second] = Object.entries(scores).sort((a, b) => b[1] - a[1]);
+  const confidence = Math.round((best[1] - (second?.[1] ?? 0)) * 1000) / 1000;
+  const language = best[1] >= MIN_SIMILARITY && confidence >= MIN_CONFIDENCE ? best[0] : 'Unknown';
+  return { language, confidence, scores };
+}
+
+// ==================== LANGUAGE VALIDATION ====================
+// English output accepts Unknown (short or mixed text); other languages must be positively identified
+export function validateLanguage(text: string, expectedLanguage: string): { isValid: boolean; detectedLanguage: string; confidence: number } {
+  const { language: detectedLanguage, confidence } = detectLanguage(text);
+
+  const isValid = expectedLanguage === 'English'
+    ? detectedLanguage === 'English' || detectedLanguage === 'Unknown'
+    : detectedLanguage === expectedLanguage;
+
+  return { isValid, detectedLanguage, confidence };
+}
+
+// TTS languageCode for a language name or code; unknown languages fall back to English
+export function getLanguageCode(language: string): string {
+  return getLanguage(language)?.ttsCode ?? 'en-US';
+}
+
+// Scheduled jobs used to be configured with short codes ('en', 'pt', ...); editions use the name
+export function getLanguageName(language: string): string {
+  return normalizeLanguage(language) ?? language;
+}
@@ -1,3 +1,7 @@
+import type { AudioQuality } from './audio.ts';
+import type { EpisodeFormatId } from './formats.ts';
+import { FREE_LANGUAGES, FREE_REGIONS, normalizeLanguage, normalizeRegion } from './locales.ts';
+
 // Plan limits configuration
 export const PLAN_LIMITS = {
   Free: {
@@ -5,9 +9,10 @@ export const PLAN_LIMITS = {
     dailyResearch: 2,
     vaultSize: 10,
     chatMessagesPerEdition: 10,
-    allowedRegions: ['Global'],
-    allowedLanguages: ['English'],
+    allowedRegions: FREE_REGIONS,
+    allowedLanguages: FREE_LANGUAGES,
     audioQuality: '24khz',
+    episodeFormats: ['flash', 'classic', 'standard'],
     pdfExport: false,
     priorityQueue: false,
   },
@@ -19,6 +24,7 @@ export const PLAN_LIMITS = {
     allowedRegions: 'all',
     allowedLanguages: 'all',
     audioQuality: '48khz',
+    episodeFormats: 'all',
     pdfExport: true,
     priorityQueue: true,
   },
@@ -29,3 +35,22 @@ export type Plan = keyof typeof PLAN_LIMITS;
 export function getPlanLimits(plan: string) {
   return PLAN_LIMITS[plan as Plan] || PLAN_LIMITS.Free;
 }
+
+export function getAudioQuality(plan: string): AudioQuality {
+  return getPlanLimits(plan).audioQuality;
+}
+
+export function isEpisodeFormatAllowed(plan: string, format: EpisodeFormatId): boolean {
+  const formats = getPlanLimits(plan).episodeFormats as readonly EpisodeFormatId[] | 'all';
+  return formats === 'all' || formats.includes(format);
+}
+
+export function isRegionAllowed(plan: string, region: string): boolean {
+  const regions = getPlanLimits(plan).allowedRegions as readonly string[] | 'all';
+  return regions === 'all' || regions.includes(normalizeRegion(region) ?? region);
+}
+
+export function isLanguageAllowed(plan: string, language: string): boolean {
+  const languages = getPlanLimits(plan).allowedLanguages as readonly string[] | 'all';
+  return languages === 'all' || languages.includes(normalizeLanguage(language) ?? language);
+}
@@ -0,0 +1,127 @@
+// ==================== REGIONS & LANGUAGES ====================
+// The one list of broadcast regions and languages. The tuner, every edge function
+// and the scheduler read it, so the region/language an edition is cached under is
+// the same whether a listener asked for it or a cron job pre-generated it.
+// Canonical ids are the names the app has always stored ('USA', 'English'); short
+// codes from older cron payloads and profiles ('us', 'en') are normalized on input.
+// No imports: the frontend pulls this file in directly.
+
+export interface RegionInfo {
+  id: string;         // Stored in daily_editions.region and users.region
+  label: string;      // Shown in the tuner
+  aliases: string[];  // Legacy codes accepted on input, lowercase
+  timezone: string;   // IANA zone the region's editions are timed by
+  free: boolean;      // Available on the Free plan
+}
+
+export interface LanguageInfo {
+  id: string;           // Stored in daily_editions.language and users.language
+  label: string;
+  code: string;         // ISO 639-1
+  locale: string;       // BCP-47, for dates and speech recognition
+  ttsCode: string;      // Gemini TTS languageCode
+  free: boolean;
+}
+
+export const REGIONS: RegionInfo[] = [
+  { id: 'Global', label: 'Global 🌎', aliases: ['global', 'world'], timezone: 'UTC', free: true },
+  { id: 'USA', label: 'USA 🇺🇸', aliases: ['us', 'usa', 'united states'], timezone: 'America/New_York', free: false },
+  { id: 'Europe', label: 'Europe 🇪🇺', aliases: ['europe', 'eu'], timezone: 'Europe/Paris', free: false },
+  { id: 'Asia', label: 'Asia 🌏', aliases: ['asia'], timezone: 'Asia/Singapore', free: false },
+  { id: 'Colombia', label: 'Colombia 🇨🇴', aliases: ['colombia', 'co'], timezone: 'America/Bogota', free: false },
+  { id: 'Venezuela', label: 'Venezuela 🇻🇪', aliases: ['venezuela', 've'], timezone: 'America/Caracas', free: false },
+];
+
+export const LANGUAGES: LanguageInfo[] = [
+  { id: 'English', label: 'English 🇬🇧', code: 'en', locale: 'en-US', ttsCode: 'en-US', free: true },
+  { id: 'Spanish', label: 'Spanish 🇪🇸', code: 'es', locale: 'es-ES', ttsCode: 'es-ES', free: false },
+  { id: 'Portuguese', label: 'Portuguese 🇧🇷', code: 'pt', locale: 'pt-BR', ttsCode: 'pt-BR', free: false },
+  { id: 'French', label: 'French 🇫🇷', code: 'fr', locale: 'fr-FR', ttsCode: 'fr-FR', free: false },
+  { id: 'German', label: 'German 🇩🇪', code: 'de', locale: 'de-DE', ttsCode: 'de-DE', free: false },
+];
+
+export const DEFAULT_REGION = 'Global';
+export const DEFAULT_LANGUAGE = 'English';
+
+export const REGION_IDS = REGIONS.map((r) => r.id);
+export const LANGUAGE_IDS = LANGUAGES.map((l) => l.id);
+export const FREE_REGIONS = REGIONS.filter((r) => r.free).map((r) => r.id);
+export const FREE_LANGUAGES = LANGUAGES.filter((l) => l.free).map((l) => l.id);
+
+// ==================== NORMALIZATION ====================
+
+// Canonical region id for an id, label or legacy code; null if it isn't one we cover
+export function normalizeRegion(value: string | null | undefined): string | null {
+  const key = value?.trim().toLowerCase();
+  if (!key) return null;
+  const match = REGIONS.find((r) => r.id.toLowerCase() === key || r.aliases.includes(key));
+  return match?.id ?? null;
+}
+
+// Canonical language id for an id, ISO code or locale ('en', 'en-US', 'english')
+export function normalizeLanguage(value: string | null | undefined): string | null {
+  const key = value?.trim().toLowerCase();
+  if (!key) return null;
+  const match = LANGUAGES.find((l) =>
+    l.id.toLowerCase() === key || l.code === key || l.locale.toLowerCase() === key || l.ttsCode.toLowerCase() === key
+  ) ?? LANGUAGES.find((l) => l.code === key.split(/[-_]/)[0]);
+  return match?.id ?? null;
+}
+
+export function getRegion(value: string | null | undefined): RegionInfo | undefined {
+  const id = normalizeRegion(value);
+  return REGIONS.find((r) => r.id === id);
+}
+
+export function getLanguage(value: string | null | undefined): LanguageInfo | undefined {
+  const id = normalizeLanguage(value);
+  return LANGUAGES.find((l) => l.id === id);
+}
+
+// ==================== LOCAL TIME ====================
+// Editions follow the region's clock: the Morning edition of USA is prepared at 06:00
+// in New York and filed under New York's date. Global runs on UTC.
+
+export interface EditionWindow {
+  edition: string;     // EditionType value
+  from: number;        // Local hour the edition becomes the current one
+  generateAt: number;  // Local hour the scheduler pre-generates it
+}
+
+export const EDITION_WINDOWS: EditionWindow[] = [
+  { edition: 'Morning', from: 0, generateAt: 6 },
+  { edition: 'Midday', from: 12, generateAt: 12 },
+  { edition: 'Evening', from: 18, generateAt: 18 },
+];
+
+function localTime(region: string, now: Date): { date: string; hour: number } {
+  const parts = new Intl.DateTimeFormat('en-CA', {
+    timeZone: getRegion(region)?.timezone ?? 'UTC',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(now);
+  const part = (type: string) => parts.find((p) => p.type === type)?.value ?? '';
+  return { date: `${part('year')}-${part('month')}-${part('day')}`, hour: Number(part('hour')) };
+}
+
+// The region's calendar date (YYYY-MM-DD), which editions and cache keys are filed under
+export function regionDate(region: string, now: Date = new Date()): string {
+  return localTime(region, now).date;
+}
+
+// The edition whose window the region's local time falls in
+export function currentEdition(region: string, now: Date = new Date()): string {
+  const { hour } = localTime(region, now);
+  return EDITION_WINDOWS.filter((w) => w.from <= hour).at(-1)!.edition;
+}
+
+// Every region/edition pair due for pre-generation in the current local hour
+export function editionsDue(now: Date = new Date()): { region: string; edition: string }[] {
+  return REGIONS.flatMap((r) => {
+    const { hour } = localTime(r.id, now);
+    return EDITION_WINDOWS.filter((w) => w.generateAt === hour).map((w) => ({ region: r.id, edition: w.edition }));
+  });
+}
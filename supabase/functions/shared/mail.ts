@@ -0,0 +1,182 @@
+// ==================== MAIL ====================
+// Outgoing email goes through a MailTransport. SMTP (MAIL_TRANSPORT=smtp, the default)
+// talks to any relay with SMTP_HOST / SMTP_PORT / SMTP_USER / SMTP_PASS, over implicit
+// TLS on port 465 and STARTTLS otherwise. MAIL_TRANSPORT=capture keeps messages in
+// memory and logs them instead, for local runs and tests.
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+  headers?: Record<string, string>;  // Extra headers, e.g. List-Unsubscribe
+}
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+export function createMailTransport(name: string = Deno.env.get('MAIL_TRANSPORT') ?? 'smtp'): MailTransport {
+  if (name === 'capture') {
+    console.log('🧪 Using capture mail transport');
+    return new CaptureTransport();
+  }
+  return new SmtpTransport({
+    host: Deno.env.get('SMTP_HOST') ?? '',
+    port: Number(Deno.env.get('SMTP_PORT') ?? 587),
+    username: Deno.env.get('SMTP_USER') ?? '',
+    password: Deno.env.get('SMTP_PASS') ?? '',
+    from: Deno.env.get('MAIL_FROM') ?? 'VoxTrends <digest@voxtrends.com>',
+  });
+}
+
+// ==================== CAPTURE ====================
+export class CaptureTransport implements MailTransport {
+  messages: MailMessage[] = [];
+
+  async send(message: MailMessage): Promise<void> {
+    this.messages.push(message);
+    console.log(`📧 [capture] ${message.to}: ${message.subject}`);
+  }
+}
+
+// ==================== MIME ====================
+const encoder = new TextEncoder();
+
+function base64Utf8(value: string): string {
+  let binary = '';
+  for (const byte of encoder.encode(value)) binary += String.fromCharCode(byte);
+  return btoa(binary);
+}
+
+// RFC 2047 for non-ASCII headers (localized subjects)
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${base64Utf8(value)}?=`;
+}
+
+// Base64 body lines stay under the 78-character limit
+function base64Lines(value: string): string {
+  return base64Utf8(value).replace(/.{76}/g, '$&\r\n');
+}
+
+// A multipart/alternative message: clients show the HTML part and fall back to text
+export function buildMimeMessage(from: string, message: MailMessage, now: Date = new Date()): string {
+  const boundary = `vox-${crypto.randomUUID()}`;
+  const headers: Record<string, string> = {
+    'From': from,
+    'To': message.to,
+    'Subject': encodeHeader(message.subject),
+    'Date': now.toUTCString(),
+    'Message-ID': `<${crypto.randomUUID()}@${from.match(/@([^>\s]+)/)?.[1] ?? 'voxtrends.com'}>`,
+    'MIME-Version': '1.0',
+    'Content-Type': `multipart/alternative; boundary="${boundary}"`,
+    ...message.headers,
+  };
+
+  return [
+    ...Object.entries(headers).map(([name, value]) => `${name}: ${value}`),
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Lines(message.text),
+    `--${boundary}`,
+    'Content-Type: text/html; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Lines(message.html),
+    `--${boundary}--`,
+    '',
+  ].join('\r\n');
+}
+
+// ==================== SMTP ====================
+export interface SmtpConfig {
+  host: string;
+  port: number;      // 465 = implicit TLS; anything else upgrades with STARTTLS
+  username: string;
+  password: string;
+  from: string;      // "Name <address>"
+}
+
+export class SmtpTransport implements MailTransport {
+  constructor(private config: SmtpConfig) {}
+
+  async send(message: MailMessage): Promise<void> {
+    const { host, port, username, password, from } = this.config;
+    if (!host) throw new Error('SMTP_HOST is not configured');
+
+    let conn: Deno.Conn = port === 465 ? await Deno.connectTls({ hostname: host, port }) : await Deno.connect({ hostname: host, port });
+    try {
+      let session = new SmtpSession(conn);
+      await session.expect(220);
+      const features = await session.command(`EHLO voxtrends`, 250);
+
+      if (port !== 465 && /STARTTLS/i.test(features)) {
+        await session.command('STARTTLS', 220);
+        conn = await Deno.startTls(conn as Deno.TcpConn, { hostname: host });
+        session = new SmtpSession(conn);
+        await session.command(`EHLO voxtrends`, 250);
+      }
+
+      if (username) {
+        await session.command('AUTH LOGIN', 334);
+        await session.command(base64Utf8(username), 334);
+        await session.command(base64Utf8(password), 235);
+      }
+
+      const address = (value: string) => value.match(/<([^>]+)>/)?.[1] ?? value.trim();
+      await session.command(`MAIL FROM:<${address(from)}>`, 250);
+      await session.command(`RCPT TO:<${address(message.to)}>`, 250);
+      await session.command('DATA', 354);
+      // Dot-stuffing: a line starting with "." would otherwise end the message early
+      const body = buildMimeMessage(from, message).replace(/^\./gm, '..');
+      await session.command(`${body}\r\n.`, 250);
+      await session.command('QUIT', 221).catch(() => {});
+    } finally {
+      try {
+        conn.close();
+      } catch {
+        // Already closed by the server after QUIT
+      }
+    }
+  }
+}
+
+// One request/reply exchange at a time; multi-line replies end with "NNN " (space)
+class SmtpSession {
+  private buffer = '';
+  private decoder = new TextDecoder();
+
+  constructor(private conn: Deno.Conn) {}
+
+  async expect(code: number): Promise<string> {
+    const reply = await this.readReply();
+    if (!reply.startsWith(String(code))) throw new Error(`SMTP expected ${code}, got: ${reply.trim()}`);
+    return reply;
+  }
+
+  async command(line: string, code: number): Promise<string> {
+    const bytes = encoder.encode(`${line}\r\n`);
+    for (let written = 0; written < bytes.length;) written += await this.conn.write(bytes.subarray(written));
+    return this.expect(code);
+  }
+
+  private async readReply(): Promise<string> {
+    const chunk = new Uint8Array(4096);
+    while (true) {
+      const lines = this.buffer.split('\r\n');
+      // The last piece has no CRLF yet, so it may still be arriving
+      const last = lines.slice(0, -1).findIndex((l) => /^\d{3} /.test(l));
+      if (last >= 0) {
+        const reply = lines.slice(0, last + 1).join('\r\n');
+        this.buffer = lines.slice(last + 1).join('\r\n');
+        return reply;
+      }
+      const n = await this.conn.read(chunk);
+      if (n === null) throw new Error('SMTP connection closed');
+      this.buffer += this.decoder.decode(chunk.subarray(0, n), { stream: true });
+    }
+  }
+}
@@ -0,0 +1,1033 @@
+import type { TopicChannel } from './channels.ts';
+import type { EpisodeFormat } from './formats.ts';
+import { getRegion, regionDate } from './locales.ts';
+import { STORY_JSON_SHAPE } from './stories.ts';
+import type { PriorCoverage } from './threads.ts';
+
+// ==================== PROMPT TEMPLATES ====================
+// Versioned prompt templates per pipeline step and language. Templates are plain
+// text with {{variable}} placeholders; the builders below pick the template for a
+// language, fill in the variables and report which version they used, which the
+// edition records in daily_editions.prompt_versions.
+//
+// Every language implements the same template shape, so a new language is one new
+// entry per step and a rule change is made in each template of that step. Bump the
+// template's version whenever its text changes.
+
+export type PromptStep = 'news' | 'script';
+export type PromptVars = Record<string, string | number>;
+
+export interface RenderedPrompt {
+  prompt: string;
+  version: string;  // e.g. "news.es@1"
+}
+
+type EditionFocus = 'Morning' | 'Midday' | 'Evening' | 'Daily' | 'Breaking';
+type ScriptStyle = EpisodeFormat['style'];
+
+interface NewsTemplate {
+  code: string;                   // language code used in the version id
+  version: number;
+  locale: string;                 // date formatting for {{date}}
+  preamble: string;               // native-language search directive, used for every language but English
+  focus: Record<EditionFocus, { time: string; theme: string }>;
+  channel: { scope: string; exclude: string; sources: string };
+  breaking: string;               // Scope of a Breaking bulletin, in place of the time-of-day theme
+  format: string;                 // JSON story output instructions (see stories.ts)
+  dedup: string;
+  body: string;
+}
+
+interface ScriptTemplate {
+  code: string;
+  version: number;
+  length: string;
+  brevity: string;                // extra LENGTH line for formats under 200 words
+  marker: string;
+  rules: Record<ScriptStyle, string>;
+  structure: Record<ScriptStyle, string>;
+  continuity: { intro: string; item: string; earlierToday: string; onDay: string };  // Follow-ups of earlier stories
+  body: string;
+}
+
+// ==================== NEWS RESEARCH ====================
+
+const NEWS_TEMPLATES: Record<string, NewsTemplate> = {
+  English: {
+    code: 'en',
+    version: 3,
+    locale: 'en-US',
+    preamble: `MANDATORY: Search for news exclusively in {{language}} from {{region}}. ALL searches, titles, analysis, and ALL text must be completely in {{language}}. Do NOT use English at all.
+
+`,
+    focus: {
+      Morning: {
+        time: 'overnight and the very start of today',
+        theme: 'Focus on what happened while the region was sleeping and the key stories setting the agenda for today.',
+      },
+      Midday: {
+        time: 'this morning and unfolding live events',
+        theme: 'Focus on how stories have developed since the morning and live breaking news from the last few hours.',
+      },
+      Evening: {
+        time: "the full day's cycle and closing events",
+        theme: "Focus on the final outcomes of today's big stories and what is trending as the day comes to a close.",
+      },
+      Daily: { time: 'the last 24 hours', theme: '' },
+      Breaking: { time: 'the last few hours', theme: '' },
+    },
+    channel: {
+      scope: 'TOPIC CHANNEL "{{channelName}}": Cover ONLY stories about {{keywords}}. If fewer than 5 relevant stories exist, cover fewer topics in more depth; NEVER pad with general news.',
+      exclude: 'EXCLUDE: Do not cover stories centred on {{keywords}}.',
+      sources: 'PREFERRED SOURCES: Prioritise reporting from {{sources}} where they cover the topic.',
+    },
+    breaking: 'BREAKING NEWS "{{topic}}": Cover ONLY this developing story and the stories directly tied to it: what happened, what is confirmed, what is still unknown and what happens next. If fewer than 5 related stories exist, cover fewer in more depth; NEVER pad with general news.',
+    format: `OUTPUT FORMAT — STRICT:
+Answer with ONLY a JSON array, one object per topic, with no text before or after it:
+{{storyShape}}
+- headline: a short, factual headline.
+- summary: one or two sentences with the key facts.
+- body: the full report for the topic (the long paragraphs described above), paragraphs separated by blank lines, no markdown.
+- entities: the main people, organizations and places in the story.
+- sources: the articles you relied on, with their real URLs.
+- sentiment: the overall tone of the news itself, not your opinion.
+Keep the JSON keys and sentiment values in English exactly as shown.`,
+    dedup: 'DEDUPLICATION: Earlier editions today already covered these topics: {{previousTopics}}. Do NOT repeat any of these as a main topic. Pick fresh, distinct stories that complement what was already covered.',
+    body: `{{preamble}}[STRICT INSTRUCTION: DO NOT INCLUDE ANY INTRODUCTORY TEXT OR FILLER. START IMMEDIATELY WITH THE FIRST TOPIC.]
+
+You are an expert news analyst and investigative journalist committed to factual accuracy, intellectual honesty, and editorial integrity.
+TODAY'S DATE: {{date}}
+Research the top 5 most significant news topics and trending stories from {{timeFocus}} (specifically {{date}}) in {{region}}.
+Include stories that are trending on social media platforms including X (Twitter), Reddit, and other public forums relevant to {{region}}.
+{{thematicFocus}}
+{{dedup}}
+For EACH of the top 5 topics, you MUST provide a comprehensive and detailed report.
+
+EDITORIAL INTEGRITY — NON-NEGOTIABLE:
+- TRUTH OVER TRENDS: Report facts over sensationalism. If something is trending due to misinformation, state the verified facts clearly.
+- MULTIPLE VIEWPOINTS: For any politically or socially divisive story, explicitly present the perspectives of different stakeholders (e.g., proponents vs. critics, different political positions, affected communities). NEVER present only one side as if it's the only perspective.
+- FACT vs. OPINION: Clearly distinguish verifiable facts from opinions, analysis, or contested claims. Use phrases like "critics argue," "supporters claim," "data shows," "remains disputed."
+- AVOID LOADED LANGUAGE: Use neutral, descriptive language. Avoid inflammatory adjectives that imply judgment (e.g., say "protesters blocked" not "protesters disrupted"; "policy change" not "controversial policy").
+- FLAG UNCERTAINTY: If key details are unknown, under investigation, or disputed, explicitly state this. Never fill gaps with speculation.
+- SOURCE QUALITY: Prioritize reporting from established news organizations, official statements, and verifiable data over social media speculation.
+- WHAT'S MISSING: If a major story lacks key information (e.g., "no official response yet," "underlying causes unclear"), state this explicitly to promote critical thinking.
+
+CRITICAL CONSTRAINTS:
+- NEVER use numbered lists.
+- Use 3-4 LONG paragraphs with deep context and analysis for EACH topic.
+- Describe why it is trending and the atmosphere of the social conversation, especially on X (Twitter).
+- Include specific data, names, background history, and different societal perspectives (per editorial integrity rules above).
+- DO NOT include ANY introductory text, acknowledging filler, or meta-talk (e.g., "Okay, I will investigate...", "Based on my research...", "Here are the top stories...").
+- START DIRECTLY with the first news report.
+
+{{format}}
+DO NOT use emojis.
+Be extremely informative. Focus on qualitative density. We need high-quality content for a podcast.`,
+  },
+
+  Spanish: {
+    code: 'es',
+    version: 3,
+    locale: 'es-ES',
+    preamble: `Busca noticias exclusivamente en español de {{region}}. TODAS las búsquedas, títulos, análisis y todo el texto deben estar completamente en español.
+
+`,
+    focus: {
+      Morning: {
+        time: 'la noche y el comienzo del día de hoy',
+        theme: 'Enfócate en lo que ocurrió mientras la región dormía y en las historias clave que marcan la agenda de hoy.',
+      },
+      Midday: {
+        time: 'esta mañana y los acontecimientos en curso',
+        theme: 'Enfócate en cómo han evolucionado las historias desde la mañana y en las noticias de última hora de las últimas horas.',
+      },
+      Evening: {
+        time: 'el ciclo completo del día y los acontecimientos del cierre',
+        theme: 'Enfócate en el desenlace de las grandes historias de hoy y en lo que es tendencia al cierre del día.',
+      },
+      Daily: { time: 'las últimas 24 horas', theme: '' },
+      Breaking: { time: 'las últimas horas', theme: '' },
+    },
+    channel: {
+      scope: 'CANAL TEMÁTICO "{{channelName}}": Cubre ÚNICAMENTE historias sobre {{keywords}}. Si hay menos de 5 temas relevantes, cubre menos temas con más profundidad; NUNCA rellenes con noticias generales.',
+      exclude: 'EXCLUIR: No cubras historias centradas en {{keywords}}.',
+      sources: 'FUENTES PREFERIDAS: Prioriza los reportes de {{sources}} cuando cubran el tema.',
+    },
+    breaking: 'ÚLTIMA HORA "{{topic}}": Cubre ÚNICAMENTE esta noticia en desarrollo y las historias directamente relacionadas: qué pasó, qué está confirmado, qué se desconoce todavía y qué viene después. Si hay menos de 5 historias relacionadas, cubre menos con más profundidad; NUNCA rellenes con noticias generales.',
+    format: `FORMATO DE SALIDA — ESTRICTO:
+Responde ÚNICAMENTE con un array JSON, un objeto por tema, sin ningún texto antes ni después:
+{{storyShape}}
+- headline: un titular breve y factual.
+- summary: una o dos oraciones con los datos clave.
+- body: el informe completo del tema (los párrafos largos descritos arriba), párrafos separados por líneas en blanco, sin markdown.
+- entities: las principales personas, organizaciones y lugares de la historia.
+- sources: los artículos en los que te basaste, con sus URL reales.
+- sentiment: el tono general de la noticia en sí, no tu opinión.
+Mantén las claves JSON y los valores de sentiment en inglés tal como se muestran; todo el texto de los valores va en español.`,
+    dedup: 'DEDUPLICACIÓN: Las ediciones anteriores de hoy ya cubrieron estos temas: {{previousTopics}}. NO repitas ninguno de ellos como tema principal. Elige historias nuevas y distintas que complementen lo ya cubierto.',
+    body: `{{preamble}}[INSTRUCCIÓN ESTRICTA: NO INCLUIR NINGÚN TEXTO INTRODUCTORIO O DE RELLENO. COMENZAR INMEDIATAMENTE CON EL PRIMER TEMA.]
+
+Eres un analista de noticias experto y periodista de investigación comprometido con la precisión factual, la honestidad intelectual y la integridad editorial.
+FECHA DE HOY: {{date}}
+Investiga los 5 temas de noticias más significativos y las historias de tendencia de {{timeFocus}} (específicamente {{date}}) en {{region}}.
+Incluye historias que sean tendencia en plataformas de redes sociales incluyendo X (Twitter), Reddit y otros foros públicos relevantes para {{region}}.
+{{thematicFocus}}
+{{dedup}}
+Para CADA uno de los 5 temas, DEBES proporcionar un informe completo y detallado.
+
+INTEGRIDAD EDITORIAL — NO NEGOCIABLE:
+- VERDAD SOBRE TENDENCIAS: Reportar hechos sobre sensacionalismo. Si algo es tendencia debido a desinformación, exponer los hechos verificados claramente.
+- MÚLTIPLES PUNTOS DE VISTA: Para cualquier historia políticamente o socialmente divisiva, presentar explícitamente las perspectivas de diferentes partes interesadas (ej., proponentes vs. críticos, diferentes posiciones políticas, comunidades afectadas). NUNCA presentar solo un lado como si fuera la única perspectiva.
+- HECHO vs. OPINIÓN: Distinguir claramente los hechos verificables de las opiniones, análisis o afirmaciones disputadas. Usar frases como "los críticos argumentan," "los partidarios afirman," "los datos muestran," "permanece en disputa."
+- EVITAR LENGUAJE CARGADO: Usar lenguaje neutral y descriptivo. Evitar adjetivos inflamatorios que impliquen juicio (ej., decir "los manifestantes bloquearon" y no "los manifestantes irrumpieron"; "cambio de política" y no "política polémica").
+- SEÑALAR INCERTIDUMBRE: Si los detalles clave son desconocidos, están bajo investigación o en disputa, exponerlo explícitamente. Nunca llenar vacíos con especulación.
+- CALIDAD DE FUENTES: Priorizar reportes de organizaciones de noticias establecidas, declaraciones oficiales y datos verificables sobre especulación de redes sociales.
+- LO QUE FALTA: Si una historia importante carece de información clave (ej., "aún no hay respuesta oficial," "las causas de fondo no están claras"), exponerlo explícitamente para promover el pensamiento crítico.
+
+RESTRICCIONES CRÍTICAS:
+- NUNCA usar listas numeradas.
+- Usar 3-4 párrafos LARGOS con contexto profundo y análisis para CADA tema.
+- Describir por qué es tendencia y la atmósfera de la conversación social, especialmente en X (Twitter).
+- Incluir datos específicos, nombres, historia de fondo y diferentes perspectivas sociales (según las reglas de integridad editorial anteriores).
+- NO incluir NINGÚN texto introductorio, relleno de reconocimiento o meta-charla (ej., "Okay, voy a investigar...", "Basado en mi investigación...", "Aquí están las principales historias...").
+- COMENZAR DIRECTAMENTE con el primer informe de noticias.
+
+{{format}}
+NO usar emojis.
+Ser extremadamente informativo. Enfocarse en densidad cualitativa. Necesitamos contenido de alta calidad para un podcast.`,
+  },
+
+  Portuguese: {
+    code: 'pt',
+    version: 3,
+    locale: 'pt-BR',
+    preamble: `Busque notícias exclusivamente em português de {{region}}. TODAS as buscas, títulos, análises e todo o texto devem estar completamente em português.
+
+`,
+    focus: {
+      Morning: {
+        time: 'a madrugada e o início do dia de hoje',
+        theme: 'Concentre-se no que aconteceu enquanto a região dormia e nas principais histórias que definem a agenda de hoje.',
+      },
+      Midday: {
+        time: 'esta manhã e os acontecimentos em andamento',
+        theme: 'Concentre-se em como as histórias evoluíram desde a manhã e nas notícias de última hora das últimas horas.',
+      },
+      Evening: {
+        time: 'o ciclo completo do dia e os acontecimentos do encerramento',
+        theme: 'Concentre-se nos desfechos das grandes histórias de hoje e no que está em alta no fim do dia.',
+      },
+      Daily: { time: 'as últimas 24 horas', theme: '' },
+      Breaking: { time: 'as últimas horas', theme: '' },
+    },
+    channel: {
+      scope: 'CANAL TEMÁTICO "{{channelName}}": Cubra SOMENTE histórias sobre {{keywords}}. Se houver menos de 5 temas relevantes, cubra menos temas com mais profundidade; NUNCA complete com notícias gerais.',
+      exclude: 'EXCLUIR: Não cubra histórias centradas em {{keywords}}.',
+      sources: 'FONTES PREFERIDAS: Priorize as reportagens de {{sources}} quando cobrirem o tema.',
+    },
+    breaking: 'ÚLTIMA HORA "{{topic}}": Cubra SOMENTE esta notícia em desenvolvimento e as histórias diretamente ligadas a ela: o que aconteceu, o que está confirmado, o que ainda não se sabe e o que vem a seguir. Se houver menos de 5 histórias relacionadas, cubra menos com mais profundidade; NUNCA complete com notícias gerais.',
+    format: `FORMATO DE SAÍDA — ESTRITO:
+Responda APENAS com um array JSON, um objeto por tema, sem nenhum texto antes ou depois:
+{{storyShape}}
+- headline: uma manchete curta e factual.
+- summary: uma ou duas frases com os fatos principais.
+- body: o relatório completo do tema (os parágrafos longos descritos acima), parágrafos separados por linhas em branco, sem markdown.
+- entities: as principais pessoas, organizações e lugares da história.
+- sources: os artigos em que você se baseou, com suas URLs reais.
+- sentiment: o tom geral da notícia em si, não a sua opinião.
+Mantenha as chaves JSON e os valores de sentiment em inglês exatamente como mostrado; todo o texto dos valores vai em português.`,
+    dedup: 'DEDUPLICAÇÃO: As edições anteriores de hoje já cobriram estes temas: {{previousTopics}}. NÃO repita nenhum deles como tema principal. Escolha histórias novas e distintas que complementem o que já foi coberto.',
+    body: `{{preamble}}[INSTRUÇÃO ESTRITA: NÃO INCLUIR NENHUM TEXTO INTRODUTÓRIO OU DE ENCHIMENTO. COMEÇAR IMEDIATAMENTE COM O PRIMEIRO TEMA.]
+
+Você é um analista de notícias experiente e jornalista investigativo comprometido com a precisão factual, a honestidade intelectual e a integridade editorial.
+DATA DE HOJE: {{date}}
+Pesquise os 5 temas de notícias mais significativos e as histórias em alta de {{timeFocus}} (especificamente {{date}}) em {{region}}.
+Inclua histórias que estejam em alta nas redes sociais, incluindo X (Twitter), Reddit e outros fóruns públicos relevantes para {{region}}.
+{{thematicFocus}}
+{{dedup}}
+Para CADA um dos 5 temas, você DEVE fornecer um relatório completo e detalhado.
+
+INTEGRIDADE EDITORIAL — INEGOCIÁVEL:
+- VERDADE ACIMA DAS TENDÊNCIAS: Relatar fatos em vez de sensacionalismo. Se algo está em alta por causa de desinformação, expor claramente os fatos verificados.
+- MÚLTIPLOS PONTOS DE VISTA: Para qualquer história política ou socialmente divisiva, apresentar explicitamente as perspectivas das diferentes partes interessadas (ex., defensores vs. críticos, diferentes posições políticas, comunidades afetadas). NUNCA apresentar apenas um lado como se fosse a única perspectiva.
+- FATO vs. OPINIÃO: Distinguir claramente fatos verificáveis de opiniões, análises ou afirmações contestadas. Usar expressões como "os críticos argumentam," "os apoiadores afirmam," "os dados mostram," "continua em disputa."
+- EVITAR LINGUAGEM CARREGADA: Usar linguagem neutra e descritiva. Evitar adjetivos inflamatórios que impliquem julgamento (ex., dizer "os manifestantes bloquearam" e não "os manifestantes tumultuaram"; "mudança de política" e não "política polêmica").
+- SINALIZAR INCERTEZA: Se detalhes importantes forem desconhecidos, estiverem sob investigação ou em disputa, declarar isso explicitamente. Nunca preencher lacunas com especulação.
+- QUALIDADE DAS FONTES: Priorizar reportagens de organizações jornalísticas estabelecidas, declarações oficiais e dados verificáveis em vez de especulação nas redes sociais.
+- O QUE FALTA: Se uma história importante carece de informações-chave (ex., "ainda não há resposta oficial," "as causas de fundo não estão claras"), declarar isso explicitamente para promover o pensamento crítico.
+
+RESTRIÇÕES CRÍTICAS:
+- NUNCA usar listas numeradas.
+- Usar 3-4 parágrafos LONGOS com contexto profundo e análise para CADA tema.
+- Descrever por que está em alta e o clima da conversa social, especialmente no X (Twitter).
+- Incluir dados específicos, nomes, histórico e diferentes perspectivas da sociedade (conforme as regras de integridade editorial acima).
+- NÃO incluir NENHUM texto introdutório, enchimento de reconhecimento ou metacomentário (ex., "Ok, vou pesquisar...", "Com base na minha pesquisa...", "Aqui estão as principais histórias...").
+- COMEÇAR DIRETAMENTE com o primeiro relatório de notícias.
+
+{{format}}
+NÃO usar emojis.
+Seja extremamente informativo. Concentre-se na densidade qualitativa. Precisamos de conteúdo de alta qualidade para um podcast.`,
+  },
+
+  French: {
+    code: 'fr',
+    version: 3,
+    locale: 'fr-FR',
+    preamble: `Recherche des actualités exclusivement en français sur {{region}}. TOUTES les recherches, tous les titres, toutes les analyses et tout le texte doivent être entièrement en français.
+
+`,
+    focus: {
+      Morning: {
+        time: 'la nuit et le tout début de la journée',
+        theme: "Concentre-toi sur ce qui s'est passé pendant que la région dormait et sur les sujets clés qui fixent l'agenda du jour.",
+      },
+      Midday: {
+        time: 'ce matin et les événements en cours',
+        theme: "Concentre-toi sur l'évolution des sujets depuis le matin et sur les dernières nouvelles des dernières heures.",
+      },
+      Evening: {
+        time: 'le cycle complet de la journée et les événements de clôture',
+        theme: "Concentre-toi sur l'issue des grands sujets du jour et sur ce qui est tendance en fin de journée.",
+      },
+      Daily: { time: 'les dernières 24 heures', theme: '' },
+      Breaking: { time: 'les dernières heures', theme: '' },
+    },
+    channel: {
+      scope: "CHAÎNE THÉMATIQUE \"{{channelName}}\" : Couvre UNIQUEMENT les sujets concernant {{keywords}}. S'il y a moins de 5 sujets pertinents, couvre moins de sujets plus en profondeur ; ne complète JAMAIS avec des actualités générales.",
+      exclude: 'EXCLURE : Ne couvre pas les sujets centrés sur {{keywords}}.',
+      sources: "SOURCES PRÉFÉRÉES : Privilégie les reportages de {{sources}} lorsqu'ils couvrent le sujet.",
+    },
+    breaking: "DERNIÈRE MINUTE « {{topic}} » : Couvre UNIQUEMENT cette actualité en cours et les sujets qui y sont directement liés : ce qui s'est passé, ce qui est confirmé, ce qui reste inconnu et la suite. S'il y a moins de 5 sujets liés, couvre-en moins plus en profondeur ; ne complète JAMAIS avec des actualités générales.",
+    format: `FORMAT DE SORTIE — STRICT :
+Réponds UNIQUEMENT avec un tableau JSON, un objet par sujet, sans aucun texte avant ou après :
+{{storyShape}}
+- headline : un titre court et factuel.
+- summary : une ou deux phrases avec les faits essentiels.
+- body : le rapport complet sur le sujet (les longs paragraphes décrits ci-dessus), paragraphes séparés par des lignes vides, sans markdown.
+- entities : les principales personnes, organisations et lieux de l'histoire.
+- sources : les articles sur lesquels tu t'es appuyé, avec leurs vraies URL.
+- sentiment : le ton général de l'actualité elle-même, pas ton opinion.
+Garde les clés JSON et les valeurs de sentiment en anglais exactement comme indiqué ; tout le texte des valeurs est en français.`,
+    dedup: "DÉDUPLICATION : Les éditions précédentes d'aujourd'hui ont déjà couvert ces sujets : {{previousTopics}}. Ne reprends AUCUN d'eux comme sujet principal. Choisis des sujets nouveaux et distincts qui complètent ce qui a déjà été couvert.",
+    body: `{{preamble}}[INSTRUCTION STRICTE : N'INCLURE AUCUN TEXTE D'INTRODUCTION OU DE REMPLISSAGE. COMMENCER IMMÉDIATEMENT PAR LE PREMIER SUJET.]
+
+Tu es un analyste de l'actualité expérimenté et un journaliste d'investigation attaché à l'exactitude des faits, à l'honnêteté intellectuelle et à l'intégrité éditoriale.
+DATE DU JOUR : {{date}}
+Recherche les 5 sujets d'actualité les plus importants et les sujets tendance de {{timeFocus}} (précisément le {{date}}) en {{region}}.
+Inclus les sujets tendance sur les réseaux sociaux, notamment X (Twitter), Reddit et d'autres forums publics pertinents pour {{region}}.
+{{thematicFocus}}
+{{dedup}}
+Pour CHACUN des 5 sujets, tu DOIS fournir un rapport complet et détaillé.
+
+INTÉGRITÉ ÉDITORIALE — NON NÉGOCIABLE :
+- LA VÉRITÉ AVANT LES TENDANCES : Rapporter les faits plutôt que le sensationnel. Si un sujet est tendance à cause de la désinformation, énoncer clairement les faits vérifiés.
+- PLUSIEURS POINTS DE VUE : Pour tout sujet politiquement ou socialement clivant, présenter explicitement les perspectives des différentes parties prenantes (ex. partisans vs. critiques, positions politiques différentes, communautés concernées). Ne JAMAIS présenter un seul camp comme s'il s'agissait de la seule perspective.
+- FAIT vs. OPINION : Distinguer clairement les faits vérifiables des opinions, analyses ou affirmations contestées. Utiliser des formules comme « les critiques estiment », « les partisans affirment », « les données montrent », « reste contesté ».
+- ÉVITER LE LANGAGE CHARGÉ : Utiliser un langage neutre et descriptif. Éviter les adjectifs incendiaires qui impliquent un jugement (ex. dire « les manifestants ont bloqué » et non « les manifestants ont semé le chaos » ; « changement de politique » et non « politique controversée »).
+- SIGNALER L'INCERTITUDE : Si des détails clés sont inconnus, font l'objet d'une enquête ou sont contestés, le dire explicitement. Ne jamais combler les lacunes par des spéculations.
+- QUALITÉ DES SOURCES : Privilégier les reportages des médias établis, les déclarations officielles et les données vérifiables plutôt que les spéculations des réseaux sociaux.
+- CE QUI MANQUE : Si un sujet important manque d'informations clés (ex. « pas encore de réponse officielle », « les causes profondes restent floues »), le dire explicitement pour encourager l'esprit critique.
+
+CONTRAINTES CRITIQUES :
+- Ne JAMAIS utiliser de listes numérotées.
+- Utiliser 3 à 4 LONGS paragraphes avec un contexte approfondi et une analyse pour CHAQUE sujet.
+- Décrire pourquoi le sujet est tendance et l'atmosphère de la conversation sociale, en particulier sur X (Twitter).
+- Inclure des données précises, des noms, un historique et différentes perspectives de la société (selon les règles d'intégrité éditoriale ci-dessus).
+- N'inclure AUCUN texte d'introduction, remplissage ou méta-commentaire (ex. « D'accord, je vais rechercher... », « D'après mes recherches... », « Voici les principaux sujets... »).
+- COMMENCER DIRECTEMENT par le premier rapport d'actualité.
+
+{{format}}
+N'utilise PAS d'emojis.
+Sois extrêmement informatif. Mise sur la densité qualitative. Nous avons besoin d'un contenu de haute qualité pour un podcast.`,
+  },
+
+  German: {
+    code: 'de',
+    version: 3,
+    locale: 'de-DE',
+    preamble: `Suche ausschließlich nach deutschsprachigen Nachrichten aus {{region}}. ALLE Suchanfragen, Überschriften, Analysen und der gesamte Text müssen vollständig auf Deutsch sein.
+
+`,
+    focus: {
+      Morning: {
+        time: 'der Nacht und dem Beginn des heutigen Tages',
+        theme: 'Konzentriere dich darauf, was passiert ist, während die Region schlief, und auf die wichtigsten Themen, die heute die Agenda bestimmen.',
+      },
+      Midday: {
+        time: 'dem heutigen Vormittag und laufenden Ereignissen',
+        theme: 'Konzentriere dich darauf, wie sich die Themen seit dem Morgen entwickelt haben, und auf aktuelle Eilmeldungen der letzten Stunden.',
+      },
+      Evening: {
+        time: 'dem gesamten Tagesverlauf und den Ereignissen zum Tagesabschluss',
+        theme: 'Konzentriere dich auf den Ausgang der großen Themen des Tages und darauf, was zum Tagesende im Trend liegt.',
+      },
+      Daily: { time: 'den letzten 24 Stunden', theme: '' },
+      Breaking: { time: 'den letzten Stunden', theme: '' },
+    },
+    channel: {
+      scope: 'THEMENKANAL "{{channelName}}": Berichte AUSSCHLIESSLICH über {{keywords}}. Gibt es weniger als 5 relevante Themen, behandle weniger Themen ausführlicher; fülle NIEMALS mit allgemeinen Nachrichten auf.',
+      exclude: 'AUSSCHLIESSEN: Berichte nicht über Themen, die sich um {{keywords}} drehen.',
+      sources: 'BEVORZUGTE QUELLEN: Bevorzuge die Berichterstattung von {{sources}}, wenn sie das Thema abdecken.',
+    },
+    breaking: 'EILMELDUNG „{{topic}}“: Berichte AUSSCHLIESSLICH über diese sich entwickelnde Nachricht und direkt damit verbundene Themen: was passiert ist, was bestätigt ist, was noch unbekannt ist und wie es weitergeht. Gibt es weniger als 5 verwandte Themen, behandle weniger Themen ausführlicher; fülle NIEMALS mit allgemeinen Nachrichten auf.',
+    format: `AUSGABEFORMAT — STRENG:
+Antworte NUR mit einem JSON-Array, ein Objekt pro Thema, ohne Text davor oder danach:
+{{storyShape}}
+- headline: eine kurze, sachliche Überschrift.
+- summary: ein oder zwei Sätze mit den wichtigsten Fakten.
+- body: der vollständige Bericht zum Thema (die oben beschriebenen langen Absätze), Absätze durch Leerzeilen getrennt, kein Markdown.
+- entities: die wichtigsten Personen, Organisationen und Orte der Geschichte.
+- sources: die Artikel, auf die du dich gestützt hast, mit ihren echten URLs.
+- sentiment: der Gesamtton der Nachricht selbst, nicht deine Meinung.
+Behalte die JSON-Schlüssel und die sentiment-Werte genau wie gezeigt auf Englisch; der gesamte Text der Werte ist auf Deutsch.`,
+    dedup: 'DUPLIKATE VERMEIDEN: Frühere Ausgaben von heute haben bereits diese Themen behandelt: {{previousTopics}}. Wiederhole KEINES davon als Hauptthema. Wähle neue, eigenständige Themen, die das bereits Behandelte ergänzen.',
+    body: `{{preamble}}[STRIKTE ANWEISUNG: KEINEN EINLEITUNGS- ODER FÜLLTEXT EINFÜGEN. SOFORT MIT DEM ERSTEN THEMA BEGINNEN.]
+
+Du bist ein erfahrener Nachrichtenanalyst und investigativer Journalist, der sich sachlicher Genauigkeit, intellektueller Redlichkeit und redaktioneller Integrität verpflichtet fühlt.
+HEUTIGES DATUM: {{date}}
+Recherchiere die 5 wichtigsten Nachrichtenthemen und Trendgeschichten aus {{timeFocus}} (konkret {{date}}) in {{region}}.
+Berücksichtige Geschichten, die in sozialen Netzwerken wie X (Twitter), Reddit und anderen für {{region}} relevanten öffentlichen Foren im Trend liegen.
+{{thematicFocus}}
+{{dedup}}
+Zu JEDEM der 5 Themen MUSST du einen umfassenden und detaillierten Bericht liefern.
+
+REDAKTIONELLE INTEGRITÄT — NICHT VERHANDELBAR:
+- WAHRHEIT VOR TRENDS: Fakten statt Sensationsmache berichten. Ist etwas wegen Desinformation im Trend, die verifizierten Fakten klar benennen.
+- MEHRERE SICHTWEISEN: Bei politisch oder gesellschaftlich spaltenden Themen ausdrücklich die Perspektiven der verschiedenen Beteiligten darstellen (z. B. Befürworter vs. Kritiker, unterschiedliche politische Positionen, betroffene Gemeinschaften). NIEMALS nur eine Seite so darstellen, als wäre sie die einzige Perspektive.
+- FAKT vs. MEINUNG: Überprüfbare Fakten klar von Meinungen, Analysen oder umstrittenen Behauptungen trennen. Formulierungen wie „Kritiker argumentieren“, „Befürworter behaupten“, „die Daten zeigen“, „bleibt umstritten“ verwenden.
+- KEINE WERTENDE SPRACHE: Neutrale, beschreibende Sprache verwenden. Aufwiegelnde Adjektive vermeiden, die ein Urteil implizieren (z. B. „Demonstranten blockierten“ statt „Demonstranten sorgten für Chaos“; „Kurswechsel“ statt „umstrittene Politik“).
+- UNSICHERHEIT KENNZEICHNEN: Sind wichtige Details unbekannt, Gegenstand von Ermittlungen oder umstritten, dies ausdrücklich sagen. Lücken niemals mit Spekulationen füllen.
+- QUELLENQUALITÄT: Berichte etablierter Nachrichtenorganisationen, offizielle Erklärungen und überprüfbare Daten gegenüber Spekulationen in sozialen Netzwerken bevorzugen.
+- WAS FEHLT: Fehlen einer wichtigen Geschichte zentrale Informationen (z. B. „noch keine offizielle Stellungnahme“, „Ursachen weiterhin unklar“), dies ausdrücklich sagen, um kritisches Denken zu fördern.
+
+WICHTIGE VORGABEN:
+- NIEMALS nummerierte Listen verwenden.
+- Für JEDES Thema 3-4 LANGE Absätze mit tiefem Kontext und Analyse schreiben.
+- Beschreiben, warum das Thema im Trend liegt und wie die Stimmung in der Diskussion ist, besonders auf X (Twitter).
+- Konkrete Daten, Namen, Hintergründe und unterschiedliche gesellschaftliche Perspektiven einbeziehen (gemäß den obigen Regeln zur redaktionellen Integrität).
+- KEINEN Einleitungstext, keine Bestätigungsfloskeln und keine Meta-Kommentare einfügen (z. B. „Okay, ich recherchiere...“, „Basierend auf meiner Recherche...“, „Hier sind die wichtigsten Geschichten...“).
+- DIREKT mit dem ersten Nachrichtenbericht BEGINNEN.
+
+{{format}}
+KEINE Emojis verwenden.
+Sei äußerst informativ. Setze auf inhaltliche Dichte. Wir brauchen hochwertige Inhalte für einen Podcast.`,
+  },
+};
+
+// ==================== PODCAST SCRIPT ====================
+
+const SCRIPT_TEMPLATES: Record<string, ScriptTemplate> = {
+  English: {
+    code: 'en',
+    version: 2,
+    length: `LENGTH — STRICT:
+- This is a {{duration}} episode at a natural conversational pace (~150 words/minute).
+- Total script must be {{minWords}}-{{maxWords}} words. Do NOT exceed {{maxWords}} words.
+- Cover the {{stories}} most important stories. Depth over breadth — don't rush through everything.{{brevity}}`,
+    brevity: '\n- Keep every line to one or two short sentences. No throat-clearing.',
+    marker: `- Immediately before the first line of EACH story, write a line of its own with the marker "[STORY: short headline]" (2-6 words). These markers are not read aloud: they become the episode's chapters.`,
+    rules: {
+      conversation: `FORMAT RULES:
+- EVERY single line of dialogue MUST start with either "{{hostLead}}:" or "{{hostExpert}}:" followed by a space. No exceptions.
+- Switch speakers every 2-3 sentences. No long monologue blocks.
+- Both hosts speak roughly equally. Write it as a natural back-and-forth conversation.
+{{marker}}`,
+      monologue: `FORMAT RULES:
+- This is a SOLO episode: {{hostLead}} is the only host. EVERY line MUST start with "{{hostLead}}:" followed by a space. {{hostExpert}} does not appear.
+- Keep each line to 2-4 sentences so the delivery breathes. Speak directly to the listener.
+{{marker}}`,
+      interview: `FORMAT RULES:
+- {{hostLead}} interviews {{hostExpert}}, who joins as the guest analyst. EVERY line MUST start with "{{hostLead}}:" or "{{hostExpert}}:" followed by a space.
+- {{hostLead}} asks short, pointed questions (1-2 sentences); {{hostExpert}} gives the substantive answers (3-5 sentences) and does most of the talking.
+- Follow up on {{hostExpert}}'s answers instead of moving on after a single question.
+{{marker}}`,
+    },
+    structure: {
+      conversation: `Structure:
+{{hostLead}}: [VoxTrends welcome + hook — the most surprising detail]
+{{hostExpert}}: [React, add context — 2 sentences max]
+{{hostLead}}: [Follow-up question or transition]
+[STORY: First story headline]
+{{hostExpert}}: [First story — 2-3 sentences with specific details]
+{{hostLead}}: [Commentary or bridge to next story]
+[STORY: Second story headline]
+{{hostExpert}}: [Second story — 2-3 sentences]
+... [continue alternating, {{stories}} stories max]
+{{hostLead}}: [VoxTrends sign-off]`,
+      monologue: `Structure:
+{{hostLead}}: [VoxTrends welcome + hook — the most surprising detail]
+[STORY: First story headline]
+{{hostLead}}: [First story — what happened, with specific details]
+{{hostLead}}: [Why it matters and what is still unknown]
+[STORY: Second story headline]
+{{hostLead}}: [Second story]
+... [continue until all {{stories}} stories are covered]
+{{hostLead}}: [VoxTrends sign-off]`,
+      interview: `Structure:
+{{hostLead}}: [VoxTrends welcome + introduce {{hostExpert}} as today's guest]
+{{hostExpert}}: [Brief hello — 1 sentence]
+[STORY: First story headline]
+{{hostLead}}: [Question about the first story]
+{{hostExpert}}: [Answer with specific details]
+{{hostLead}}: [Follow-up question]
+{{hostExpert}}: [Deeper answer — context, stakeholders, what's missing]
+[STORY: Second story headline]
+... [continue until all {{stories}} stories are covered]
+{{hostLead}}: [Thank {{hostExpert}} + VoxTrends sign-off]`,
+    },
+    continuity: {
+      intro: `CONTINUITY — PRIOR COVERAGE:
+Some of these stories continue earlier VoxTrends coverage. When a host introduces one, briefly tie it back (e.g. "as we reported on Tuesday...") and then focus on what is new:
+{{items}}
+
+`,
+      item: '- "{{headline}}" follows up "{{previousHeadline}}", which we covered {{when}}.',
+      earlierToday: 'earlier today',
+      onDay: 'on {{day}}',
+    },
+    body: `You are writing a podcast script for VoxTrends, a daily news briefing show committed to factual accuracy and editorial integrity. Create a {{duration}} episode based on these trends: {{trends}}.
+
+Hosts:
+- {{hostLead}}: High-energy, charismatic main host. Real person, warm personality.
+- {{hostExpert}}: Intelligent, analytical research expert. Grounded and sharp.
+
+EDITORIAL INTEGRITY — APPLY TO SCRIPT:
+- PRESENT MULTIPLE VIEWPOINTS: When covering divisive topics, the hosts should acknowledge different perspectives naturally (e.g., "{{analyst}}: Supporters argue X, while critics point to Y"). Never present one side as if it's the only view.
+- FACT vs. OPINION: Use conversational cues to distinguish facts from opinions (e.g., "data shows," "officials confirmed," "critics claim," "remains under investigation").
+- NEUTRAL TONE: Avoid inflammatory language. The hosts are informative and curious, not judgmental or sensationalist.
+- FLAG UNCERTAINTY: If key details are missing or disputed, say so conversationally (e.g., "{{hostLead}}: Officials haven't responded yet, so we'll have to see how this unfolds").
+
+BRANDING — NON-NEGOTIABLE:
+- The FIRST line must be {{hostLead}} welcoming listeners to VoxTrends BY NAME and introducing themselves. Example: "{{hostLead}}: Welcome back to VoxTrends, I'm {{hostLead}} — and today we've got a big one."
+- The LAST line must be {{hostLead}} signing off with VoxTrends. Example: "{{hostLead}}: That's your VoxTrends briefing for today. Stay curious, stay sharp — I'm {{hostLead}}, see you next time."
+- These are real, named podcast hosts. They should feel like actual people, not a generic AI summary.
+
+{{continuity}}{{length}}
+
+{{rules}}
+
+{{structure}}
+
+Output only the script text. Do not use emojis.`,
+  },
+
+  Spanish: {
+    code: 'es',
+    version: 2,
+    length: `LONGITUD — ESTRICTA:
+- Este es un episodio de {{duration}} a un ritmo conversacional natural (~150 palabras/minuto).
+- El guion total debe tener {{minWords}}-{{maxWords}} palabras. NO exceder {{maxWords}} palabras.
+- Cubrir las {{stories}} historias más importantes. Profundidad sobre amplitud — no apresurarse.{{brevity}}`,
+    brevity: '\n- Cada línea debe tener una o dos oraciones cortas. Sin rodeos.',
+    marker: `- Justo antes de la primera línea de CADA historia, escribir una línea propia con el marcador "[STORY: titular breve]" (de 2 a 6 palabras, en español). Mantener la palabra STORY tal cual. Estos marcadores no se leen en voz alta: marcan los capítulos del episodio.`,
+    rules: {
+      conversation: `REGLAS DE FORMATO:
+- CADA línea de diálogo DEBE comenzar con "{{hostLead}}:" o "{{hostExpert}}:" seguido de un espacio. Sin excepciones.
+- Cambiar de hablante cada 2-3 oraciones. Sin bloques largos de monólogo.
+- Ambos presentadores hablan aproximadamente igual. Escribir como una conversación natural de ida y vuelta.
+{{marker}}`,
+      monologue: `REGLAS DE FORMATO:
+- Este es un episodio EN SOLITARIO: {{hostLead}} es el único presentador. CADA línea DEBE comenzar con "{{hostLead}}:" seguido de un espacio. {{hostExpert}} no aparece.
+- Cada línea de 2 a 4 oraciones para que la narración respire. Hablarle directamente al oyente.
+{{marker}}`,
+      interview: `REGLAS DE FORMATO:
+- {{hostLead}} entrevista a {{hostExpert}}, que participa como analista invitado. CADA línea DEBE comenzar con "{{hostLead}}:" o "{{hostExpert}}:" seguido de un espacio.
+- {{hostLead}} hace preguntas breves y directas (1-2 oraciones); {{hostExpert}} da las respuestas de fondo (3-5 oraciones) y habla la mayor parte del tiempo.
+- Repreguntar sobre las respuestas de {{hostExpert}} en lugar de pasar al siguiente tema tras una sola pregunta.
+{{marker}}`,
+    },
+    structure: {
+      conversation: `Estructura:
+{{hostLead}}: [Bienvenida a VoxTrends + gancho — el detalle más sorprendente]
+{{hostExpert}}: [Reaccionar, añadir contexto — máximo 2 oraciones]
+{{hostLead}}: [Pregunta de seguimiento o transición]
+[STORY: Titular de la primera historia]
+{{hostExpert}}: [Primera historia — 2-3 oraciones con detalles específicos]
+{{hostLead}}: [Comentario o puente a la siguiente historia]
+[STORY: Titular de la segunda historia]
+{{hostExpert}}: [Segunda historia — 2-3 oraciones]
+... [continuar alternando, máximo {{stories}} historias]
+{{hostLead}}: [Despedida de VoxTrends]`,
+      monologue: `Estructura:
+{{hostLead}}: [Bienvenida a VoxTrends + gancho — el detalle más sorprendente]
+[STORY: Titular de la primera historia]
+{{hostLead}}: [Primera historia — qué pasó, con detalles específicos]
+{{hostLead}}: [Por qué importa y qué se desconoce todavía]
+[STORY: Titular de la segunda historia]
+{{hostLead}}: [Segunda historia]
+... [continuar hasta cubrir las {{stories}} historias]
+{{hostLead}}: [Despedida de VoxTrends]`,
+      interview: `Estructura:
+{{hostLead}}: [Bienvenida a VoxTrends + presentar a {{hostExpert}} como invitado de hoy]
+{{hostExpert}}: [Saludo breve — 1 oración]
+[STORY: Titular de la primera historia]
+{{hostLead}}: [Pregunta sobre la primera historia]
+{{hostExpert}}: [Respuesta con detalles específicos]
+{{hostLead}}: [Repregunta]
+{{hostExpert}}: [Respuesta más profunda — contexto, partes interesadas, lo que falta]
+[STORY: Titular de la segunda historia]
+... [continuar hasta cubrir las {{stories}} historias]
+{{hostLead}}: [Agradecer a {{hostExpert}} + despedida de VoxTrends]`,
+    },
+    continuity: {
+      intro: `CONTINUIDAD — COBERTURA PREVIA:
+Algunas de estas historias continúan la cobertura anterior de VoxTrends. Cuando un presentador introduzca una de ellas, que la conecte brevemente (ej., "como les contamos el martes...") y luego se centre en lo nuevo:
+{{items}}
+
+`,
+      item: '- "{{headline}}" da seguimiento a "{{previousHeadline}}", que cubrimos {{when}}.',
+      earlierToday: 'hoy más temprano',
+      onDay: 'el {{day}}',
+    },
+    body: `Estás escribiendo un guion de podcast para VoxTrends, un programa diario de noticias comprometido con la precisión factual y la integridad editorial. Crea un episodio de {{duration}} basado en estas tendencias: {{trends}}.
+
+Presentadores:
+- {{hostLead}}: Presentador principal enérgico y carismático. Persona real, personalidad cálida.
+- {{hostExpert}}: Experto investigador inteligente y analítico. Fundamentado y agudo.
+
+INTEGRIDAD EDITORIAL — APLICAR AL GUION:
+- PRESENTAR MÚLTIPLES PUNTOS DE VISTA: Al cubrir temas divisivos, los presentadores deben reconocer diferentes perspectivas naturalmente (ej., "{{analyst}}: Los partidarios argumentan X, mientras que los críticos señalan Y"). Nunca presentar un solo lado como si fuera la única visión.
+- HECHO vs. OPINIÓN: Usar señales conversacionales para distinguir hechos de opiniones (ej., "los datos muestran," "los oficiales confirmaron," "los críticos afirman," "permanece bajo investigación").
+- TONO NEUTRAL: Evitar lenguaje inflamatorio. Los presentadores son informativos y curiosos, no sentenciosos ni sensacionalistas.
+- SEÑALAR INCERTIDUMBRE: Si faltan detalles clave o están en disputa, decirlo conversacionalmente (ej., "{{hostLead}}: Los oficiales aún no han respondido, así que tendremos que ver cómo se desarrolla esto").
+
+MARCA — NO NEGOCIABLE:
+- La PRIMERA línea debe ser {{hostLead}} dando la bienvenida a los oyentes a VoxTrends POR NOMBRE y presentándose. Ejemplo: "{{hostLead}}: Bienvenidos de nuevo a VoxTrends, soy {{hostLead}} — y hoy tenemos algo grande."
+- La ÚLTIMA línea debe ser {{hostLead}} despidiéndose con VoxTrends. Ejemplo: "{{hostLead}}: Ese es tu resumen de VoxTrends para hoy. Mantente curioso, mantente agudo — soy {{hostLead}}, nos vemos la próxima vez."
+- Estos son presentadores reales con nombres. Deben sentirse como personas reales, no un resumen genérico de IA.
+
+{{continuity}}{{length}}
+
+{{rules}}
+
+{{structure}}
+
+Genera solo el texto del guion. No uses emojis.`,
+  },
+
+  Portuguese: {
+    code: 'pt',
+    version: 2,
+    length: `DURAÇÃO — ESTRITA:
+- Este é um episódio de {{duration}} em um ritmo de conversa natural (~150 palavras/minuto).
+- O roteiro completo deve ter {{minWords}}-{{maxWords}} palavras. NÃO ultrapassar {{maxWords}} palavras.
+- Cobrir as {{stories}} histórias mais importantes. Profundidade acima de amplitude — sem pressa.{{brevity}}`,
+    brevity: '\n- Cada fala deve ter uma ou duas frases curtas. Sem rodeios.',
+    marker: `- Logo antes da primeira fala de CADA história, escrever uma linha própria com o marcador "[STORY: manchete curta]" (de 2 a 6 palavras, em português). Manter a palavra STORY como está. Esses marcadores não são lidos em voz alta: eles marcam os capítulos do episódio.`,
+    rules: {
+      conversation: `REGRAS DE FORMATO:
+- TODA fala DEVE começar com "{{hostLead}}:" ou "{{hostExpert}}:" seguido de um espaço. Sem exceções.
+- Alternar o apresentador a cada 2-3 frases. Sem longos blocos de monólogo.
+- Os dois apresentadores falam mais ou menos o mesmo tempo. Escrever como uma conversa natural de vai e vem.
+{{marker}}`,
+      monologue: `REGRAS DE FORMATO:
+- Este é um episódio SOLO: {{hostLead}} é o único apresentador. TODA fala DEVE começar com "{{hostLead}}:" seguido de um espaço. {{hostExpert}} não aparece.
+- Cada fala com 2 a 4 frases para que a narração respire. Falar diretamente com o ouvinte.
+{{marker}}`,
+      interview: `REGRAS DE FORMATO:
+- {{hostLead}} entrevista {{hostExpert}}, que participa como analista convidado. TODA fala DEVE começar com "{{hostLead}}:" ou "{{hostExpert}}:" seguido de um espaço.
+- {{hostLead}} faz perguntas curtas e diretas (1-2 frases); {{hostExpert}} dá as respostas de fundo (3-5 frases) e fala a maior parte do tempo.
+- Aprofundar as respostas de {{hostExpert}} em vez de mudar de assunto após uma única pergunta.
+{{marker}}`,
+    },
+    structure: {
+      conversation: `Estrutura:
+{{hostLead}}: [Boas-vindas ao VoxTrends + gancho — o detalhe mais surpreendente]
+{{hostExpert}}: [Reagir, acrescentar contexto — no máximo 2 frases]
+{{hostLead}}: [Pergunta de acompanhamento ou transição]
+[STORY: Manchete da primeira história]
+{{hostExpert}}: [Primeira história — 2-3 frases com detalhes específicos]
+{{hostLead}}: [Comentário ou ponte para a próxima história]
+[STORY: Manchete da segunda história]
+{{hostExpert}}: [Segunda história — 2-3 frases]
+... [continuar alternando, no máximo {{stories}} histórias]
+{{hostLead}}: [Despedida do VoxTrends]`,
+      monologue: `Estrutura:
+{{hostLead}}: [Boas-vindas ao VoxTrends + gancho — o detalhe mais surpreendente]
+[STORY: Manchete da primeira história]
+{{hostLead}}: [Primeira história — o que aconteceu, com detalhes específicos]
+{{hostLead}}: [Por que importa e o que ainda não se sabe]
+[STORY: Manchete da segunda história]
+{{hostLead}}: [Segunda história]
+... [continuar até cobrir as {{stories}} histórias]
+{{hostLead}}: [Despedida do VoxTrends]`,
+      interview: `Estrutura:
+{{hostLead}}: [Boas-vindas ao VoxTrends + apresentar {{hostExpert}} como convidado de hoje]
+{{hostExpert}}: [Cumprimento breve — 1 frase]
+[STORY: Manchete da primeira história]
+{{hostLead}}: [Pergunta sobre a primeira história]
+{{hostExpert}}: [Resposta com detalhes específicos]
+{{hostLead}}: [Pergunta de aprofundamento]
+{{hostExpert}}: [Resposta mais profunda — contexto, partes interessadas, o que falta]
+[STORY: Manchete da segunda história]
+... [continuar até cobrir as {{stories}} histórias]
+{{hostLead}}: [Agradecer a {{hostExpert}} + despedida do VoxTrends]`,
+    },
+    continuity: {
+      intro: `CONTINUIDADE — COBERTURA ANTERIOR:
+Algumas destas histórias continuam a cobertura anterior do VoxTrends. Quando um apresentador introduzir uma delas, faça uma breve ligação (ex., "como contamos na terça-feira...") e depois foque no que há de novo:
+{{items}}
+
+`,
+      item: '- "{{headline}}" dá sequência a "{{previousHeadline}}", que cobrimos {{when}}.',
+      earlierToday: 'mais cedo hoje',
+      onDay: 'em {{day}}',
+    },
+    body: `Você está escrevendo o roteiro de um podcast para o VoxTrends, um programa diário de notícias comprometido com a precisão factual e a integridade editorial. Crie um episódio de {{duration}} com base nestas tendências: {{trends}}.
+
+Apresentadores:
+- {{hostLead}}: Apresentador principal enérgico e carismático. Pessoa real, personalidade calorosa.
+- {{hostExpert}}: Especialista em pesquisa inteligente e analítico. Ponderado e perspicaz.
+
+INTEGRIDADE EDITORIAL — APLICAR AO ROTEIRO:
+- APRESENTAR MÚLTIPLOS PONTOS DE VISTA: Ao tratar de temas divisivos, os apresentadores devem reconhecer diferentes perspectivas com naturalidade (ex., "{{analyst}}: Os apoiadores argumentam X, enquanto os críticos apontam Y"). Nunca apresentar um lado como se fosse a única visão.
+- FATO vs. OPINIÃO: Usar marcas de conversa para distinguir fatos de opiniões (ex., "os dados mostram," "as autoridades confirmaram," "os críticos afirmam," "continua sob investigação").
+- TOM NEUTRO: Evitar linguagem inflamatória. Os apresentadores são informativos e curiosos, não moralistas nem sensacionalistas.
+- SINALIZAR INCERTEZA: Se faltarem detalhes importantes ou eles estiverem em disputa, dizer isso de forma natural (ex., "{{hostLead}}: As autoridades ainda não se pronunciaram, então vamos ver como isso se desenrola").
+
+MARCA — INEGOCIÁVEL:
+- A PRIMEIRA fala deve ser de {{hostLead}} dando as boas-vindas aos ouvintes ao VoxTrends PELO NOME e se apresentando. Exemplo: "{{hostLead}}: Bem-vindos de volta ao VoxTrends, eu sou {{hostLead}} — e hoje temos uma grande."
+- A ÚLTIMA fala deve ser de {{hostLead}} se despedindo com o VoxTrends. Exemplo: "{{hostLead}}: Esse foi o seu resumo do VoxTrends de hoje. Continue curioso, continue atento — eu sou {{hostLead}}, até a próxima."
+- Estes são apresentadores reais, com nomes. Devem soar como pessoas de verdade, não como um resumo genérico de IA.
+
+{{continuity}}{{length}}
+
+{{rules}}
+
+{{structure}}
+
+Gere apenas o texto do roteiro. Não use emojis.`,
+  },
+
+  French: {
+    code: 'fr',
+    version: 2,
+    length: `DURÉE — STRICTE :
+- Ceci est un épisode de {{duration}} à un rythme de conversation naturel (~150 mots/minute).
+- Le script complet doit compter {{minWords}}-{{maxWords}} mots. Ne PAS dépasser {{maxWords}} mots.
+- Couvrir les {{stories}} sujets les plus importants. La profondeur avant l'exhaustivité — ne pas se précipiter.{{brevity}}`,
+    brevity: '\n- Chaque réplique tient en une ou deux phrases courtes. Pas de préambule.',
+    marker: `- Juste avant la première réplique de CHAQUE sujet, écrire une ligne à part avec le marqueur "[STORY: titre court]" (2 à 6 mots, en français). Garder le mot STORY tel quel. Ces marqueurs ne sont pas lus à voix haute : ils deviennent les chapitres de l'épisode.`,
+    rules: {
+      conversation: `RÈGLES DE FORMAT :
+- CHAQUE réplique DOIT commencer par "{{hostLead}}:" ou "{{hostExpert}}:" suivi d'un espace. Sans exception.
+- Changer d'intervenant toutes les 2-3 phrases. Pas de longs monologues.
+- Les deux animateurs parlent à peu près autant. Écrire comme une conversation naturelle, en aller-retour.
+{{marker}}`,
+      monologue: `RÈGLES DE FORMAT :
+- Ceci est un épisode EN SOLO : {{hostLead}} est le seul animateur. CHAQUE réplique DOIT commencer par "{{hostLead}}:" suivi d'un espace. {{hostExpert}} n'apparaît pas.
+- Chaque réplique fait 2 à 4 phrases pour laisser respirer la narration. S'adresser directement à l'auditeur.
+{{marker}}`,
+      interview: `RÈGLES DE FORMAT :
+- {{hostLead}} interviewe {{hostExpert}}, invité en tant qu'analyste. CHAQUE réplique DOIT commencer par "{{hostLead}}:" ou "{{hostExpert}}:" suivi d'un espace.
+- {{hostLead}} pose des questions courtes et directes (1-2 phrases) ; {{hostExpert}} donne les réponses de fond (3-5 phrases) et parle la plupart du temps.
+- Relancer sur les réponses de {{hostExpert}} au lieu de passer au sujet suivant après une seule question.
+{{marker}}`,
+    },
+    structure: {
+      conversation: `Structure :
+{{hostLead}}: [Bienvenue sur VoxTrends + accroche — le détail le plus surprenant]
+{{hostExpert}}: [Réagir, ajouter du contexte — 2 phrases maximum]
+{{hostLead}}: [Question de relance ou transition]
+[STORY: Titre du premier sujet]
+{{hostExpert}}: [Premier sujet — 2-3 phrases avec des détails précis]
+{{hostLead}}: [Commentaire ou transition vers le sujet suivant]
+[STORY: Titre du deuxième sujet]
+{{hostExpert}}: [Deuxième sujet — 2-3 phrases]
+... [continuer en alternant, {{stories}} sujets maximum]
+{{hostLead}}: [Conclusion VoxTrends]`,
+      monologue: `Structure :
+{{hostLead}}: [Bienvenue sur VoxTrends + accroche — le détail le plus surprenant]
+[STORY: Titre du premier sujet]
+{{hostLead}}: [Premier sujet — ce qui s'est passé, avec des détails précis]
+{{hostLead}}: [Pourquoi c'est important et ce qu'on ignore encore]
+[STORY: Titre du deuxième sujet]
+{{hostLead}}: [Deuxième sujet]
+... [continuer jusqu'à couvrir les {{stories}} sujets]
+{{hostLead}}: [Conclusion VoxTrends]`,
+      interview: `Structure :
+{{hostLead}}: [Bienvenue sur VoxTrends + présenter {{hostExpert}} comme invité du jour]
+{{hostExpert}}: [Bref bonjour — 1 phrase]
+[STORY: Titre du premier sujet]
+{{hostLead}}: [Question sur le premier sujet]
+{{hostExpert}}: [Réponse avec des détails précis]
+{{hostLead}}: [Question de relance]
+{{hostExpert}}: [Réponse approfondie — contexte, parties prenantes, ce qui manque]
+[STORY: Titre du deuxième sujet]
+... [continuer jusqu'à couvrir les {{stories}} sujets]
+{{hostLead}}: [Remercier {{hostExpert}} + conclusion VoxTrends]`,
+    },
+    continuity: {
+      intro: `CONTINUITÉ — COUVERTURE PRÉCÉDENTE :
+Certaines de ces histoires prolongent une couverture précédente de VoxTrends. Quand un animateur en présente une, il fait brièvement le lien (ex. « comme nous vous le disions mardi... ») puis se concentre sur ce qui est nouveau :
+{{items}}
+
+`,
+      item: "- « {{headline}} » fait suite à « {{previousHeadline}} », que nous avons couvert {{when}}.",
+      earlierToday: "plus tôt aujourd'hui",
+      onDay: 'le {{day}}',
+    },
+    body: `Tu écris le script d'un podcast pour VoxTrends, une émission d'actualité quotidienne attachée à l'exactitude des faits et à l'intégrité éditoriale. Crée un épisode de {{duration}} à partir de ces tendances : {{trends}}.
+
+Animateurs :
+- {{hostLead}} : Animateur principal énergique et charismatique. Une vraie personne, chaleureuse.
+- {{hostExpert}} : Experte ou expert en recherche, intelligent et analytique. Posé et incisif.
+
+INTÉGRITÉ ÉDITORIALE — À APPLIQUER AU SCRIPT :
+- PRÉSENTER PLUSIEURS POINTS DE VUE : Sur les sujets clivants, les animateurs reconnaissent naturellement les différentes perspectives (ex. « {{analyst}}: Les partisans avancent X, tandis que les critiques soulignent Y »). Ne jamais présenter un seul camp comme s'il était le seul point de vue.
+- FAIT vs. OPINION : Utiliser des repères conversationnels pour distinguer les faits des opinions (ex. « les données montrent », « les autorités ont confirmé », « les critiques affirment », « l'enquête est en cours »).
+- TON NEUTRE : Éviter le langage incendiaire. Les animateurs sont informatifs et curieux, ni moralisateurs ni sensationnalistes.
+- SIGNALER L'INCERTITUDE : Si des détails clés manquent ou sont contestés, le dire naturellement (ex. « {{hostLead}}: Les autorités n'ont pas encore réagi, on verra comment ça évolue »).
+
+IDENTITÉ — NON NÉGOCIABLE :
+- La PREMIÈRE réplique est celle de {{hostLead}}, qui accueille les auditeurs sur VoxTrends EN NOMMANT l'émission et se présente. Exemple : « {{hostLead}}: Bon retour sur VoxTrends, ici {{hostLead}} — et aujourd'hui, on a du lourd. »
+- La DERNIÈRE réplique est celle de {{hostLead}}, qui conclut avec VoxTrends. Exemple : « {{hostLead}}: C'était votre point VoxTrends du jour. Restez curieux, restez vigilants — ici {{hostLead}}, à la prochaine. »
+- Ce sont de vrais animateurs, avec des noms. Ils doivent sonner comme de vraies personnes, pas comme un résumé générique d'IA.
+
+{{continuity}}{{length}}
+
+{{rules}}
+
+{{structure}}
+
+Produis uniquement le texte du script. N'utilise pas d'emojis.`,
+  },
+
+  German: {
+    code: 'de',
+    version: 2,
+    length: `LÄNGE — STRIKT:
+- Dies ist eine {{duration}}-Folge in natürlichem Gesprächstempo (~150 Wörter/Minute).
+- Das gesamte Skript muss {{minWords}}-{{maxWords}} Wörter lang sein. {{maxWords}} Wörter NICHT überschreiten.
+- Die {{stories}} wichtigsten Geschichten behandeln. Tiefe vor Breite — nichts überstürzen.{{brevity}}`,
+    brevity: '\n- Jede Zeile besteht aus ein oder zwei kurzen Sätzen. Keine Floskeln.',
+    marker: `- Direkt vor der ersten Zeile JEDER Geschichte eine eigene Zeile mit der Markierung "[STORY: kurze Schlagzeile]" schreiben (2-6 Wörter, auf Deutsch). Das Wort STORY unverändert lassen. Diese Markierungen werden nicht vorgelesen: Sie werden zu den Kapiteln der Folge.`,
+    rules: {
+      conversation: `FORMATREGELN:
+- JEDE Dialogzeile MUSS mit "{{hostLead}}:" oder "{{hostExpert}}:" gefolgt von einem Leerzeichen beginnen. Ohne Ausnahme.
+- Alle 2-3 Sätze die Sprecher wechseln. Keine langen Monologblöcke.
+- Beide Moderatoren sprechen ungefähr gleich viel. Als natürliches Hin und Her schreiben.
+{{marker}}`,
+      monologue: `FORMATREGELN:
+- Dies ist eine SOLO-Folge: {{hostLead}} ist die einzige moderierende Person. JEDE Zeile MUSS mit "{{hostLead}}:" gefolgt von einem Leerzeichen beginnen. {{hostExpert}} kommt nicht vor.
+- Jede Zeile umfasst 2-4 Sätze, damit der Vortrag atmen kann. Die Zuhörer direkt ansprechen.
+{{marker}}`,
+      interview: `FORMATREGELN:
+- {{hostLead}} interviewt {{hostExpert}}, die oder der als Gastanalyst dabei ist. JEDE Zeile MUSS mit "{{hostLead}}:" oder "{{hostExpert}}:" gefolgt von einem Leerzeichen beginnen.
+- {{hostLead}} stellt kurze, gezielte Fragen (1-2 Sätze); {{hostExpert}} gibt die inhaltlichen Antworten (3-5 Sätze) und spricht den Großteil der Zeit.
+- Bei den Antworten von {{hostExpert}} nachhaken, statt nach einer einzigen Frage zum nächsten Thema zu springen.
+{{marker}}`,
+    },
+    structure: {
+      conversation: `Struktur:
+{{hostLead}}: [Begrüßung bei VoxTrends + Aufhänger — das überraschendste Detail]
+{{hostExpert}}: [Reagieren, Kontext ergänzen — höchstens 2 Sätze]
+{{hostLead}}: [Nachfrage oder Überleitung]
+[STORY: Schlagzeile der ersten Geschichte]
+{{hostExpert}}: [Erste Geschichte — 2-3 Sätze mit konkreten Details]
+{{hostLead}}: [Kommentar oder Überleitung zur nächsten Geschichte]
+[STORY: Schlagzeile der zweiten Geschichte]
+{{hostExpert}}: [Zweite Geschichte — 2-3 Sätze]
+... [abwechselnd fortfahren, höchstens {{stories}} Geschichten]
+{{hostLead}}: [VoxTrends-Verabschiedung]`,
+      monologue: `Struktur:
+{{hostLead}}: [Begrüßung bei VoxTrends + Aufhänger — das überraschendste Detail]
+[STORY: Schlagzeile der ersten Geschichte]
+{{hostLead}}: [Erste Geschichte — was passiert ist, mit konkreten Details]
+{{hostLead}}: [Warum es wichtig ist und was noch unklar ist]
+[STORY: Schlagzeile der zweiten Geschichte]
+{{hostLead}}: [Zweite Geschichte]
+... [fortfahren, bis alle {{stories}} Geschichten behandelt sind]
+{{hostLead}}: [VoxTrends-Verabschiedung]`,
+      interview: `Struktur:
+{{hostLead}}: [Begrüßung bei VoxTrends + {{hostExpert}} als heutigen Gast vorstellen]
+{{hostExpert}}: [Kurze Begrüßung — 1 Satz]
+[STORY: Schlagzeile der ersten Geschichte]
+{{hostLead}}: [Frage zur ersten Geschichte]
+{{hostExpert}}: [Antwort mit konkreten Details]
+{{hostLead}}: [Nachfrage]
+{{hostExpert}}: [Vertiefende Antwort — Kontext, Beteiligte, was fehlt]
+[STORY: Schlagzeile der zweiten Geschichte]
+... [fortfahren, bis alle {{stories}} Geschichten behandelt sind]
+{{hostLead}}: [{{hostExpert}} danken + VoxTrends-Verabschiedung]`,
+    },
+    continuity: {
+      intro: `KONTINUITÄT — FRÜHERE BERICHTERSTATTUNG:
+Einige dieser Geschichten setzen frühere VoxTrends-Berichte fort. Wenn ein Host eine davon einführt, knüpft er kurz daran an (z. B. „wie wir am Dienstag berichtet haben...“) und konzentriert sich dann auf das Neue:
+{{items}}
+
+`,
+      item: '- „{{headline}}“ knüpft an „{{previousHeadline}}“ an, worüber wir {{when}} berichtet haben.',
+      earlierToday: 'heute früher',
+      onDay: 'am {{day}}',
+    },
+    body: `Du schreibst ein Podcast-Skript für VoxTrends, eine tägliche Nachrichtensendung, die sich sachlicher Genauigkeit und redaktioneller Integrität verpflichtet. Erstelle eine {{duration}}-Folge auf Grundlage dieser Trends: {{trends}}.
+
+Moderation:
+- {{hostLead}}: Energiegeladene, charismatische Hauptmoderation. Echte Person, warmherzige Persönlichkeit.
+- {{hostExpert}}: Kluge, analytische Rechercheexpertise. Bodenständig und scharfsinnig.
+
+REDAKTIONELLE INTEGRITÄT — IM SKRIPT ANWENDEN:
+- MEHRERE SICHTWEISEN ZEIGEN: Bei spaltenden Themen sollen die Moderatoren verschiedene Perspektiven ganz natürlich anerkennen (z. B. „{{analyst}}: Befürworter argumentieren X, während Kritiker auf Y verweisen“). Nie eine Seite so darstellen, als wäre sie die einzige Sicht.
+- FAKT vs. MEINUNG: Mit Gesprächssignalen Fakten von Meinungen trennen (z. B. „die Daten zeigen“, „Behörden bestätigten“, „Kritiker behaupten“, „wird noch untersucht“).
+- NEUTRALER TON: Aufwiegelnde Sprache vermeiden. Die Moderatoren sind informativ und neugierig, weder belehrend noch reißerisch.
+- UNSICHERHEIT KENNZEICHNEN: Fehlen wichtige Details oder sind sie umstritten, das im Gespräch sagen (z. B. „{{hostLead}}: Die Behörden haben sich noch nicht geäußert, wir müssen also abwarten, wie sich das entwickelt“).
+
+MARKE — NICHT VERHANDELBAR:
+- Die ERSTE Zeile gehört {{hostLead}}, die oder der die Zuhörer bei VoxTrends MIT NAMEN begrüßt und sich vorstellt. Beispiel: „{{hostLead}}: Willkommen zurück bei VoxTrends, ich bin {{hostLead}} — und heute haben wir einiges vor.“
+- Die LETZTE Zeile gehört {{hostLead}}, die oder der sich mit VoxTrends verabschiedet. Beispiel: „{{hostLead}}: Das war dein VoxTrends-Briefing für heute. Bleib neugierig, bleib wach — ich bin {{hostLead}}, bis zum nächsten Mal.“
+- Das sind echte Moderatoren mit Namen. Sie sollen wie echte Menschen wirken, nicht wie eine generische KI-Zusammenfassung.
+
+{{continuity}}{{length}}
+
+{{rules}}
+
+{{structure}}
+
+Gib nur den Skripttext aus. Verwende keine Emojis.`,
+  },
+};
+
+// ==================== LANGUAGE CORRECTION ====================
+// Prepended to a step's prompt when its previous attempt came back in the wrong
+// language (see generate-edition). Languages without an entry use the English one.
+
+const LANGUAGE_RETRY_TEMPLATES: Record<string, string> = {
+  English: 'LANGUAGE CORRECTION: Your previous answer was not written in {{language}}. Write your ENTIRE answer in {{language}} — every heading, sentence and quote. Translate any source material into {{language}}.\n\n',
+  Spanish: 'CORRECCIÓN DE IDIOMA: Tu respuesta anterior no estaba escrita en español. Escribe TODA tu respuesta en español: cada encabezado, cada oración y cada cita. Traduce al español cualquier material de origen.\n\n',
+  Portuguese: 'CORREÇÃO DE IDIOMA: Sua resposta anterior não estava escrita em português. Escreva TODA a sua resposta em português: cada título, cada frase e cada citação. Traduza para o português qualquer material de origem.\n\n',
+  French: "CORRECTION DE LANGUE : Ta réponse précédente n'était pas rédigée en français. Rédige TOUTE ta réponse en français : chaque titre, chaque phrase et chaque citation. Traduis en français tout document source.\n\n",
+  German: 'SPRACHKORREKTUR: Deine vorherige Antwort war nicht auf Deutsch verfasst. Schreibe deine GESAMTE Antwort auf Deutsch — jede Überschrift, jeden Satz und jedes Zitat. Übersetze alle Quellen ins Deutsche.\n\n',
+};
+
+// ==================== RENDERING ====================
+
+// Fills {{name}} placeholders. A placeholder without a variable is a template bug,
+// so it throws rather than sending the literal braces to the model.
+export function renderTemplate(template: string, vars: PromptVars): string {
+  return template.replace(/\{\{(\w+)\}\}/g, (_match, name: string) => {
+    if (!Object.hasOwn(vars, name)) {
+      throw new Error(`Prompt template is missing variable "${name}"`);
+    }
+    return String(vars[name]);
+  });
+}
+
+// Languages without their own template use the English one, whose preamble
+// tells the model to research and write in the requested language.
+function templateFor<T>(templates: Record<string, T>, language: string): T {
+  return templates[language] ?? templates.English;
+}
+
+export function promptVersion(step: PromptStep, language: string): string {
+  const template = step === 'news'
+    ? templateFor(NEWS_TEMPLATES, language)
+    : templateFor(SCRIPT_TEMPLATES, language);
+  return `${step}.${template.code}@${template.version}`;
+}
+
+export function promptLanguages(step: PromptStep): string[] {
+  return Object.keys(step === 'news' ? NEWS_TEMPLATES : SCRIPT_TEMPLATES);
+}
+
+function languageCorrection(language: string, strictLanguage: boolean | undefined): string {
+  return strictLanguage ? renderTemplate(templateFor(LANGUAGE_RETRY_TEMPLATES, language), { language }) : '';
+}
+
+export interface NewsPromptOptions {
+  region: string;
+  language: string;
+  editionType?: string;
+  previousTopics?: string;
+  channel?: TopicChannel;
+  breakingTopic?: string;         // The spiking topic a Breaking bulletin covers
+  date?: Date;
+  strictLanguage?: boolean;       // Retry after output in the wrong language
+}
+
+export function buildNewsPrompt(options: NewsPromptOptions): RenderedPrompt {
+  const { region, language, editionType = 'Daily', previousTopics = '', channel, breakingTopic, date = new Date(), strictLanguage } = options;
+  const template = templateFor(NEWS_TEMPLATES, language);
+  const vars: PromptVars = { region, language };
+  const focus = template.focus[editionType as EditionFocus] ?? template.focus.Daily;
+
+  // Topic channels narrow the briefing to the user's beat instead of a time of day
+  const list = (items: string[]) => items.map((item) => `"${item}"`).join(', ');
+  const thematicFocus = channel
+    ? [
+        renderTemplate(template.channel.scope, { channelName: channel.name, keywords: list(channel.include_keywords) }),
+        channel.exclude_keywords.length ? renderTemplate(template.channel.exclude, { keywords: list(channel.exclude_keywords) }) : '',
+        channel.preferred_sources.length ? renderTemplate(template.channel.sources, { sources: list(channel.preferred_sources) }) : '',
+      ].filter(Boolean).join('\n')
+    : breakingTopic
+      ? renderTemplate(template.breaking, { topic: breakingTopic })
+      : focus.theme;
+
+  // Every language but English opens with a native-language directive so the
+  // model's internal search queries fire in the target language from the very
+  // first token — otherwise googleSearch defaults to English regardless of later
+  // instructions.
+  const prompt = renderTemplate(template.body, {
+    ...vars,
+    preamble: language !== 'English' ? renderTemplate(template.preamble, vars) : '',
+    // The region's own calendar day: Asia's Morning edition runs while it is still yesterday in UTC
+    date: date.toLocaleDateString(template.locale, { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric', timeZone: getRegion(region)?.timezone ?? 'UTC' }),
+    timeFocus: focus.time,
+    thematicFocus,
+    format: renderTemplate(template.format, { storyShape: STORY_JSON_SHAPE }),
+    dedup: previousTopics ? renderTemplate(template.dedup, { previousTopics }) : '',
+  });
+
+  return { prompt: languageCorrection(language, strictLanguage) + prompt, version: promptVersion('news', language) };
+}
+
+// "as we reported on Tuesday": earlier days are named by weekday and date in the
+// edition language, same-day follow-ups as earlier today
+function continuity(template: ScriptTemplate, language: string, region: string, priorCoverage: PriorCoverage[], date: Date): string {
+  if (!priorCoverage.length) return '';
+  // previousDate is the date the earlier edition was filed under, i.e. the region's
+  const today = regionDate(region, date);
+  const { locale } = templateFor(NEWS_TEMPLATES, language);
+  const items = priorCoverage.map(({ headline, previousHeadline, previousDate }) => renderTemplate(template.continuity.item, {
+    headline,
+    previousHeadline,
+    when: previousDate === today
+      ? template.continuity.earlierToday
+      : renderTemplate(template.continuity.onDay, {
+        day: new Date(`${previousDate}T12:00:00Z`).toLocaleDateString(locale, { weekday: 'long', month: 'long', day: 'numeric', timeZone: 'UTC' }),
+      }),
+  }));
+  return renderTemplate(template.continuity.intro, { items: items.join('\n') });
+}
+
+export interface ScriptPromptOptions {
+  trends: string;
+  language: string;
+  format: EpisodeFormat;
+  hostLead: string;
+  hostExpert: string;
+  priorCoverage?: PriorCoverage[];  // Stories that follow up earlier editions
+  region?: string;                  // Whose calendar "today" is; Global (UTC) by default
+  date?: Date;
+  strictLanguage?: boolean;
+}
+
+export function buildScriptPrompt(options: ScriptPromptOptions): RenderedPrompt {
+  const { trends, language, format, hostLead, hostExpert, priorCoverage = [], region = 'Global', date = new Date(), strictLanguage } = options;
+  const template = templateFor(SCRIPT_TEMPLATES, language);
+  const { duration, words, stories, style } = format;
+  const vars: PromptVars = { hostLead, hostExpert, duration, stories, minWords: words.min, maxWords: words.max };
+
+  const prompt = renderTemplate(template.body, {
+    ...vars,
+    trends,
+    // Solo episodes have no analyst, so the lead voices the integrity examples too
+    analyst: style === 'monologue' ? hostLead : hostExpert,
+    length: renderTemplate(template.length, { ...vars, brevity: words.max < 200 ? template.brevity : '' }),
+    rules: renderTemplate(template.rules[style], { ...vars, marker: template.marker }),
+    structure: renderTemplate(template.structure[style], vars),
+    continuity: continuity(template, language, region, priorCoverage, date),
+  });
+
+  return { prompt: languageCorrection(language, strictLanguage) + prompt, version: promptVersion('script', language) };
+}
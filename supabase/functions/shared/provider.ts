@@ -0,0 +1,51 @@
+// ==================== MODEL PROVIDER ====================
+// Every model call in the edge functions goes through this interface so the
+// pipeline can run against Gemini in production or the deterministic fake
+// (MODEL_PROVIDER=fake) offline and in tests.
+
+export interface GroundingLink {
+  uri: string;
+  title: string;
+}
+
+// A span of the answer backed by search results: its text and the indexes of the
+// grounding links that support it
+export interface GroundingSupport {
+  text: string;
+  chunks: number[];
+}
+
+// Which pipeline step is asking — providers use it to pick a model (Gemini)
+// or a fixture (fake).
+export type ModelTask = 'news' | 'script' | 'summary' | 'research' | 'answer' | 'trends';
+
+export interface TextRequest {
+  task: ModelTask;
+  prompt: string;
+  language?: string;
+  search?: boolean;  // Enable web grounding (googleSearch tool)
+  temperature?: number;
+}
+
+export interface TextResult {
+  text: string;
+  grounding: GroundingLink[];
+  supports: GroundingSupport[];
+}
+
+export interface SpeechRequest {
+  script: string;
+  languageCode: string;  // BCP-47, e.g. en-US
+  speakers: { speaker: string; voice: string }[];
+}
+
+export interface ModelProvider {
+  readonly name: string;
+  generateText(request: TextRequest): Promise<TextResult>;
+  // Returns base64 raw PCM (24kHz, 16-bit, mono) or null when the model returned no audio
+  synthesizeSpeech(request: SpeechRequest): Promise<string | null>;
+  // Returns base64 PNG bytes or null when the model returned no image
+  generateImage(prompt: string): Promise<string | null>;
+  // One embedding vector per text, in input order (used to compare stories)
+  embedTexts(texts: string[]): Promise<number[][]>;
+}
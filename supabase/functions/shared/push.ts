@@ -0,0 +1,209 @@
+// ==================== WEB PUSH ====================
+// Tells listeners an edition they follow is ready. Browsers register a push
+// subscription (public/sw.js) and store it in push_subscriptions; which editions a
+// listener follows lives in edition_follows. Messages are encrypted for each
+// subscription (RFC 8291, aes128gcm) and signed with the app's VAPID key (RFC 8292),
+// with WebCrypto only, so there is nothing to install on the edge runtime.
+
+export interface VapidKeys {
+  publicKey: string;   // base64url, uncompressed P-256 point (65 bytes)
+  privateKey: string;  // base64url, P-256 private scalar (32 bytes)
+  subject: string;     // mailto: or https: contact for push services
+}
+
+export interface PushSubscriptionKeys {
+  endpoint: string;
+  p256dh: string;  // base64url, the browser's P-256 public key
+  auth: string;    // base64url, 16-byte auth secret
+}
+
+export interface PushMessage {
+  title: string;
+  body: string;
+  url: string;  // Opened when the notification is clicked
+  tag: string;  // A newer message with the same tag replaces the older one
+}
+
+const RECORD_SIZE = 4096;
+const PUSH_TTL_SECONDS = 6 * 60 * 60;  // An edition alert is stale after a few hours
+const encoder = new TextEncoder();
+
+// ==================== ENCODING ====================
+
+export function base64UrlEncode(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+export function base64UrlDecode(value: string) {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+}
+
+function concat(...parts: Uint8Array[]) {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+async function hkdf(salt: BufferSource, ikm: BufferSource, info: BufferSource, length: number) {
+  const key = await crypto.subtle.importKey('raw', ikm, 'HKDF', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'HKDF', hash: 'SHA-256', salt, info }, key, length * 8);
+  return new Uint8Array(bits);
+}
+
+// ==================== ENCRYPTION ====================
+
+// RFC 8291: one aes128gcm record keyed from an ECDH exchange with the subscription's key
+export async function encryptPayload(payload: Uint8Array, subscription: Pick<PushSubscriptionKeys, 'p256dh' | 'auth'>) {
+  const uaPublic = base64UrlDecode(subscription.p256dh);
+  const authSecret = base64UrlDecode(subscription.auth);
+
+  const local = await crypto.subtle.generateKey({ name: 'ECDH', namedCurve: 'P-256' }, true, ['deriveBits']) as CryptoKeyPair;
+  const asPublic = new Uint8Array(await crypto.subtle.exportKey('raw', local.publicKey));
+  const uaKey = await crypto.subtle.importKey('raw', uaPublic, { name: 'ECDH', namedCurve: 'P-256' }, false, []);
+  const ecdhSecret = new Uint8Array(await crypto.subtle.deriveBits({ name: 'ECDH', public: uaKey }, local.privateKey, 256));
+
+  const keyInfo = concat(encoder.encode('WebPush: info\0'), uaPublic, asPublic);
+  const ikm = await hkdf(authSecret, ecdhSecret, keyInfo, 32);
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const cek = await hkdf(salt, ikm, encoder.encode('Content-Encoding: aes128gcm\0'), 16);
+  const nonce = await hkdf(salt, ikm, encoder.encode('Content-Encoding: nonce\0'), 12);
+
+  // 0x02 marks the last (and only) record
+  const key = await crypto.subtle.importKey('raw', cek, 'AES-GCM', false, ['encrypt']);
+  const ciphertext = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv: nonce }, key, concat(payload, new Uint8Array([2]))));
+
+  const header = new Uint8Array(21);
+  header.set(salt);
+  new DataView(header.buffer).setUint32(16, RECORD_SIZE);
+  header[20] = asPublic.length;
+  return concat(header, asPublic, ciphertext);
+}
+
+// ==================== VAPID ====================
+
+// RFC 8292: an ES256 JWT for the push service's origin, sent with the public key
+export async function vapidAuthorization(endpoint: string, vapid: VapidKeys, now: Date = new Date()): Promise<string> {
+  const publicKey = base64UrlDecode(vapid.publicKey);
+  const signingKey = await crypto.subtle.importKey('jwk', {
+    kty: 'EC',
+    crv: 'P-256',
+    x: base64UrlEncode(publicKey.slice(1, 33)),
+    y: base64UrlEncode(publicKey.slice(33, 65)),
+    d: vapid.privateKey,
+  }, { name: 'ECDSA', namedCurve: 'P-256' }, false, ['sign']);
+
+  const segment = (value: unknown) => base64UrlEncode(encoder.encode(JSON.stringify(value)));
+  const unsigned = `${segment({ typ: 'JWT', alg: 'ES256' })}.${segment({
+    aud: new URL(endpoint).origin,
+    exp: Math.floor(now.getTime() / 1000) + 12 * 60 * 60,
+    sub: vapid.subject,
+  })}`;
+  const signature = await crypto.subtle.sign({ name: 'ECDSA', hash: 'SHA-256' }, signingKey, encoder.encode(unsigned));
+  return `vapid t=${unsigned}.${base64UrlEncode(new Uint8Array(signature))}, k=${vapid.publicKey}`;
+}
+
+export function vapidFromEnv(): VapidKeys | null {
+  const publicKey = Deno.env.get('VAPID_PUBLIC_KEY');
+  const privateKey = Deno.env.get('VAPID_PRIVATE_KEY');
+  if (!publicKey || !privateKey) return null;
+  return { publicKey, privateKey, subject: Deno.env.get('VAPID_SUBJECT') ?? 'mailto:alerts@voxtrends.com' };
+}
+
+// ==================== SENDING ====================
+
+export type PushSender = (subscription: PushSubscriptionKeys, message: PushMessage) => Promise<{ status: number }>;
+
+export function createPushSender(vapid: VapidKeys, fetchImpl: typeof fetch = fetch): PushSender {
+  return async (subscription, message) => {
+    const body = await encryptPayload(encoder.encode(JSON.stringify(message)), subscription);
+    const response = await fetchImpl(subscription.endpoint, {
+      method: 'POST',
+      headers: {
+        'Authorization': await vapidAuthorization(subscription.endpoint, vapid),
+        'Content-Encoding': 'aes128gcm',
+        'Content-Type': 'application/octet-stream',
+        'TTL': String(PUSH_TTL_SECONDS),
+        'Topic': message.tag.replace(/[^A-Za-z0-9_-]/g, '').slice(0, 32),
+      },
+      body,
+    });
+    await response.body?.cancel();
+    return { status: response.status };
+  };
+}
+
+// For the schedulers: null (alerts off) until VAPID keys are configured
+export function pushSenderFromEnv(): PushSender | null {
+  const vapid = vapidFromEnv();
+  return vapid ? createPushSender(vapid) : null;
+}
+
+// ==================== EDITION ALERTS ====================
+
+export interface ReadyEdition {
+  editionType: string;
+  region: string;
+  language: string;
+  headline?: string | null;  // Lead story, shown as the notification text
+}
+
+// Opens the broadcast view tuned to the edition (read by App on load)
+export function editionDeepLink(appUrl: string, edition: Pick<ReadyEdition, 'editionType' | 'region' | 'language'>): string {
+  const params = new URLSearchParams({ edition: edition.editionType, region: edition.region, language: edition.language });
+  return `${appUrl.replace(/\/$/, '')}/?${params}`;
+}
+
+// Pushes to every subscription of the edition's followers; subscriptions the push
+// service no longer knows (404/410) are removed
+export async function notifyEditionReady(
+  client: any,
+  edition: ReadyEdition,
+  send: PushSender,
+  appUrl: string
+): Promise<{ sent: number; removed: number }> {
+  const { data: follows } = await client
+    .from('edition_follows')
+    .select('user_id')
+    .eq('edition_type', edition.editionType)
+    .eq('region', edition.region)
+    .eq('language', edition.language);
+  const userIds = [...new Set((follows ?? []).map((f: any) => f.user_id))];
+  if (!userIds.length) return { sent: 0, removed: 0 };
+
+  const { data: subscriptions } = await client
+    .from('push_subscriptions')
+    .select('id, endpoint, p256dh, auth')
+    .in('user_id', userIds);
+
+  const message: PushMessage = {
+    title: `${edition.editionType} · ${edition.region}`,
+    body: edition.headline || `Your ${edition.language} briefing is ready.`,
+    url: editionDeepLink(appUrl, edition),
+    tag: `${edition.editionType}-${edition.region}-${edition.language}`,
+  };
+
+  let sent = 0;
+  const gone: string[] = [];
+  for (const subscription of subscriptions ?? []) {
+    try {
+      const { status } = await send(subscription, message);
+      if (status === 404 || status === 410) gone.push(subscription.id);
+      else if (status < 300) sent++;
+      else console.warn(`⚠️ Push service answered ${status} for ${new URL(subscription.endpoint).host}`);
+    } catch (error: any) {
+      console.warn(`⚠️ Push failed: ${error.message || error}`);
+    }
+  }
+
+  if (gone.length) await client.from('push_subscriptions').delete().in('id', gone);
+  console.log(`🔔 [${edition.editionType}] ${edition.region}/${edition.language}: pushed to ${sent} device(s)`);
+  return { sent, removed: gone.length };
+}
@@ -0,0 +1,158 @@
+// ==================== SOURCE REGISTRY ====================
+// Domain-level credibility tiers and bias labels for the outlets Gemini grounds
+// editions and research in. Grounding links are annotated with their outlet when
+// they are saved, and an edition gets a sourcing quality score from its links so
+// listeners can judge the evidence behind a briefing.
+
+import type { GroundingLink } from './provider.ts';
+
+export type SourceCredibility = 'high' | 'medium' | 'low' | 'unrated';
+export type SourceBias = 'left' | 'center-left' | 'center' | 'center-right' | 'right';
+
+export interface SourceProfile {
+  name: string;
+  credibility: Exclude<SourceCredibility, 'unrated'>;
+  bias: SourceBias | null;  // Null for institutions and reference works
+}
+
+export interface AnnotatedLink extends GroundingLink {
+  domain: string | null;
+  source: string | null;  // Outlet name, when the domain is in the registry
+  credibility: SourceCredibility;
+  bias: SourceBias | null;
+}
+
+export interface SourcingQuality {
+  score: number | null;  // 0-100; null when there are no links
+  links: number;
+  domains: number;       // Distinct outlets
+  tiers: Record<SourceCredibility, number>;
+}
+
+// Keyed by registrable domain; subdomains (edition.cnn.com, g1.globo.com) match their parent
+export const SOURCE_REGISTRY: Record<string, SourceProfile> = {
+  // Wires and international
+  'reuters.com': { name: 'Reuters', credibility: 'high', bias: 'center' },
+  'apnews.com': { name: 'Associated Press', credibility: 'high', bias: 'center' },
+  'afp.com': { name: 'AFP', credibility: 'high', bias: 'center' },
+  'efe.com': { name: 'EFE', credibility: 'high', bias: 'center' },
+  'bbc.com': { name: 'BBC', credibility: 'high', bias: 'center' },
+  'bbc.co.uk': { name: 'BBC', credibility: 'high', bias: 'center' },
+  'dw.com': { name: 'Deutsche Welle', credibility: 'high', bias: 'center' },
+  'france24.com': { name: 'France 24', credibility: 'high', bias: 'center' },
+  'aljazeera.com': { name: 'Al Jazeera', credibility: 'medium', bias: 'center-left' },
+  // English
+  'nytimes.com': { name: 'The New York Times', credibility: 'high', bias: 'center-left' },
+  'washingtonpost.com': { name: 'The Washington Post', credibility: 'high', bias: 'center-left' },
+  'theguardian.com': { name: 'The Guardian', credibility: 'high', bias: 'center-left' },
+  'npr.org': { name: 'NPR', credibility: 'high', bias: 'center-left' },
+  'wsj.com': { name: 'The Wall Street Journal', credibility: 'high', bias: 'center-right' },
+  'ft.com': { name: 'Financial Times', credibility: 'high', bias: 'center' },
+  'economist.com': { name: 'The Economist', credibility: 'high', bias: 'center' },
+  'bloomberg.com': { name: 'Bloomberg', credibility: 'high', bias: 'center' },
+  'politico.com': { name: 'Politico', credibility: 'high', bias: 'center' },
+  'axios.com': { name: 'Axios', credibility: 'high', bias: 'center' },
+  'cnbc.com': { name: 'CNBC', credibility: 'high', bias: 'center' },
+  'cnn.com': { name: 'CNN', credibility: 'medium', bias: 'center-left' },
+  'foxnews.com': { name: 'Fox News', credibility: 'medium', bias: 'right' },
+  'nypost.com': { name: 'New York Post', credibility: 'medium', bias: 'center-right' },
+  'forbes.com': { name: 'Forbes', credibility: 'medium', bias: 'center' },
+  'techcrunch.com': { name: 'TechCrunch', credibility: 'medium', bias: 'center' },
+  'theverge.com': { name: 'The Verge', credibility: 'medium', bias: 'center-left' },
+  'dailymail.co.uk': { name: 'Daily Mail', credibility: 'low', bias: 'right' },
+  'breitbart.com': { name: 'Breitbart', credibility: 'low', bias: 'right' },
+  // Spanish
+  'elpais.com': { name: 'El País', credibility: 'high', bias: 'center-left' },
+  'elmundo.es': { name: 'El Mundo', credibility: 'high', bias: 'center-right' },
+  'abc.es': { name: 'ABC', credibility: 'medium', bias: 'right' },
+  'lanacion.com.ar': { name: 'La Nación', credibility: 'high', bias: 'center-right' },
+  'clarin.com': { name: 'Clarín', credibility: 'medium', bias: 'center' },
+  'eluniversal.com.mx': { name: 'El Universal', credibility: 'medium', bias: 'center' },
+  'infobae.com': { name: 'Infobae', credibility: 'medium', bias: 'center' },
+  // Portuguese
+  'folha.uol.com.br': { name: 'Folha de S.Paulo', credibility: 'high', bias: 'center-left' },
+  'estadao.com.br': { name: 'O Estado de S. Paulo', credibility: 'high', bias: 'center-right' },
+  'globo.com': { name: 'Globo', credibility: 'high', bias: 'center' },
+  'publico.pt': { name: 'Público', credibility: 'high', bias: 'center-left' },
+  // French
+  'lemonde.fr': { name: 'Le Monde', credibility: 'high', bias: 'center-left' },
+  'lefigaro.fr': { name: 'Le Figaro', credibility: 'high', bias: 'center-right' },
+  'liberation.fr': { name: 'Libération', credibility: 'medium', bias: 'left' },
+  'francetvinfo.fr': { name: 'franceinfo', credibility: 'high', bias: 'center' },
+  // German
+  'tagesschau.de': { name: 'tagesschau', credibility: 'high', bias: 'center' },
+  'spiegel.de': { name: 'Der Spiegel', credibility: 'high', bias: 'center-left' },
+  'zeit.de': { name: 'Die Zeit', credibility: 'high', bias: 'center-left' },
+  'sueddeutsche.de': { name: 'Süddeutsche Zeitung', credibility: 'high', bias: 'center-left' },
+  'faz.net': { name: 'Frankfurter Allgemeine', credibility: 'high', bias: 'center-right' },
+  'bild.de': { name: 'Bild', credibility: 'low', bias: 'right' },
+  // Institutions and reference
+  'who.int': { name: 'World Health Organization', credibility: 'high', bias: null },
+  'un.org': { name: 'United Nations', credibility: 'high', bias: null },
+  'nature.com': { name: 'Nature', credibility: 'high', bias: null },
+  'wikipedia.org': { name: 'Wikipedia', credibility: 'medium', bias: null },
+};
+
+// How much each tier counts towards the sourcing score; unrated outlets sit
+// between medium and low rather than counting as zero
+const TIER_WEIGHTS: Record<SourceCredibility, number> = { high: 1, medium: 0.6, unrated: 0.4, low: 0.1 };
+const DIVERSE_SOURCING = 3;  // Distinct outlets for a briefing to score without a penalty
+
+// Gemini grounding URIs are redirects through vertexaisearch.cloud.google.com with the
+// outlet's domain as the title, so the title is used whenever the URI is a redirect
+export function sourceDomain(link: GroundingLink): string | null {
+  let host: string | null = null;
+  try {
+    host = new URL(link.uri).hostname.toLowerCase();
+  } catch {
+    // Fall through to the title
+  }
+  if (!host || host.endsWith('vertexaisearch.cloud.google.com')) {
+    const title = link.title?.trim().toLowerCase() ?? '';
+    host = /^[a-z0-9-]+(\.[a-z0-9-]+)+$/.test(title) ? title : null;
+  }
+  return host?.replace(/^www\./, '') ?? null;
+}
+
+export function lookupSource(domain: string | null): SourceProfile | null {
+  if (!domain) return null;
+  const labels = domain.split('.');
+  for (let i = 0; i < labels.length - 1; i++) {
+    const profile = SOURCE_REGISTRY[labels.slice(i).join('.')];
+    if (profile) return profile;
+  }
+  return null;
+}
+
+// Annotations are recomputed from uri/title, so already annotated links come out unchanged
+export function annotateLinks(links: GroundingLink[]): AnnotatedLink[] {
+  return links.map(({ uri, title }) => {
+    const domain = sourceDomain({ uri, title });
+    const profile = lookupSource(domain);
+    return {
+      uri,
+      title,
+      domain,
+      source: profile?.name ?? null,
+      credibility: profile?.credibility ?? 'unrated',
+      bias: profile?.bias ?? null,
+    };
+  });
+}
+
+// Average tier weight over distinct outlets (ten links to one site count once),
+// scaled down when fewer than DIVERSE_SOURCING outlets back the briefing
+export function sourcingQuality(links: AnnotatedLink[]): SourcingQuality {
+  const tiers: Record<SourceCredibility, number> = { high: 0, medium: 0, low: 0, unrated: 0 };
+  const outlets = new Map<string, SourceCredibility>();
+  for (const link of links) {
+    tiers[link.credibility]++;
+    outlets.set(link.source ?? link.domain ?? link.uri, link.credibility);
+  }
+  if (!outlets.size) return { score: null, links: links.length, domains: 0, tiers };
+
+  const weights = [...outlets.values()].map((tier) => TIER_WEIGHTS[tier]);
+  const average = weights.reduce((sum, weight) => sum + weight, 0) / weights.length;
+  const diversity = Math.min(1, outlets.size / DIVERSE_SOURCING);
+  return { score: Math.round(average * diversity * 100), links: links.length, domains: outlets.size, tiers };
+}
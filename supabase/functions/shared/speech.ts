@@ -0,0 +1,199 @@
+// ==================== CHUNKED SPEECH ====================
+// A full episode in one TTS call is fragile: one bad response loses the whole
+// thing and long scripts run past the model's output limit. Scripts are split on
+// speaker turns into bounded chunks, synthesized a few at a time with retries,
+// and the raw PCM is stitched back together with a short pause between chunks.
+// Chunks never straddle a story marker, so each chapter starts exactly where its
+// first chunk lands in the joined audio.
+
+import { base64ToBytes, bytesToBase64, PCM_SAMPLE_RATE } from './audio.ts';
+import { splitScriptSections, type Chapter } from './chapters.ts';
+import { timeChunkTurns, type TranscriptTurn } from './transcript.ts';
+import type { ModelProvider, SpeechRequest } from './provider.ts';
+
+export interface ChunkedSpeechOptions {
+  maxChunkChars?: number;  // Upper bound on script characters per TTS call
+  concurrency?: number;    // TTS calls in flight at once
+  maxAttempts?: number;    // Tries per chunk before the whole episode fails
+  retryDelayMs?: number;   // Base backoff, doubled on each retry
+  silenceMs?: number;      // Pause inserted between chunks
+}
+
+const DEFAULTS: Required<ChunkedSpeechOptions> = {
+  maxChunkChars: 1500,
+  concurrency: 3,
+  maxAttempts: 3,
+  retryDelayMs: 1000,
+  silenceMs: 300,
+};
+
+// A turn starts on a "Speaker: ..." line; following lines without a label belong to it
+const SPEAKER_LINE = /^\s*[\p{L}][\p{L}\s.'-]{0,40}:\s/u;
+
+// ==================== SCRIPT SPLITTING ====================
+export function splitScriptTurns(script: string): string[] {
+  const turns: string[] = [];
+  for (const line of script.split('\n')) {
+    const trimmed = line.trim();
+    if (!trimmed) continue;
+    if (SPEAKER_LINE.test(trimmed) || turns.length === 0) {
+      turns.push(trimmed);
+    } else {
+      turns[turns.length - 1] += ` ${trimmed}`;
+    }
+  }
+  return turns;
+}
+
+// Break one oversized turn at sentence boundaries, keeping the speaker label on every piece
+function splitLongTurn(turn: string, maxChars: number): string[] {
+  const label = turn.match(SPEAKER_LINE)?.[0] ?? '';
+  const body = turn.slice(label.length);
+  const sentences = body.match(/[^.!?]+[.!?]+["')\]]*\s*|[^.!?]+$/g) ?? [body];
+
+  const pieces: string[] = [];
+  let current = '';
+  for (const sentence of sentences) {
+    if (current && label.length + current.length + sentence.length > maxChars) {
+      pieces.push(label + current.trim());
+      current = '';
+    }
+    current += sentence;
+  }
+  if (current.trim()) pieces.push(label + current.trim());
+  return pieces;
+}
+
+// Group whole turns into chunks of at most maxChars; never splits mid-turn unless a turn alone is too long
+export function chunkScript(script: string, maxChars: number = DEFAULTS.maxChunkChars): string[] {
+  const chunks: string[] = [];
+  let current: string[] = [];
+  let currentLength = 0;
+
+  const flush = () => {
+    if (current.length) chunks.push(current.join('\n'));
+    current = [];
+    currentLength = 0;
+  };
+
+  for (const turn of splitScriptTurns(script)) {
+    const pieces = turn.length > maxChars ? splitLongTurn(turn, maxChars) : [turn];
+    for (const piece of pieces) {
+      if (currentLength && currentLength + piece.length + 1 > maxChars) flush();
+      current.push(piece);
+      currentLength += piece.length + 1;
+    }
+  }
+  flush();
+  return chunks;
+}
+
+// ==================== CONCURRENCY & RETRY ====================
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(Math.max(limit, 1), items.length) }, worker));
+  return results;
+}
+
+export async function withRetry<T>(
+  fn: (attempt: number) => Promise<T>,
+  maxAttempts: number,
+  baseDelayMs: number,
+  label: string = 'operation'
+): Promise<T> {
+  let lastError: unknown;
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    try {
+      return await fn(attempt);
+    } catch (error: any) {
+      lastError = error;
+      if (attempt === maxAttempts) break;
+      const delay = baseDelayMs * 2 ** (attempt - 1);
+      console.warn(`⚠️ ${label} failed (attempt ${attempt}/${maxAttempts}): ${error?.message}. Retrying in ${delay}ms`);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+  throw lastError;
+}
+
+// ==================== PCM JOINING ====================
+// Concatenate 16-bit mono PCM buffers with silenceMs of zeroed samples between them
+export function joinPcm(parts: Uint8Array[], silenceMs: number = DEFAULTS.silenceMs): Uint8Array {
+  const silenceBytes = Math.round((PCM_SAMPLE_RATE * silenceMs) / 1000) * 2;
+  const total = parts.reduce((sum, part) => sum + part.length, 0) + silenceBytes * Math.max(parts.length - 1, 0);
+
+  const joined = new Uint8Array(total);
+  let offset = 0;
+  parts.forEach((part, i) => {
+    if (i > 0) offset += silenceBytes;  // Already zero-filled
+    joined.set(part, offset);
+    offset += part.length;
+  });
+  return joined;
+}
+
+// ==================== SYNTHESIS ====================
+export interface SpeechResult {
+  pcm: string;                   // Base64 raw PCM at PCM_SAMPLE_RATE
+  chapters: Chapter[];           // Empty unless the script marked at least two sections
+  transcript: TranscriptTurn[];  // Every spoken turn with its estimated start and end
+}
+
+// Synthesizes the whole script, or throws once any chunk exhausts its retries
+export async function synthesizeChunkedSpeech(
+  provider: ModelProvider,
+  request: SpeechRequest,
+  options: ChunkedSpeechOptions = {}
+): Promise<SpeechResult> {
+  const config = { ...DEFAULTS, ...options };
+  const sections = splitScriptSections(request.script);
+  const sectionChunks = sections.map((section) => chunkScript(section.script, config.maxChunkChars));
+  const chunks = sectionChunks.flat();
+  if (chunks.length === 0) throw new Error('Script has no speakable lines');
+
+  console.log(`🎙️ Synthesizing ${chunks.length} chunk(s), ${config.concurrency} at a time`);
+
+  const parts = await mapWithConcurrency(chunks, config.concurrency, (chunk, index) =>
+    withRetry(async () => {
+      const pcm = await provider.synthesizeSpeech({ ...request, script: chunk });
+      if (!pcm) throw new Error('TTS returned empty audioContent');
+      return base64ToBytes(pcm);
+    }, config.maxAttempts, config.retryDelayMs, `TTS chunk ${index + 1}/${chunks.length}`)
+  );
+
+  const joined = joinPcm(parts, config.silenceMs);
+
+  // Byte offset of each chunk in the joined PCM; chapters read it off at the first chunk of every section
+  const silenceBytes = Math.round((PCM_SAMPLE_RATE * config.silenceMs) / 1000) * 2;
+  const toSeconds = (bytes: number) => bytes / 2 / PCM_SAMPLE_RATE;
+  const offsets: number[] = [];
+  parts.reduce((offset, part) => {
+    offsets.push(offset);
+    return offset + part.length + silenceBytes;
+  }, 0);
+
+  let firstChunk = 0;
+  const chapters = sections.flatMap((section, i) => {
+    const index = firstChunk;
+    firstChunk += sectionChunks[i].length;
+    if (sectionChunks[i].length === 0) return [];
+    return [{ title: section.title, start: Math.round(toSeconds(offsets[index]) * 100) / 100 }];
+  });
+
+  const transcript = chunks.flatMap((chunk, i) => timeChunkTurns(chunk, toSeconds(offsets[i]), toSeconds(parts[i].length)));
+
+  return { pcm: bytesToBase64(joined), chapters: chapters.length > 1 ? chapters : [], transcript };
+}
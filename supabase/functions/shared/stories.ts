@@ -0,0 +1,159 @@
+// ==================== STRUCTURED STORIES ====================
+// The news step answers with a JSON list of stories instead of one markdown blob.
+// Stories are validated here, persisted to the `stories` table and drive the
+// briefing UI, deduplication between editions and full-text search. The markdown
+// briefing (`content`) is still rendered from them for the script step and for
+// older clients.
+
+export type StorySentiment = 'positive' | 'negative' | 'neutral' | 'mixed';
+
+export interface StorySource {
+  title: string;
+  url: string;
+}
+
+export interface Story {
+  headline: string;
+  summary: string;
+  body: string;
+  entities: string[];
+  sources: StorySource[];
+  sentiment: StorySentiment;
+}
+
+export const STORY_SENTIMENTS: StorySentiment[] = ['positive', 'negative', 'neutral', 'mixed'];
+
+export const MAX_STORIES = 5;
+const MAX_HEADLINE = 200;
+const MAX_SUMMARY = 600;
+const MIN_BODY = 80;
+const MAX_ENTITIES = 12;
+const MAX_SOURCES = 8;
+
+// Shape shown to the model in every news template. Keys and sentiment values stay
+// in English whatever the edition language so one validator covers them all.
+export const STORY_JSON_SHAPE =
+  '[{"headline": "...", "summary": "...", "body": "...", "entities": ["..."], "sources": [{"title": "...", "url": "https://..."}], "sentiment": "positive" | "negative" | "neutral" | "mixed"}]';
+
+export interface StoryParseResult {
+  stories: Story[];
+  errors: string[];
+}
+
+// ==================== VALIDATION ====================
+
+const isText = (value: unknown): value is string => typeof value === 'string' && value.trim().length > 0;
+
+function isHttpUrl(value: unknown): value is string {
+  if (typeof value !== 'string') return false;
+  try {
+    const { protocol } = new URL(value);
+    return protocol === 'http:' || protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+// Checks one story against the schema. Required fields fail the story; optional
+// lists are cleaned (bad entries dropped, duplicates removed, capped).
+export function validateStory(value: unknown): { story: Story | null; errors: string[] } {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return { story: null, errors: ['story is not an object'] };
+  }
+  const raw = value as Record<string, unknown>;
+  const errors: string[] = [];
+
+  if (!isText(raw.headline)) errors.push('headline is required');
+  else if (raw.headline.trim().length > MAX_HEADLINE) errors.push(`headline is longer than ${MAX_HEADLINE} characters`);
+  if (!isText(raw.summary)) errors.push('summary is required');
+  if (!isText(raw.body)) errors.push('body is required');
+  else if (raw.body.trim().length < MIN_BODY) errors.push(`body is shorter than ${MIN_BODY} characters`);
+
+  const sentiment = typeof raw.sentiment === 'string' ? raw.sentiment.trim().toLowerCase() : '';
+  if (!STORY_SENTIMENTS.includes(sentiment as StorySentiment)) {
+    errors.push(`sentiment must be one of ${STORY_SENTIMENTS.join(', ')}`);
+  }
+  if (raw.entities !== undefined && !Array.isArray(raw.entities)) errors.push('entities must be a list');
+  if (raw.sources !== undefined && !Array.isArray(raw.sources)) errors.push('sources must be a list');
+
+  if (errors.length) return { story: null, errors };
+
+  const entities = [...new Set(((raw.entities as unknown[]) ?? []).filter(isText).map((e) => e.trim()))].slice(0, MAX_ENTITIES);
+  const sources = new Map<string, StorySource>();
+  for (const source of (raw.sources as unknown[]) ?? []) {
+    const { title, url } = (source ?? {}) as Record<string, unknown>;
+    if (!isHttpUrl(url) || sources.has(url)) continue;
+    sources.set(url, { title: isText(title) ? title.trim() : new URL(url).hostname, url });
+  }
+
+  return {
+    story: {
+      headline: (raw.headline as string).trim(),
+      summary: (raw.summary as string).trim().slice(0, MAX_SUMMARY),
+      body: (raw.body as string).trim(),
+      entities,
+      sources: [...sources.values()].slice(0, MAX_SOURCES),
+      sentiment: sentiment as StorySentiment,
+    },
+    errors: [],
+  };
+}
+
+// Extracts the story list from the model's answer. Tolerates ```json fences and
+// stray text around the array (the search-grounded call can't use JSON mode).
+// Invalid stories are dropped and reported; an answer with no valid story
+// returns an empty list so the caller can fall back to reading it as markdown.
+export function parseStories(raw: string): StoryParseResult {
+  const text = raw.replace(/```(?:json)?/gi, '').trim();
+  const start = text.search(/[[{]/);
+  const end = Math.max(text.lastIndexOf(']'), text.lastIndexOf('}'));
+  if (start === -1 || end <= start) return { stories: [], errors: ['no JSON found'] };
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text.slice(start, end + 1));
+  } catch (error: any) {
+    return { stories: [], errors: [`invalid JSON: ${error.message}`] };
+  }
+
+  const list = Array.isArray(parsed) ? parsed : (parsed as { stories?: unknown })?.stories;
+  if (!Array.isArray(list)) return { stories: [], errors: ['expected a list of stories'] };
+
+  const stories: Story[] = [];
+  const errors: string[] = [];
+  list.forEach((item, index) => {
+    const result = validateStory(item);
+    if (result.story) stories.push(result.story);
+    else errors.push(...result.errors.map((e) => `story ${index + 1}: ${e}`));
+  });
+
+  return { stories: stories.slice(0, MAX_STORIES), errors };
+}
+
+// ==================== MARKDOWN ====================
+
+// Fallback for answers that ignored the JSON format: each **Headline** line starts
+// a story and the first sentence of its body becomes the summary.
+export function storiesFromMarkdown(text: string): Story[] {
+  const parts = text.split(/^\s*(?:#+\s*)?\*\*(.+?)\*\*\s*$/m);
+  const stories: Story[] = [];
+  for (let i = 1; i < parts.length; i += 2) {
+    const body = parts[i + 1]?.trim() ?? '';
+    if (!body) continue;
+    stories.push({
+      headline: parts[i].trim(),
+      summary: body.match(/^.+?[.!?](?=\s|$)/)?.[0] ?? body.split('\n')[0],
+      body,
+      entities: [],
+      sources: [],
+      sentiment: 'neutral',
+    });
+  }
+  return stories.slice(0, MAX_STORIES);
+}
+
+// Renders stories as the **Headline** + paragraphs briefing the script step,
+// FlashDossier and older clients read from `content`.
+export function storiesToMarkdown(stories: Story[]): string {
+  return stories.map((story) => `**${story.headline}**\n\n${story.body}`).join('\n\n');
+}
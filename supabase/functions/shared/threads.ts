@@ -0,0 +1,73 @@
+// ==================== STORY THREADS ====================
+// Stories that follow up earlier coverage are linked into threads (story_threads),
+// so the script can refer back to what was already reported and listeners can see
+// every edition that touched a story. A new story joins the thread of the closest
+// recent story when their embeddings are close, or when they share most of their
+// entities and headline words; otherwise it starts a thread of its own.
+
+import { cosineSimilarity } from './dedup.ts';
+import type { Story } from './stories.ts';
+
+export const THREAD_LOOKBACK_DAYS = 7;
+export const FOLLOW_UP_SIMILARITY = 0.75;  // Embedding similarity: same story, new development
+export const FOLLOW_UP_OVERLAP = 0.5;      // Entity/headline overlap when embeddings can't tell
+
+export interface ThreadCandidate {
+  headline: string;
+  entities: string[];
+  embedding: number[] | null;
+  thread_id: string | null;
+  date: string;
+}
+
+export interface ThreadMatch {
+  threadId: string;
+  score: number;
+  previous: ThreadCandidate;  // Latest earlier story of the thread
+}
+
+// Earlier coverage of a story, as passed to the script prompt
+export interface PriorCoverage {
+  headline: string;
+  previousHeadline: string;
+  previousDate: string;  // YYYY-MM-DD
+}
+
+const keywords = (text: string) => new Set(text.toLowerCase().match(/\p{L}{4,}/gu) ?? []);
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (!a.size || !b.size) return 0;
+  const shared = [...a].filter((item) => b.has(item)).length;
+  return shared / (a.size + b.size - shared);
+}
+
+// Entities use the overlap coefficient, so a short entity list fully contained in a
+// longer one still counts as a strong match
+export function storyOverlap(a: Pick<Story, 'headline' | 'entities'>, b: Pick<Story, 'headline' | 'entities'>): number {
+  const entitiesA = new Set(a.entities.map((e) => e.toLowerCase()));
+  const entitiesB = new Set(b.entities.map((e) => e.toLowerCase()));
+  const shared = [...entitiesA].filter((e) => entitiesB.has(e)).length;
+  const entityScore = entitiesA.size && entitiesB.size ? shared / Math.min(entitiesA.size, entitiesB.size) : 0;
+  return (entityScore + jaccard(keywords(a.headline), keywords(b.headline))) / 2;
+}
+
+// Candidates without a thread (stored before threads existed) are never joined
+export function findThread(story: Story, embedding: number[] | undefined, candidates: ThreadCandidate[]): ThreadMatch | null {
+  let best: { threadId: string; score: number } | null = null;
+  for (const candidate of candidates) {
+    if (!candidate.thread_id) continue;
+    const similarity = embedding && candidate.embedding ? cosineSimilarity(embedding, candidate.embedding) : 0;
+    const overlap = storyOverlap(story, candidate);
+    if (similarity < FOLLOW_UP_SIMILARITY && overlap < FOLLOW_UP_OVERLAP) continue;
+
+    const score = Math.max(similarity, overlap);
+    if (!best || score > best.score) best = { threadId: candidate.thread_id, score };
+  }
+  if (!best) return null;
+
+  const { threadId, score } = best;
+  const previous = candidates
+    .filter((c) => c.thread_id === threadId)
+    .reduce((latest, c) => (c.date > latest.date ? c : latest));
+  return { threadId, score, previous };
+}
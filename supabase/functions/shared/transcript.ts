@@ -0,0 +1,37 @@
+// ==================== TIMED TRANSCRIPT ====================
+// TTS only tells us how long each chunk of audio is, so turns inside a chunk share
+// its duration in proportion to their length. Chunks are a few turns long, which
+// keeps the estimate within a sentence or so of the real timing.
+
+export interface TranscriptTurn {
+  speaker: string;
+  text: string;
+  start: number;  // Seconds from the start of the episode
+  end: number;
+}
+
+const TURN_LABEL = /^\s*([\p{L}][\p{L}\s.'-]{0,40}):\s+/u;
+
+export function parseTurn(line: string): { speaker: string; text: string } {
+  const label = line.match(TURN_LABEL);
+  return label
+    ? { speaker: label[1].trim(), text: line.slice(label[0].length).trim() }
+    : { speaker: '', text: line.trim() };
+}
+
+// Chunks hold one turn (or one piece of a long turn) per line
+export function timeChunkTurns(chunk: string, start: number, duration: number): TranscriptTurn[] {
+  const turns = chunk.split('\n').map(parseTurn).filter((turn) => turn.text);
+  const totalChars = turns.reduce((sum, turn) => sum + turn.text.length, 0) || 1;
+
+  let cursor = start;
+  return turns.map((turn) => {
+    const turnStart = cursor;
+    cursor += (turn.text.length / totalChars) * duration;
+    return { ...turn, start: round(turnStart), end: round(cursor) };
+  });
+}
+
+function round(seconds: number): number {
+  return Math.round(seconds * 100) / 100;
+}
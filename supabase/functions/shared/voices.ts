@@ -0,0 +1,57 @@
+// ==================== VOICE PROFILES ====================
+export const VOICE_PROFILES = {
+  'originals': {
+    hosts: { lead: 'Alex', expert: 'Jordan' },
+    voices: { lead: 'Puck', expert: 'Kore' },
+    label: 'The Originals',
+    description: 'Classic dynamic duo - upbeat and confident'
+  },
+  'deep-divers': {
+    hosts: { lead: 'Marcus', expert: 'Elena' },
+    voices: { lead: 'Charon', expert: 'Leda' },
+    label: 'The Deep-Divers',
+    description: 'Investigative pair - informative and youthful'
+  },
+  'trendspotters': {
+    hosts: { lead: 'Kai', expert: 'Sophia' },
+    voices: { lead: 'Alnilam', expert: 'Callirrhoe' },
+    label: 'The Trendspotters',
+    description: 'Energetic team - fresh perspectives on trending topics'
+  }
+} as const;
+
+export type VoiceId = keyof typeof VOICE_PROFILES;
+
+// ==================== SPEAKER REMAPPING ====================
+// The edition script is generated once and cached with one set of host names.
+// When a different voice profile is requested later, we remap the speaker labels
+// so they match what TTS expects — otherwise Gemini collapses to a single voice.
+export function remapScriptSpeakers(script: string, targetHosts: { lead: string; expert: string }): string {
+  const speakerPattern = /^([A-Za-z]+):/gm;
+  const speakers: string[] = [];
+  let match;
+  while ((match = speakerPattern.exec(script)) !== null) {
+    if (!speakers.includes(match[1])) {
+      speakers.push(match[1]);
+    }
+    if (speakers.length === 2) break;
+  }
+
+  if (speakers.length !== 2) return script;
+
+  const [existingLead, existingExpert] = speakers;
+  if (existingLead === targetHosts.lead && existingExpert === targetHosts.expert) {
+    return script; // Already matches — nothing to do
+  }
+
+  // Use placeholders to avoid double-replacement (e.g., if Alex→Marcus and Marcus→Elena)
+  let remapped = script
+    .replace(new RegExp(`^${existingLead}:`, 'gm'), '__LEAD_PLACEHOLDER__:')
+    .replace(new RegExp(`^${existingExpert}:`, 'gm'), '__EXPERT_PLACEHOLDER__:');
+  remapped = remapped
+    .replace(/__LEAD_PLACEHOLDER__:/g, `${targetHosts.lead}:`)
+    .replace(/__EXPERT_PLACEHOLDER__:/g, `${targetHosts.expert}:`);
+
+  console.log(`🔤 Remapped speakers: ${existingLead}→${targetHosts.lead}, ${existingExpert}→${targetHosts.expert}`);
+  return remapped;
+}
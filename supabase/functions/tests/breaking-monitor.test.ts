@@ -0,0 +1,139 @@
+// ==================== BREAKING NEWS TESTS ====================
+// Trend velocity and spike detection, and the breaking-monitor handler against the
+// in-memory Supabase stand-in and the fake model provider.
+
+import { assert, assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { handleMonitorRequest, type MonitorHandlerDeps } from '../breaking-monitor/handler.ts';
+import { detectSpike, parseTrendScan, trendVelocity, type TrendTopic } from '../shared/breaking.ts';
+import { FakeProvider } from '../shared/fake-provider.ts';
+import { GeminiService } from '../shared/gemini.ts';
+import { MemorySupabase } from './memory-supabase.ts';
+
+const NOW = new Date('2026-02-19T14:00:00Z');
+const minutesAgo = (minutes: number) => new Date(NOW.getTime() - minutes * 60 * 1000).toISOString();
+
+// The fixture scan: rates at 9 outlets, flood defenses at 4
+const RATES: TrendTopic = { topic: 'Central banks hold rates steady', entities: ['Central banks'], sources: 2 };
+const FLOODS: TrendTopic = { topic: 'Coastal cities expand flood defenses', entities: ['Municipal governments'], sources: 4 };
+
+// ==================== VELOCITY ====================
+Deno.test('parses a trend scan and drops malformed topics', () => {
+  const topics = parseTrendScan(`Here you go:
+[
+  {"topic": " Port strike spreads ", "entities": ["Dockworkers", 7], "sources": 7.4},
+  {"topic": "", "sources": 3},
+  {"topic": "No count"}
+]`);
+  assertEquals(topics, [{ topic: 'Port strike spreads', entities: ['Dockworkers'], sources: 7 }]);
+  assertEquals(parseTrendScan('Nothing is trending'), []);
+});
+
+Deno.test('measures velocity against the matching topic of the previous scan', () => {
+  const current = [{ ...RATES, topic: 'Central banks hold rates as inflation cools', sources: 9 }, { ...FLOODS, topic: 'Wildfire season starts early', entities: ['Fire service'] }];
+  const [rates, wildfire] = trendVelocity(current, [RATES, FLOODS]);
+
+  assertEquals(rates.previousSources, 2);
+  assertEquals(rates.velocity, 7);
+  assertEquals(wildfire.previousSources, 0);
+  assertEquals(wildfire.velocity, 4);
+});
+
+Deno.test('spikes only on a topic that is widely reported and climbing fast', () => {
+  const spike = detectSpike([{ ...RATES, sources: 9 }, FLOODS], [RATES, FLOODS]);
+  assertEquals(spike?.topic, RATES.topic);
+  assertEquals(spike?.velocity, 7);
+
+  // Widely reported but steady, and climbing but still niche
+  assertEquals(detectSpike([{ ...RATES, sources: 9 }], [{ ...RATES, sources: 8 }]), null);
+  assertEquals(detectSpike([{ ...FLOODS, sources: 5 }], [{ ...FLOODS, sources: 0 }]), null);
+  // Nothing to compare the first scan with
+  assertEquals(detectSpike([{ ...RATES, sources: 9 }], null), null);
+});
+
+// ==================== MONITOR ====================
+function setup(seed: Record<string, Record<string, any>[]> = {}) {
+  const db = new MemorySupabase({
+    users: [
+      { id: 'user-alerts', region: 'Global', language: 'English', preferences: { breakingAlerts: true } },
+      { id: 'user-quiet', region: 'Global', language: 'English', preferences: {} },
+      { id: 'user-elsewhere', region: 'USA', language: 'English', preferences: { breakingAlerts: true } },
+    ],
+    trend_scans: [],
+    notifications: [],
+    ...seed,
+  });
+
+  const bulletins: Record<string, unknown>[] = [];
+  const deps: MonitorHandlerDeps = {
+    createServiceClient: () => db.client(),
+    createGemini: () => new GeminiService(new FakeProvider()),
+    generateEdition: async (body) => {
+      bulletins.push(body);
+      return { editionId: `edition-${bulletins.length}` };
+    },
+    now: () => NOW,
+  };
+
+  const run = async (body: unknown = { regions: ['Global'], languages: ['English'] }) => {
+    const res = await handleMonitorRequest(new Request('http://localhost/breaking-monitor', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    }), deps);
+    return { status: res.status, json: await res.json() };
+  };
+
+  return { db, run, bulletins };
+}
+
+const scan = (topics: TrendTopic[], scannedAt: string, spike: unknown = null) =>
+  ({ id: crypto.randomUUID(), region: 'Global', topics, spike, scanned_at: scannedAt });
+
+Deno.test('starts a Breaking bulletin and alerts opted-in listeners on a spike', async () => {
+  const { db, run, bulletins } = setup({ trend_scans: [scan([RATES, FLOODS], minutesAgo(15))] });
+  const { status, json } = await run();
+
+  assertEquals(status, 200);
+  assertEquals(json.results[0].spike.topic, RATES.topic);
+  assertEquals(bulletins, [{
+    editionType: 'Breaking',
+    region: 'Global',
+    language: 'English',
+    topic: RATES.topic,
+    forceRefresh: true,
+    voiceId: 'originals',
+  }]);
+
+  const scans = db.table('trend_scans');
+  assertEquals(scans.length, 2);
+  assertEquals(scans[1].spike.topic, RATES.topic);
+
+  const notifications = db.table('notifications');
+  assertEquals(notifications.map((n) => n.user_id), ['user-alerts']);
+  assertEquals(notifications[0].edition_id, 'edition-1');
+  assertEquals(notifications[0].body, RATES.topic);
+});
+
+Deno.test('holds back a second bulletin within the cooldown', async () => {
+  const { db, run, bulletins } = setup({
+    trend_scans: [
+      scan([{ ...RATES, sources: 8 }], minutesAgo(60), { ...RATES, sources: 8 }),
+      scan([RATES, FLOODS], minutesAgo(15)),
+    ],
+  });
+  const { json } = await run();
+
+  assertEquals(json.results[0].cooldown, true);
+  assertEquals(bulletins.length, 0);
+  assertEquals(db.table('notifications').length, 0);
+  assertEquals(db.table('trend_scans').at(-1)!.spike, null);
+});
+
+Deno.test('records a first scan or a stale baseline without spiking', async () => {
+  const { db, run, bulletins } = setup({ trend_scans: [scan([RATES, FLOODS], minutesAgo(120))] });
+  const { json } = await run();
+
+  assertEquals(json.results[0].spike, null);
+  assertEquals(bulletins.length, 0);
+  assert(db.table('trend_scans').some((s) => s.scanned_at === NOW.toISOString()));
+});
@@ -0,0 +1,47 @@
+// ==================== CITATION TESTS ====================
+// Sentence splitting and the matching of grounding supports to briefing sentences.
+
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { citeSentences, splitSentences } from '../shared/citations.ts';
+
+const BRIEFING = [
+  '**Rail Strike Enters Its Third Day**',
+  '',
+  'Commuter services remained suspended on most lines. Union leaders and operators met again without an agreement on wages.',
+  '',
+  'Passenger groups report crowded replacement buses. Officials have not said when talks will resume.',
+].join('\n');
+
+Deno.test('splits text into sentences line by line', () => {
+  assertEquals(splitSentences(BRIEFING), [
+    '**Rail Strike Enters Its Third Day**',
+    'Commuter services remained suspended on most lines.',
+    'Union leaders and operators met again without an agreement on wages.',
+    'Passenger groups report crowded replacement buses.',
+    'Officials have not said when talks will resume.',
+  ]);
+});
+
+Deno.test('cites sentences that contain or fall inside a grounding support', () => {
+  const citations = citeSentences(BRIEFING, [
+    // A span inside one sentence, with the JSON escaping of the raw answer
+    { text: 'operators met again without an \\"agreement\\"', chunks: [1] },
+    // A span covering two sentences
+    { text: 'Passenger groups report crowded replacement buses. Officials have not said when talks will resume.', chunks: [2, 0] },
+    { text: 'Commuter services remained suspended', chunks: [0] },
+  ], 3);
+
+  assertEquals(citations, [
+    { text: 'Commuter services remained suspended on most lines.', sources: [0] },
+    { text: 'Union leaders and operators met again without an agreement on wages.', sources: [1] },
+    { text: 'Passenger groups report crowded replacement buses.', sources: [0, 2] },
+    { text: 'Officials have not said when talks will resume.', sources: [0, 2] },
+  ]);
+});
+
+Deno.test('ignores short spans and links that do not exist', () => {
+  assertEquals(citeSentences(BRIEFING, [
+    { text: 'Officials', chunks: [0] },
+    { text: 'Passenger groups report crowded replacement buses.', chunks: [5] },
+  ], 3), []);
+});
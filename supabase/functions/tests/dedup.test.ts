@@ -0,0 +1,55 @@
+// ==================== STORY DEDUP TESTS ====================
+// Cosine similarity and the drop/merge decisions made on embedded stories.
+
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { cosineSimilarity, dedupeStories } from '../shared/dedup.ts';
+import type { Story } from '../shared/stories.ts';
+
+const story = (headline: string, url: string): Story => ({
+  headline,
+  summary: `${headline} summary`,
+  body: `${headline} body`,
+  entities: [headline.split(' ')[0]],
+  sources: [{ title: headline, url }],
+  sentiment: 'neutral',
+});
+
+const RATES = story('Rates Hold', 'https://a.example/rates');
+const FLOODS = story('Flood Walls', 'https://b.example/floods');
+const RATES_AGAIN = story('Banks Pause', 'https://c.example/rates');
+
+Deno.test('measures cosine similarity and ignores vectors of another size', () => {
+  assertEquals(cosineSimilarity([1, 0], [1, 0]), 1);
+  assertEquals(cosineSimilarity([1, 0], [0, 1]), 0);
+  assertEquals(Math.round(cosineSimilarity([1, 1], [1, 0]) * 1000) / 1000, 0.707);
+  assertEquals(cosineSimilarity([1, 0], [1, 0, 0]), 0);
+  assertEquals(cosineSimilarity([0, 0], [1, 0]), 0);
+});
+
+Deno.test('drops stories that repeat a recent edition', () => {
+  const result = dedupeStories([RATES, FLOODS], [[1, 0, 0], [0, 1, 0]], [
+    { headline: 'Central Banks Hold', embedding: [0.95, 0.05, 0] },
+    { headline: 'Legacy story', embedding: null },
+  ]);
+
+  assertEquals(result.stories.map((s) => s.headline), ['Flood Walls']);
+  assertEquals(result.embeddings, [[0, 1, 0]]);
+  assertEquals(result.rejected, [{ headline: 'Rates Hold', matched: 'Central Banks Hold', similarity: 0.999 }]);
+  assertEquals(result.merged, []);
+});
+
+Deno.test('merges near-identical stories of the same briefing', () => {
+  const result = dedupeStories([RATES, FLOODS, RATES_AGAIN], [[1, 0], [0, 1], [0.98, 0.1]], []);
+
+  assertEquals(result.stories.map((s) => s.headline), ['Rates Hold', 'Flood Walls']);
+  assertEquals(result.stories[0].entities, ['Rates', 'Banks']);
+  assertEquals(result.stories[0].sources.map((s) => s.url), ['https://a.example/rates', 'https://c.example/rates']);
+  assertEquals(result.merged[0].matched, 'Rates Hold');
+  // The input stories are left untouched
+  assertEquals(RATES.entities, ['Rates']);
+});
+
+Deno.test('keeps related but distinct stories', () => {
+  const result = dedupeStories([RATES, FLOODS], [[1, 0.5], [0.5, 1]], [{ headline: 'Other', embedding: [-1, 1] }]);
+  assertEquals(result.stories.length, 2);
+});
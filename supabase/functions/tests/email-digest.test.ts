@@ -0,0 +1,200 @@
+// ==================== EMAIL DIGEST TESTS ====================
+// Sending and unsubscribing through the email-digest handler against the in-memory
+// Supabase stand-in and the capture mail transport, plus the MIME message builder.
+
+import { assert, assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { handleDigestRequest, type DigestHandlerDeps } from '../email-digest/handler.ts';
+import { renderDigest } from '../email-digest/templates.ts';
+import { regionDate } from '../shared/locales.ts';
+import { buildMimeMessage, CaptureTransport } from '../shared/mail.ts';
+import { MemorySupabase } from './memory-supabase.ts';
+
+const SERVICE_KEY = 'service-role-key';
+const FUNCTIONS_URL = 'https://project.test/functions/v1';
+
+const edition = (id: string, language: string) => ({
+  id,
+  edition_type: 'Morning',
+  region: 'USA',
+  language,
+  date: regionDate('USA'),
+  channel_id: null,
+  episode_format: 'classic',
+  flash_summary: '- Rates held\n- Flood walls funded',
+  grounding_links: [{ uri: 'https://www.reuters.com/a?x=1&y=2', title: 'reuters.com', source: 'Reuters' }],
+});
+
+const digest = (user_id: string, language: string, extra: Record<string, unknown> = {}) => ({
+  user_id,
+  region: 'USA',
+  language,
+  edition_type: 'Morning',
+  enabled: true,
+  unsubscribe_token: `token-${user_id}`,
+  last_sent_edition_id: null,
+  ...extra,
+});
+
+function setup(seed: Record<string, Record<string, any>[]> = {}) {
+  const db = new MemorySupabase({
+    users: [
+      { id: 'user-en', email: 'en@example.com' },
+      { id: 'user-es', email: 'es@example.com' },
+      { id: 'user-off', email: 'off@example.com' },
+    ],
+    daily_editions: [edition('edition-en', 'English'), edition('edition-es', 'Spanish')],
+    stories: [
+      { edition_id: 'edition-es', position: 1, headline: 'Ciudades refuerzan diques', summary: 'Obras <urgentes> en la costa.' },
+      { edition_id: 'edition-es', position: 0, headline: 'Los bancos centrales mantienen las tasas', summary: 'La inflación se modera.' },
+    ],
+    digest_subscriptions: [
+      digest('user-es', 'Spanish'),
+      digest('user-off', 'Spanish', { enabled: false }),
+      digest('user-en', 'English', { last_sent_edition_id: 'edition-en' }),
+    ],
+    ...seed,
+  });
+
+  const transport = new CaptureTransport();
+  const deps: DigestHandlerDeps = {
+    createServiceClient: () => db.client(),
+    transport: () => transport,
+    appUrl: () => 'https://app.test',
+    functionsUrl: () => FUNCTIONS_URL,
+    serviceRoleKey: () => SERVICE_KEY,
+  };
+
+  const send = async (body: unknown, key: string = SERVICE_KEY) => {
+    const res = await handleDigestRequest(new Request(`${FUNCTIONS_URL}/email-digest`, {
+      method: 'POST',
+      headers: { 'Authorization': `Bearer ${key}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    }), deps);
+    return { status: res.status, json: await res.json() };
+  };
+
+  // GET is the link being opened; POST is the confirmation form or one-click unsubscribe
+  const open = async (query: string, method = 'GET') => {
+    const res = await handleDigestRequest(new Request(`${FUNCTIONS_URL}/email-digest?${query}`, {
+      method,
+      ...(method === 'POST' ? {
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: 'List-Unsubscribe=One-Click',
+      } : {}),
+    }), deps);
+    return { status: res.status, body: await res.text() };
+  };
+
+  return { db, transport, send, open };
+}
+
+// ==================== SENDING ====================
+Deno.test('emails a localized digest to the subscribers of an edition', async () => {
+  const { db, transport, send } = setup();
+  const { status, json } = await send({ editionType: 'Morning', region: 'us', language: 'es' });
+
+  assertEquals(status, 200);
+  assertEquals(json, { success: true, sent: 1, failed: 0 });
+  assertEquals(transport.messages.length, 1);
+
+  const [message] = transport.messages;
+  assertEquals(message.to, 'es@example.com');
+  assertEquals(message.subject, 'Resumen Morning · USA');
+  assertEquals(message.headers?.['List-Unsubscribe'], `<${FUNCTIONS_URL}/email-digest?unsubscribe=token-user-es>`);
+  assertEquals(message.headers?.['List-Unsubscribe-Post'], 'List-Unsubscribe=One-Click');
+
+  // Stories in briefing order, in both bodies
+  assert(message.text.includes('Tu edición Morning para USA está lista.'));
+  assert(message.text.indexOf('Los bancos centrales') < message.text.indexOf('Ciudades refuerzan'));
+  assert(message.text.includes('- Reuters: https://www.reuters.com/a?x=1&y=2'));
+  assert(message.text.includes('Escuchar el episodio: https://app.test/?edition=Morning&region=USA&language=Spanish'));
+  assert(message.html.includes('Obras &lt;urgentes&gt; en la costa.'));
+  assert(message.html.includes('href="https://www.reuters.com/a?x=1&amp;y=2"'));
+  assert(message.html.includes('<li>Rates held</li>'));
+
+  assertEquals(db.table('digest_subscriptions').find((s) => s.user_id === 'user-es')!.last_sent_edition_id, 'edition-es');
+});
+
+Deno.test('never sends the same edition twice', async () => {
+  const { transport, send } = setup();
+  assertEquals((await send({ editionType: 'Morning', region: 'USA', language: 'English' })).json.sent, 0);
+
+  await send({ editionType: 'Morning', region: 'USA', language: 'Spanish' });
+  const { json } = await send({ editionType: 'Morning', region: 'USA', language: 'Spanish' });
+  assertEquals(json.sent, 0);
+  assertEquals(transport.messages.length, 1);
+});
+
+Deno.test('only the service role can trigger a send', async () => {
+  const { transport, send } = setup();
+  const { status } = await send({ editionType: 'Morning', region: 'USA', language: 'Spanish' }, 'user-jwt');
+  assertEquals(status, 401);
+  assertEquals(transport.messages.length, 0);
+});
+
+Deno.test('returns 404 when the edition has not been generated today', async () => {
+  const { send } = setup();
+  const { status, json } = await send({ editionType: 'Evening', region: 'USA', language: 'Spanish' });
+  assertEquals(status, 404);
+  assertEquals(json.error, 'No Evening edition for USA/Spanish today');
+});
+
+// ==================== UNSUBSCRIBE ====================
+Deno.test('opening the unsubscribe link only asks for confirmation', async () => {
+  const { db, open } = setup();
+  const { status, body } = await open('unsubscribe=token-user-es');
+
+  assertEquals(status, 200);
+  assert(body.includes('¿Dejar de recibir este resumen por correo?'));
+  assert(body.includes(`<form method="post" action="${FUNCTIONS_URL}/email-digest?unsubscribe=token-user-es">`));
+  assertEquals(db.table('digest_subscriptions').find((s) => s.user_id === 'user-es')!.enabled, true);
+});
+
+Deno.test('unsubscribes on the confirming or one-click POST', async () => {
+  const { db, transport, open, send } = setup();
+  const { status, body } = await open('unsubscribe=token-user-es', 'POST');
+
+  assertEquals(status, 200);
+  assert(body.includes('Ya no recibirás este resumen por correo.'));
+  assertEquals(db.table('digest_subscriptions').find((s) => s.user_id === 'user-es')!.enabled, false);
+
+  await send({ editionType: 'Morning', region: 'USA', language: 'Spanish' });
+  assertEquals(transport.messages.length, 0);
+  assertEquals((await open('unsubscribe=unknown', 'POST')).status, 404);
+});
+
+// ==================== TEMPLATES & MIME ====================
+Deno.test('falls back to English strings and leaves out empty sections', () => {
+  const { subject, text, html } = renderDigest({
+    editionType: 'Evening',
+    region: 'Global',
+    language: 'Italian',
+    date: '2026-02-21',
+    flashSummary: null,
+    stories: [],
+    links: [],
+    listenUrl: 'https://app.test/',
+    unsubscribeUrl: 'https://project.test/unsubscribe',
+  });
+
+  assertEquals(subject, 'Evening briefing · Global');
+  assert(text.includes('Saturday, February 21'));
+  assert(!text.includes('TOP STORIES') && !html.includes('Sources'));
+});
+
+Deno.test('builds a multipart message with encoded headers and bodies', () => {
+  const mime = buildMimeMessage('VoxTrends <digest@voxtrends.com>', {
+    to: 'es@example.com',
+    subject: 'Resumen · USA',
+    html: '<p>Hola</p>',
+    text: 'Hola',
+    headers: { 'List-Unsubscribe': '<https://project.test/u>' },
+  });
+
+  assert(mime.includes(`Subject: =?UTF-8?B?${btoa(String.fromCharCode(...new TextEncoder().encode('Resumen · USA')))}?=`));
+  assert(mime.includes('List-Unsubscribe: <https://project.test/u>'));
+  assert(mime.includes('Message-ID: <') && mime.includes('@voxtrends.com>'));
+  assert(mime.includes(btoa('Hola')) && mime.includes(btoa('<p>Hola</p>')));
+  const boundary = mime.match(/boundary="([^"]+)"/)![1];
+  assert(mime.trimEnd().endsWith(`--${boundary}--`));
+});
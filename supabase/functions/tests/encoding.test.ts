@@ -0,0 +1,61 @@
+// ==================== AUDIO ENCODING TESTS ====================
+// WAV parsing and MP3 output size/duration metadata, using the fake provider's tone.
+
+import { assert, assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { base64ToBytes, createWavHeader, PCM_SAMPLE_RATE, pcmToWav, resamplePcm16 } from '../shared/audio.ts';
+import { encodeMp3, readWav } from '../shared/encoding.ts';
+import { FakeProvider } from '../shared/fake-provider.ts';
+
+async function toneWav(lines: number): Promise<Uint8Array> {
+  const script = Array.from({ length: lines }, (_, i) => `Joe: Line ${i}.`).join('\n');
+  const pcm = await new FakeProvider().synthesizeSpeech({ script, languageCode: 'en-US', speakers: [] });
+  return base64ToBytes(pcmToWav(pcm!));
+}
+
+Deno.test('reads sample rate, channels and samples back out of a WAV', async () => {
+  const pcm = readWav(await toneWav(2));
+  assertEquals(pcm.sampleRate, PCM_SAMPLE_RATE);
+  assertEquals(pcm.channels, 1);
+  assertEquals(pcm.samples.length, PCM_SAMPLE_RATE);  // Two half-second lines
+});
+
+Deno.test('rejects bytes that are not a WAV file', () => {
+  let message = '';
+  try {
+    readWav(createWavHeader(0).slice(4));
+  } catch (error: any) {
+    message = error.message;
+  }
+  assertEquals(message, 'Not a WAV file');
+});
+
+Deno.test('encodes to MP3 at roughly a tenth of the WAV size with a TLEN duration', async () => {
+  const wav = await toneWav(20);  // Ten seconds
+  const mp3 = encodeMp3(readWav(wav));
+
+  assertEquals(mp3.mimeType, 'audio/mpeg');
+  assertEquals(mp3.durationSeconds, 10);
+  assert(mp3.bytes.length < wav.length / 8, `MP3 is ${mp3.bytes.length} bytes for a ${wav.length} byte WAV`);
+
+  const header = new TextDecoder().decode(mp3.bytes.slice(0, 40));
+  assert(header.startsWith('ID3'));
+  assert(header.includes('TLEN'));
+  assert(header.includes('10000'));  // Milliseconds
+});
+
+Deno.test('resamples 24kHz PCM to 48kHz by interpolating between samples', () => {
+  const input = new Uint8Array(new Int16Array([0, 100, 200]).buffer);
+  const output = new Int16Array(resamplePcm16(input, 24000, 48000).buffer);
+  assertEquals(Array.from(output), [0, 50, 100, 150, 200, 200]);
+});
+
+Deno.test('encodes 48kHz audio at the higher bitrate', async () => {
+  const wav24 = await toneWav(4);
+  const pcm24 = readWav(wav24);
+  const pcm48 = resamplePcm16(new Uint8Array(pcm24.samples.buffer), 24000, 48000);
+  const mp3 = encodeMp3({ sampleRate: 48000, channels: 1, samples: new Int16Array(pcm48.buffer) });
+
+  assertEquals(mp3.sampleRate, 48000);
+  assertEquals(mp3.bitrateKbps, 64);
+  assertEquals(mp3.durationSeconds, 2);
+});
@@ -0,0 +1,1053 @@
+// ==================== GENERATE-EDITION HANDLER TESTS ====================
+// Runs the real handler against the in-memory Supabase stand-in and the fake
+// model provider — no network, no API keys.
+//
+//   deno test --allow-env supabase/functions/tests
+
+import { assert, assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { handleEditionRequest, type EditionHandlerDeps } from '../generate-edition/handler.ts';
+import { FakeProvider } from '../shared/fake-provider.ts';
+import { GeminiService } from '../shared/gemini.ts';
+import { regionDate } from '../shared/locales.ts';
+import { MemorySupabase } from './memory-supabase.ts';
+
+const USER = { id: 'user-1', email: 'listener@example.com' };
+const TOKEN = 'valid-token';
+const today = () => new Date().toISOString().split('T')[0];
+const hoursFromNow = (hours: number) => new Date(Date.now() + hours * 60 * 60 * 1000).toISOString();
+
+// Mirrors record_story_thread in the story_threads migration
+function recordStoryThread(db: MemorySupabase, args: Record<string, any>) {
+  if (!args.p_thread_id) {
+    return db.insertRow('story_threads', {
+      region: args.p_region,
+      language: args.p_language,
+      channel_id: args.p_channel_id,
+      title: args.p_title,
+      entities: args.p_entities,
+      first_seen: args.p_date,
+      last_seen: args.p_date,
+    }).id;
+  }
+  const thread = db.table('story_threads').find((t) => t.id === args.p_thread_id
+    && t.region === args.p_region && t.language === args.p_language && (t.channel_id ?? null) === args.p_channel_id);
+  if (!thread) return null;
+  thread.last_seen = args.p_date > thread.last_seen ? args.p_date : thread.last_seen;
+  thread.entities = [...new Set([...thread.entities, ...args.p_entities])];
+  return thread.id;
+}
+
+function setup(seed: Record<string, Record<string, any>[]> = {}, provider: FakeProvider = new FakeProvider()) {
+  const db = new MemorySupabase({
+    users: [{ id: USER.id, plan: 'Free' }],
+    ...seed,
+  }).addUser(TOKEN, USER).onRpc('record_story_thread', recordStoryThread);
+
+  // Async jobs are collected instead of detached so tests can wait for them
+  const background: Promise<unknown>[] = [];
+  const deps: EditionHandlerDeps = {
+    createSupabaseClient: (authHeader) => db.client(authHeader),
+    createGemini: () => new GeminiService(provider),
+    runInBackground: (task) => { background.push(task); },
+  };
+
+  const send = (body: unknown, token: string | null = TOKEN) => {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (token) headers.Authorization = `Bearer ${token}`;
+    return handleEditionRequest(
+      new Request('http://localhost/generate-edition', {
+        method: 'POST',
+        headers,
+        body: typeof body === 'string' ? body : JSON.stringify(body),
+      }),
+      deps,
+    );
+  };
+
+  const call = async (body: unknown, token: string | null = TOKEN) => {
+    const res = await send(body, token);
+    return { status: res.status, json: await res.json() };
+  };
+
+  return { db, call, send, background };
+}
+
+const EDITION = { editionType: 'Morning', region: 'Global', language: 'English' };
+
+// Splits an SSE body into { event, data } pairs
+async function readEvents(res: Response) {
+  const raw = await res.text();
+  return raw.split('\n\n').filter(Boolean).map((block) => {
+    const event = block.match(/^event: (.*)$/m)?.[1] ?? 'message';
+    const data = JSON.parse(block.match(/^data: (.*)$/m)?.[1] ?? 'null');
+    return { event, data };
+  });
+}
+
+// ==================== VALIDATION & AUTH ====================
+Deno.test('rejects a body that is not JSON with 400', async () => {
+  const { call } = setup();
+  const { status, json } = await call('{not json');
+  assertEquals(status, 400);
+  assertEquals(json.error, 'Invalid JSON body');
+});
+
+Deno.test('rejects an edition request with missing fields with 400', async () => {
+  const { call } = setup();
+  const { status, json } = await call({ editionType: 'Morning', region: 'Global' });
+  assertEquals(status, 400);
+  assertEquals(json.error, 'Missing required fields: editionType, region, language');
+});
+
+Deno.test('rejects a region or language outside the registry with 400', async () => {
+  const { call } = setup();
+  const { status, json } = await call({ ...EDITION, region: 'Atlantis' });
+  assertEquals(status, 400);
+  assertEquals(json.error, 'Unsupported region or language: Atlantis/English');
+});
+
+Deno.test('rejects a request without an Authorization header with 401', async () => {
+  const { call } = setup();
+  const { status, json } = await call(EDITION, null);
+  assertEquals(status, 401);
+  assertEquals(json.error, 'Missing authorization header');
+});
+
+Deno.test('rejects an invalid JWT with 401', async () => {
+  const { call } = setup();
+  const { status, json } = await call(EDITION, 'expired-token');
+  assertEquals(status, 401);
+  assertEquals(json.message, 'Invalid JWT');
+});
+
+// ==================== NOT FOUND ====================
+Deno.test('returns 404 when the user has no profile row', async () => {
+  const { call } = setup({ users: [] });
+  const { status, json } = await call(EDITION);
+  assertEquals(status, 404);
+  assertEquals(json.error, 'User profile not found');
+});
+
+Deno.test('returns 404 for a voice variant of an unknown edition', async () => {
+  const { call } = setup();
+  const { status, json } = await call({ action: 'generate-voice-variant', edition_id: 'missing', voice_id: 'deep-divers' });
+  assertEquals(status, 404);
+  assertEquals(json.error, 'Edition not found');
+});
+
+// ==================== QUOTAS & THROTTLING ====================
+Deno.test('returns 429 once the daily edition quota is used up', async () => {
+  const { db, call } = setup({
+    daily_usage: [{ user_id: USER.id, date: today(), edition_count: 3 }],
+  });
+  const { status, json } = await call(EDITION);
+  assertEquals(status, 429);
+  assertEquals(json.upgrade, true);
+  assertEquals(json.limit, 3);
+  assertEquals(db.table('daily_editions').length, 0);
+});
+
+Deno.test('throttles a second force refresh within the hour', async () => {
+  const cacheKey = `${EDITION.editionType}-${EDITION.region}-${EDITION.language}-classic-${today()}`;
+  const { db, call } = setup({
+    user_refresh_history: [{ user_id: USER.id, edition_key: cacheKey, force_refresh_at: hoursFromNow(-0.25) }],
+  });
+  const { status, json } = await call({ ...EDITION, forceRefresh: true });
+  assertEquals(status, 429);
+  assertEquals(json.throttled, true);
+  assert(json.minutesUntilRefresh > 40 && json.minutesUntilRefresh <= 45);
+  assertEquals(db.table('user_refresh_history').length, 1);
+});
+
+Deno.test('records the force refresh and regenerates when not throttled', async () => {
+  const { db, call } = setup();
+  const { status, json } = await call({ ...EDITION, forceRefresh: true });
+  assertEquals(status, 200);
+  assertEquals(json.data.cached, false);
+  assertEquals(db.table('user_refresh_history').length, 1);
+});
+
+// ==================== CACHE ====================
+Deno.test('serves an unexpired cached edition without regenerating', async () => {
+  const { db, call } = setup({
+    daily_editions: [{
+      id: 'edition-cached',
+      edition_type: EDITION.editionType,
+      region: EDITION.region,
+      language: EDITION.language,
+      date: today(),
+      episode_format: 'classic',
+      content: 'Cached briefing',
+      script: 'Alex: Hi\nJordan: Hello',
+      image_url: 'data:image/png;base64,AAAA',
+      grounding_links: [],
+      flash_summary: '- cached',
+      expires_at: hoursFromNow(3),
+    }],
+  });
+
+  const { status, json } = await call(EDITION);
+  assertEquals(status, 200);
+  assertEquals(json.data.cached, true);
+  assertEquals(json.data.edition_id, 'edition-cached');
+  assertEquals(json.data.text, 'Cached briefing');
+  assertEquals(db.table('daily_editions').length, 1);
+  assertEquals(db.rpcCalls.filter((c) => c.fn === 'increment_daily_usage').length, 1);
+});
+
+Deno.test('serves the cached edition to a request in legacy region and language codes', async () => {
+  const { db, call } = setup({
+    daily_editions: [{
+      id: 'edition-usa',
+      edition_type: 'Morning',
+      region: 'USA',
+      language: 'Spanish',
+      date: regionDate('USA'),
+      episode_format: 'classic',
+      content: 'Cached briefing',
+      script: 'Alex: Hola\nJordan: Hola',
+      grounding_links: [],
+      expires_at: hoursFromNow(3),
+    }],
+  });
+
+  const { status, json } = await call({ editionType: 'Morning', region: 'us', language: 'es' });
+  assertEquals(status, 200);
+  assertEquals(json.data.edition_id, 'edition-usa');
+  assertEquals(db.table('daily_editions').length, 1);
+});
+
+Deno.test('ignores an expired cached edition and generates a fresh one', async () => {
+  const { db, call } = setup({
+    daily_editions: [{
+      id: 'edition-stale',
+      edition_type: EDITION.editionType,
+      region: EDITION.region,
+      language: EDITION.language,
+      date: today(),
+      episode_format: 'classic',
+      content: 'Stale briefing',
+      expires_at: hoursFromNow(-1),
+    }],
+  });
+
+  const { status, json } = await call(EDITION);
+  assertEquals(status, 200);
+  assertEquals(json.data.cached, false);
+  // Upserted onto the same (edition_type, region, language, date) row
+  assertEquals(json.data.edition_id, 'edition-stale');
+  assertEquals(db.table('daily_editions').length, 1);
+  assert(db.table('daily_editions')[0].content !== 'Stale briefing');
+});
+
+// ==================== GENERATION ====================
+Deno.test('generates, caches and schedules deletion for a new edition', async () => {
+  const { db, call } = setup();
+  const { status, json } = await call(EDITION);
+
+  assertEquals(status, 200);
+  assertEquals(json.data.scriptReady, true);
+  assert(json.data.text.length >= 500);
+  assert(json.data.script.startsWith('Alex:'));
+  assert(json.data.imageUrl.startsWith('data:image/png;base64,'));
+  assertEquals(json.data.audio, null);
+
+  const [edition] = db.table('daily_editions');
+  assertEquals(edition.id, json.data.edition_id);
+  assertEquals(edition.user_id, USER.id);
+  assertEquals(edition.is_script_only, true);
+
+  const [schedule] = db.table('content_expiration_schedule');
+  assertEquals(schedule.edition_id, edition.id);
+  assertEquals(schedule.tier, 'Free');
+  const hoursUntilDeletion = (Date.parse(schedule.scheduled_deletion_at) - Date.now()) / (60 * 60 * 1000);
+  assert(hoursUntilDeletion > 23.9 && hoursUntilDeletion <= 24);
+
+  assertEquals(db.rpcCalls.filter((c) => c.fn !== 'record_story_thread').map((c) => c.fn), ['increment_daily_usage']);
+  assertEquals(db.table('usage_analytics')[0].action_type, 'generate_edition');
+});
+
+Deno.test('files an edition under the local date of its region', async () => {
+  const { db, call } = setup();
+  const { status, json } = await call({ ...EDITION, region: 'Asia' });
+  assertEquals(status, 200);
+  assertEquals(json.data.cached, false);
+
+  const [edition] = db.table('daily_editions');
+  assertEquals(edition.date, regionDate('Asia'));
+});
+
+Deno.test('upserts the expiration schedule with the plan retention instead of duplicating it', async () => {
+  const { db, call } = setup({
+    users: [{ id: USER.id, plan: 'Pro' }],
+    daily_editions: [{
+      id: 'edition-stale',
+      edition_type: EDITION.editionType,
+      region: EDITION.region,
+      language: EDITION.language,
+      date: today(),
+      episode_format: 'classic',
+      expires_at: hoursFromNow(-1),
+    }],
+    content_expiration_schedule: [{
+      edition_id: 'edition-stale',
+      user_id: USER.id,
+      tier: 'Free',
+      scheduled_deletion_at: hoursFromNow(1),
+    }],
+  });
+
+  const { status } = await call(EDITION);
+  assertEquals(status, 200);
+
+  const schedules = db.table('content_expiration_schedule');
+  assertEquals(schedules.length, 1);
+  assertEquals(schedules[0].tier, 'Pro');
+  const daysUntilDeletion = (Date.parse(schedules[0].scheduled_deletion_at) - Date.now()) / (24 * 60 * 60 * 1000);
+  assert(daysUntilDeletion > 6.99 && daysUntilDeletion <= 7);
+});
+
+Deno.test('uploads MP3 audio and records the variant when generateAudio is requested', async () => {
+  const { db, call } = setup();
+  const { status, json } = await call({ ...EDITION, generateAudio: true });
+  assertEquals(status, 200);
+  assert(json.data.audio.startsWith(`${MemorySupabase.STORAGE_URL}/vox-media/${USER.id}/audio/`));
+  assert(json.data.audio.endsWith('.mp3'));
+  assert(json.data.audioDuration > 0);
+
+  const [key] = Object.keys(db.objects);
+  assertEquals(db.objects[key].contentType, 'audio/mpeg');
+  // Starts with the ID3 tag carrying the duration
+  assertEquals(new TextDecoder().decode(db.objects[key].bytes.slice(0, 3)), 'ID3');
+
+  const [variant] = db.table('voice_variants');
+  assertEquals(variant.audio_url, json.data.audio);
+  assertEquals(variant.audio_format, 'mp3');
+  assertEquals(variant.duration_seconds, json.data.audioDuration);
+  assertEquals(variant.audio_bytes, db.objects[key].bytes.length);
+});
+
+Deno.test('records story chapters on the variant and the edition', async () => {
+  const { db, call } = setup();
+  const { json } = await call({ ...EDITION, generateAudio: true });
+
+  // The fixture script opens with a welcome, then marks two stories
+  assertEquals(json.data.chapters.map((c: any) => c.title), ['Intro', 'Central Banks Hold Rates', 'Coastal Flood Defenses']);
+  assertEquals(json.data.chapters[0].start, 0);
+  assert(json.data.chapters[1].start < json.data.chapters[2].start);
+  assert(json.data.chapters[2].start < json.data.audioDuration);
+
+  assertEquals(db.table('voice_variants')[0].chapters, json.data.chapters);
+  assertEquals(db.table('daily_editions')[0].chapters, json.data.chapters);
+});
+
+Deno.test('stores a timed transcript in the voices of the rendered variant', async () => {
+  const { db, call } = setup({
+    daily_editions: [{ id: 'edition-1', script: 'Alex: Hello.\n[STORY: One]\nJordan: Hi Alex.', language: 'English' }],
+  });
+  const { json } = await call({ action: 'generate-voice-variant', edition_id: 'edition-1', voice_id: 'deep-divers' });
+
+  // Deep-Divers hosts replace the script's original speakers
+  assertEquals(json.data.transcript.map((t: any) => `${t.speaker}: ${t.text}`), ['Marcus: Hello.', 'Elena: Hi Alex.']);
+  assert(json.data.transcript[1].start >= json.data.transcript[0].end);
+  assert(json.data.transcript[1].end <= json.data.duration);
+  assertEquals(db.table('voice_variants')[0].transcript, json.data.transcript);
+});
+
+Deno.test('generates a voice variant as stored MP3 with its duration', async () => {
+  const { db, call } = setup({
+    daily_editions: [{ id: 'edition-1', script: 'Joe: Hello.\nJane: Hi Joe.', language: 'English' }],
+  });
+  const { status, json } = await call({ action: 'generate-voice-variant', edition_id: 'edition-1', voice_id: 'deep-divers' });
+  assertEquals(status, 200);
+  assertEquals(json.data.cached, false);
+  assert(json.data.audio.endsWith('.mp3'));
+  assert(json.data.duration > 0);
+  assertEquals(db.table('voice_variants')[0].audio_url, json.data.audio);
+});
+
+Deno.test('renders Pro audio at 48kHz and Free audio at 24kHz', async () => {
+  const free = setup();
+  const freeResult = await free.call({ ...EDITION, generateAudio: true });
+  assertEquals(freeResult.json.data.audioQuality, '24khz');
+  assertEquals(free.db.table('voice_variants')[0].sample_rate, 24000);
+
+  const pro = setup({ users: [{ id: USER.id, plan: 'Pro' }] });
+  const proResult = await pro.call({ ...EDITION, generateAudio: true });
+  assertEquals(proResult.json.data.audioQuality, '48khz');
+  assertEquals(proResult.json.data.audioSampleRate, 48000);
+  assertEquals(pro.db.table('voice_variants')[0].sample_rate, 48000);
+  // Same length of audio either way
+  assertEquals(proResult.json.data.audioDuration, freeResult.json.data.audioDuration);
+});
+
+Deno.test('renders audio for a cached edition at the listener plan quality', async () => {
+  const { db, call } = setup({
+    users: [{ id: USER.id, plan: 'Pro' }],
+    daily_editions: [{
+      id: 'edition-cached',
+      edition_type: EDITION.editionType,
+      region: EDITION.region,
+      language: EDITION.language,
+      date: today(),
+      episode_format: 'classic',
+      content: 'Cached briefing',
+      script: 'Alex: Hi\nJordan: Hello',
+      image_url: 'data:image/png;base64,AAAA',
+      expires_at: hoursFromNow(3),
+    }],
+  });
+
+  const { json } = await call({ ...EDITION, generateAudio: true });
+  assertEquals(json.data.cached, true);
+  assertEquals(json.data.audioQuality, '48khz');
+  assertEquals(db.table('voice_variants')[0].sample_rate, 48000);
+});
+
+Deno.test('does not serve a 24kHz voice variant to a Pro listener', async () => {
+  const { db, call } = setup({
+    users: [{ id: USER.id, plan: 'Pro' }],
+    daily_editions: [{ id: 'edition-1', script: 'Joe: Hello.\nJane: Hi Joe.', language: 'English' }],
+    voice_variants: [{ edition_id: 'edition-1', voice_id: 'deep-divers', audio_quality: '24khz', audio_url: 'https://cdn.test/free.mp3' }],
+  });
+  const { json } = await call({ action: 'generate-voice-variant', edition_id: 'edition-1', voice_id: 'deep-divers' });
+  assertEquals(json.data.cached, false);
+  assertEquals(json.data.audioQuality, '48khz');
+  assertEquals(db.table('voice_variants').length, 2);
+});
+
+// ==================== EPISODE FORMATS ====================
+class ScriptPromptProvider extends FakeProvider {
+  scriptPrompts: string[] = [];
+  override async generateText(request: Parameters<FakeProvider['generateText']>[0]) {
+    if (request.task === 'script') this.scriptPrompts.push(request.prompt);
+    return super.generateText(request);
+  }
+}
+
+Deno.test('rejects an unknown episode format with 400', async () => {
+  const { call } = setup();
+  const { status, json } = await call({ ...EDITION, format: 'podcast-marathon' });
+  assertEquals(status, 400);
+  assert(json.error.startsWith('Invalid format'));
+});
+
+Deno.test('keeps longer formats to paid plans', async () => {
+  const { db, call } = setup();
+  const { status, json } = await call({ ...EDITION, format: 'deep-dive' });
+  assertEquals(status, 403);
+  assertEquals(json.upgrade, true);
+  assertEquals(db.table('daily_editions').length, 0);
+});
+
+Deno.test('scripts the classic 1:30 format by default with its word budget', async () => {
+  const provider = new ScriptPromptProvider();
+  const { db, call } = setup({}, provider);
+  const { json } = await call(EDITION);
+
+  assertEquals(json.data.format, 'classic');
+  assert(provider.scriptPrompts[0].includes('Create a 1:30 episode'));
+  assert(provider.scriptPrompts[0].includes('Total script must be 350-385 words'));
+  assertEquals(db.table('daily_editions')[0].episode_format, 'classic');
+  assertEquals(db.table('daily_editions')[0].prompt_versions, { news: 'news.en@3', script: 'script.en@2' });
+});
+
+const SPIKE_SCAN = { region: 'Global', topics: [], spike: { topic: 'Port strike spreads', sources: 9 }, scanned_at: new Date().toISOString() };
+
+Deno.test('files a Breaking bulletin on its topic in the flash format', async () => {
+  const provider = new ScriptPromptProvider();
+  const { db, call } = setup({ trend_scans: [SPIKE_SCAN] }, provider);
+  const { status, json } = await call({ ...EDITION, editionType: 'Breaking', topic: 'Port strike spreads', format: 'standard' });
+
+  assertEquals(status, 200);
+  assertEquals(json.data.format, 'flash');
+  assertEquals(json.data.breakingTopic, 'Port strike spreads');
+  assert(provider.scriptPrompts[0].includes('Create a 1:00 episode'));
+  const [edition] = db.table('daily_editions');
+  assertEquals(edition.edition_type, 'Breaking');
+  assertEquals(edition.breaking_topic, 'Port strike spreads');
+  assertEquals(edition.episode_format, 'flash');
+});
+
+Deno.test('returns 404 for a Breaking bulletin nobody started', async () => {
+  const { db, call } = setup();
+  const { status, json } = await call({ ...EDITION, editionType: 'Breaking' });
+
+  assertEquals(status, 404);
+  assertEquals(json.error, 'No breaking news for Global right now');
+  assertEquals(db.table('daily_editions').length, 0);
+});
+
+Deno.test('ignores a Breaking topic breaking-monitor never recorded', async () => {
+  const { db, call } = setup({ trend_scans: [{ ...SPIKE_SCAN, scanned_at: hoursFromNow(-4) }] });
+
+  const forged = await call({ ...EDITION, editionType: 'Breaking', topic: 'Port strike spreads', forceRefresh: true });
+  assertEquals(forged.status, 404);
+  assertEquals(db.table('daily_editions').length, 0);
+
+  // A listener tuning in with any topic gets the bulletin that exists
+  db.table('daily_editions').push({
+    id: 'breaking-1', edition_type: 'Breaking', region: 'Global', language: 'English', date: regionDate('Global'),
+    channel_id: null, episode_format: 'flash', breaking_topic: 'Ferry collision', content: 'Bulletin', script: 'HOST A: Bulletin',
+    expires_at: hoursFromNow(1),
+  });
+  const { status, json } = await call({ ...EDITION, editionType: 'Breaking', topic: 'Invented story', forceRefresh: true });
+  assertEquals(status, 200);
+  assertEquals(json.data.cached, true);
+  assertEquals(json.data.breakingTopic, 'Ferry collision');
+  assertEquals(db.table('daily_editions').length, 1);
+});
+
+Deno.test('caches each format as its own edition and scripts a monologue for one host', async () => {
+  const provider = new ScriptPromptProvider();
+  const { db, call } = setup({ users: [{ id: USER.id, plan: 'Pro' }] }, provider);
+
+  await call(EDITION);
+  const { status, json } = await call({ ...EDITION, format: 'monologue' });
+  assertEquals(status, 200);
+  assertEquals(json.data.cached, false);
+  assertEquals(json.data.format, 'monologue');
+
+  const monologuePrompt = provider.scriptPrompts[1];
+  assert(monologuePrompt.includes('This is a SOLO episode: Alex is the only host'));
+  assert(!monologuePrompt.includes('Switch speakers every 2-3 sentences'));
+  assertEquals(db.table('daily_editions').map((e) => e.episode_format), ['classic', 'monologue']);
+});
+
+// ==================== LANGUAGE CHECKS ====================
+// Answers the first `englishAttempts` news requests in English whatever the language asked for
+class DriftingProvider extends FakeProvider {
+  newsPrompts: string[] = [];
+  constructor(private englishAttempts: number) { super(); }
+  override async generateText(request: Parameters<FakeProvider['generateText']>[0]) {
+    if (request.task === 'news') {
+      this.newsPrompts.push(request.prompt);
+      if (this.newsPrompts.length <= this.englishAttempts) return super.generateText({ ...request, language: 'English' });
+    }
+    return super.generateText(request);
+  }
+}
+
+Deno.test('regenerates news that comes back in the wrong language', async () => {
+  const provider = new DriftingProvider(1);
+  const { db, call } = setup({ users: [{ id: USER.id, plan: 'Pro' }] }, provider);
+  const { status } = await call({ ...EDITION, language: 'Spanish' });
+
+  assertEquals(status, 200);
+  assertEquals(provider.newsPrompts.length, 2);
+  assert(!provider.newsPrompts[0].startsWith('CORRECCIÓN DE IDIOMA'));
+  assert(provider.newsPrompts[1].startsWith('CORRECCIÓN DE IDIOMA'));
+
+  const { news, script } = db.table('daily_editions')[0].language_check;
+  assertEquals([news.detected, news.attempts, news.valid], ['Spanish', 2, true]);
+  assertEquals([script.detected, script.attempts, script.valid], ['Spanish', 1, true]);
+});
+
+Deno.test('stops retrying after bounded attempts and records the mismatch', async () => {
+  const provider = new DriftingProvider(Infinity);
+  const { db, call } = setup({ users: [{ id: USER.id, plan: 'Pro' }] }, provider);
+  const { status } = await call({ ...EDITION, language: 'Spanish' });
+
+  assertEquals(status, 200);
+  assertEquals(provider.newsPrompts.length, 3);
+  const { news } = db.table('daily_editions')[0].language_check;
+  assertEquals([news.detected, news.attempts, news.valid], ['English', 3, false]);
+});
+
+// ==================== STORIES ====================
+Deno.test('stores the briefing as ordered stories and serves them from cache', async () => {
+  const { db, call } = setup();
+  const fresh = await call(EDITION);
+
+  const rows = db.table('stories');
+  assertEquals(rows.map((s) => [s.position, s.headline]), [
+    [0, 'Central Banks Hold Rates Steady Amid Cooling Inflation'],
+    [1, 'Coastal Cities Expand Flood Defenses After Record Storm Season'],
+  ]);
+  assertEquals(rows[0].edition_id, fresh.json.data.edition_id);
+  assertEquals([rows[0].language, rows[0].region, rows[0].channel_id], ['English', 'Global', null]);
+  assertEquals(rows[1].sentiment, 'mixed');
+  assert(fresh.json.data.text.startsWith('**Central Banks Hold Rates Steady Amid Cooling Inflation**\n\nPolicymakers'));
+
+  const cached = await call(EDITION);
+  assertEquals(cached.json.data.cached, true);
+  assertEquals(cached.json.data.stories.map((s: any) => s.headline), fresh.json.data.stories.map((s: any) => s.headline));
+  assertEquals(cached.json.data.stories[0].sources[0].url, 'https://www.reuters.com/world/fixture-story-one');
+});
+
+Deno.test('excludes every story headline of earlier editions today', async () => {
+  const provider = new DriftingProvider(0);
+  const { call } = setup({ users: [{ id: USER.id, plan: 'Pro' }] }, provider);
+  await call(EDITION);
+  await call({ ...EDITION, editionType: 'Evening' });
+
+  assert(!provider.newsPrompts[0].includes('DEDUPLICATION'));
+  assert(provider.newsPrompts[1].includes(
+    'already covered these topics: Central Banks Hold Rates Steady Amid Cooling Inflation, Coastal Cities Expand Flood Defenses After Record Storm Season.'
+  ));
+});
+
+// Answers the news step from a queue of story lists (fixture JSON once it runs out)
+class ScriptedNewsProvider extends FakeProvider {
+  newsPrompts: string[] = [];
+  scriptPrompts: string[] = [];
+  constructor(private answers: unknown[][]) { super(); }
+  override async generateText(request: Parameters<FakeProvider['generateText']>[0]) {
+    const result = await super.generateText(request);
+    if (request.task === 'script') this.scriptPrompts.push(request.prompt);
+    if (request.task !== 'news') return result;
+    this.newsPrompts.push(request.prompt);
+    const answer = this.answers.shift();
+    return answer ? { ...result, text: JSON.stringify(answer) } : result;
+  }
+}
+
+const FRESH_STORY = {
+  headline: 'Regional Rail Strike Enters Its Third Day',
+  summary: 'Train drivers extended their walkout over pay and staffing levels.',
+  body: [
+    'Commuter services remained suspended on most lines as union leaders and operators met again without an agreement on wages or rosters.',
+    'Operators say the latest offer matches inflation, while the union argues that staffing shortages have pushed drivers into unsafe overtime. Passenger groups report crowded replacement buses and longer journeys across the region.',
+    'Officials have not said when talks will resume, and no estimate has been given for the cost of the disruption to local businesses.',
+  ].join('\n\n'),
+  entities: ['Rail union'],
+  sources: [{ title: 'Rail Desk', url: 'https://example.com/rail-strike' }],
+  sentiment: 'negative',
+};
+
+const yesterday = () => new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+
+Deno.test('drops stories that repeat a recent edition and stores story embeddings', async () => {
+  const fixture = JSON.parse((await new FakeProvider().generateText({ task: 'news', prompt: '' })).text);
+  const [ratesEmbedding] = await new FakeProvider().embedTexts([`${fixture[0].headline}\n${fixture[0].summary}`]);
+  const provider = new ScriptedNewsProvider([[{ ...fixture[0], headline: `${fixture[0].headline} Again` }, FRESH_STORY]]);
+  const { db, call } = setup({
+    daily_editions: [{ id: 'edition-yesterday', edition_type: 'Evening', region: 'Global', language: 'English', date: yesterday(), channel_id: null }],
+    stories: [{ edition_id: 'edition-yesterday', position: 0, headline: fixture[0].headline, embedding: ratesEmbedding }],
+  }, provider);
+
+  const { status, json } = await call(EDITION);
+
+  assertEquals(status, 200);
+  assertEquals(provider.newsPrompts.length, 1);
+  assertEquals(json.data.stories.map((s: any) => s.headline), [FRESH_STORY.headline]);
+  assert(!json.data.text.includes('Central Banks'));
+
+  const edition = db.table('daily_editions').find((e) => e.id === json.data.edition_id)!;
+  assertEquals(edition.story_dedup.attempts, 1);
+  assertEquals(edition.story_dedup.rejected.map((m: any) => [m.headline, m.matched]), [
+    [`${fixture[0].headline} Again`, fixture[0].headline],
+  ]);
+  const stored = db.table('stories').find((s) => s.edition_id === json.data.edition_id)!;
+  assertEquals(stored.embedding.length, 64);
+});
+
+Deno.test('regenerates once when every story repeats an earlier edition today', async () => {
+  const provider = new ScriptedNewsProvider([]);
+  const { db, call } = setup({ users: [{ id: USER.id, plan: 'Pro' }] }, provider);
+  await call(EDITION);
+  const { json } = await call({ ...EDITION, editionType: 'Evening' });
+
+  // Morning once, Evening twice; a briefing of repeats still beats no briefing
+  assertEquals(provider.newsPrompts.length, 3);
+  const evening = db.table('daily_editions').find((e) => e.id === json.data.edition_id)!;
+  assertEquals(evening.story_dedup.attempts, 2);
+  assertEquals(evening.story_dedup.rejected.length, 2);
+  assertEquals(json.data.stories.length, 2);
+});
+
+Deno.test('links a follow-up to its earlier story thread and refers back to it in the script', async () => {
+  const provider = new ScriptedNewsProvider([[FRESH_STORY]]);
+  const { db, call } = setup({
+    daily_editions: [{ id: 'edition-yesterday', edition_type: 'Evening', region: 'Global', language: 'English', date: yesterday(), channel_id: null }],
+    stories: [{
+      edition_id: 'edition-yesterday', position: 0, headline: 'Rail Strike Begins Over Pay', entities: ['Rail union'],
+      embedding: null, thread_id: 'thread-rail', date: yesterday(),
+    }],
+    story_threads: [{
+      id: 'thread-rail', region: 'Global', language: 'English', channel_id: null, title: 'Rail Strike Begins Over Pay',
+      entities: ['Rail union'], first_seen: yesterday(), last_seen: yesterday(),
+    }],
+  }, provider);
+
+  const { status, json } = await call(EDITION);
+
+  assertEquals(status, 200);
+  assert(provider.scriptPrompts[0].includes('CONTINUITY — PRIOR COVERAGE'));
+  assert(provider.scriptPrompts[0].includes(`"${FRESH_STORY.headline}" follows up "Rail Strike Begins Over Pay"`));
+  assertEquals(json.data.stories[0].thread_id, 'thread-rail');
+
+  const stored = db.table('stories').find((s) => s.edition_id === json.data.edition_id)!;
+  assertEquals(stored.thread_id, 'thread-rail');
+  const [thread] = db.table('story_threads');
+  assertEquals(thread.last_seen, today());
+  assertEquals(thread.title, 'Rail Strike Begins Over Pay');
+  assertEquals(db.table('story_threads').length, 1);
+});
+
+Deno.test('starts a thread for every story without earlier coverage', async () => {
+  const provider = new ScriptedNewsProvider([]);
+  const { db, call } = setup({}, provider);
+  const { json } = await call(EDITION);
+
+  assert(!provider.scriptPrompts[0].includes('CONTINUITY'));
+  const threads = db.table('story_threads');
+  assertEquals(threads.map((t) => t.title), json.data.stories.map((s: any) => s.headline));
+  assertEquals(threads.map((t) => [t.first_seen, t.last_seen]), threads.map(() => [today(), today()]));
+  assertEquals(db.table('stories').map((s) => s.thread_id), threads.map((t) => t.id));
+});
+
+Deno.test('reads a briefing that ignored the JSON format as markdown stories', async () => {
+  class MarkdownProvider extends FakeProvider {
+    override async generateText(request: Parameters<FakeProvider['generateText']>[0]) {
+      const result = await super.generateText(request);
+      if (request.task !== 'news') return result;
+      const stories = JSON.parse(result.text);
+      return { ...result, text: stories.map((s: any) => `## **${s.headline}**\n\n${s.body}`).join('\n\n') };
+    }
+  }
+  const { db, call } = setup({}, new MarkdownProvider());
+  const { status } = await call(EDITION);
+
+  assertEquals(status, 200);
+  const rows = db.table('stories');
+  assertEquals(rows.length, 2);
+  assertEquals(rows[1].headline, 'Coastal Cities Expand Flood Defenses After Record Storm Season');
+  assert(rows[1].summary.startsWith('Municipal governments announced new funding'));
+  assertEquals(rows[1].sentiment, 'neutral');
+});
+
+// ==================== SOURCES ====================
+Deno.test('saves grounding links with their outlet ratings and scores the sourcing', async () => {
+  const { db, call } = setup();
+  const { json } = await call(EDITION);
+
+  assertEquals(json.data.links.map((l: any) => [l.source, l.credibility, l.bias]), [
+    ['Reuters', 'high', 'center'],
+    ['Associated Press', 'high', 'center'],
+  ]);
+  const edition = db.table('daily_editions')[0];
+  assertEquals(edition.grounding_links, json.data.links);
+  // Two high-credibility outlets, short of the three needed for full marks
+  assertEquals(edition.sourcing_quality.score, 67);
+  assertEquals(json.data.sourcingQuality, edition.sourcing_quality);
+});
+
+Deno.test('cites the grounding links behind individual briefing sentences', async () => {
+  const { db, call } = setup();
+  const { json } = await call(EDITION);
+
+  assertEquals(json.data.citations.map((c: any) => [c.text.slice(0, 30), c.sources]), [
+    ['Policymakers across several ma', [0]],
+    ['Data shows consumer spending h', [0, 1]],
+    ['Officials confirmed that the p', [1]],
+  ]);
+  for (const citation of json.data.citations) assert(json.data.text.includes(citation.text));
+  assertEquals(db.table('daily_editions')[0].citations, json.data.citations);
+});
+
+// ==================== ASYNC JOBS ====================
+Deno.test('enqueues an async job and reports each stage until complete', async () => {
+  const { db, call, background } = setup();
+
+  const started = await call({ ...EDITION, async: true, generateAudio: true });
+  assertEquals(started.status, 202);
+  assertEquals(started.json.data.stage, 'queued');
+  assertEquals(started.json.data.joined, false);
+  const jobId = started.json.data.job_id;
+
+  await Promise.all(background);
+
+  const stages = db.writes
+    .filter((w) => w.table === 'generation_status' && w.op === 'update')
+    .map((w) => (w.values as Record<string, any>).stage)
+    .filter(Boolean);
+  assertEquals(stages, ['researching', 'scripting', 'art', 'summary', 'audio', 'complete']);
+
+  const status = await call({ action: 'job-status', job_id: jobId });
+  assertEquals(status.status, 200);
+  assertEquals(status.json.data.status, 'success');
+  assertEquals(status.json.data.edition.edition_id, db.table('daily_editions')[0].id);
+  assert(status.json.data.edition.audio.endsWith('.mp3'));
+  assert(status.json.data.edition.audioDuration > 0);
+});
+
+Deno.test('joins an in-flight job instead of starting a second one', async () => {
+  const { db, call, background } = setup({
+    generation_status: [{
+      id: 'job-running',
+      edition_type: EDITION.editionType,
+      region: EDITION.region,
+      language: EDITION.language,
+      generation_date: today(),
+      episode_format: 'classic',
+      status: 'generating',
+      stage: 'scripting',
+      updated_at: new Date().toISOString(),
+    }],
+  });
+
+  const { status, json } = await call({ ...EDITION, async: true });
+  assertEquals(status, 202);
+  assertEquals(json.data.job_id, 'job-running');
+  assertEquals(json.data.joined, true);
+  assertEquals(background.length, 0);
+  assertEquals(db.rpcCalls.map((c) => c.fn), ['increment_daily_usage']);
+  assertEquals(db.table('generation_job_listeners').map((l) => [l.job_id, l.user_id]), [['job-running', USER.id]]);
+});
+
+Deno.test('returns the audio a joined poller asked for, at their plan quality', async () => {
+  const { call } = setup({
+    generation_status: [{
+      id: 'job-done',
+      user_id: 'someone-else',
+      edition_type: EDITION.editionType,
+      region: EDITION.region,
+      language: EDITION.language,
+      generation_date: today(),
+      episode_format: 'classic',
+      status: 'success',
+      stage: 'complete',
+      edition_id: 'edition-1',
+      request: { voiceId: 'originals', generateAudio: true, audioQuality: '48khz' },
+    }],
+    generation_job_listeners: [{ job_id: 'job-done', user_id: USER.id }],
+    daily_editions: [{ id: 'edition-1', content: 'Briefing', script: 'Alex: Hi', episode_format: 'classic' }],
+    voice_variants: [
+      { edition_id: 'edition-1', voice_id: 'originals', audio_quality: '48khz', audio_url: 'https://cdn.test/pro.mp3' },
+      { edition_id: 'edition-1', voice_id: 'deep-divers', audio_quality: '24khz', audio_url: 'https://cdn.test/free.mp3', sample_rate: 24000 },
+    ],
+  });
+
+  const mine = await call({ action: 'job-status', job_id: 'job-done', voiceId: 'deep-divers', generateAudio: true });
+  assertEquals(mine.json.data.edition.audio, 'https://cdn.test/free.mp3');
+  assertEquals(mine.json.data.edition.audioQuality, '24khz');
+  assertEquals(mine.json.data.edition.audioSampleRate, 24000);
+
+  // The originator's Pro render is not served to a Free listener
+  const originals = await call({ action: 'job-status', job_id: 'job-done', voiceId: 'originals', generateAudio: true });
+  assertEquals(originals.json.data.edition.audio, null);
+});
+
+Deno.test('marks the job failed when the script step produces nothing', async () => {
+  class NoScriptProvider extends FakeProvider {
+    override async generateText(request: Parameters<FakeProvider['generateText']>[0]) {
+      return request.task === 'script' ? { text: '', grounding: [], supports: [] } : super.generateText(request);
+    }
+  }
+  const { call, background } = setup({}, new NoScriptProvider());
+
+  const started = await call({ ...EDITION, async: true });
+  await Promise.all(background);
+
+  const { json } = await call({ action: 'job-status', job_id: started.json.data.job_id });
+  assertEquals(json.data.status, 'failed');
+  assertEquals(json.data.error, 'Script generation failed. Please try again.');
+  assertEquals(json.data.edition, null);
+});
+
+Deno.test('returns 404 for a job the caller neither started nor joined', async () => {
+  const { call } = setup({
+    generation_status: [{
+      id: 'job-theirs',
+      user_id: 'someone-else',
+      edition_type: EDITION.editionType,
+      region: EDITION.region,
+      language: EDITION.language,
+      generation_date: today(),
+      episode_format: 'classic',
+      status: 'success',
+      stage: 'complete',
+      edition_id: 'edition-1',
+      request: { voiceId: 'deep-divers', generateAudio: true, audioQuality: '48khz' },
+    }],
+    daily_editions: [{ id: 'edition-1', content: 'Briefing', script: 'Alex: Hi', episode_format: 'classic' }],
+  });
+
+  const { status, json } = await call({ action: 'job-status', job_id: 'job-theirs' });
+  assertEquals(status, 404);
+  assertEquals(json.error, 'Job not found');
+});
+
+Deno.test('returns 404 for an unknown job id', async () => {
+  const { call } = setup();
+  const { status, json } = await call({ action: 'job-status', job_id: 'nope' });
+  assertEquals(status, 404);
+  assertEquals(json.error, 'Job not found');
+});
+
+// ==================== SSE STREAMING ====================
+Deno.test('streams content before the script and finishes with the full edition', async () => {
+  const { db, send } = setup();
+  const res = await send({ ...EDITION, stream: true });
+
+  assertEquals(res.status, 200);
+  assert(res.headers.get('Content-Type')?.startsWith('text/event-stream'));
+
+  const events = await readEvents(res);
+  const names = events.map((e) => e.event);
+  assert(names.indexOf('content') < names.indexOf('script'));
+  assert(names.indexOf('links') < names.indexOf('script'));
+  assert(names.includes('image') && names.includes('summary'));
+  assertEquals(names[names.length - 1], 'done');
+
+  const content = events.find((e) => e.event === 'content')!;
+  const done = events[events.length - 1];
+  assertEquals(content.data.text, done.data.text);
+  assertEquals(done.data.edition_id, db.table('daily_editions')[0].id);
+});
+
+Deno.test('finishes a disconnected stream as a job the client polls instead of generating twice', async () => {
+  class CountingProvider extends FakeProvider {
+    scripts = 0;
+    override async generateText(request: Parameters<FakeProvider['generateText']>[0]) {
+      if (request.task === 'script') this.scripts++;
+      return super.generateText(request);
+    }
+  }
+  const provider = new CountingProvider();
+  const { db, call, send, background } = setup({}, provider);
+  const res = await send({ ...EDITION, stream: true });
+
+  // The first event names the job the stream runs as
+  const reader = res.body!.getReader();
+  const first = new TextDecoder().decode((await reader.read()).value);
+  assert(first.startsWith('event: job'));
+  const jobId = JSON.parse(first.match(/^data: (.*)$/m)![1]).job_id;
+  await reader.cancel();
+  await Promise.all(background);
+
+  // The fallback polls that job rather than enqueueing another
+  const { json } = await call({ action: 'job-status', job_id: jobId });
+  assertEquals(json.data.status, 'success');
+  assertEquals(json.data.edition.edition_id, db.table('daily_editions')[0].id);
+  assert(json.data.edition.script);
+
+  assertEquals(provider.scripts, 1);
+  assertEquals(db.table('daily_editions').length, 1);
+  assertEquals(db.rpcCalls.filter((c) => c.fn === 'increment_daily_usage').length, 1);
+});
+
+Deno.test('ends a stream after the job event when it joins an in-flight job', async () => {
+  const { send, background } = setup({
+    generation_status: [{
+      id: 'job-running',
+      edition_type: EDITION.editionType,
+      region: EDITION.region,
+      language: EDITION.language,
+      generation_date: today(),
+      episode_format: 'classic',
+      status: 'generating',
+      stage: 'scripting',
+      updated_at: new Date().toISOString(),
+    }],
+  });
+
+  const events = await readEvents(await send({ ...EDITION, stream: true }));
+  assertEquals(events, [{ event: 'job', data: { job_id: 'job-running', stage: 'scripting', joined: true } }]);
+  assertEquals(background.length, 0);
+});
+
+Deno.test('answers a streaming request for a cached edition with plain JSON', async () => {
+  const { send } = setup({
+    daily_editions: [{
+      id: 'edition-cached',
+      edition_type: EDITION.editionType,
+      region: EDITION.region,
+      language: EDITION.language,
+      date: today(),
+      episode_format: 'classic',
+      content: 'Cached briefing',
+      script: 'Alex: Hi\nJordan: Hello',
+      image_url: 'data:image/png;base64,AAAA',
+      expires_at: hoursFromNow(3),
+    }],
+  });
+
+  const res = await send({ ...EDITION, stream: true });
+  assert(res.headers.get('Content-Type')?.startsWith('application/json'));
+  assertEquals((await res.json()).data.cached, true);
+});
+
+Deno.test('ends the stream with an error event when generation fails', async () => {
+  class NoScriptProvider extends FakeProvider {
+    override async generateText(request: Parameters<FakeProvider['generateText']>[0]) {
+      return request.task === 'script' ? { text: '', grounding: [], supports: [] } : super.generateText(request);
+    }
+  }
+  const { send } = setup({}, new NoScriptProvider());
+
+  const events = await readEvents(await send({ ...EDITION, stream: true }));
+  const last = events[events.length - 1];
+  assertEquals(last.event, 'error');
+  assertEquals(last.data.error, 'Script generation failed. Please try again.');
+});
+
+// ==================== TOPIC CHANNELS ====================
+const AI_POLICY = {
+  id: 'channel-ai',
+  user_id: USER.id,
+  name: 'AI Policy',
+  include_keywords: ['AI regulation', 'AI Act'],
+  exclude_keywords: ['crypto'],
+  preferred_sources: ['reuters.com'],
+};
+
+Deno.test('researches a topic channel with its keywords and sources in the prompt', async () => {
+  class RecordingProvider extends FakeProvider {
+    prompts: string[] = [];
+    override async generateText(request: Parameters<FakeProvider['generateText']>[0]) {
+      if (request.task === 'news') this.prompts.push(request.prompt);
+      return super.generateText(request);
+    }
+  }
+  const provider = new RecordingProvider();
+  const { db, call } = setup({ topic_channels: [AI_POLICY] }, provider);
+
+  const { status, json } = await call({ ...EDITION, channelId: AI_POLICY.id });
+  assertEquals(status, 200);
+
+  const [prompt] = provider.prompts;
+  assert(prompt.includes('TOPIC CHANNEL "AI Policy"'));
+  assert(prompt.includes('"AI regulation", "AI Act"'));
+  assert(prompt.includes('EXCLUDE: Do not cover stories centred on "crypto"'));
+  assert(prompt.includes('"reuters.com"'));
+
+  const [edition] = db.table('daily_editions');
+  assertEquals(edition.id, json.data.edition_id);
+  assertEquals(edition.channel_id, AI_POLICY.id);
+  assertEquals(edition.edition_type, 'Channel');
+});
+
+Deno.test('caches channel editions apart from the shared edition of the same day', async () => {
+  const { db, call } = setup({
+    topic_channels: [AI_POLICY],
+    daily_editions: [{
+      id: 'edition-shared',
+      edition_type: 'Channel',
+      region: EDITION.region,
+      language: EDITION.language,
+      date: today(),
+      episode_format: 'classic',
+      content: 'Shared briefing',
+      script: 'Alex: Hi',
+      expires_at: hoursFromNow(3),
+    }],
+  });
+
+  const first = await call({ ...EDITION, channelId: AI_POLICY.id });
+  assertEquals(first.json.data.cached, false);
+  assert(first.json.data.edition_id !== 'edition-shared');
+
+  const second = await call({ ...EDITION, editionType: 'Evening', channelId: AI_POLICY.id });
+  assertEquals(second.json.data.cached, true);
+  assertEquals(second.json.data.edition_id, first.json.data.edition_id);
+  assertEquals(db.table('daily_editions').length, 2);
+});
+
+Deno.test('returns 404 for a topic channel the user does not own', async () => {
+  const { call } = setup({ topic_channels: [{ ...AI_POLICY, user_id: 'someone-else' }] });
+  const { status, json } = await call({ ...EDITION, channelId: AI_POLICY.id });
+  assertEquals(status, 404);
+  assertEquals(json.error, 'Topic channel not found');
+});
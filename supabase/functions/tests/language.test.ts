@@ -0,0 +1,48 @@
+// ==================== LANGUAGE TESTS ====================
+// N-gram language identification, output validation and language name/code mapping.
+
+import { assert, assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { detectLanguage, getLanguageCode, getLanguageName, validateLanguage } from '../shared/language.ts';
+
+const SAMPLES: Record<string, string> = {
+  English: 'The central bank said on Monday that the rate decision was made with the data that has been available for this quarter.',
+  Spanish: 'El banco central dijo el lunes que la decisión sobre las tasas se tomó con los datos que están disponibles para este trimestre.',
+  Portuguese: 'O banco central disse na segunda-feira que a decisão sobre os juros foi tomada com os dados que são conhecidos pelo mercado e não mais.',
+  French: 'La banque centrale a déclaré lundi que la décision sur les taux est prise avec les données qui sont disponibles pour ce trimestre et pas plus.',
+  German: 'Die Zentralbank erklärte am Montag, dass die Entscheidung über die Zinsen mit den Daten getroffen wird, die für das Quartal auch vorliegen und nicht mehr.',
+};
+
+Deno.test('detects each supported language', () => {
+  for (const [language, text] of Object.entries(SAMPLES)) {
+    const detection = detectLanguage(text);
+    assertEquals(detection.language, language);
+    assert(detection.confidence > 0.05, `${language} confidence ${detection.confidence}`);
+    assertEquals(validateLanguage(text, language).isValid, true);
+  }
+});
+
+Deno.test('ignores speaker labels and story markers in scripts', () => {
+  const script = `Alex: Bienvenidos de nuevo a VoxTrends, soy Alex.
+[STORY: Central Banks Hold Rates]
+Jordan: Los bancos centrales mantienen las tasas mientras la inflación se modera en toda la región.
+Alex: ¿Es un alivio para los hogares o un riesgo de que los precios vuelvan a subir?`;
+  assertEquals(detectLanguage(script).language, 'Spanish');
+});
+
+Deno.test('reports Unknown for text too short to identify', () => {
+  assertEquals(detectLanguage('Hola, Alex.').language, 'Unknown');
+  assertEquals(validateLanguage('OK', 'English').isValid, true);
+  assertEquals(validateLanguage('OK', 'French').isValid, false);
+});
+
+Deno.test('flags output in the wrong language', () => {
+  assertEquals(validateLanguage(SAMPLES.English, 'German').detectedLanguage, 'English');
+  assertEquals(validateLanguage(SAMPLES.English, 'German').isValid, false);
+  assertEquals(validateLanguage(SAMPLES.Spanish, 'Portuguese').isValid, false);
+});
+
+Deno.test('maps language codes to names and locales', () => {
+  assertEquals(getLanguageName('pt'), 'Portuguese');
+  assertEquals(getLanguageName('French'), 'French');
+  assertEquals(getLanguageCode('German'), 'de-DE');
+});
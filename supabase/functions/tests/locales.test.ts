@@ -0,0 +1,66 @@
+// ==================== REGION & LANGUAGE REGISTRY TESTS ====================
+// Normalization of the ids, labels and legacy codes callers send, plan gating and
+// each region's local date, edition window and pre-generation hour.
+
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import {
+  currentEdition,
+  editionsDue,
+  getLanguage,
+  getRegion,
+  normalizeLanguage,
+  normalizeRegion,
+  regionDate,
+} from '../shared/locales.ts';
+import { isLanguageAllowed, isRegionAllowed } from '../shared/limits.ts';
+
+Deno.test('normalizes region ids and legacy codes to the canonical id', () => {
+  assertEquals(normalizeRegion('USA'), 'USA');
+  assertEquals(normalizeRegion('us'), 'USA');
+  assertEquals(normalizeRegion(' global '), 'Global');
+  assertEquals(normalizeRegion('COLOMBIA'), 'Colombia');
+  assertEquals(normalizeRegion('Atlantis'), null);
+  assertEquals(normalizeRegion(undefined), null);
+  assertEquals(getRegion('ve')?.timezone, 'America/Caracas');
+});
+
+Deno.test('normalizes language names, ISO codes and locales to the canonical id', () => {
+  assertEquals(normalizeLanguage('English'), 'English');
+  assertEquals(normalizeLanguage('en'), 'English');
+  assertEquals(normalizeLanguage('pt-BR'), 'Portuguese');
+  assertEquals(normalizeLanguage('es-MX'), 'Spanish');
+  assertEquals(normalizeLanguage('german'), 'German');
+  assertEquals(normalizeLanguage('it'), null);
+  assertEquals(getLanguage('fr')?.ttsCode, 'fr-FR');
+});
+
+Deno.test('gates regions and languages by plan, whatever code they arrive in', () => {
+  assertEquals(isRegionAllowed('Free', 'global'), true);
+  assertEquals(isRegionAllowed('Free', 'us'), false);
+  assertEquals(isRegionAllowed('Pro', 'us'), true);
+  assertEquals(isLanguageAllowed('Free', 'en'), true);
+  assertEquals(isLanguageAllowed('Free', 'Spanish'), false);
+});
+
+Deno.test('dates and windows editions by the region\'s local time', () => {
+  const now = new Date('2026-02-10T03:30:00Z');
+  assertEquals(regionDate('Global', now), '2026-02-10');
+  assertEquals(regionDate('USA', now), '2026-02-09');     // 22:30 in New York
+  assertEquals(regionDate('Asia', now), '2026-02-10');    // 11:30 in Singapore
+  assertEquals(currentEdition('USA', now), 'Evening');
+  assertEquals(currentEdition('Asia', now), 'Morning');
+  assertEquals(currentEdition('Europe', now), 'Morning'); // 04:30 in Paris
+});
+
+Deno.test('staggers pre-generation by the region\'s local hour', () => {
+  // 06:00 in Paris, 13:00 in Singapore
+  assertEquals(editionsDue(new Date('2026-02-10T05:00:00Z')), [{ region: 'Europe', edition: 'Morning' }]);
+  // 12:00 UTC, 07:00 in New York and Bogota, 08:00 in Caracas
+  assertEquals(editionsDue(new Date('2026-02-10T12:00:00Z')), [{ region: 'Global', edition: 'Midday' }]);
+  // 06:00 in New York and Bogota, 12:00 in Paris, 07:00 in Caracas
+  assertEquals(editionsDue(new Date('2026-02-10T11:00:00Z')), [
+    { region: 'USA', edition: 'Morning' },
+    { region: 'Europe', edition: 'Midday' },
+    { region: 'Colombia', edition: 'Morning' },
+  ]);
+});
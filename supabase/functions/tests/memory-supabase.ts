@@ -0,0 +1,229 @@
+// ==================== IN-MEMORY SUPABASE ====================
+// Just enough of the supabase-js query builder for the edge function handlers:
+// from()/select/insert/update/upsert/delete with eq/neq/gt/gte/lt/lte/in/is filters,
+// order/limit/single/maybeSingle, rpc(), storage upload/getPublicUrl and
+// auth.getUser(). Rows live in plain
+// arrays so tests can seed state and inspect what the handler wrote; every write
+// is also appended to `writes` so tests can assert on ordering.
+
+type Row = Record<string, any>;
+type Filter = (row: Row) => boolean;
+type RpcHandler = (db: MemorySupabase, args: Record<string, any>) => any;
+
+interface QueryResult {
+  data: any;
+  error: { message: string; code?: string } | null;
+}
+
+const NO_ROWS = { message: 'JSON object requested, multiple (or no) rows returned', code: 'PGRST116' };
+
+class QueryBuilder implements PromiseLike<QueryResult> {
+  private filters: Filter[] = [];
+  private orderBy?: { column: string; ascending: boolean };
+  private rowLimit?: number;
+  private mode: 'select' | 'insert' | 'update' | 'upsert' | 'delete' = 'select';
+  private payload: Row[] = [];
+  private patch: Row = {};
+  private conflictColumns: string[] = [];
+  private returning = false;
+  private singleMode: 'many' | 'single' | 'maybe' = 'many';
+
+  constructor(private db: MemorySupabase, private table: string) {}
+
+  select(_columns?: string) {
+    // Projection is ignored; a select after a write asks for the written rows back
+    if (this.mode !== 'select') this.returning = true;
+    return this;
+  }
+
+  insert(rows: Row | Row[]) {
+    this.mode = 'insert';
+    this.payload = Array.isArray(rows) ? rows : [rows];
+    return this;
+  }
+
+  upsert(rows: Row | Row[], options: { onConflict?: string } = {}) {
+    this.mode = 'upsert';
+    this.payload = Array.isArray(rows) ? rows : [rows];
+    this.conflictColumns = (options.onConflict ?? 'id').split(',').map((c) => c.trim());
+    return this;
+  }
+
+  update(patch: Row) {
+    this.mode = 'update';
+    this.patch = patch;
+    return this;
+  }
+
+  delete() {
+    this.mode = 'delete';
+    return this;
+  }
+
+  eq(column: string, value: any) { return this.where((row) => row[column] === value); }
+  neq(column: string, value: any) { return this.where((row) => row[column] !== value); }
+  gt(column: string, value: any) { return this.where((row) => row[column] > value); }
+  gte(column: string, value: any) { return this.where((row) => row[column] >= value); }
+  lt(column: string, value: any) { return this.where((row) => row[column] < value); }
+  lte(column: string, value: any) { return this.where((row) => row[column] <= value); }
+  in(column: string, values: any[]) { return this.where((row) => values.includes(row[column])); }
+  // Columns a row was seeded without read as NULL, like a freshly added column
+  is(column: string, value: null | boolean) { return this.where((row) => (row[column] ?? null) === value); }
+
+  order(column: string, options: { ascending?: boolean } = {}) {
+    this.orderBy = { column, ascending: options.ascending ?? true };
+    return this;
+  }
+
+  limit(count: number) {
+    this.rowLimit = count;
+    return this;
+  }
+
+  single() {
+    this.singleMode = 'single';
+    return this;
+  }
+
+  maybeSingle() {
+    this.singleMode = 'maybe';
+    return this;
+  }
+
+  then<T1 = QueryResult, T2 = never>(
+    onfulfilled?: ((value: QueryResult) => T1 | PromiseLike<T1>) | null,
+    onrejected?: ((reason: any) => T2 | PromiseLike<T2>) | null,
+  ): PromiseLike<T1 | T2> {
+    return Promise.resolve().then(() => this.execute()).then(onfulfilled, onrejected);
+  }
+
+  private where(filter: Filter) {
+    this.filters.push(filter);
+    return this;
+  }
+
+  private execute(): QueryResult {
+    const rows = this.db.table(this.table);
+    const matches = (row: Row) => this.filters.every((filter) => filter(row));
+    let result: Row[];
+
+    if (this.mode !== 'select') {
+      this.db.writes.push({ table: this.table, op: this.mode, values: this.mode === 'update' ? this.patch : this.payload });
+    }
+
+    switch (this.mode) {
+      case 'insert':
+        result = this.payload.map((row) => this.db.insertRow(this.table, row));
+        if (!this.returning) return { data: null, error: null };
+        break;
+      case 'upsert':
+        result = this.payload.map((row) => {
+          // Conflict targets treat NULLs as equal (the unique indexes are NULLS NOT DISTINCT)
+          const existing = rows.find((r) => this.conflictColumns.every((c) => (r[c] ?? null) === (row[c] ?? null)));
+          if (existing) return Object.assign(existing, row);
+          return this.db.insertRow(this.table, row);
+        });
+        if (!this.returning) return { data: null, error: null };
+        break;
+      case 'update':
+        result = rows.filter(matches).map((row) => Object.assign(row, this.patch));
+        if (!this.returning) return { data: null, error: null };
+        break;
+      case 'delete':
+        result = rows.filter(matches);
+        this.db.tables[this.table] = rows.filter((row) => !matches(row));
+        if (!this.returning) return { data: null, error: null };
+        break;
+      default:
+        result = rows.filter(matches);
+    }
+
+    if (this.orderBy) {
+      const { column, ascending } = this.orderBy;
+      result = [...result].sort((a, b) => (a[column] > b[column] ? 1 : a[column] < b[column] ? -1 : 0) * (ascending ? 1 : -1));
+    }
+    if (this.rowLimit !== undefined) result = result.slice(0, this.rowLimit);
+
+    // Hand back copies so later writes don't mutate what the caller already read
+    const copies = result.map((row) => ({ ...row }));
+
+    if (this.singleMode === 'many') return { data: copies, error: null };
+    if (copies.length === 1) return { data: copies[0], error: null };
+    if (copies.length === 0 && this.singleMode === 'maybe') return { data: null, error: null };
+    return { data: null, error: NO_ROWS };
+  }
+}
+
+export class MemorySupabase {
+  static readonly STORAGE_URL = 'https://storage.test/object/public';
+
+  tables: Record<string, Row[]> = {};
+  rpcCalls: { fn: string; args: Record<string, any> }[] = [];
+  writes: { table: string; op: string; values: Row | Row[] }[] = [];
+  // Uploaded storage objects keyed by `${bucket}/${path}`
+  objects: Record<string, { bytes: Uint8Array; contentType?: string }> = {};
+  private rpcHandlers: Record<string, RpcHandler> = {};
+  private users = new Map<string, { id: string; email?: string }>();
+  private nextId = 1;
+
+  constructor(seed: Record<string, Row[]> = {}) {
+    for (const [name, rows] of Object.entries(seed)) {
+      for (const row of rows) this.insertRow(name, row);
+    }
+  }
+
+  // ==================== SETUP ====================
+  addUser(token: string, user: { id: string; email?: string }) {
+    this.users.set(token, user);
+    return this;
+  }
+
+  onRpc(fn: string, handler: RpcHandler) {
+    this.rpcHandlers[fn] = handler;
+    return this;
+  }
+
+  table(name: string): Row[] {
+    return this.tables[name] ??= [];
+  }
+
+  insertRow(name: string, row: Row): Row {
+    const stored = { id: `${name}-${this.nextId++}`, ...row };
+    this.table(name).push(stored);
+    return stored;
+  }
+
+  // ==================== CLIENT ====================
+  // Returns an object shaped like a supabase-js client bound to one auth header
+  client(authHeader?: string) {
+    const token = authHeader?.replace(/^Bearer\s+/i, '') ?? '';
+    const user = this.users.get(token) ?? null;
+
+    return {
+      from: (name: string) => new QueryBuilder(this, name),
+      rpc: async (fn: string, args: Record<string, any> = {}): Promise<QueryResult> => {
+        this.rpcCalls.push({ fn, args });
+        const handler = this.rpcHandlers[fn];
+        return { data: handler ? handler(this, args) : null, error: null };
+      },
+      storage: {
+        from: (bucket: string) => ({
+          upload: async (path: string, bytes: Uint8Array, options: { contentType?: string } = {}) => {
+            const key = `${bucket}/${path}`;
+            if (this.objects[key]) return { data: null, error: { message: 'The resource already exists' } };
+            this.objects[key] = { bytes, contentType: options.contentType };
+            return { data: { path }, error: null };
+          },
+          getPublicUrl: (path: string) => ({
+            data: { publicUrl: `${MemorySupabase.STORAGE_URL}/${bucket}/${path}` },
+          }),
+        }),
+      },
+      auth: {
+        getUser: async () => user
+          ? { data: { user }, error: null }
+          : { data: { user: null }, error: { message: 'Invalid JWT' } },
+      },
+    };
+  }
+}
@@ -0,0 +1,192 @@
+// ==================== PODCAST FEED TESTS ====================
+// Token management and RSS output of the podcast-feed handler against the
+// in-memory Supabase stand-in.
+
+import { assert, assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { handleFeedRequest, type FeedHandlerDeps } from '../podcast-feed/handler.ts';
+import { escapeXml, formatDuration } from '../podcast-feed/feed.ts';
+import { MemorySupabase } from './memory-supabase.ts';
+
+const USER = { id: 'user-1', email: 'listener@example.com' };
+const TOKEN = 'valid-token';
+const FEED_TOKEN = 'a'.repeat(32);
+const FUNCTIONS_URL = 'https://project.test/functions/v1';
+
+const EDITION = {
+  id: 'edition-1',
+  edition_type: 'Morning',
+  region: 'Global',
+  language: 'English',
+  date: '2026-02-01',
+  content: 'Markets & more',
+  flash_summary: '- Markets rallied\n- Rates held',
+  grounding_links: [{ uri: 'https://news.test/a?x=1&y=2', title: 'Rates <held>' }],
+  image_url: 'https://cdn.test/cover.png',
+};
+
+const VARIANT = {
+  edition_id: 'edition-1',
+  user_id: USER.id,
+  voice_id: 'originals',
+  audio_quality: '24khz',
+  audio_url: 'https://cdn.test/edition-1.mp3',
+  audio_bytes: 123456,
+  audio_format: 'mp3',
+  duration_seconds: 754.2,
+  created_at: '2026-02-01T07:00:00Z',
+};
+
+function setup(seed: Record<string, Record<string, any>[]> = {}) {
+  const db = new MemorySupabase({
+    users: [{ id: USER.id, plan: 'Free' }],
+    podcast_feed_tokens: [{ user_id: USER.id, token: FEED_TOKEN }],
+    ...seed,
+  }).addUser(TOKEN, USER);
+
+  const deps: FeedHandlerDeps = {
+    createServiceClient: () => db.client(),
+    createUserClient: (authHeader) => db.client(authHeader),
+    appUrl: () => 'https://app.test',
+    coverUrl: () => 'https://app.test/cover.png',
+    functionsUrl: () => FUNCTIONS_URL,
+  };
+
+  const get = async (query: string) => {
+    const res = await handleFeedRequest(new Request(`${FUNCTIONS_URL}/podcast-feed?${query}`), deps);
+    return { status: res.status, type: res.headers.get('Content-Type'), body: await res.text() };
+  };
+
+  const send = async (method: string, body?: unknown, token: string | null = TOKEN) => {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (token) headers.Authorization = `Bearer ${token}`;
+    const res = await handleFeedRequest(new Request(`${FUNCTIONS_URL}/podcast-feed`, {
+      method,
+      headers,
+      body: body === undefined ? undefined : JSON.stringify(body),
+    }), deps);
+    return { status: res.status, json: await res.json() };
+  };
+
+  return { db, get, send };
+}
+
+// ==================== TOKENS ====================
+Deno.test('requires a login to create a feed token', async () => {
+  const { send } = setup();
+  const { status } = await send('POST', {}, null);
+  assertEquals(status, 401);
+});
+
+Deno.test('returns the existing feed URL and rotates it on request', async () => {
+  const { db, send } = setup();
+
+  const first = await send('POST', {});
+  assertEquals(first.status, 200);
+  assertEquals(first.json.data.feed_url, `${FUNCTIONS_URL}/podcast-feed?token=${FEED_TOKEN}`);
+
+  const rotated = await send('POST', { rotate: true });
+  assert(rotated.json.data.token !== FEED_TOKEN);
+  assert(/^[a-z0-9]{32}$/.test(rotated.json.data.token));
+  assertEquals(db.table('podcast_feed_tokens').length, 1);
+  assertEquals(db.table('podcast_feed_tokens')[0].token, rotated.json.data.token);
+});
+
+Deno.test('revoking the token makes the feed 404', async () => {
+  const { get, send } = setup();
+  await send('DELETE');
+  const { status } = await get(`token=${FEED_TOKEN}`);
+  assertEquals(status, 404);
+});
+
+// ==================== FEEDS ====================
+Deno.test('rejects a feed request without a token or with an unknown one', async () => {
+  const { get } = setup();
+  assertEquals((await get('')).status, 401);
+  assertEquals((await get(`token=${'b'.repeat(32)}`)).status, 404);
+});
+
+Deno.test('renders the user feed as RSS with enclosure, duration and show notes', async () => {
+  const { get } = setup({ daily_editions: [EDITION], voice_variants: [VARIANT] });
+  const { status, type, body } = await get(`token=${FEED_TOKEN}`);
+
+  assertEquals(status, 200);
+  assertEquals(type, 'application/rss+xml; charset=utf-8');
+  assert(body.startsWith('<?xml version="1.0" encoding="UTF-8"?>'));
+  assert(body.includes('xmlns:itunes="http://www.itunes.com/dtds/podcast-1.0.dtd"'));
+  assert(body.includes('<enclosure url="https://cdn.test/edition-1.mp3" length="123456" type="audio/mpeg"/>'));
+  assert(body.includes('<itunes:duration>00:12:34</itunes:duration>'));
+  assert(body.includes('<itunes:image href="https://cdn.test/cover.png"/>'));
+  assert(body.includes('<title>Morning Edition · Global · 2026-02-01</title>'));
+  // Source links are escaped inside the CDATA show notes
+  assert(body.includes('<a href="https://news.test/a?x=1&amp;y=2">Rates &lt;held&gt;</a>'));
+  assert(body.includes('<language>en-us</language>'));
+});
+
+Deno.test('leaves out editions whose audio is only an inline data URI', async () => {
+  const { get } = setup({
+    daily_editions: [EDITION],
+    voice_variants: [{ ...VARIANT, audio_url: 'data:audio/wav;base64,UklGR' }],
+  });
+  const { body } = await get(`token=${FEED_TOKEN}`);
+  assert(!body.includes('<item>'));
+});
+
+Deno.test('prefers the variant at the listener plan quality', async () => {
+  const { get } = setup({
+    users: [{ id: USER.id, plan: 'Pro' }],
+    daily_editions: [EDITION],
+    voice_variants: [VARIANT, { ...VARIANT, audio_quality: '48khz', audio_url: 'https://cdn.test/edition-1-hq.mp3' }],
+  });
+  const { body } = await get(`token=${FEED_TOKEN}`);
+  assert(body.includes('url="https://cdn.test/edition-1-hq.mp3"'));
+  assertEquals(body.match(/<item>/g)?.length, 1);
+});
+
+Deno.test('serves a channel feed of every edition for a region and language', async () => {
+  const { get } = setup({
+    daily_editions: [EDITION, { ...EDITION, id: 'edition-2', region: 'USA' }],
+    voice_variants: [
+      { ...VARIANT, user_id: 'someone-else' },
+      { ...VARIANT, edition_id: 'edition-2', user_id: 'someone-else' },
+    ],
+  });
+  const { status, body } = await get(`token=${FEED_TOKEN}&region=Global&language=English`);
+  assertEquals(status, 200);
+  assertEquals(body.match(/<item>/g)?.length, 1);
+  assert(body.includes('<title>VoxTrends · Global (English)</title>'));
+});
+
+Deno.test('resolves a channel feed subscribed with legacy region and language codes', async () => {
+  const { get } = setup({ daily_editions: [EDITION], voice_variants: [{ ...VARIANT, user_id: 'someone-else' }] });
+  const { status, body } = await get(`token=${FEED_TOKEN}&region=global&language=en`);
+  assertEquals(status, 200);
+  assertEquals(body.match(/<item>/g)?.length, 1);
+  assert(body.includes('<title>VoxTrends · Global (English)</title>'));
+});
+
+Deno.test('keeps Free listeners out of channels their plan does not include', async () => {
+  const { get } = setup();
+  const { status } = await get(`token=${FEED_TOKEN}&region=us&language=Spanish`);
+  assertEquals(status, 403);
+});
+
+Deno.test('links each episode to its chapters and lists them in the show notes', async () => {
+  const chapters = [{ title: 'Intro', start: 0 }, { title: 'Rates & Markets', start: 65.2 }];
+  const { get } = setup({ daily_editions: [EDITION], voice_variants: [{ ...VARIANT, chapters }] });
+
+  const { body } = await get(`token=${FEED_TOKEN}`);
+  assert(body.includes(`<podcast:chapters url="${FUNCTIONS_URL}/podcast-feed?token=${FEED_TOKEN}&amp;chapters=edition-1&amp;voice=originals&amp;quality=24khz" type="application/json+chapters"/>`));
+  assert(body.includes('<li>00:01:05 Rates &amp; Markets</li>'));
+
+  const doc = await get(`token=${FEED_TOKEN}&chapters=edition-1&voice=originals&quality=24khz`);
+  assertEquals(doc.type, 'application/json+chapters');
+  assertEquals(JSON.parse(doc.body), {
+    version: '1.2.0',
+    chapters: [{ startTime: 0, title: 'Intro' }, { startTime: 65.2, title: 'Rates & Markets' }],
+  });
+});
+
+Deno.test('escapes XML and formats iTunes durations', () => {
+  assertEquals(escapeXml(`<a href="x">Tom & Jerry's</a>`), '&lt;a href=&quot;x&quot;&gt;Tom &amp; Jerry&apos;s&lt;/a&gt;');
+  assertEquals(formatDuration(3725.4), '01:02:05');
+});
@@ -0,0 +1,100 @@
+// ==================== PROMPT TEMPLATE TESTS ====================
+// Variable rendering, per-language template selection and version ids for the
+// news research and podcast script prompts.
+
+import { assert, assertEquals, assertThrows } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { EPISODE_FORMATS } from '../shared/formats.ts';
+import { buildNewsPrompt, buildScriptPrompt, promptLanguages, promptVersion, renderTemplate } from '../shared/prompts.ts';
+
+const DATE = new Date('2026-02-09T12:00:00Z');
+
+Deno.test('renders variables and refuses templates with unknown placeholders', () => {
+  assertEquals(renderTemplate('{{host}} in {{region}}', { host: 'Joe', region: 'Global' }), 'Joe in Global');
+  assertThrows(() => renderTemplate('Hello {{name}}', {}), Error, 'missing variable "name"');
+});
+
+Deno.test('fills the Spanish news template entirely in Spanish', () => {
+  const { prompt, version } = buildNewsPrompt({
+    region: 'Mexico',
+    language: 'Spanish',
+    editionType: 'Morning',
+    previousTopics: 'Elecciones, Huracán',
+    date: DATE,
+  });
+
+  assertEquals(version, 'news.es@3');
+  assert(prompt.startsWith('Busca noticias exclusivamente en español de Mexico'));
+  assert(prompt.includes('la noche y el comienzo del día de hoy'));
+  assert(prompt.includes('lunes, 9 de febrero de 2026'));
+  assert(prompt.includes('ya cubrieron estos temas: Elecciones, Huracán'));
+  assert(prompt.includes('FORMATO DE SALIDA') && prompt.includes('"sentiment": "positive"'));
+  assert(!prompt.includes('{{'));
+});
+
+Deno.test('has native templates for every supported language', () => {
+  assertEquals(promptLanguages('news'), ['English', 'Spanish', 'Portuguese', 'French', 'German']);
+  assertEquals(promptLanguages('script'), promptLanguages('news'));
+  assertEquals(promptVersion('script', 'German'), 'script.de@2');
+
+  const { prompt } = buildNewsPrompt({ region: 'Europe', language: 'French', editionType: 'Evening', date: DATE });
+  assert(prompt.startsWith('Recherche des actualités exclusivement en français sur Europe'));
+  assert(prompt.includes('lundi 9 février 2026'));
+});
+
+Deno.test('falls back to the English template with a language directive', () => {
+  const { prompt, version } = buildNewsPrompt({ region: 'Italy', language: 'Italian', date: DATE });
+
+  assertEquals(version, 'news.en@3');
+  assertEquals(promptVersion('news', 'Italian'), 'news.en@3');
+  assert(prompt.startsWith('MANDATORY: Search for news exclusively in Italian from Italy'));
+  assert(prompt.includes('the last 24 hours'));
+  assert(!prompt.includes('DEDUPLICATION'));
+});
+
+Deno.test('every script template renders every episode format', () => {
+  for (const language of promptLanguages('script')) {
+    for (const format of Object.values(EPISODE_FORMATS)) {
+      const { prompt, version } = buildScriptPrompt({ trends: 'News', language, format, hostLead: 'Joe', hostExpert: 'Jane' });
+      assert(version.startsWith('script.'));
+      assert(prompt.includes(`${format.words.min}-${format.words.max}`), `${language}/${format.id}`);
+      assert(!prompt.includes('{{'), `${language}/${format.id} left a placeholder`);
+    }
+  }
+});
+
+Deno.test('ties follow-up stories back to earlier coverage in the edition language', () => {
+  const priorCoverage = [
+    { headline: 'Huelga ferroviaria, tercer día', previousHeadline: 'Comienza la huelga ferroviaria', previousDate: '2026-02-07' },
+    { headline: 'Tasas sin cambios', previousHeadline: 'Bancos centrales en pausa', previousDate: '2026-02-09' },
+  ];
+  const format = EPISODE_FORMATS.standard;
+  const { prompt } = buildScriptPrompt({ trends: 'Noticias', language: 'Spanish', format, hostLead: 'Joe', hostExpert: 'Jane', priorCoverage, date: DATE });
+
+  assert(prompt.includes('CONTINUIDAD — COBERTURA PREVIA'));
+  assert(prompt.includes('"Huelga ferroviaria, tercer día" da seguimiento a "Comienza la huelga ferroviaria", que cubrimos el sábado, 7 de febrero.'));
+  assert(prompt.includes('que cubrimos hoy más temprano.'));
+
+  for (const language of promptLanguages('script')) {
+    const rendered = buildScriptPrompt({ trends: 'News', language, format, hostLead: 'Joe', hostExpert: 'Jane', priorCoverage, date: DATE });
+    assert(!rendered.prompt.includes('{{'), `${language} left a placeholder`);
+  }
+  assert(!buildScriptPrompt({ trends: 'News', language: 'English', format, hostLead: 'Joe', hostExpert: 'Jane' }).prompt.includes('CONTINUITY'));
+});
+
+Deno.test('narrows a Breaking bulletin to the topic that spiked', () => {
+  const { prompt } = buildNewsPrompt({ region: 'Global', language: 'English', editionType: 'Breaking', breakingTopic: 'Port strike spreads', date: DATE });
+  assert(prompt.includes('Port strike spreads'));
+  assert(!prompt.includes('{{'));
+});
+
+Deno.test('dates the prompts by the region calendar, not UTC', () => {
+  // 06:00 in Singapore is still the previous day in UTC
+  const asiaMorning = new Date('2026-02-09T22:00:00Z');
+  const { prompt } = buildNewsPrompt({ region: 'Asia', language: 'English', editionType: 'Morning', date: asiaMorning });
+  assert(prompt.includes('Tuesday, February 10, 2026'));
+
+  const priorCoverage = [{ headline: 'Port strike, day two', previousHeadline: 'Port strike begins', previousDate: '2026-02-10' }];
+  const format = EPISODE_FORMATS.standard;
+  const script = buildScriptPrompt({ trends: 'News', language: 'English', format, hostLead: 'Joe', hostExpert: 'Jane', priorCoverage, region: 'Asia', date: asiaMorning });
+  assert(script.prompt.includes('which we covered earlier today.'));
+});
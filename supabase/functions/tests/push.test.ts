@@ -0,0 +1,128 @@
+// ==================== WEB PUSH TESTS ====================
+// Payload encryption and VAPID signing checked the way a browser and a push service
+// would, and the edition-alert fan-out against the in-memory Supabase stand-in.
+
+import { assert, assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import {
+  base64UrlDecode,
+  base64UrlEncode,
+  editionDeepLink,
+  encryptPayload,
+  notifyEditionReady,
+  vapidAuthorization,
+  type PushMessage,
+  type PushSubscriptionKeys,
+} from '../shared/push.ts';
+import { MemorySupabase } from './memory-supabase.ts';
+
+const encoder = new TextEncoder();
+
+async function hkdf(salt: BufferSource, ikm: BufferSource, info: BufferSource, length: number) {
+  const key = await crypto.subtle.importKey('raw', ikm, 'HKDF', false, ['deriveBits']);
+  return new Uint8Array(await crypto.subtle.deriveBits({ name: 'HKDF', hash: 'SHA-256', salt, info }, key, length * 8));
+}
+
+// The browser's side of RFC 8291
+async function decrypt(body: Uint8Array, browser: CryptoKeyPair, browserPublic: Uint8Array, auth: BufferSource) {
+  const salt = body.slice(0, 16);
+  const idLength = body[20];
+  const serverPublic = body.slice(21, 21 + idLength);
+  const serverKey = await crypto.subtle.importKey('raw', serverPublic, { name: 'ECDH', namedCurve: 'P-256' }, false, []);
+  const secret = new Uint8Array(await crypto.subtle.deriveBits({ name: 'ECDH', public: serverKey }, browser.privateKey, 256));
+
+  const keyInfo = new Uint8Array([...encoder.encode('WebPush: info\0'), ...browserPublic, ...serverPublic]);
+  const ikm = await hkdf(auth, secret, keyInfo, 32);
+  const cek = await hkdf(salt, ikm, encoder.encode('Content-Encoding: aes128gcm\0'), 16);
+  const nonce = await hkdf(salt, ikm, encoder.encode('Content-Encoding: nonce\0'), 12);
+
+  const key = await crypto.subtle.importKey('raw', cek, 'AES-GCM', false, ['decrypt']);
+  const plain = new Uint8Array(await crypto.subtle.decrypt({ name: 'AES-GCM', iv: nonce }, key, body.slice(21 + idLength)));
+  assertEquals(plain.at(-1), 2);
+  return new TextDecoder().decode(plain.slice(0, -1));
+}
+
+// ==================== ENCRYPTION & VAPID ====================
+Deno.test('encrypts a payload only the subscribed browser can read', async () => {
+  const browser = await crypto.subtle.generateKey({ name: 'ECDH', namedCurve: 'P-256' }, true, ['deriveBits']) as CryptoKeyPair;
+  const browserPublic = new Uint8Array(await crypto.subtle.exportKey('raw', browser.publicKey));
+  const auth = crypto.getRandomValues(new Uint8Array(16));
+
+  const body = await encryptPayload(encoder.encode('{"title":"Morning · USA"}'), {
+    p256dh: base64UrlEncode(browserPublic),
+    auth: base64UrlEncode(auth),
+  });
+
+  assertEquals(new DataView(body.buffer).getUint32(16), 4096);
+  assertEquals(body[20], 65);
+  assertEquals(await decrypt(body, browser, browserPublic, auth), '{"title":"Morning · USA"}');
+});
+
+Deno.test('signs a VAPID token for the push service origin', async () => {
+  const keys = await crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, true, ['sign', 'verify']) as CryptoKeyPair;
+  const publicKey = base64UrlEncode(new Uint8Array(await crypto.subtle.exportKey('raw', keys.publicKey)));
+  const privateKey = (await crypto.subtle.exportKey('jwk', keys.privateKey)).d!;
+  const now = new Date('2026-02-20T06:00:00Z');
+
+  const header = await vapidAuthorization('https://push.example.com/send/abc', { publicKey, privateKey, subject: 'mailto:ops@example.com' }, now);
+  const [, token, key] = header.match(/^vapid t=([^,]+), k=(.+)$/)!;
+  assertEquals(key, publicKey);
+
+  const [head, claims, signature] = token.split('.');
+  assertEquals(JSON.parse(new TextDecoder().decode(base64UrlDecode(claims))), {
+    aud: 'https://push.example.com',
+    exp: now.getTime() / 1000 + 12 * 60 * 60,
+    sub: 'mailto:ops@example.com',
+  });
+  assert(await crypto.subtle.verify({ name: 'ECDSA', hash: 'SHA-256' }, keys.publicKey, base64UrlDecode(signature), encoder.encode(`${head}.${claims}`)));
+});
+
+// ==================== EDITION ALERTS ====================
+const subscription = (id: string, user_id: string) =>
+  ({ id, user_id, endpoint: `https://push.example.com/send/${id}`, p256dh: 'key', auth: 'secret' });
+
+Deno.test('pushes a ready edition to its followers and drops expired subscriptions', async () => {
+  const db = new MemorySupabase({
+    edition_follows: [
+      { user_id: 'user-1', edition_type: 'Morning', region: 'USA', language: 'English' },
+      { user_id: 'user-2', edition_type: 'Morning', region: 'USA', language: 'English' },
+      { user_id: 'user-3', edition_type: 'Evening', region: 'USA', language: 'English' },
+    ],
+    push_subscriptions: [subscription('phone', 'user-1'), subscription('laptop', 'user-1'), subscription('old', 'user-2'), subscription('other', 'user-3')],
+  });
+
+  const pushed: { endpoint: string; message: PushMessage }[] = [];
+  const send = async (sub: PushSubscriptionKeys, message: PushMessage) => {
+    pushed.push({ endpoint: sub.endpoint, message });
+    return { status: sub.endpoint.endsWith('/old') ? 410 : 201 };
+  };
+
+  const result = await notifyEditionReady(db.client(), {
+    editionType: 'Morning',
+    region: 'USA',
+    language: 'English',
+    headline: 'Central banks hold rates steady',
+  }, send, 'https://app.test/');
+
+  assertEquals(result, { sent: 2, removed: 1 });
+  assertEquals(pushed.map((p) => p.endpoint.split('/').pop()), ['phone', 'laptop', 'old']);
+  assertEquals(pushed[0].message, {
+    title: 'Morning · USA',
+    body: 'Central banks hold rates steady',
+    url: 'https://app.test/?edition=Morning&region=USA&language=English',
+    tag: 'Morning-USA-English',
+  });
+  assertEquals(db.table('push_subscriptions').map((s) => s.id), ['phone', 'laptop', 'other']);
+});
+
+Deno.test('skips editions nobody follows', async () => {
+  const db = new MemorySupabase({ edition_follows: [], push_subscriptions: [subscription('phone', 'user-1')] });
+  let calls = 0;
+  const result = await notifyEditionReady(db.client(), { editionType: 'Midday', region: 'Global', language: 'Spanish' }, async () => {
+    calls++;
+    return { status: 201 };
+  }, 'https://app.test');
+
+  assertEquals(result, { sent: 0, removed: 0 });
+  assertEquals(calls, 0);
+  assertEquals(editionDeepLink('https://app.test', { editionType: 'Midday', region: 'Global', language: 'Spanish' }), 'https://app.test/?edition=Midday&region=Global&language=Spanish');
+});
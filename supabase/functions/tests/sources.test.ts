@@ -0,0 +1,53 @@
+// ==================== SOURCE REGISTRY TESTS ====================
+// Outlet lookup for grounding links and the edition-level sourcing score.
+
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { annotateLinks, lookupSource, sourceDomain, sourcingQuality } from '../shared/sources.ts';
+
+const REDIRECT = 'https://vertexaisearch.cloud.google.com/grounding-api-redirect/AbC123';
+
+Deno.test('reads the outlet domain from the URI, or from the title of a grounding redirect', () => {
+  assertEquals(sourceDomain({ uri: 'https://www.Reuters.com/world/story', title: 'Reuters' }), 'reuters.com');
+  assertEquals(sourceDomain({ uri: REDIRECT, title: 'elpais.com' }), 'elpais.com');
+  assertEquals(sourceDomain({ uri: REDIRECT, title: 'Rail strike enters third day' }), null);
+  assertEquals(sourceDomain({ uri: 'not a url', title: '' }), null);
+});
+
+Deno.test('matches subdomains to their registered outlet', () => {
+  assertEquals(lookupSource('edition.cnn.com')?.name, 'CNN');
+  assertEquals(lookupSource('g1.globo.com')?.credibility, 'high');
+  assertEquals(lookupSource('co.uk'), null);
+  assertEquals(lookupSource('example.com'), null);
+});
+
+Deno.test('annotates links with credibility and bias, leaving unknown outlets unrated', () => {
+  const links = annotateLinks([
+    { uri: REDIRECT, title: 'bild.de' },
+    { uri: 'https://blog.example.com/post', title: 'A blog' },
+  ]);
+
+  assertEquals(links[0], { uri: REDIRECT, title: 'bild.de', domain: 'bild.de', source: 'Bild', credibility: 'low', bias: 'right' });
+  assertEquals(links[1].credibility, 'unrated');
+  assertEquals(links[1].bias, null);
+  // Annotating again changes nothing
+  assertEquals(annotateLinks(links), links);
+});
+
+Deno.test('scores sourcing by outlet credibility and diversity', () => {
+  const strong = annotateLinks([
+    { uri: 'https://www.reuters.com/a', title: 'Reuters' },
+    { uri: 'https://www.reuters.com/b', title: 'Reuters' },
+    { uri: 'https://apnews.com/c', title: 'AP' },
+    { uri: 'https://www.lemonde.fr/d', title: 'Le Monde' },
+  ]);
+  assertEquals(sourcingQuality(strong), { score: 100, links: 4, domains: 3, tiers: { high: 4, medium: 0, low: 0, unrated: 0 } });
+
+  // One outlet is a third of the diversity target
+  assertEquals(sourcingQuality(strong.slice(0, 2)).score, 33);
+  assertEquals(sourcingQuality(annotateLinks([
+    { uri: 'https://www.dailymail.co.uk/a', title: 'Daily Mail' },
+    { uri: 'https://blog.example.com/b', title: 'Blog' },
+    { uri: 'https://www.cnn.com/c', title: 'CNN' },
+  ])).score, 37);
+  assertEquals(sourcingQuality([]).score, null);
+});
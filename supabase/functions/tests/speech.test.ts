@@ -0,0 +1,168 @@
+// ==================== CHUNKED SPEECH TESTS ====================
+// Script splitting, PCM joining, chapter and transcript timing, and the
+// retry/concurrency behaviour of synthesizeChunkedSpeech, driven by the fake provider.
+
+import { assert, assertEquals, assertRejects } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { base64ToBytes, PCM_SAMPLE_RATE } from '../shared/audio.ts';
+import { FakeProvider } from '../shared/fake-provider.ts';
+import { GeminiService } from '../shared/gemini.ts';
+import { splitScriptSections, stripStoryMarkers } from '../shared/chapters.ts';
+import type { SpeechRequest } from '../shared/provider.ts';
+import { chunkScript, joinPcm, splitScriptTurns, synthesizeChunkedSpeech } from '../shared/speech.ts';
+
+const SPEAKERS = [{ speaker: 'Joe', voice: 'Puck' }, { speaker: 'Jane', voice: 'Kore' }];
+const request = (script: string): SpeechRequest => ({ script, languageCode: 'en-US', speakers: SPEAKERS });
+const FAST = { retryDelayMs: 0, silenceMs: 0 };
+
+// Fails the first `failures` calls for any chunk containing `marker`, and tracks peak concurrency
+class FlakyProvider extends FakeProvider {
+  calls = 0;
+  scripts: string[] = [];
+  inFlight = 0;
+  peak = 0;
+  private failed = 0;
+
+  constructor(private marker = '', private failures = 0) {
+    super();
+  }
+
+  override async synthesizeSpeech(req: SpeechRequest): Promise<string | null> {
+    this.calls++;
+    this.scripts.push(req.script);
+    this.inFlight++;
+    this.peak = Math.max(this.peak, this.inFlight);
+    try {
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      if (this.marker && req.script.includes(this.marker) && this.failed < this.failures) {
+        this.failed++;
+        throw new Error('503 Service Unavailable');
+      }
+      return await super.synthesizeSpeech(req);
+    } finally {
+      this.inFlight--;
+    }
+  }
+}
+
+Deno.test('folds unlabelled lines into the preceding speaker turn', () => {
+  const turns = splitScriptTurns('Joe: Welcome back.\nStill Joe here.\n\nJane: Thanks, Joe.');
+  assertEquals(turns, ['Joe: Welcome back. Still Joe here.', 'Jane: Thanks, Joe.']);
+});
+
+Deno.test('groups whole turns into chunks under the size limit', () => {
+  const script = Array.from({ length: 10 }, (_, i) => `${i % 2 ? 'Jane' : 'Joe'}: Line number ${i} of the show.`).join('\n');
+  const chunks = chunkScript(script, 100);
+
+  assert(chunks.length > 1);
+  for (const chunk of chunks) assert(chunk.length <= 100, `chunk too long: ${chunk.length}`);
+  assertEquals(chunks.join('\n'), script);
+});
+
+Deno.test('splits an oversized turn on sentences and keeps the speaker label', () => {
+  const turn = 'Joe: ' + Array.from({ length: 8 }, (_, i) => `Sentence ${i} runs a little long.`).join(' ');
+  const chunks = chunkScript(turn, 80);
+
+  assert(chunks.length > 1);
+  for (const chunk of chunks) assert(chunk.startsWith('Joe: '));
+});
+
+Deno.test('joins PCM with zeroed silence between parts', () => {
+  const a = new Uint8Array([1, 1, 1, 1]);
+  const b = new Uint8Array([2, 2]);
+  const joined = joinPcm([a, b], 1);
+  const silenceBytes = Math.round(PCM_SAMPLE_RATE / 1000) * 2;
+
+  assertEquals(joined.length, a.length + silenceBytes + b.length);
+  assertEquals(joined.slice(a.length, a.length + silenceBytes).every((byte) => byte === 0), true);
+  assertEquals(joined.slice(-2), b);
+});
+
+Deno.test('synthesizes every chunk with bounded concurrency', async () => {
+  const provider = new FlakyProvider();
+  const script = Array.from({ length: 12 }, (_, i) => `${i % 2 ? 'Jane' : 'Joe'}: Turn ${i}.`).join('\n');
+
+  const { pcm: audio } = await synthesizeChunkedSpeech(provider, request(script), { ...FAST, maxChunkChars: 20, concurrency: 2 });
+  const pcm = base64ToBytes(audio);
+
+  assertEquals(provider.calls, 12);
+  assertEquals(provider.peak, 2);
+  // Fake provider: half a second per line, 16-bit samples
+  assertEquals(pcm.length, 12 * 0.5 * PCM_SAMPLE_RATE * 2);
+});
+
+Deno.test('retries a failing chunk without redoing the others', async () => {
+  const provider = new FlakyProvider('Turn 3', 2);
+  const script = Array.from({ length: 6 }, (_, i) => `Joe: Turn ${i}.`).join('\n');
+
+  await synthesizeChunkedSpeech(provider, request(script), { ...FAST, maxChunkChars: 15, maxAttempts: 3 });
+
+  assertEquals(provider.calls, 6 + 2);
+});
+
+Deno.test('fails once a chunk exhausts its retries', async () => {
+  const provider = new FlakyProvider('Turn 1', 5);
+  const script = 'Joe: Turn 0.\nJane: Turn 1.';
+
+  await assertRejects(
+    () => synthesizeChunkedSpeech(provider, request(script), { ...FAST, maxChunkChars: 15, maxAttempts: 2 }),
+    Error,
+    '503'
+  );
+});
+
+Deno.test('starts a chapter at each story marker and never speaks the marker', async () => {
+  const provider = new FlakyProvider();
+  const script = [
+    'Joe: Welcome back.',
+    '[STORY: Rates Hold]',
+    'Jane: Rates held.',
+    'Joe: Why?',
+    '**[STORY: Flood Defenses]**',
+    'Jane: Sea walls.',
+  ].join('\n');
+
+  // Without the markers the whole script would fit in one chunk
+  const { chapters } = await synthesizeChunkedSpeech(provider, request(script), { ...FAST, silenceMs: 100 });
+
+  assertEquals(provider.scripts.length, 3);
+  assert(provider.scripts.every((chunk) => !chunk.includes('STORY')));
+  // Half a second per line, plus 100ms of silence before each later chunk
+  assertEquals(chapters, [
+    { title: 'Intro', start: 0 },
+    { title: 'Rates Hold', start: 0.6 },
+    { title: 'Flood Defenses', start: 1.7 },
+  ]);
+});
+
+Deno.test('returns no chapters for a script without story markers', async () => {
+  const { chapters } = await synthesizeChunkedSpeech(new FakeProvider(), request('Joe: Hi.\nJane: Hello.'), FAST);
+  assertEquals(chapters, []);
+});
+
+Deno.test('splits a script into sections on story markers', () => {
+  assertEquals(splitScriptSections('[STORY: Only Story]\nJoe: Hi.'), [{ title: 'Only Story', script: 'Joe: Hi.' }]);
+  assertEquals(stripStoryMarkers('Joe: Hi.\n[STORY: Next]\nJane: Yo.'), 'Joe: Hi.\nJane: Yo.');
+});
+
+Deno.test('times each turn within its chunk in proportion to its length', async () => {
+  const script = 'Joe: One two three four.\nJane: Five.\n[STORY: Next]\nJoe: Six seven.';
+  const { transcript } = await synthesizeChunkedSpeech(new FakeProvider(), request(script), { ...FAST, silenceMs: 100 });
+
+  // First chunk is a second long (two lines) and its first turn has four times the text
+  assertEquals(transcript, [
+    { speaker: 'Joe', text: 'One two three four.', start: 0, end: 0.79 },
+    { speaker: 'Jane', text: 'Five.', start: 0.79, end: 1 },
+    { speaker: 'Joe', text: 'Six seven.', start: 1.1, end: 1.6 },
+  ]);
+});
+
+Deno.test('generateAudio returns a WAV built from the joined chunks', async () => {
+  const gemini = new GeminiService(new FlakyProvider('Jane', 1), { retryDelayMs: 0, maxChunkChars: 20 });
+  const result = await gemini.generateAudio('Joe: Hello there.\nJane: Hi Joe.\nJoe: Goodbye.');
+
+  assert(result.data);
+  const wav = base64ToBytes(result.data);
+  assertEquals(new TextDecoder().decode(wav.slice(0, 4)), 'RIFF');
+  // Three half-second lines plus two default inter-chunk pauses
+  assert(wav.length > 44 + 3 * 0.5 * PCM_SAMPLE_RATE * 2);
+});
@@ -0,0 +1,81 @@
+// ==================== STORY PARSING TESTS ====================
+// Schema validation of the news step's JSON stories and the markdown fallback.
+
+import { assert, assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { MAX_STORIES, parseStories, storiesFromMarkdown, storiesToMarkdown, validateStory } from '../shared/stories.ts';
+
+const BODY = 'Officials confirmed the plan on Tuesday after weeks of debate, and critics say key questions about funding remain open.';
+const STORY = {
+  headline: 'Parliament Passes Budget',
+  summary: 'The budget passed after weeks of protests.',
+  body: BODY,
+  entities: ['Parliament', 'Finance Ministry'],
+  sources: [{ title: 'Reuters', url: 'https://www.reuters.com/budget' }],
+  sentiment: 'neutral',
+};
+
+Deno.test('parses a fenced JSON answer with text around it', () => {
+  const { stories, errors } = parseStories(`Here you go:\n\`\`\`json\n${JSON.stringify([STORY])}\n\`\`\``);
+  assertEquals(errors, []);
+  assertEquals(stories, [STORY]);
+});
+
+Deno.test('accepts an object with a stories list', () => {
+  assertEquals(parseStories(JSON.stringify({ stories: [STORY] })).stories.length, 1);
+});
+
+Deno.test('drops invalid stories and reports why', () => {
+  const { stories, errors } = parseStories(JSON.stringify([
+    STORY,
+    { ...STORY, headline: '' },
+    { ...STORY, body: 'Too short.', sentiment: 'angry' },
+  ]));
+
+  assertEquals(stories.length, 1);
+  assertEquals(errors, [
+    'story 2: headline is required',
+    'story 3: body is shorter than 80 characters',
+    'story 3: sentiment must be one of positive, negative, neutral, mixed',
+  ]);
+});
+
+Deno.test('cleans optional lists instead of failing the story', () => {
+  const { story } = validateStory({
+    ...STORY,
+    sentiment: ' Mixed ',
+    entities: ['Parliament', 'Parliament', '', 7],
+    sources: [
+      { title: 'Reuters', url: 'https://www.reuters.com/budget' },
+      { title: 'Duplicate', url: 'https://www.reuters.com/budget' },
+      { title: 'Not a link', url: 'javascript:alert(1)' },
+      { url: 'https://apnews.com/budget' },
+    ],
+  });
+
+  assertEquals(story?.sentiment, 'mixed');
+  assertEquals(story?.entities, ['Parliament']);
+  assertEquals(story?.sources, [
+    { title: 'Reuters', url: 'https://www.reuters.com/budget' },
+    { title: 'apnews.com', url: 'https://apnews.com/budget' },
+  ]);
+});
+
+Deno.test('returns no stories for an answer that is not JSON', () => {
+  assertEquals(parseStories('**Headline**\n\nSome text').stories, []);
+  assertEquals(parseStories('[{"headline": ').errors.length, 1);
+  assertEquals(parseStories('{"topic": "x"}').errors, ['expected a list of stories']);
+});
+
+Deno.test('keeps at most five stories', () => {
+  assertEquals(parseStories(JSON.stringify(Array(7).fill(STORY))).stories.length, MAX_STORIES);
+});
+
+Deno.test('round-trips stories through the markdown briefing', () => {
+  const markdown = storiesToMarkdown([STORY as any, { ...STORY, headline: 'Second Story' } as any]);
+  assertEquals(markdown, `**Parliament Passes Budget**\n\n${BODY}\n\n**Second Story**\n\n${BODY}`);
+
+  const stories = storiesFromMarkdown(`# **Parliament Passes Budget**\n\n${BODY}\n\n**Second Story**\n\n${BODY}`);
+  assertEquals(stories.map((s) => s.headline), ['Parliament Passes Budget', 'Second Story']);
+  assertEquals(stories[0].summary, 'Officials confirmed the plan on Tuesday after weeks of debate, and critics say key questions about funding remain open.');
+  assert(stories.every((s) => s.sentiment === 'neutral' && s.entities.length === 0));
+});
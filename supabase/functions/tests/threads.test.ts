@@ -0,0 +1,46 @@
+// ==================== STORY THREAD TESTS ====================
+// Overlap scoring and the follow-up decisions that link stories into threads.
+
+import { assert, assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import type { Story } from '../shared/stories.ts';
+import { findThread, storyOverlap, type ThreadCandidate } from '../shared/threads.ts';
+
+const story = (headline: string, entities: string[]): Story => ({
+  headline,
+  summary: `${headline} summary`,
+  body: `${headline} body`,
+  entities,
+  sources: [],
+  sentiment: 'neutral',
+});
+
+const candidate = (headline: string, entities: string[], thread_id: string | null, date: string, embedding: number[] | null = null): ThreadCandidate =>
+  ({ headline, entities, embedding, thread_id, date });
+
+const STRIKE_DAY_ONE = candidate('Rail Strike Halts Commuter Trains', ['Rail union', 'Transport ministry'], 'thread-rail', '2026-02-07');
+const STRIKE_DAY_TWO = candidate('Rail Strike Talks Collapse', ['Rail union'], 'thread-rail', '2026-02-08');
+const FLOODS = candidate('Coastal Flood Walls Funded', ['City council'], 'thread-floods', '2026-02-08', [0, 1]);
+
+Deno.test('scores entity and headline overlap', () => {
+  assertEquals(storyOverlap(story('Rail Strike Enters Third Day', ['rail union']), STRIKE_DAY_ONE), (1 + 2 / 7) / 2);
+  assertEquals(storyOverlap(story('Markets Rally', ['Stock exchange']), STRIKE_DAY_ONE), 0);
+  assertEquals(storyOverlap(story('Untagged', []), story('Untagged', [])), 0.5);
+});
+
+Deno.test('joins the thread of an overlapping story and points at its latest coverage', () => {
+  const match = findThread(story('Rail Strike Enters Third Day', ['Rail union']), undefined, [STRIKE_DAY_ONE, STRIKE_DAY_TWO, FLOODS]);
+
+  assertEquals(match?.threadId, 'thread-rail');
+  assertEquals(match?.previous.headline, 'Rail Strike Talks Collapse');
+  assert(match!.score >= 0.5);
+});
+
+Deno.test('joins a thread on embedding similarity alone', () => {
+  const match = findThread(story('Sea Barriers Approved', ['Engineers']), [0.1, 1], [STRIKE_DAY_ONE, FLOODS]);
+  assertEquals(match?.threadId, 'thread-floods');
+});
+
+Deno.test('starts a new thread for unrelated stories and ignores unthreaded ones', () => {
+  assertEquals(findThread(story('Markets Rally', ['Stock exchange']), [1, 0], [STRIKE_DAY_ONE, FLOODS]), null);
+  assertEquals(findThread(story('Rail Strike Halts Commuter Trains', ['Rail union']), undefined, [{ ...STRIKE_DAY_ONE, thread_id: null }]), null);
+});
@@ -0,0 +1,34 @@
+-- Async Generation Jobs
+-- generate-edition can enqueue a job instead of holding the request open for the
+-- whole news → script → art → summary chain. Jobs reuse generation_status (one row
+-- per edition combo per day), so a second request for the same combo joins the
+-- in-flight job instead of starting another one.
+
+ALTER TABLE generation_status
+ADD COLUMN IF NOT EXISTS stage VARCHAR(20),  -- 'queued', 'researching', 'scripting', 'art', 'summary', 'audio', 'complete'
+ADD COLUMN IF NOT EXISTS user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,  -- Who started the job
+ADD COLUMN IF NOT EXISTS edition_id UUID REFERENCES daily_editions(id) ON DELETE SET NULL,  -- Set when the job succeeds
+ADD COLUMN IF NOT EXISTS request JSONB;  -- voiceId/generateAudio the job was started with
+
+COMMENT ON COLUMN generation_status.stage IS
+'Current pipeline step while status = generating, polled by the client via
+generate-edition { action: "job-status" } to drive the progress bar';
+
+-- A job can be polled by whoever started it (user_id) and by the listeners who joined
+-- it, who are recorded here. generate-edition answers anyone else with 404.
+CREATE TABLE IF NOT EXISTS generation_job_listeners (
+  job_id UUID NOT NULL REFERENCES generation_status(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  joined_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (job_id, user_id)
+);
+
+ALTER TABLE generation_job_listeners ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own job listens"
+ON generation_job_listeners FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can join jobs as themselves"
+ON generation_job_listeners FOR INSERT
+WITH CHECK (auth.uid() = user_id);
@@ -0,0 +1,13 @@
+-- Compressed Episode Audio
+-- Voice variants used to store the raw 24kHz WAV as a base64 data URI in audio_url.
+-- Audio is now encoded to MP3 and uploaded to the vox-media bucket, so audio_url is
+-- a storage URL and the encoding details live alongside it.
+
+ALTER TABLE voice_variants
+ADD COLUMN IF NOT EXISTS duration_seconds DECIMAL(8, 2),  -- Exact episode length from the PCM sample count
+ADD COLUMN IF NOT EXISTS audio_format VARCHAR(10),        -- 'mp3' (or 'wav' if encoding failed)
+ADD COLUMN IF NOT EXISTS audio_bytes INTEGER;             -- Stored object size
+
+COMMENT ON COLUMN voice_variants.audio_url IS
+'Public vox-media storage URL for the encoded episode. Rows created before
+compressed audio (and uploads that failed) hold a data URI instead';
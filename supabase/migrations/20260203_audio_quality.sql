@@ -0,0 +1,16 @@
+-- Plan Audio Quality
+-- PLAN_LIMITS.audioQuality is now honoured end to end: Free renders at 24kHz, Pro at
+-- 48kHz. The same edition/voice can exist at both qualities, so quality becomes part
+-- of the voice variant's identity.
+
+ALTER TABLE voice_variants
+ADD COLUMN IF NOT EXISTS audio_quality VARCHAR(10) NOT NULL DEFAULT '24khz'
+  CHECK (audio_quality IN ('24khz', '48khz')),
+ADD COLUMN IF NOT EXISTS sample_rate INTEGER;  -- Hz of the stored file (24000 or 48000)
+
+-- Rows from before this migration were all rendered at 24kHz
+UPDATE voice_variants SET sample_rate = 24000 WHERE sample_rate IS NULL;
+
+ALTER TABLE voice_variants DROP CONSTRAINT IF EXISTS voice_variants_edition_id_voice_id_key;
+ALTER TABLE voice_variants
+ADD CONSTRAINT voice_variants_edition_voice_quality_key UNIQUE (edition_id, voice_id, audio_quality);
@@ -0,0 +1,24 @@
+-- Podcast Feeds
+-- podcast-feed serves RSS of a user's episodes (and region/language channels) to
+-- podcast apps. Apps can't send a JWT, so each user gets one random token that
+-- lives in the feed URL; rotating it invalidates every subscribed copy.
+
+CREATE TABLE IF NOT EXISTS podcast_feed_tokens (
+  user_id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  token text NOT NULL UNIQUE,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  last_accessed_at timestamp with time zone,  -- Last poll from a podcast app
+
+  CONSTRAINT feed_token_format CHECK (token ~ '^[a-z0-9]{32}$')
+);
+
+ALTER TABLE podcast_feed_tokens ENABLE ROW LEVEL SECURITY;
+
+-- Users can see their own token; the edge function manages rows with the service role
+CREATE POLICY "Users can view own feed token"
+ON podcast_feed_tokens FOR SELECT
+USING (auth.uid() = user_id);
+
+-- Channel feeds list editions newest first per region/language
+CREATE INDEX IF NOT EXISTS idx_daily_editions_region_language_date
+ON daily_editions(region, language, date DESC);
@@ -0,0 +1,11 @@
+-- Episode Chapters
+-- Scripts mark each story with a "[STORY: ...]" line and TTS records where each one
+-- starts in the audio. Every voice variant stores its own list because voices pace
+-- the same script differently; the edition keeps the list from its first render.
+-- Shape: [{ "title": "Central Banks Hold Rates", "start": 12.4 }, ...] (start in seconds)
+
+ALTER TABLE voice_variants
+ADD COLUMN IF NOT EXISTS chapters JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+ALTER TABLE daily_editions
+ADD COLUMN IF NOT EXISTS chapters JSONB;
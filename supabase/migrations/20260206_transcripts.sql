@@ -0,0 +1,8 @@
+-- Timed Transcripts
+-- Each voice variant stores its spoken turns with estimated start/end times so the
+-- player can highlight the current line and seek when a line is clicked. Times are
+-- per variant for the same reason chapters are: voices pace the script differently.
+-- Shape: [{ "speaker": "Alex", "text": "Welcome back...", "start": 0, "end": 3.2 }, ...]
+
+ALTER TABLE voice_variants
+ADD COLUMN IF NOT EXISTS transcript JSONB NOT NULL DEFAULT '[]'::jsonb;
@@ -0,0 +1,69 @@
+-- Topic Channels
+-- Users define their own beats ("AI policy", "Colombian coffee exports") on top of the
+-- region/language editions. Each channel gets one briefing per region/language/day,
+-- cached under its own channel_id so it never collides with the shared editions.
+
+CREATE TABLE IF NOT EXISTS topic_channels (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  include_keywords text[] NOT NULL DEFAULT '{}',   -- At least one must be central to each story
+  exclude_keywords text[] NOT NULL DEFAULT '{}',   -- Stories about these are left out
+  preferred_sources text[] NOT NULL DEFAULT '{}',  -- Outlets or domains to favour when researching
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+
+  CONSTRAINT topic_channel_name_length CHECK (char_length(btrim(name)) BETWEEN 1 AND 60),
+  CONSTRAINT topic_channel_keywords CHECK (cardinality(include_keywords) BETWEEN 1 AND 20),
+  CONSTRAINT topic_channel_excludes CHECK (cardinality(exclude_keywords) <= 20),
+  CONSTRAINT topic_channel_sources CHECK (cardinality(preferred_sources) <= 10)
+);
+
+CREATE INDEX IF NOT EXISTS idx_topic_channels_user_id ON topic_channels(user_id);
+
+ALTER TABLE topic_channels ENABLE ROW LEVEL SECURITY;
+
+-- The app manages channels directly; each user sees and edits only their own
+CREATE POLICY "Users can view own topic channels"
+ON topic_channels FOR SELECT
+USING (auth.uid() = user_id);
+
+-- Capped at 10 per user so the tuner stays usable
+CREATE POLICY "Users can create topic channels"
+ON topic_channels FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND (SELECT count(*) FROM topic_channels c WHERE c.user_id = auth.uid()) < 10
+);
+
+CREATE POLICY "Users can update own topic channels"
+ON topic_channels FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own topic channels"
+ON topic_channels FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Channel editions and their jobs; NULL for the shared Morning/Midday/Evening editions.
+-- Deleting a channel drops its cached briefings (and their voice variants) with it.
+ALTER TABLE daily_editions
+ADD COLUMN IF NOT EXISTS channel_id uuid REFERENCES topic_channels(id) ON DELETE CASCADE;
+
+ALTER TABLE generation_status
+ADD COLUMN IF NOT EXISTS channel_id uuid REFERENCES topic_channels(id) ON DELETE CASCADE;
+
+-- One edition (and one job) per combo per day, where "no channel" counts as a value
+ALTER TABLE daily_editions
+DROP CONSTRAINT IF EXISTS daily_editions_edition_type_region_language_date_key;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_daily_editions_unique
+ON daily_editions(edition_type, region, language, date, channel_id) NULLS NOT DISTINCT;
+
+DROP INDEX IF EXISTS idx_gen_status_unique;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_gen_status_unique
+ON generation_status(edition_type, region, language, generation_date, channel_id) NULLS NOT DISTINCT;
+
+CREATE INDEX IF NOT EXISTS idx_daily_editions_channel_id
+ON daily_editions(channel_id) WHERE channel_id IS NOT NULL;
@@ -0,0 +1,31 @@
+-- Episode Formats
+-- Editions are scripted to a format preset (flash, classic, standard, deep-dive,
+-- monologue, interview) that sets the word budget, story count and host setup. The
+-- same edition in two formats has two different scripts, so the format is part of
+-- the cache key for editions and their generation jobs.
+--
+-- Existing rows were all scripted to the old fixed 1:30, 350-385 word briefing, which
+-- is the 'classic' preset. They are backfilled to it so a request for the 5-minute
+-- 'standard' format is never served one of them from cache. 'classic' stays the
+-- default (DEFAULT_EPISODE_FORMAT): scheduled generation and clients that don't pick a
+-- format keep the old length and cost; the longer presets are opt-in.
+
+ALTER TABLE daily_editions
+ADD COLUMN IF NOT EXISTS episode_format VARCHAR(20) NOT NULL DEFAULT 'classic';
+
+ALTER TABLE generation_status
+ADD COLUMN IF NOT EXISTS episode_format VARCHAR(20) NOT NULL DEFAULT 'classic';
+
+ALTER TABLE daily_editions
+ADD CONSTRAINT daily_editions_episode_format_check
+CHECK (episode_format IN ('flash', 'classic', 'standard', 'deep-dive', 'monologue', 'interview'));
+
+DROP INDEX IF EXISTS idx_daily_editions_unique;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_daily_editions_unique
+ON daily_editions(edition_type, region, language, date, channel_id, episode_format) NULLS NOT DISTINCT;
+
+DROP INDEX IF EXISTS idx_gen_status_unique;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_gen_status_unique
+ON generation_status(edition_type, region, language, generation_date, channel_id, episode_format) NULLS NOT DISTINCT;
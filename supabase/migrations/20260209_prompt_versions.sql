@@ -0,0 +1,8 @@
+-- Prompt Template Versions
+-- The news research and podcast script prompts come from a versioned template
+-- registry (supabase/functions/shared/prompts.ts). Each edition records the
+-- template version used for each step, e.g. {"news": "news.es@1", "script": "script.es@1"},
+-- so output can be traced back to the prompt that produced it. Older editions stay NULL.
+
+ALTER TABLE daily_editions
+ADD COLUMN IF NOT EXISTS prompt_versions JSONB;
@@ -0,0 +1,86 @@
+-- Multi-language Pre-generation
+-- Portuguese, French and German editions are pre-generated like English and Spanish.
+-- They run as their own jobs 30 minutes after the en/es jobs so each scheduled-generation
+-- call stays at 6 regions x 2-3 languages. scheduled-generation maps the codes to the
+-- language names editions are stored under.
+-- Requires pg_cron (see 20260131_phase2_cron_jobs.sql).
+
+-- ==================== MORNING EDITION, PT/FR/DE (6:30 AM UTC) ====================
+SELECT cron.schedule(
+  'scheduled-generation-morning-pt-fr-de',
+  '30 6 * * *',
+  $$
+  SELECT
+    net.http_post(
+      concat(
+        (current_setting('app.supabase_url')),
+        '/functions/v1/scheduled-generation'
+      ),
+      jsonb_build_object(
+        'editionType', 'Morning',
+        'regions', ARRAY['us', 'global', 'colombia', 'venezuela', 'europe', 'asia'],
+        'languages', ARRAY['pt', 'fr', 'de']
+      ),
+      headers := jsonb_build_object(
+        'Content-Type', 'application/json',
+        'Authorization', 'Bearer ' || current_setting('app.supabase_service_role_key')
+      ),
+      timeout_milliseconds := 300000
+    ) AS request_id
+  $$
+);
+
+-- ==================== MIDDAY EDITION, PT/FR/DE (12:30 PM UTC) ====================
+SELECT cron.schedule(
+  'scheduled-generation-midday-pt-fr-de',
+  '30 12 * * *',
+  $$
+  SELECT
+    net.http_post(
+      concat(
+        (current_setting('app.supabase_url')),
+        '/functions/v1/scheduled-generation'
+      ),
+      jsonb_build_object(
+        'editionType', 'Midday',
+        'regions', ARRAY['us', 'global', 'colombia', 'venezuela', 'europe', 'asia'],
+        'languages', ARRAY['pt', 'fr', 'de']
+      ),
+      headers := jsonb_build_object(
+        'Content-Type', 'application/json',
+        'Authorization', 'Bearer ' || current_setting('app.supabase_service_role_key')
+      ),
+      timeout_milliseconds := 300000
+    ) AS request_id
+  $$
+);
+
+-- ==================== EVENING EDITION, PT/FR/DE (6:30 PM UTC) ====================
+SELECT cron.schedule(
+  'scheduled-generation-evening-pt-fr-de',
+  '30 18 * * *',
+  $$
+  SELECT
+    net.http_post(
+      concat(
+        (current_setting('app.supabase_url')),
+        '/functions/v1/scheduled-generation'
+      ),
+      jsonb_build_object(
+        'editionType', 'Evening',
+        'regions', ARRAY['us', 'global', 'colombia', 'venezuela', 'europe', 'asia'],
+        'languages', ARRAY['pt', 'fr', 'de']
+      ),
+      headers := jsonb_build_object(
+        'Content-Type', 'application/json',
+        'Authorization', 'Bearer ' || current_setting('app.supabase_service_role_key')
+      ),
+      timeout_milliseconds := 300000
+    ) AS request_id
+  $$
+);
+
+-- ==================== UNSCHEDULE JOBS (if needed) ====================
+-- SELECT cron.unschedule('scheduled-generation-morning-pt-fr-de');
+-- SELECT cron.unschedule('scheduled-generation-midday-pt-fr-de');
+-- SELECT cron.unschedule('scheduled-generation-evening-pt-fr-de');
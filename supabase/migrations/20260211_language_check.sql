@@ -0,0 +1,8 @@
+-- Language Check
+-- generate-edition identifies the language of the news briefing and script and
+-- regenerates a step that comes back in the wrong language (bounded attempts).
+-- The outcome per step is stored with the edition, e.g.
+-- {"news": {"detected": "Spanish", "confidence": 0.21, "attempts": 2, "valid": true}, "script": {...}}
+
+ALTER TABLE daily_editions
+ADD COLUMN IF NOT EXISTS language_check JSONB;
@@ -0,0 +1,121 @@
+-- Structured Stories
+-- The news step returns a validated JSON list of stories (headline, summary, body,
+-- entities, sources, sentiment; see supabase/functions/shared/stories.ts). Each story
+-- is stored as its own row linked to the edition, in briefing order. The markdown
+-- briefing in daily_editions.content is still rendered from them.
+
+-- Full-text search uses the edition language's dictionary; unknown languages fall
+-- back to 'simple'. IMMUTABLE so it can feed the generated column below.
+CREATE OR REPLACE FUNCTION story_search_config(p_language text)
+RETURNS regconfig
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE p_language
+    WHEN 'English' THEN 'english'::regconfig
+    WHEN 'Spanish' THEN 'spanish'::regconfig
+    WHEN 'Portuguese' THEN 'portuguese'::regconfig
+    WHEN 'French' THEN 'french'::regconfig
+    WHEN 'German' THEN 'german'::regconfig
+    ELSE 'simple'::regconfig
+  END;
+$$;
+
+-- Headline and entities rank above the summary, which ranks above the body
+CREATE OR REPLACE FUNCTION story_search_vector(p_language text, p_headline text, p_summary text, p_body text, p_entities text[])
+RETURNS tsvector
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT
+    setweight(to_tsvector(story_search_config(p_language), coalesce(p_headline, '')), 'A') ||
+    setweight(to_tsvector(story_search_config(p_language), array_to_string(p_entities, ' ')), 'A') ||
+    setweight(to_tsvector(story_search_config(p_language), coalesce(p_summary, '')), 'B') ||
+    setweight(to_tsvector(story_search_config(p_language), coalesce(p_body, '')), 'C');
+$$;
+
+CREATE TABLE IF NOT EXISTS stories (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  edition_id uuid NOT NULL REFERENCES daily_editions(id) ON DELETE CASCADE,
+  channel_id uuid REFERENCES topic_channels(id) ON DELETE CASCADE,  -- Copied from the edition for RLS
+  position smallint NOT NULL,                                         -- Order within the briefing, from 0
+  headline text NOT NULL,
+  summary text NOT NULL,
+  body text NOT NULL,
+  entities text[] NOT NULL DEFAULT '{}',
+  sources jsonb NOT NULL DEFAULT '[]',                                -- [{ title, url }]
+  sentiment text NOT NULL,
+  language text NOT NULL,
+  region text NOT NULL,
+  date date NOT NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  search_vector tsvector GENERATED ALWAYS AS (story_search_vector(language, headline, summary, body, entities)) STORED,
+
+  CONSTRAINT story_sentiment CHECK (sentiment IN ('positive', 'negative', 'neutral', 'mixed')),
+  CONSTRAINT story_sources_list CHECK (jsonb_typeof(sources) = 'array'),
+  UNIQUE (edition_id, position)
+);
+
+CREATE INDEX IF NOT EXISTS idx_stories_search ON stories USING GIN (search_vector);
+CREATE INDEX IF NOT EXISTS idx_stories_region_language_date ON stories(region, language, date DESC);
+
+ALTER TABLE stories ENABLE ROW LEVEL SECURITY;
+
+-- Shared editions' stories are readable by everyone signed in; channel stories only by the channel's owner
+CREATE POLICY "Users can view shared and own channel stories"
+ON stories FOR SELECT
+USING (
+  auth.role() = 'authenticated'
+  AND (
+    channel_id IS NULL
+    OR EXISTS (SELECT 1 FROM topic_channels c WHERE c.id = stories.channel_id AND c.user_id = auth.uid())
+  )
+);
+
+-- generate-edition writes with the caller's JWT and replaces the stories of editions it generated
+CREATE POLICY "Users can add stories to own editions"
+ON stories FOR INSERT
+WITH CHECK (EXISTS (SELECT 1 FROM daily_editions e WHERE e.id = stories.edition_id AND e.user_id = auth.uid()));
+
+CREATE POLICY "Users can delete stories of own editions"
+ON stories FOR DELETE
+USING (EXISTS (SELECT 1 FROM daily_editions e WHERE e.id = stories.edition_id AND e.user_id = auth.uid()));
+
+-- Ranked search over stories the caller can see (SECURITY INVOKER keeps RLS in force).
+-- Accepts web-search syntax: quoted phrases, OR, -excluded.
+CREATE OR REPLACE FUNCTION search_stories(
+  p_query text,
+  p_language text DEFAULT NULL,
+  p_region text DEFAULT NULL,
+  p_limit integer DEFAULT 20
+)
+RETURNS TABLE (
+  id uuid,
+  edition_id uuid,
+  edition_type text,
+  headline text,
+  summary text,
+  entities text[],
+  sentiment text,
+  language text,
+  region text,
+  date date,
+  rank real
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+  SELECT s.id, s.edition_id, e.edition_type::text, s.headline, s.summary, s.entities, s.sentiment,
+         s.language, s.region, s.date,
+         ts_rank(s.search_vector, websearch_to_tsquery(story_search_config(s.language), p_query)) AS rank
+  FROM stories s
+  JOIN daily_editions e ON e.id = s.edition_id
+  WHERE s.search_vector @@ websearch_to_tsquery(story_search_config(s.language), p_query)
+    AND (p_language IS NULL OR s.language = p_language)
+    AND (p_region IS NULL OR s.region = p_region)
+  ORDER BY rank DESC, s.date DESC
+  LIMIT least(greatest(p_limit, 1), 50);
+$$;
+
+GRANT EXECUTE ON FUNCTION search_stories(text, text, text, integer) TO authenticated;
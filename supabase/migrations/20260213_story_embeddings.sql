@@ -0,0 +1,14 @@
+-- Story Embeddings
+-- Each story is stored with an embedding of its headline and summary
+-- (text-embedding-004). generate-edition compares new stories against those of the
+-- last two days for the same region/language and drops near-duplicates after
+-- generation (see supabase/functions/shared/dedup.ts). Candidate sets are a few
+-- dozen stories, so similarity is computed in the function rather than in SQL.
+
+ALTER TABLE stories
+ADD COLUMN IF NOT EXISTS embedding real[];  -- NULL when embedding failed or for older stories
+
+-- What the similarity check did for each edition:
+-- {"attempts": 1, "rejected": [{"headline", "matched", "similarity"}], "merged": [...]}
+ALTER TABLE daily_editions
+ADD COLUMN IF NOT EXISTS story_dedup JSONB;
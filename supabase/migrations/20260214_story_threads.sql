@@ -0,0 +1,106 @@
+-- Story Threads
+-- Stories that follow up earlier coverage are linked into a thread (see
+-- supabase/functions/shared/threads.ts). generate-edition matches each new story
+-- against the stories of the past week for the same region/language by embedding
+-- similarity and entity/headline overlap; a match extends that thread, anything
+-- else starts a new one. The thread's stories make up its timeline.
+
+CREATE TABLE IF NOT EXISTS story_threads (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  region text NOT NULL,
+  language text NOT NULL,
+  channel_id uuid REFERENCES topic_channels(id) ON DELETE CASCADE,  -- Threads of a channel's editions stay with the channel
+  title text NOT NULL,                                                -- Headline of the story that started the thread
+  entities text[] NOT NULL DEFAULT '{}',                              -- Union of its stories' entities
+  first_seen date NOT NULL,
+  last_seen date NOT NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_story_threads_region_language_last_seen ON story_threads(region, language, last_seen DESC);
+
+ALTER TABLE stories ADD COLUMN IF NOT EXISTS thread_id uuid REFERENCES story_threads(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_stories_thread_id ON stories(thread_id, date);
+
+ALTER TABLE story_threads ENABLE ROW LEVEL SECURITY;
+
+-- Same visibility as stories: shared threads for everyone signed in, channel threads for the owner
+CREATE POLICY "Users can view shared and own channel threads"
+ON story_threads FOR SELECT
+USING (
+  auth.role() = 'authenticated'
+  AND (
+    channel_id IS NULL
+    OR EXISTS (SELECT 1 FROM topic_channels c WHERE c.id = story_threads.channel_id AND c.user_id = auth.uid())
+  )
+);
+
+-- Shared threads are what every listener's timeline shows, so there are no INSERT or
+-- UPDATE policies: generate-edition writes threads through record_story_thread, which
+-- only starts a thread or extends one (last_seen forward, entities added). A thread's
+-- title and scope never change once it exists.
+CREATE OR REPLACE FUNCTION record_story_thread(
+  p_thread_id uuid,   -- NULL starts a new thread
+  p_region text,
+  p_language text,
+  p_channel_id uuid,
+  p_title text,
+  p_entities text[],
+  p_date date
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id uuid;
+BEGIN
+  IF p_channel_id IS NOT NULL
+     AND NOT EXISTS (SELECT 1 FROM topic_channels c WHERE c.id = p_channel_id AND c.user_id = auth.uid()) THEN
+    RAISE EXCEPTION 'Topic channel not found';
+  END IF;
+
+  IF p_thread_id IS NULL THEN
+    INSERT INTO story_threads (region, language, channel_id, title, entities, first_seen, last_seen)
+    VALUES (p_region, p_language, p_channel_id, p_title, coalesce(p_entities, '{}'), p_date, p_date)
+    RETURNING id INTO v_id;
+    RETURN v_id;
+  END IF;
+
+  UPDATE story_threads
+  SET last_seen = greatest(last_seen, p_date),
+      entities = ARRAY(SELECT DISTINCT unnest(entities || coalesce(p_entities, '{}')))
+  WHERE id = p_thread_id
+    AND region = p_region
+    AND language = p_language
+    AND channel_id IS NOT DISTINCT FROM p_channel_id
+  RETURNING id INTO v_id;
+  RETURN v_id;  -- NULL when the thread is gone or out of scope
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION record_story_thread(uuid, text, text, uuid, text, text[], date) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION record_story_thread(uuid, text, text, uuid, text, text[], date) TO authenticated;
+
+-- Regenerating an edition or expiring its content deletes its stories; a thread
+-- left without stories is removed with them
+CREATE OR REPLACE FUNCTION delete_empty_story_thread()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.thread_id IS NOT NULL AND NOT EXISTS (SELECT 1 FROM stories WHERE thread_id = OLD.thread_id) THEN
+    DELETE FROM story_threads WHERE id = OLD.thread_id;
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS delete_empty_story_thread ON stories;
+CREATE TRIGGER delete_empty_story_thread
+AFTER DELETE ON stories
+FOR EACH ROW EXECUTE FUNCTION delete_empty_story_thread();
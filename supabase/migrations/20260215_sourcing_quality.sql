@@ -0,0 +1,9 @@
+-- Sourcing Quality
+-- Grounding links are saved with their outlet's credibility tier and bias label from
+-- the source registry in supabase/functions/shared/sources.ts:
+-- [{"uri", "title", "domain", "source", "credibility", "bias"}]
+-- Each edition also records a sourcing quality score computed from those links.
+
+-- {"score": 0-100 | null, "links": 6, "domains": 4, "tiers": {"high", "medium", "low", "unrated"}}
+ALTER TABLE daily_editions
+ADD COLUMN IF NOT EXISTS sourcing_quality JSONB;
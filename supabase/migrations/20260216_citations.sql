@@ -0,0 +1,8 @@
+-- Claim Citations
+-- Sentences of the briefing matched with Gemini's grounding supports, so each claim
+-- points at the grounding links that back it (see supabase/functions/shared/citations.ts).
+-- [{"text": "A sentence of content, verbatim.", "sources": [0, 2]}]
+-- Source numbers index into grounding_links.
+
+ALTER TABLE daily_editions
+ADD COLUMN IF NOT EXISTS citations JSONB NOT NULL DEFAULT '[]';
@@ -0,0 +1,189 @@
+-- Canonical Regions & Languages
+-- Editions are cached under the ids in supabase/functions/shared/locales.ts ('USA',
+-- 'English'), which is what the app requests. The cron jobs posted short codes ('us',
+-- 'en'), so pre-generated editions landed under keys no listener ever asked for.
+-- This reschedules the jobs with canonical ids (cron.schedule replaces a job of the
+-- same name) and moves rows stored under the old codes onto the canonical ids.
+-- Requires pg_cron (see 20260131_phase2_cron_jobs.sql).
+
+-- ==================== MORNING EDITION (6:00 AM UTC) ====================
+SELECT cron.schedule(
+  'scheduled-generation-morning',
+  '0 6 * * *',
+  $$
+  SELECT
+    net.http_post(
+      concat(
+        (current_setting('app.supabase_url')),
+        '/functions/v1/scheduled-generation'
+      ),
+      jsonb_build_object(
+        'editionType', 'Morning',
+        'regions', ARRAY['USA', 'Global', 'Colombia', 'Venezuela', 'Europe', 'Asia'],
+        'languages', ARRAY['English', 'Spanish']
+      ),
+      headers := jsonb_build_object(
+        'Content-Type', 'application/json',
+        'Authorization', 'Bearer ' || current_setting('app.supabase_service_role_key')
+      ),
+      timeout_milliseconds := 300000
+    ) AS request_id
+  $$
+);
+
+-- ==================== MIDDAY EDITION (12:00 PM UTC) ====================
+SELECT cron.schedule(
+  'scheduled-generation-midday',
+  '0 12 * * *',
+  $$
+  SELECT
+    net.http_post(
+      concat(
+        (current_setting('app.supabase_url')),
+        '/functions/v1/scheduled-generation'
+      ),
+      jsonb_build_object(
+        'editionType', 'Midday',
+        'regions', ARRAY['USA', 'Global', 'Colombia', 'Venezuela', 'Europe', 'Asia'],
+        'languages', ARRAY['English', 'Spanish']
+      ),
+      headers := jsonb_build_object(
+        'Content-Type', 'application/json',
+        'Authorization', 'Bearer ' || current_setting('app.supabase_service_role_key')
+      ),
+      timeout_milliseconds := 300000
+    ) AS request_id
+  $$
+);
+
+-- ==================== EVENING EDITION (6:00 PM UTC) ====================
+SELECT cron.schedule(
+  'scheduled-generation-evening',
+  '0 18 * * *',
+  $$
+  SELECT
+    net.http_post(
+      concat(
+        (current_setting('app.supabase_url')),
+        '/functions/v1/scheduled-generation'
+      ),
+      jsonb_build_object(
+        'editionType', 'Evening',
+        'regions', ARRAY['USA', 'Global', 'Colombia', 'Venezuela', 'Europe', 'Asia'],
+        'languages', ARRAY['English', 'Spanish']
+      ),
+      headers := jsonb_build_object(
+        'Content-Type', 'application/json',
+        'Authorization', 'Bearer ' || current_setting('app.supabase_service_role_key')
+      ),
+      timeout_milliseconds := 300000
+    ) AS request_id
+  $$
+);
+
+-- ==================== MORNING EDITION, PT/FR/DE (6:30 AM UTC) ====================
+SELECT cron.schedule(
+  'scheduled-generation-morning-pt-fr-de',
+  '30 6 * * *',
+  $$
+  SELECT
+    net.http_post(
+      concat(
+        (current_setting('app.supabase_url')),
+        '/functions/v1/scheduled-generation'
+      ),
+      jsonb_build_object(
+        'editionType', 'Morning',
+        'regions', ARRAY['USA', 'Global', 'Colombia', 'Venezuela', 'Europe', 'Asia'],
+        'languages', ARRAY['Portuguese', 'French', 'German']
+      ),
+      headers := jsonb_build_object(
+        'Content-Type', 'application/json',
+        'Authorization', 'Bearer ' || current_setting('app.supabase_service_role_key')
+      ),
+      timeout_milliseconds := 300000
+    ) AS request_id
+  $$
+);
+
+-- ==================== MIDDAY EDITION, PT/FR/DE (12:30 PM UTC) ====================
+SELECT cron.schedule(
+  'scheduled-generation-midday-pt-fr-de',
+  '30 12 * * *',
+  $$
+  SELECT
+    net.http_post(
+      concat(
+        (current_setting('app.supabase_url')),
+        '/functions/v1/scheduled-generation'
+      ),
+      jsonb_build_object(
+        'editionType', 'Midday',
+        'regions', ARRAY['USA', 'Global', 'Colombia', 'Venezuela', 'Europe', 'Asia'],
+        'languages', ARRAY['Portuguese', 'French', 'German']
+      ),
+      headers := jsonb_build_object(
+        'Content-Type', 'application/json',
+        'Authorization', 'Bearer ' || current_setting('app.supabase_service_role_key')
+      ),
+      timeout_milliseconds := 300000
+    ) AS request_id
+  $$
+);
+
+-- ==================== EVENING EDITION, PT/FR/DE (6:30 PM UTC) ====================
+SELECT cron.schedule(
+  'scheduled-generation-evening-pt-fr-de',
+  '30 18 * * *',
+  $$
+  SELECT
+    net.http_post(
+      concat(
+        (current_setting('app.supabase_url')),
+        '/functions/v1/scheduled-generation'
+      ),
+      jsonb_build_object(
+        'editionType', 'Evening',
+        'regions', ARRAY['USA', 'Global', 'Colombia', 'Venezuela', 'Europe', 'Asia'],
+        'languages', ARRAY['Portuguese', 'French', 'German']
+      ),
+      headers := jsonb_build_object(
+        'Content-Type', 'application/json',
+        'Authorization', 'Bearer ' || current_setting('app.supabase_service_role_key')
+      ),
+      timeout_milliseconds := 300000
+    ) AS request_id
+  $$
+);
+
+-- ==================== LEGACY CODES ====================
+-- failed_generations keeps its codes: retries go through generate-edition, which normalizes them
+CREATE TEMP TABLE legacy_regions (code text PRIMARY KEY, id text NOT NULL);
+INSERT INTO legacy_regions VALUES
+  ('us', 'USA'), ('global', 'Global'), ('colombia', 'Colombia'),
+  ('venezuela', 'Venezuela'), ('europe', 'Europe'), ('asia', 'Asia');
+
+CREATE TEMP TABLE legacy_languages (code text PRIMARY KEY, id text NOT NULL);
+INSERT INTO legacy_languages VALUES
+  ('en', 'English'), ('es', 'Spanish'), ('pt', 'Portuguese'), ('fr', 'French'), ('de', 'German');
+
+-- Editions already generated under the canonical key win; the legacy copy is left to expire
+UPDATE daily_editions e
+SET region = r.id
+FROM legacy_regions r
+WHERE e.region = r.code
+  AND NOT EXISTS (
+    SELECT 1 FROM daily_editions c
+    WHERE c.edition_type = e.edition_type AND c.region = r.id AND c.language = e.language
+      AND c.date = e.date AND c.channel_id IS NOT DISTINCT FROM e.channel_id
+      AND c.episode_format = e.episode_format
+  );
+
+UPDATE stories s SET region = r.id FROM legacy_regions r WHERE s.region = r.code;
+UPDATE story_threads t SET region = r.id FROM legacy_regions r WHERE t.region = r.code;
+
+UPDATE users u SET region = r.id FROM legacy_regions r WHERE u.region = r.code;
+UPDATE users u SET language = l.id FROM legacy_languages l WHERE u.language = l.code;
+
+DROP TABLE legacy_regions;
+DROP TABLE legacy_languages;
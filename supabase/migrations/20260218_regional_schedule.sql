@@ -0,0 +1,70 @@
+-- Regional Edition Schedule
+-- Editions are filed under the region's local date and pre-generated at 06:00, 12:00
+-- and 18:00 in the region's timezone (EDITION_WINDOWS in supabase/functions/shared/locales.ts)
+-- instead of at those hours UTC for every region. The fixed per-edition jobs are replaced
+-- by hourly ones without an editionType: scheduled-generation works out which regions
+-- are due each hour. English/Spanish and Portuguese/French/German still run as separate
+-- jobs half an hour apart so each call stays short.
+-- Requires pg_cron (see 20260131_phase2_cron_jobs.sql).
+
+-- ==================== RETIRE UTC JOBS ====================
+SELECT cron.unschedule(jobname)
+FROM cron.job
+WHERE jobname IN (
+  'scheduled-generation-morning',
+  'scheduled-generation-midday',
+  'scheduled-generation-evening',
+  'scheduled-generation-morning-pt-fr-de',
+  'scheduled-generation-midday-pt-fr-de',
+  'scheduled-generation-evening-pt-fr-de'
+);
+
+-- ==================== HOURLY, EN/ES (on the hour) ====================
+SELECT cron.schedule(
+  'scheduled-generation-hourly',
+  '0 * * * *',
+  $$
+  SELECT
+    net.http_post(
+      concat(
+        (current_setting('app.supabase_url')),
+        '/functions/v1/scheduled-generation'
+      ),
+      jsonb_build_object(
+        'languages', ARRAY['English', 'Spanish']
+      ),
+      headers := jsonb_build_object(
+        'Content-Type', 'application/json',
+        'Authorization', 'Bearer ' || current_setting('app.supabase_service_role_key')
+      ),
+      timeout_milliseconds := 300000
+    ) AS request_id
+  $$
+);
+
+-- ==================== HOURLY, PT/FR/DE (half past) ====================
+SELECT cron.schedule(
+  'scheduled-generation-hourly-pt-fr-de',
+  '30 * * * *',
+  $$
+  SELECT
+    net.http_post(
+      concat(
+        (current_setting('app.supabase_url')),
+        '/functions/v1/scheduled-generation'
+      ),
+      jsonb_build_object(
+        'languages', ARRAY['Portuguese', 'French', 'German']
+      ),
+      headers := jsonb_build_object(
+        'Content-Type', 'application/json',
+        'Authorization', 'Bearer ' || current_setting('app.supabase_service_role_key')
+      ),
+      timeout_milliseconds := 300000
+    ) AS request_id
+  $$
+);
+
+-- ==================== UNSCHEDULE JOBS (if needed) ====================
+-- SELECT cron.unschedule('scheduled-generation-hourly');
+-- SELECT cron.unschedule('scheduled-generation-hourly-pt-fr-de');
@@ -0,0 +1,82 @@
+-- Breaking News
+-- breaking-monitor scans each region's trending topics every 15 minutes and keeps
+-- the scans (trend_scans) to compare the next one with. A topic whose outlet count
+-- jumps past the thresholds in supabase/functions/shared/breaking.ts starts a short
+-- 'Breaking' edition per language, filed like any edition with the topic it covers,
+-- and subscribers of that region/language get an in-app notification.
+-- Requires pg_cron (see 20260131_phase2_cron_jobs.sql).
+
+ALTER TABLE daily_editions
+ADD COLUMN IF NOT EXISTS breaking_topic text;  -- Set on 'Breaking' editions only
+
+-- ==================== TREND SCANS ====================
+CREATE TABLE IF NOT EXISTS trend_scans (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  region text NOT NULL,
+  topics jsonb NOT NULL DEFAULT '[]',  -- [{"topic": "...", "entities": [...], "sources": 7}]
+  spike jsonb,                         -- The topic that triggered a bulletin, if this scan did
+  scanned_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_trend_scans_region_scanned_at ON trend_scans(region, scanned_at DESC);
+
+-- Written and read by breaking-monitor with the service role only
+ALTER TABLE trend_scans ENABLE ROW LEVEL SECURITY;
+
+-- ==================== NOTIFICATIONS ====================
+CREATE TABLE IF NOT EXISTS notifications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  kind text NOT NULL,  -- 'breaking'
+  title text NOT NULL,
+  body text,
+  edition_id uuid REFERENCES daily_editions(id) ON DELETE SET NULL,
+  region text,
+  language text,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  read_at timestamp with time zone
+);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_unread ON notifications(user_id, created_at DESC) WHERE read_at IS NULL;
+
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own notifications"
+ON notifications FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can mark own notifications read"
+ON notifications FOR UPDATE
+USING (auth.uid() = user_id);
+
+-- ==================== MONITOR (every 15 minutes) ====================
+SELECT cron.schedule(
+  'breaking-monitor',
+  '*/15 * * * *',
+  $$
+  SELECT
+    net.http_post(
+      concat(
+        (current_setting('app.supabase_url')),
+        '/functions/v1/breaking-monitor'
+      ),
+      '{}'::jsonb,
+      headers := jsonb_build_object(
+        'Content-Type', 'application/json',
+        'Authorization', 'Bearer ' || current_setting('app.supabase_service_role_key')
+      ),
+      timeout_milliseconds := 300000
+    ) AS request_id
+  $$
+);
+
+-- Scans only matter for the next comparison and the cooldown
+SELECT cron.schedule(
+  'trend-scans-cleanup-daily',
+  '30 1 * * *',
+  $$DELETE FROM trend_scans WHERE scanned_at < now() - interval '2 days'$$
+);
+
+-- ==================== UNSCHEDULE JOBS (if needed) ====================
+-- SELECT cron.unschedule('breaking-monitor');
+-- SELECT cron.unschedule('trend-scans-cleanup-daily');
@@ -0,0 +1,66 @@
+-- Web Push
+-- Listeners follow editions (region/language/edition type) and get a push notification
+-- on each device they enabled it on when scheduled-generation or auto-retry-generation
+-- finishes one. Browsers subscribe through public/sw.js with the app's VAPID public key;
+-- the functions sign with VAPID_PUBLIC_KEY / VAPID_PRIVATE_KEY (see shared/push.ts).
+
+-- ==================== PUSH SUBSCRIPTIONS ====================
+CREATE TABLE IF NOT EXISTS push_subscriptions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  endpoint text NOT NULL UNIQUE,  -- Push service URL, one per browser profile
+  p256dh text NOT NULL,           -- Browser's encryption key (base64url)
+  auth text NOT NULL,             -- Browser's auth secret (base64url)
+  user_agent text,
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_push_subscriptions_user_id ON push_subscriptions(user_id);
+
+ALTER TABLE push_subscriptions ENABLE ROW LEVEL SECURITY;
+
+-- The app registers and removes its own device; the functions send with the service role
+CREATE POLICY "Users can view own push subscriptions"
+ON push_subscriptions FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can add own push subscriptions"
+ON push_subscriptions FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own push subscriptions"
+ON push_subscriptions FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own push subscriptions"
+ON push_subscriptions FOR DELETE
+USING (auth.uid() = user_id);
+
+-- ==================== EDITION FOLLOWS ====================
+CREATE TABLE IF NOT EXISTS edition_follows (
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  region text NOT NULL,
+  language text NOT NULL,
+  edition_type text NOT NULL CHECK (edition_type IN ('Morning', 'Midday', 'Evening')),
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+
+  PRIMARY KEY (user_id, region, language, edition_type)
+);
+
+-- Fan-out looks up the followers of the edition that just landed
+CREATE INDEX IF NOT EXISTS idx_edition_follows_edition ON edition_follows(edition_type, region, language);
+
+ALTER TABLE edition_follows ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own edition follows"
+ON edition_follows FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can follow editions"
+ON edition_follows FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can unfollow editions"
+ON edition_follows FOR DELETE
+USING (auth.uid() = user_id);
@@ -0,0 +1,39 @@
+-- Email Digest
+-- Listeners can opt in to an email of one edition (region/language/edition type): the
+-- flash summary, top stories, sources and a listen link, sent by email-digest when
+-- scheduled-generation or auto-retry-generation finishes that edition. Each row carries
+-- a random token for the one-click unsubscribe link, since mail clients have no session.
+
+CREATE TABLE IF NOT EXISTS digest_subscriptions (
+  user_id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  region text NOT NULL,
+  language text NOT NULL,
+  edition_type text NOT NULL CHECK (edition_type IN ('Morning', 'Midday', 'Evening')),
+  enabled boolean NOT NULL DEFAULT true,
+  unsubscribe_token text NOT NULL UNIQUE DEFAULT replace(gen_random_uuid()::text, '-', ''),
+  last_sent_edition_id uuid REFERENCES daily_editions(id) ON DELETE SET NULL,  -- Never sends an edition twice
+  last_sent_at timestamp with time zone,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+-- email-digest looks up the subscribers of the edition that just landed
+CREATE INDEX IF NOT EXISTS idx_digest_subscriptions_edition
+ON digest_subscriptions(edition_type, region, language)
+WHERE enabled;
+
+ALTER TABLE digest_subscriptions ENABLE ROW LEVEL SECURITY;
+
+-- The app picks the edition; sending and unsubscribe links run with the service role
+CREATE POLICY "Users can view own digest subscription"
+ON digest_subscriptions FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own digest subscription"
+ON digest_subscriptions FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own digest subscription"
+ON digest_subscriptions FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
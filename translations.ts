@@ -42,6 +42,10 @@ export const translations = {
     delete: "Delete",
     region: "Region",
     language: "Language",
+    breakingAlerts: "Breaking news alerts",
+    editionAlerts: "Notify me when ready",
+    emailDigest: "Email digest",
+    digestOff: "Off",
     targetLocation: "Target Location",
     savedSuccess: "Added to your vault",
     deletedSuccess: "Item removed from library",
@@ -62,7 +66,8 @@ export const translations = {
     archivePackage: "ARCHIVE INTELLIGENCE PACKAGE",
     listening: "Listening...",
     aiThinking: "Synthesizing response...",
-    micNotSupported: "Speech recognition not supported in this browser."
+    micNotSupported: "Speech recognition not supported in this browser.",
+    interceptingAudio: "Intercepting Audio..."
   },
   Spanish: {
     appName: "VoxTrends",
@@ -106,6 +111,10 @@ export const translations = {
     delete: "Eliminar",
     region: "Región",
     language: "Idioma",
+    breakingAlerts: "Alertas de última hora",
+    editionAlerts: "Avísame cuando esté lista",
+    emailDigest: "Resumen por correo",
+    digestOff: "Desactivado",
     targetLocation: "Ubicación Objetivo",
     savedSuccess: "Añadido a tu biblioteca",
     deletedSuccess: "Elemento eliminado de la biblioteca",
@@ -126,6 +135,214 @@ export const translations = {
     archivePackage: "ARCHIVAR PAQUETE DE INTELIGENCIA",
     listening: "Escuchando...",
     aiThinking: "Sintetizando respuesta...",
-    micNotSupported: "El reconocimiento de voz no es compatible con este navegador."
+    micNotSupported: "El reconocimiento de voz no es compatible con este navegador.",
+    interceptingAudio: "Interceptando Audio..."
+  },
+  Portuguese: {
+    appName: "VoxTrends",
+    landingTagline: "A primeira plataforma de podcast com IA que transforma a velocidade social em dossiês de pesquisa verificados.",
+    startListening: "COMEÇAR A OUVIR",
+    dashboard: "Painel",
+    library: "Minha Biblioteca",
+    proMember: "MEMBRO PRO",
+    broadcastCenter: "Central de Transmissão",
+    personalArchive: "Arquivo Pessoal",
+    channel: "Canal",
+    thePulse: "O Pulso.",
+    sync: "SINCRONIZAR",
+    processing: "PROCESSANDO...",
+    searching: "Buscando tendências sociais para",
+    writingScript: "Escrevendo roteiro da transmissão...",
+    vocalizing: "Narrando o boletim...",
+    saveToProfile: "Salvar no Perfil",
+    copyIntel: "Copiar Inteligência",
+    downloadAudio: "Baixar Áudio",
+    verifiedGrounding: "Fontes Verificadas",
+    syncPrompt: "Sincronize uma edição para analisar tendências em",
+    guidedResearcher: "Pesquisador Guiado",
+    targetTopic: "Escolha um tema.",
+    intensity: "Intensidade da Pesquisa",
+    audience: "Público-Alvo",
+    researching: "Pesquisando tema...",
+    synthesizing: "Sintetizando Dossiê...",
+    theBriefing: "O Boletim",
+    generateAudioDigest: "GERAR RESUMO EM ÁUDIO",
+    listenToDigest: "OUVIR RESUMO",
+    pauseBroadcast: "PAUSAR TRANSMISSÃO",
+    newInvestigation: "NOVA INVESTIGAÇÃO",
+    archived: "Arquivados",
+    preferences: "Preferências",
+    filesTotal: "ARQUIVOS NO TOTAL",
+    emptyLibrary: "Seu arquivo de pesquisa está vazio.",
+    startInvestigating: "Começar a Investigar",
+    copy: "Copiar",
+    download: "Baixar",
+    delete: "Excluir",
+    region: "Região",
+    language: "Idioma",
+    breakingAlerts: "Alertas de notícias urgentes",
+    editionAlerts: "Avise-me quando estiver pronta",
+    emailDigest: "Resumo por e-mail",
+    digestOff: "Desativado",
+    targetLocation: "Localização Alvo",
+    savedSuccess: "Adicionado à sua biblioteca",
+    deletedSuccess: "Item removido da biblioteca",
+    share: "Compartilhar",
+    shareIntel: "Compartilhar Inteligência",
+    exportPDF: "Exportar Relatório PDF",
+    generateVideo: "Gerar Audiograma",
+    generatingVideo: "Sintetizando Mídia...",
+    videoReady: "Audiograma Pronto",
+    downloadMP4: "Baixar Vídeo (MP4)",
+    close: "Fechar",
+    // Module 7
+    interrogateIntel: "Interrogar Inteligência",
+    askSomething: "Faça uma pergunta de acompanhamento...",
+    flashSummary: "Resumo Executivo Flash",
+    viewFlash: "VER RESUMO FLASH",
+    hideFlash: "OCULTAR RESUMO FLASH",
+    archivePackage: "ARQUIVAR PACOTE DE INTELIGÊNCIA",
+    listening: "Ouvindo...",
+    aiThinking: "Sintetizando resposta...",
+    micNotSupported: "O reconhecimento de voz não é compatível com este navegador.",
+    interceptingAudio: "Interceptando Áudio..."
+  },
+  French: {
+    appName: "VoxTrends",
+    landingTagline: "La première plateforme de podcast IA qui transforme la vélocité sociale en dossiers de recherche vérifiés.",
+    startListening: "COMMENCER L'ÉCOUTE",
+    dashboard: "Tableau de bord",
+    library: "Ma Bibliothèque",
+    proMember: "MEMBRE PRO",
+    broadcastCenter: "Centre de Diffusion",
+    personalArchive: "Archives Personnelles",
+    channel: "Chaîne",
+    thePulse: "Le Pouls.",
+    sync: "SYNCHRONISER",
+    processing: "TRAITEMENT...",
+    searching: "Recherche des tendances sociales pour",
+    writingScript: "Rédaction du script de diffusion...",
+    vocalizing: "Narration du bulletin...",
+    saveToProfile: "Enregistrer dans le Profil",
+    copyIntel: "Copier le Renseignement",
+    downloadAudio: "Télécharger l'Audio",
+    verifiedGrounding: "Sources Vérifiées",
+    syncPrompt: "Synchronisez une édition pour analyser les tendances en",
+    guidedResearcher: "Chercheur Guidé",
+    targetTopic: "Choisissez un sujet.",
+    intensity: "Intensité de Recherche",
+    audience: "Public Cible",
+    researching: "Recherche du sujet...",
+    synthesizing: "Synthèse du Dossier...",
+    theBriefing: "Le Bulletin",
+    generateAudioDigest: "GÉNÉRER LE RÉSUMÉ AUDIO",
+    listenToDigest: "ÉCOUTER LE RÉSUMÉ",
+    pauseBroadcast: "METTRE EN PAUSE",
+    newInvestigation: "NOUVELLE ENQUÊTE",
+    archived: "Archivés",
+    preferences: "Préférences",
+    filesTotal: "FICHIERS AU TOTAL",
+    emptyLibrary: "Vos archives de recherche sont vides.",
+    startInvestigating: "Commencer l'Enquête",
+    copy: "Copier",
+    download: "Télécharger",
+    delete: "Supprimer",
+    region: "Région",
+    language: "Langue",
+    breakingAlerts: "Alertes info en continu",
+    editionAlerts: "Me prévenir quand elle est prête",
+    emailDigest: "Résumé par e-mail",
+    digestOff: "Désactivé",
+    targetLocation: "Zone Ciblée",
+    savedSuccess: "Ajouté à votre bibliothèque",
+    deletedSuccess: "Élément retiré de la bibliothèque",
+    share: "Partager",
+    shareIntel: "Partager le Renseignement",
+    exportPDF: "Exporter le Rapport PDF",
+    generateVideo: "Générer un Audiogramme",
+    generatingVideo: "Synthèse du Média...",
+    videoReady: "Audiogramme Prêt",
+    downloadMP4: "Télécharger la Vidéo (MP4)",
+    close: "Fermer",
+    // Module 7
+    interrogateIntel: "Interroger le Renseignement",
+    askSomething: "Posez une question de suivi ou d'approfondissement...",
+    flashSummary: "Résumé Exécutif Flash",
+    viewFlash: "VOIR LE RÉSUMÉ FLASH",
+    hideFlash: "MASQUER LE RÉSUMÉ FLASH",
+    archivePackage: "ARCHIVER LE DOSSIER DE RENSEIGNEMENT",
+    listening: "Écoute...",
+    aiThinking: "Synthèse de la réponse...",
+    micNotSupported: "La reconnaissance vocale n'est pas prise en charge par ce navigateur.",
+    interceptingAudio: "Interception de l'Audio..."
+  },
+  German: {
+    appName: "VoxTrends",
+    landingTagline: "Die erste KI-Podcast-Plattform, die soziale Dynamik in verifizierte Recherche-Dossiers verwandelt.",
+    startListening: "JETZT ANHÖREN",
+    dashboard: "Übersicht",
+    library: "Meine Bibliothek",
+    proMember: "PRO-MITGLIED",
+    broadcastCenter: "Sendezentrale",
+    personalArchive: "Persönliches Archiv",
+    channel: "Kanal",
+    thePulse: "Der Puls.",
+    sync: "SYNCHRONISIEREN",
+    processing: "VERARBEITUNG...",
+    searching: "Suche nach sozialen Trends für",
+    writingScript: "Sendeskript wird geschrieben...",
+    vocalizing: "Briefing wird vertont...",
+    saveToProfile: "Im Profil speichern",
+    copyIntel: "Erkenntnisse kopieren",
+    downloadAudio: "Audio herunterladen",
+    verifiedGrounding: "Verifizierte Quellen",
+    syncPrompt: "Synchronisiere eine Ausgabe, um Trends zu analysieren in",
+    guidedResearcher: "Geführte Recherche",
+    targetTopic: "Wähle ein Thema.",
+    intensity: "Recherche-Intensität",
+    audience: "Zielgruppe",
+    researching: "Thema wird recherchiert...",
+    synthesizing: "Dossier wird erstellt...",
+    theBriefing: "Das Briefing",
+    generateAudioDigest: "AUDIO-ZUSAMMENFASSUNG ERSTELLEN",
+    listenToDigest: "ZUSAMMENFASSUNG ANHÖREN",
+    pauseBroadcast: "SENDUNG PAUSIEREN",
+    newInvestigation: "NEUE RECHERCHE",
+    archived: "Archiviert",
+    preferences: "Einstellungen",
+    filesTotal: "DATEIEN INSGESAMT",
+    emptyLibrary: "Dein Recherche-Archiv ist noch leer.",
+    startInvestigating: "Recherche starten",
+    copy: "Kopieren",
+    download: "Herunterladen",
+    delete: "Löschen",
+    region: "Region",
+    language: "Sprache",
+    breakingAlerts: "Eilmeldungen",
+    editionAlerts: "Benachrichtigen, wenn bereit",
+    emailDigest: "E-Mail-Zusammenfassung",
+    digestOff: "Aus",
+    targetLocation: "Zielregion",
+    savedSuccess: "Zu deiner Bibliothek hinzugefügt",
+    deletedSuccess: "Eintrag aus der Bibliothek entfernt",
+    share: "Teilen",
+    shareIntel: "Erkenntnisse teilen",
+    exportPDF: "PDF-Bericht exportieren",
+    generateVideo: "Audiogramm erstellen",
+    generatingVideo: "Medien werden erstellt...",
+    videoReady: "Audiogramm bereit",
+    downloadMP4: "Video herunterladen (MP4)",
+    close: "Schließen",
+    // Module 7
+    interrogateIntel: "Erkenntnisse hinterfragen",
+    askSomething: "Stelle eine Anschluss- oder Vertiefungsfrage...",
+    flashSummary: "Flash-Zusammenfassung",
+    viewFlash: "FLASH-ZUSAMMENFASSUNG ANZEIGEN",
+    hideFlash: "FLASH-ZUSAMMENFASSUNG AUSBLENDEN",
+    archivePackage: "ERKENNTNISPAKET ARCHIVIEREN",
+    listening: "Höre zu...",
+    aiThinking: "Antwort wird erstellt...",
+    micNotSupported: "Spracherkennung wird von diesem Browser nicht unterstützt.",
+    interceptingAudio: "Audio wird erfasst..."
   }
 };
@@ -1,3 +1,4 @@
+import { LANGUAGES, REGIONS } from './supabase/functions/shared/locales.ts';
 
 export interface User {
   name: string;
@@ -25,11 +26,35 @@ export interface SavedClip {
   imageUrl?: string | null;
   chatHistory?: ChatMessage[];
   flashSummary?: string;
+  links?: GroundingLink[];
+  citations?: Citation[];
 }
 
+export type SourceCredibility = 'high' | 'medium' | 'low' | 'unrated';
+export type SourceBias = 'left' | 'center-left' | 'center' | 'center-right' | 'right';
+
+// Links saved before source annotations have only uri and title
 export interface GroundingLink {
   uri: string;
   title: string;
+  domain?: string | null;
+  source?: string | null; // Outlet name from the source registry
+  credibility?: SourceCredibility;
+  bias?: SourceBias | null;
+}
+
+// A sentence of a briefing or research text and the grounding links that back it
+export interface Citation {
+  text: string;
+  sources: number[]; // Indexes into the links; shown as [1], [2], ...
+}
+
+// Edition-level sourcing score (0-100) computed from its grounding links
+export interface SourcingQuality {
+  score: number | null;
+  links: number;
+  domains: number;
+  tiers: Record<SourceCredibility, number>;
 }
 
 export interface ResearchDossier {
@@ -43,5 +68,67 @@ export interface ResearchDossier {
 export enum EditionType {
   MORNING = 'Morning',
   MIDDAY = 'Midday',
-  EVENING = 'Evening'
+  EVENING = 'Evening',
+  CHANNEL = 'Channel',  // A user's topic channel; one briefing per channel per day
+  BREAKING = 'Breaking'  // Short bulletin started by breaking-monitor on a trend spike
+}
+
+// Episode length/structure presets (EPISODE_FORMATS on the backend)
+export type EpisodeFormat = 'flash' | 'classic' | 'standard' | 'deep-dive' | 'monologue' | 'interview';
+
+export const EPISODE_FORMAT_OPTIONS: { id: EpisodeFormat; label: string; proOnly: boolean }[] = [
+  { id: 'flash', label: '60s Flash', proOnly: false },
+  { id: 'classic', label: '90s Classic', proOnly: false },
+  { id: 'standard', label: '5 min Standard', proOnly: false },
+  { id: 'deep-dive', label: '15 min Deep Dive', proOnly: true },
+  { id: 'monologue', label: 'Solo Host', proOnly: true },
+  { id: 'interview', label: 'Interview', proOnly: true },
+];
+
+export const DEFAULT_EPISODE_FORMAT: EpisodeFormat = 'classic';  // DEFAULT_EPISODE_FORMAT on the backend
+
+// Broadcast regions and languages come from the registry the backend uses, so the
+// ids the tuner sends match the editions the scheduler pre-generates
+export const REGION_OPTIONS: { id: string; label: string; free: boolean }[] = REGIONS;
+
+// speechLocale is used for voice questions
+export const LANGUAGE_OPTIONS: { id: string; label: string; speechLocale: string; free: boolean }[] =
+  LANGUAGES.map(({ id, label, locale, free }) => ({ id, label, speechLocale: locale, free }));
+
+// Steps reported by an async generate-edition job (see backend.generateEdition)
+export type GenerationStage = 'queued' | 'researching' | 'scripting' | 'art' | 'summary' | 'audio' | 'complete';
+
+// Output quality per plan (PLAN_LIMITS.audioQuality on the backend)
+export type AudioQuality = '24khz' | '48khz';
+
+export const AUDIO_SAMPLE_RATES: Record<AudioQuality, number> = {
+  '24khz': 24000,
+  '48khz': 48000,
+};
+
+// Start of a story within an episode's audio ([STORY: ...] markers in the script)
+export interface Chapter {
+  title: string;
+  start: number; // Seconds
+}
+
+// One spoken turn with its estimated position in the audio
+export interface TranscriptTurn {
+  speaker: string;
+  text: string;
+  start: number; // Seconds
+  end: number;
+}
+
+// One story of an edition's briefing, as structured by the news step
+export type StorySentiment = 'positive' | 'negative' | 'neutral' | 'mixed';
+
+export interface Story {
+  headline: string;
+  summary: string;
+  body: string;
+  entities: string[]; // People, organizations and places in the story
+  sources: { title: string; url: string }[];
+  sentiment: StorySentiment;
+  thread_id?: string | null; // Story thread linking follow-ups across editions
 }